@@ -17,16 +17,25 @@ import {
   InventoryTransactionDetailsPage,
   PackageSizesPage,
 } from '@/pages/Inventory';
+import { KitchenDisplayPage } from '@/pages/Kitchen';
 import { POSPage } from '@/pages/POS';
 import {
   CategoriesListPage,
+  DiscountsListPage,
   ModifierGroupManagePage,
   ModifiersListPage,
   ProductManagePage,
   ProductsListPage,
 } from '@/pages/Products';
-import { SettingsPage } from '@/pages/Settings';
+import { OrderBoardPage, OrderDetailPage, SalesHistoryPage } from '@/pages/Sales';
+import {
+  KitchenStationsPage,
+  PaymentTypesPage,
+  SettingsPage,
+  TaxRatesPage,
+} from '@/pages/Settings';
 import { ShopFormPage, ShopSelectionPage } from '@/pages/Shop';
+import { FloorPlanPage } from '@/pages/Tables';
 // Pages
 import Home from './pages/Home';
 
@@ -85,6 +94,11 @@ const App: React.FC = () => (
                   <ModifiersListPage />
                 </AuthGuard>
               </Route>
+              <Route exact path="/shops/:shopId/discounts">
+                <AuthGuard>
+                  <DiscountsListPage />
+                </AuthGuard>
+              </Route>
               <Route exact path="/shops/:shopId/products">
                 <AuthGuard>
                   <ProductsListPage />
@@ -128,6 +142,34 @@ const App: React.FC = () => (
                   <POSPage />
                 </AuthGuard>
               </Route>
+              {/* Tables Routes */}
+              <Route exact path="/shops/:shopId/tables">
+                <AuthGuard>
+                  <FloorPlanPage />
+                </AuthGuard>
+              </Route>
+              {/* Kitchen Routes */}
+              <Route exact path="/shops/:shopId/kitchen">
+                <AuthGuard>
+                  <KitchenDisplayPage />
+                </AuthGuard>
+              </Route>
+              {/* Sales Routes */}
+              <Route exact path="/shops/:shopId/sales">
+                <AuthGuard>
+                  <SalesHistoryPage />
+                </AuthGuard>
+              </Route>
+              <Route exact path="/shops/:shopId/order-board">
+                <AuthGuard>
+                  <OrderBoardPage />
+                </AuthGuard>
+              </Route>
+              <Route exact path="/shops/:shopId/orders/:orderId">
+                <AuthGuard>
+                  <OrderDetailPage />
+                </AuthGuard>
+              </Route>
               {/* Settings Routes */}
               <Route exact path="/shops/:shopId/settings">
                 <AuthGuard>
@@ -139,6 +181,21 @@ const App: React.FC = () => (
                   <ShopFormPage />
                 </AuthGuard>
               </Route>
+              <Route exact path="/shops/:shopId/settings/tax-rates">
+                <AuthGuard>
+                  <TaxRatesPage />
+                </AuthGuard>
+              </Route>
+              <Route exact path="/shops/:shopId/settings/kitchen-stations">
+                <AuthGuard>
+                  <KitchenStationsPage />
+                </AuthGuard>
+              </Route>
+              <Route exact path="/shops/:shopId/settings/payment-types">
+                <AuthGuard>
+                  <PaymentTypesPage />
+                </AuthGuard>
+              </Route>
               {/* Shop Routes */}
               <Route exact path="/shops">
                 <AuthGuard>
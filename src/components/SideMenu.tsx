@@ -21,12 +21,16 @@ import {
   chevronForwardOutline,
   cubeOutline,
   documentTextOutline,
+  gridOutline,
   homeOutline,
   optionsOutline,
   pricetagOutline,
+  restaurantOutline,
   settingsOutline,
   statsChartOutline,
   swapHorizontalOutline,
+  ticketOutline,
+  timeOutline,
 } from 'ionicons/icons';
 import type React from 'react';
 import { useState } from 'react';
@@ -79,6 +83,21 @@ const SideMenu: React.FC = () => {
       url: '/pos',
       icon: cartOutline,
     },
+    {
+      title: t('navigation.tables'),
+      url: currentShop ? `/shops/${currentShop.id}/tables` : '/shops',
+      icon: gridOutline,
+    },
+    {
+      title: t('navigation.inProgress'),
+      url: currentShop ? `/shops/${currentShop.id}/order-board` : '/shops',
+      icon: timeOutline,
+    },
+    {
+      title: t('navigation.kitchen'),
+      url: currentShop ? `/shops/${currentShop.id}/kitchen` : '/shops',
+      icon: restaurantOutline,
+    },
     {
       title: t('navigation.products'),
       url: currentShop ? `/shops/${currentShop.id}/products` : '/products',
@@ -94,11 +113,16 @@ const SideMenu: React.FC = () => {
           url: currentShop ? `/shops/${currentShop.id}/modifiers` : '/modifiers',
           icon: optionsOutline,
         },
+        {
+          title: t('navigation.discounts'),
+          url: currentShop ? `/shops/${currentShop.id}/discounts` : '/discounts',
+          icon: ticketOutline,
+        },
       ],
     },
     {
       title: t('navigation.sales'),
-      url: '/sales',
+      url: currentShop ? `/shops/${currentShop.id}/sales` : '/shops',
       icon: statsChartOutline,
     },
     {
@@ -0,0 +1,190 @@
+// BillPaymentModal - Pay the bills of a split order one at a time, with a receipt for each
+
+import { IonButton, IonIcon } from '@ionic/react';
+import { receiptOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useState } from 'react';
+import styled from 'styled-components';
+import { PaymentModal } from '@/components/pos/PaymentModal';
+import { ReceiptModal } from '@/components/receipt';
+import { PriceDisplay } from '@/components/ui';
+import { useUI } from '@/contexts/UIContext';
+import { useOrder, usePayOrderBill } from '@/hooks/useOrder';
+import { designSystem } from '@/theme/designSystem';
+import type { CheckoutPaymentData } from '@/types';
+import { getUnpaidBills } from '@/utils/order';
+
+interface BillPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: string | null;
+  currency: string;
+}
+
+const Section = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.md};
+	padding-top: ${designSystem.spacing.lg};
+	border-top: 1px solid ${designSystem.colors.gray[200]};
+	margin-top: ${designSystem.spacing.lg};
+
+	&:first-child {
+		padding-top: 0;
+		border-top: none;
+		margin-top: 0;
+	}
+`;
+
+const SectionTitle = styled.h3`
+	font-size: ${designSystem.typography.fontSize.base};
+	font-weight: ${designSystem.typography.fontWeight.semibold};
+	color: ${designSystem.colors.text.primary};
+	margin: 0 0 ${designSystem.spacing.sm} 0;
+`;
+
+const BillList = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.xs};
+`;
+
+const BillRow = styled.div<{ $isNext: boolean }>`
+	display: flex;
+	align-items: center;
+	gap: ${designSystem.spacing.sm};
+	min-height: 36px;
+	padding: 0 ${designSystem.spacing.sm};
+	background: ${(props) => (props.$isNext ? designSystem.colors.gray[100] : designSystem.colors.gray[50])};
+	border-radius: ${designSystem.borderRadius.sm};
+`;
+
+const BillLabel = styled.span`
+	flex: 1;
+	font-size: ${designSystem.typography.fontSize.base};
+	color: ${designSystem.colors.text.primary};
+`;
+
+const BillStatus = styled.span<{ $isPaid: boolean }>`
+	font-size: ${designSystem.typography.fontSize.sm};
+	color: ${(props) => (props.$isPaid ? designSystem.colors.success : designSystem.colors.text.secondary)};
+`;
+
+const BillItem = styled.div`
+	font-size: ${designSystem.typography.fontSize.sm};
+	color: ${designSystem.colors.text.secondary};
+`;
+
+export const BillPaymentModal: React.FC<BillPaymentModalProps> = ({
+  isOpen,
+  onClose,
+  orderId,
+  currency,
+}) => {
+  const { showSuccess, showError, showWarning } = useUI();
+  const { data: order, isLoading, refetch } = useOrder(orderId ?? undefined);
+  const payOrderBillMutation = usePayOrderBill();
+
+  // Bill whose receipt is showing, opened as each bill is paid
+  const [receiptBillId, setReceiptBillId] = useState<string | null>(null);
+
+  const unpaidBills = order ? getUnpaidBills(order) : [];
+  const nextBill = unpaidBills[0] ?? null;
+  const billItems = order?.order_items.filter((item) => item.bill_id === nextBill?.id) ?? [];
+
+  // Bills left unpaid stay on the order, to be paid from its page
+  const handleClose = () => {
+    if (unpaidBills.length > 0) {
+      showWarning(
+        `${unpaidBills.length} ${unpaidBills.length === 1 ? 'bill is' : 'bills are'} still to be paid. Pay them from the order's page.`
+      );
+    }
+    onClose();
+  };
+
+  const handlePay = async (payment: CheckoutPaymentData) => {
+    if (!nextBill) return;
+
+    try {
+      await payOrderBillMutation.mutateAsync({ billId: nextBill.id, payment });
+      // The receipt needs the bill's tenders, so wait for the order to reload
+      await refetch();
+      showSuccess(`${nextBill.label} paid`);
+      setReceiptBillId(nextBill.id);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to pay bill');
+    }
+  };
+
+  const handleReceiptClose = () => {
+    setReceiptBillId(null);
+    // Done once the last bill's receipt is handed over
+    if (unpaidBills.length === 0) onClose();
+  };
+
+  return (
+    <>
+      <PaymentModal
+        isOpen={isOpen && !receiptBillId && (isLoading || !!nextBill)}
+        onClose={handleClose}
+        title={
+          nextBill && order
+            ? `${nextBill.label} (Bill ${nextBill.bill_number} of ${order.order_bills.length})`
+            : 'Pay Bills'
+        }
+        amountDue={nextBill?.amount ?? 0}
+        currency={currency}
+        submitLabel={unpaidBills.length > 1 ? 'Pay Bill' : 'Pay Last Bill'}
+        isSubmitting={payOrderBillMutation.isPending}
+        isLoading={isLoading}
+        resetKey={nextBill?.id}
+        onSubmit={handlePay}
+      >
+        {order && (
+          <Section>
+            <SectionTitle>
+              {order.order_number ? `Order #${order.order_number} · Bills` : 'Bills'}
+            </SectionTitle>
+            <BillList>
+              {order.order_bills.map((bill) => {
+                const isPaid = !unpaidBills.includes(bill);
+                return (
+                  <BillRow key={bill.id} $isNext={bill.id === nextBill?.id}>
+                    <BillLabel>{bill.label}</BillLabel>
+                    <PriceDisplay amount={bill.amount} currency={currency} />
+                    <BillStatus $isPaid={isPaid}>{isPaid ? 'Paid' : 'Due'}</BillStatus>
+                    {isPaid && (
+                      <IonButton
+                        fill="clear"
+                        size="small"
+                        onClick={() => setReceiptBillId(bill.id)}
+                        aria-label={`Receipt for ${bill.label}`}
+                      >
+                        <IonIcon slot="icon-only" icon={receiptOutline} />
+                      </IonButton>
+                    )}
+                  </BillRow>
+                );
+              })}
+            </BillList>
+            {billItems.map((item) => (
+              <BillItem key={item.id}>
+                {item.quantity}x {item.product_name}
+              </BillItem>
+            ))}
+          </Section>
+        )}
+      </PaymentModal>
+
+      {/* Receipt for the bill just paid, or a paid bill picked from the list */}
+      <ReceiptModal
+        isOpen={isOpen && !!receiptBillId}
+        onClose={handleReceiptClose}
+        orderId={orderId}
+        billId={receiptBillId}
+      />
+    </>
+  );
+};
+
+export default BillPaymentModal;
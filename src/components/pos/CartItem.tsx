@@ -11,6 +11,9 @@ import type { CartItem as CartItemType } from '@/types';
 interface CartItemProps {
   item: CartItemType;
   currency?: string;
+  unitPrice?: number; // Price for the cart's order type; defaults to the product price
+  discount?: number; // Item-level discount applied to this line
+  shortOfStock?: boolean; // The cart needs more of this line's inventory than is on hand
   onQuantityChange?: (quantity: number) => void;
   onRemove?: () => void;
   onTap?: () => void;
@@ -74,6 +77,25 @@ const AddonItem = styled.div`
 	text-overflow: ellipsis;
 `;
 
+const DiscountNote = styled.div`
+	margin-top: ${designSystem.spacing.xs};
+	font-size: ${designSystem.typography.fontSize.xs};
+	color: ${designSystem.colors.success};
+`;
+
+const UnavailableNote = styled.div`
+	margin-top: ${designSystem.spacing.xs};
+	font-size: ${designSystem.typography.fontSize.xs};
+	color: ${designSystem.colors.danger};
+`;
+
+const OriginalTotal = styled.div`
+	font-size: ${designSystem.typography.fontSize.xs};
+	font-weight: ${designSystem.typography.fontWeight.normal};
+	color: ${designSystem.colors.text.secondary};
+	text-decoration: line-through;
+`;
+
 const QuantityControls = styled.div`
 	display: flex;
 	align-items: center;
@@ -119,6 +141,9 @@ const LineTotal = styled.div`
 export const CartItem: React.FC<CartItemProps> = ({
   item,
   currency = 'USD',
+  unitPrice,
+  discount = 0,
+  shortOfStock = false,
   onQuantityChange,
   onRemove,
   onTap,
@@ -147,7 +172,7 @@ export const CartItem: React.FC<CartItemProps> = ({
       <ProductInfo>
         <ProductName>{item.product.name}</ProductName>
         <ProductPrice>
-          <PriceDisplay amount={item.product.price} currency={currency} /> each
+          <PriceDisplay amount={unitPrice ?? item.product.price} currency={currency} /> each
         </ProductPrice>
         {hasModifiers && (
           <AddonsList>
@@ -174,24 +199,44 @@ export const CartItem: React.FC<CartItemProps> = ({
             ))}
           </AddonsList>
         )}
+        {discount > 0 && (
+          <DiscountNote>
+            Discount -<PriceDisplay amount={discount} currency={currency} />
+          </DiscountNote>
+        )}
+        {!item.available && (
+          <UnavailableNote>No longer available. Remove it to continue.</UnavailableNote>
+        )}
+        {item.available && shortOfStock && (
+          <UnavailableNote>Not enough stock for this quantity.</UnavailableNote>
+        )}
       </ProductInfo>
 
-      {/* Quantity Controls */}
+      {/* Quantity Controls; just the quantity for lines that can't change */}
       <QuantityControls>
-        <QuantityButton type="button" onClick={handleDecrease} aria-label="Decrease quantity">
-          <IonIcon icon={item.quantity === 1 ? trashOutline : removeOutline} />
-        </QuantityButton>
+        {onQuantityChange && (
+          <QuantityButton type="button" onClick={handleDecrease} aria-label="Decrease quantity">
+            <IonIcon icon={item.quantity === 1 ? trashOutline : removeOutline} />
+          </QuantityButton>
+        )}
 
         <QuantityDisplay>{item.quantity}</QuantityDisplay>
 
-        <QuantityButton type="button" onClick={handleIncrease} aria-label="Increase quantity">
-          <IonIcon icon={addOutline} />
-        </QuantityButton>
+        {onQuantityChange && (
+          <QuantityButton type="button" onClick={handleIncrease} aria-label="Increase quantity">
+            <IonIcon icon={addOutline} />
+          </QuantityButton>
+        )}
       </QuantityControls>
 
       {/* Line Total */}
       <LineTotal>
-        <PriceDisplay amount={item.amount} currency={currency} />
+        {discount > 0 && (
+          <OriginalTotal>
+            <PriceDisplay amount={item.amount} currency={currency} />
+          </OriginalTotal>
+        )}
+        <PriceDisplay amount={item.amount - discount} currency={currency} />
       </LineTotal>
     </ItemContainer>
   );
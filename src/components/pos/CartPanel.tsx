@@ -1,11 +1,19 @@
 // CartPanel - Order summary panel (right side on tablet)
 
-import { IonIcon } from '@ionic/react';
-import { cartOutline } from 'ionicons/icons';
+import { IonButton, IonIcon } from '@ionic/react';
+import {
+  cartOutline,
+  chevronDownOutline,
+  pauseCircleOutline,
+  peopleOutline,
+  pricetagOutline,
+  sendOutline,
+} from 'ionicons/icons';
 import type React from 'react';
 import styled from 'styled-components';
 import { designSystem } from '@/theme/designSystem';
-import type { CartItem as CartItemType } from '@/types';
+import type { AppliedDiscount, CartItem as CartItemType, OrderTypeDetails, TaxLine } from '@/types';
+import { formatOrderType, getProductPrice } from '@/utils/order';
 import { CartItem } from './CartItem';
 import { ChargeButton } from './ChargeButton';
 import { OrderTotals } from './OrderTotals';
@@ -15,7 +23,15 @@ interface CartPanelProps {
   subtotal: number;
   tax?: number;
   taxRate?: number;
+  taxLabel?: string;
+  taxInclusive?: boolean;
+  taxLines?: TaxLine[];
   discount?: number;
+  discounts?: AppliedDiscount[];
+  lineDiscounts?: Record<string, number>; // Cart item ID to item-level discount
+  orderTypeDetails?: OrderTypeDetails;
+  deliveryFee?: number;
+  shortItemIds?: string[]; // Cart lines there isn't enough stock for
   total: number;
   currency?: string;
   customerName?: string;
@@ -23,6 +39,11 @@ interface CartPanelProps {
   onRemoveItem?: (cartItemId: string) => void;
   onEditItem?: (cartItemId: string) => void;
   onCharge?: () => void;
+  onSendRound?: () => void; // Send the cart to its table's tab instead of charging
+  onOrderType?: () => void; // Choose dine-in, takeaway or delivery
+  onDiscounts?: () => void; // Open discount/promo code entry
+  onSplitBill?: () => void; // Split the cart into separately paid bills
+  onPark?: () => void; // Set the cart aside to resume later
   loading?: boolean;
   className?: string;
 }
@@ -39,6 +60,13 @@ const PanelHeader = styled.div`
 	border-bottom: 1px solid ${designSystem.colors.gray[200]};
 `;
 
+const PanelTitleRow = styled.div`
+	display: flex;
+	align-items: center;
+	justify-content: space-between;
+	gap: ${designSystem.spacing.sm};
+`;
+
 const PanelTitle = styled.h2`
 	font-size: ${designSystem.typography.fontSize.lg};
 	font-weight: ${designSystem.typography.fontWeight.semibold};
@@ -101,6 +129,12 @@ const PanelFooter = styled.div`
 	margin-top: auto;
 `;
 
+const CartActionsContainer = styled.div`
+	display: flex;
+	justify-content: space-between;
+	padding: 0 ${designSystem.spacing.md};
+`;
+
 const ChargeButtonContainer = styled.div`
 	padding: 0 ${designSystem.spacing.lg} ${designSystem.spacing.lg};
 `;
@@ -110,7 +144,15 @@ export const CartPanel: React.FC<CartPanelProps> = ({
   subtotal,
   tax = 0,
   taxRate,
+  taxLabel,
+  taxInclusive,
+  taxLines,
   discount = 0,
+  discounts,
+  lineDiscounts = {},
+  orderTypeDetails,
+  deliveryFee = 0,
+  shortItemIds = [],
   total,
   currency = 'USD',
   customerName,
@@ -118,6 +160,11 @@ export const CartPanel: React.FC<CartPanelProps> = ({
   onRemoveItem,
   onEditItem,
   onCharge,
+  onSendRound,
+  onOrderType,
+  onDiscounts,
+  onSplitBill,
+  onPark,
   loading = false,
   className = '',
 }) => {
@@ -127,8 +174,19 @@ export const CartPanel: React.FC<CartPanelProps> = ({
     <PanelContainer className={className}>
       {/* Header */}
       <PanelHeader>
-        <PanelTitle>Current Order</PanelTitle>
+        <PanelTitleRow>
+          <PanelTitle>Current Order</PanelTitle>
+          {orderTypeDetails && (
+            <IonButton fill="outline" size="small" onClick={onOrderType} disabled={!onOrderType}>
+              {formatOrderType(orderTypeDetails)}
+              <IonIcon slot="end" icon={chevronDownOutline} />
+            </IonButton>
+          )}
+        </PanelTitleRow>
         {customerName && <CustomerName>{customerName}</CustomerName>}
+        {orderTypeDetails?.order_type === 'delivery' && orderTypeDetails.delivery_address && (
+          <CustomerName>{orderTypeDetails.delivery_address}</CustomerName>
+        )}
       </PanelHeader>
 
       {/* Items List */}
@@ -141,16 +199,27 @@ export const CartPanel: React.FC<CartPanelProps> = ({
           </EmptyState>
         ) : (
           <ItemsContainer>
-            {items.map((item) => (
-              <CartItem
-                key={item.cart_item_id}
-                item={item}
-                currency={currency}
-                onQuantityChange={(qty) => onQuantityChange?.(item.cart_item_id, qty)}
-                onRemove={() => onRemoveItem?.(item.cart_item_id)}
-                onTap={() => onEditItem?.(item.cart_item_id)}
-              />
-            ))}
+            {items.map((item) => {
+              // Lines already on a table's order stay as they were sent
+              const isSent = !!item.order_item_id;
+              return (
+                <CartItem
+                  key={item.cart_item_id}
+                  item={item}
+                  currency={currency}
+                  unitPrice={
+                    orderTypeDetails && getProductPrice(item.product, orderTypeDetails.order_type)
+                  }
+                  discount={lineDiscounts[item.cart_item_id]}
+                  shortOfStock={shortItemIds.includes(item.cart_item_id)}
+                  onQuantityChange={
+                    isSent ? undefined : (qty) => onQuantityChange?.(item.cart_item_id, qty)
+                  }
+                  onRemove={isSent ? undefined : () => onRemoveItem?.(item.cart_item_id)}
+                  onTap={isSent ? undefined : () => onEditItem?.(item.cart_item_id)}
+                />
+              );
+            })}
           </ItemsContainer>
         )}
       </ItemsList>
@@ -162,13 +231,53 @@ export const CartPanel: React.FC<CartPanelProps> = ({
             subtotal={subtotal}
             tax={tax}
             taxRate={taxRate}
+            taxLabel={taxLabel}
+            taxInclusive={taxInclusive}
+            taxLines={taxLines}
             discount={discount}
+            discounts={discounts}
+            deliveryFee={deliveryFee}
             total={total}
             currency={currency}
           />
 
+          {(onDiscounts || onSplitBill || onPark) && (
+            <CartActionsContainer>
+              {onDiscounts && (
+                <IonButton fill="clear" size="small" onClick={onDiscounts}>
+                  <IonIcon slot="start" icon={pricetagOutline} />
+                  {discounts && discounts.length > 0 ? 'Edit Discounts' : 'Add Discount'}
+                </IonButton>
+              )}
+              {onSplitBill && (
+                <IonButton fill="clear" size="small" onClick={onSplitBill}>
+                  <IonIcon slot="start" icon={peopleOutline} />
+                  Split Bill
+                </IonButton>
+              )}
+              {onPark && (
+                <IonButton fill="clear" size="small" onClick={onPark}>
+                  <IonIcon slot="start" icon={pauseCircleOutline} />
+                  Park
+                </IonButton>
+              )}
+            </CartActionsContainer>
+          )}
+
           <ChargeButtonContainer>
-            <ChargeButton amount={total} currency={currency} loading={loading} onClick={onCharge} />
+            {onSendRound ? (
+              <IonButton expand="block" size="large" disabled={loading} onClick={onSendRound}>
+                <IonIcon slot="start" icon={sendOutline} />
+                Send Round
+              </IonButton>
+            ) : (
+              <ChargeButton
+                amount={total}
+                currency={currency}
+                loading={loading}
+                onClick={onCharge}
+              />
+            )}
           </ChargeButtonContainer>
         </PanelFooter>
       )}
@@ -1,21 +1,27 @@
-// CheckoutModal - Complete order checkout with payment
+// CheckoutModal - Complete order checkout, or take a split order to pay bill by bill
 
-import { IonIcon, IonText } from '@ionic/react';
-import { card, cash, wallet } from 'ionicons/icons';
 import type React from 'react';
-import { useEffect, useMemo } from 'react';
-import { useForm } from 'react-hook-form';
 import styled from 'styled-components';
 import { OrderTotals } from '@/components/pos/OrderTotals';
+import { PaymentModal } from '@/components/pos/PaymentModal';
 import BaseModal from '@/components/shared/BaseModal';
-import { PriceField, TextField } from '@/components/shared/FormFields';
 import { PriceDisplay } from '@/components/ui';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { useShopContext } from '@/contexts/ShopContext';
 import { useUI } from '@/contexts/UIContext';
-import { useCreateOrder, usePaymentTypes } from '@/hooks/useOrder';
+import { useCreateOrder } from '@/hooks/useOrder';
 import { designSystem } from '@/theme/designSystem';
-import type { CartItem, CheckoutFormData, PaymentType } from '@/types';
+import type {
+  AppliedDiscount,
+  CartItem,
+  CheckoutPaymentData,
+  CreateOrderData,
+  Order,
+  OrderTypeDetails,
+  SplitBill,
+  TaxLine,
+} from '@/types';
+import { formatOrderType } from '@/utils/order';
 
 interface CheckoutModalProps {
   isOpen: boolean;
@@ -24,11 +30,19 @@ interface CheckoutModalProps {
   subtotal: number;
   tax: number;
   taxRate?: number;
+  taxLabel?: string;
+  taxInclusive?: boolean;
+  taxLines?: TaxLine[];
   discount: number;
+  discounts?: AppliedDiscount[];
   tip: number;
+  orderTypeDetails: OrderTypeDetails;
+  deliveryFee: number; // Part of total, zero unless the order is a delivery
   total: number;
+  bills?: SplitBill[]; // Take the order with these bills unpaid, to be paid one at a time
+  tab?: CreateOrderData['tab']; // Table tab being closed out, whose open order is paid instead of a new one
   currency: string;
-  onSuccess: () => void;
+  onSuccess: (order: Order | null) => void; // Called with the created order, e.g. to print its receipt or pay its bills; null when queued offline
 }
 
 const Section = styled.div`
@@ -53,63 +67,6 @@ const SectionTitle = styled.h3`
 	margin: 0 0 ${designSystem.spacing.sm} 0;
 `;
 
-const PaymentMethodGroup = styled.div`
-	display: flex;
-	flex-direction: column;
-	gap: ${designSystem.spacing.sm};
-`;
-
-const PaymentMethodCard = styled.button<{ $isSelected: boolean }>`
-	display: flex;
-	flex-direction: row;
-	align-items: center;
-	gap: ${designSystem.spacing.md};
-	padding: ${(props) => (props.$isSelected ? 'calc(16px - 1px)' : '16px')};
-	background: ${(props) => (props.$isSelected ? designSystem.colors.gray[100] : designSystem.colors.gray[50])};
-	border: ${(props) => (props.$isSelected ? '3px' : '2px')} solid
-		${(props) => (props.$isSelected ? designSystem.colors.primary : designSystem.colors.gray[200])};
-	border-radius: ${designSystem.borderRadius.md};
-	cursor: pointer;
-	transition: all 0.2s ease;
-	width: 100%;
-	text-align: left;
-
-	&:hover {
-		border-color: ${designSystem.colors.primary};
-		background: ${(props) => (props.$isSelected ? designSystem.colors.gray[100] : designSystem.colors.gray[100])};
-	}
-
-	&:active {
-		transform: scale(0.98);
-	}
-`;
-
-const PaymentMethodIcon = styled(IonIcon)<{ $isSelected: boolean }>`
-	font-size: 24px;
-	color: ${(props) => (props.$isSelected ? designSystem.colors.brand.primary : designSystem.colors.text.secondary)};
-	flex-shrink: 0;
-`;
-
-const PaymentMethodContent = styled.div`
-	display: flex;
-	flex-direction: column;
-	gap: ${designSystem.spacing.xs};
-	flex: 1;
-`;
-
-const PaymentMethodName = styled.h4<{ $isSelected: boolean }>`
-	font-size: ${designSystem.typography.fontSize.base};
-	font-weight: ${designSystem.typography.fontWeight.semibold};
-	color: ${(props) => (props.$isSelected ? designSystem.colors.brand.primary : designSystem.colors.text.primary)};
-	margin: 0;
-`;
-
-const PaymentMethodDescription = styled.p<{ $isSelected: boolean }>`
-	font-size: ${designSystem.typography.fontSize.sm};
-	color: ${(props) => (props.$isSelected ? designSystem.colors.brand.secondary : designSystem.colors.text.secondary)};
-	margin: ${designSystem.spacing.xs} 0 0 0;
-`;
-
 const ChangeDisplay = styled.div`
 	display: flex;
 	justify-content: space-between;
@@ -125,10 +82,10 @@ const ChangeLabel = styled.span`
 	color: ${designSystem.colors.text.secondary};
 `;
 
-const ChangeAmount = styled.span`
+const BalanceAmount = styled.span`
 	font-size: ${designSystem.typography.fontSize.xl};
 	font-weight: ${designSystem.typography.fontWeight.bold};
-	color: ${designSystem.colors.success};
+	color: ${designSystem.colors.text.primary};
 `;
 
 const CartItemsList = styled.div`
@@ -182,135 +139,85 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = ({
   subtotal,
   tax,
   taxRate,
+  taxLabel,
+  taxInclusive = false,
+  taxLines = [],
   discount,
+  discounts = [],
   tip,
+  orderTypeDetails,
+  deliveryFee,
   total,
+  bills = [],
+  tab,
   currency,
   onSuccess,
 }) => {
   const { currentShop } = useShopContext();
   const { user } = useAuthContext();
-  const { showSuccess, showError } = useUI();
-
-  // Fetch payment types
-  const { data: paymentTypes = [], isLoading: paymentTypesLoading } = usePaymentTypes();
-
-  // Ensure Cash is always available
-  const availablePaymentTypes = useMemo(() => {
-    const hasCash = paymentTypes.some((pt) => pt.code?.toLowerCase() === 'cash');
-
-    if (hasCash) {
-      return paymentTypes;
-    }
-
-    // Add default Cash option if not in database
-    const defaultCash: PaymentType = {
-      id: 'CASH_DEFAULT',
-      shop_id: currentShop?.id || '',
-      code: 'Cash',
-      description: 'Cash payment',
-      is_active: true,
-    };
-
-    return [defaultCash, ...paymentTypes];
-  }, [paymentTypes, currentShop?.id]);
+  const { showSuccess, showError, showWarning } = useUI();
 
   // Order creation mutation
   const createOrderMutation = useCreateOrder();
 
-  // Form state
-  const {
-    control,
-    handleSubmit,
-    watch,
-    formState: { errors, isValid },
-    reset,
-    setValue,
-  } = useForm<CheckoutFormData>({
-    mode: 'onChange',
-    defaultValues: {
-      customer_name: '',
-      customer_email: '',
-      customer_phone: '',
-      payment_type_id: '',
-      cash_received: null,
-    },
-  });
-
-  // Watch form values for reactive UI
-  const paymentTypeId = watch('payment_type_id');
-  const cashReceived = watch('cash_received');
-
-  // Find selected payment type
-  const selectedPaymentType = useMemo(
-    () => availablePaymentTypes.find((pt) => pt.id === paymentTypeId),
-    [availablePaymentTypes, paymentTypeId]
-  );
-
-  // Determine if cash payment
-  const isCashPayment = useMemo(
-    () => selectedPaymentType?.code?.toLowerCase() === 'cash',
-    [selectedPaymentType]
-  );
-
-  // Calculate change
-  const change = useMemo(() => {
-    if (!isCashPayment || !cashReceived) return 0;
-    return Math.max(0, cashReceived - total);
-  }, [isCashPayment, cashReceived, total]);
-
-  // Validation: cash received must be >= total
-  const isCashSufficient = useMemo(() => {
-    if (!isCashPayment) return true;
-    return cashReceived !== null && cashReceived >= total;
-  }, [isCashPayment, cashReceived, total]);
-
-  // Complete button disabled state
-  const isCompleteDisabled = useMemo(() => {
-    return !isValid || !paymentTypeId || !isCashSufficient || createOrderMutation.isPending;
-  }, [isValid, paymentTypeId, isCashSufficient, createOrderMutation.isPending]);
+  const isSplit = bills.length > 0;
 
-  // Reset form when modal opens
-  useEffect(() => {
-    if (isOpen) {
-      reset();
-    }
-  }, [isOpen, reset]);
-
-  // Handle order creation
-  const onSubmit = async (formData: CheckoutFormData) => {
+  // Create the order, paid in full, or with its bills unpaid when split
+  const createOrder = async (payment: CheckoutPaymentData | null) => {
     if (!currentShop || !user) {
       showError('Missing shop or user information');
       return;
     }
 
     try {
-      // Handle default cash payment type (not in database)
-      const paymentTypeId =
-        formData.payment_type_id === 'CASH_DEFAULT' ? null : formData.payment_type_id;
-
-      const orderData = {
+      const orderData: CreateOrderData = {
         shop_id: currentShop.id,
         order_date: new Date().toISOString(),
         total_sale: total,
         served_by_id: user.id,
-        customer_name: formData.customer_name || null,
-        customer_email: formData.customer_email || null,
-        customer_phone: formData.customer_phone || null,
-        payment_type_id: paymentTypeId,
-        payment_received: true,
-        payment_amount_received: isCashPayment ? formData.cash_received : null,
-        payment_change: isCashPayment ? change : null,
+        // Split bills take their own customer details as they are paid
+        customer_name: payment?.customer_name ?? null,
+        customer_email: payment?.customer_email ?? null,
+        customer_phone: payment?.customer_phone ?? null,
+        payment_received: !!payment,
         items,
+        subtotal,
         tax,
+        tax_rate: taxRate ?? 0,
+        tax_inclusive: taxInclusive,
+        tax_lines: taxLines,
         discount,
+        discounts,
         tip,
+        ...orderTypeDetails,
+        delivery_fee: deliveryFee,
+        payments: payment?.payments ?? [],
+        bills: bills.map((bill) => ({
+          ...bill,
+          customer_name: null,
+          customer_email: null,
+          customer_phone: null,
+          payments: [],
+        })),
+        tab,
       };
 
-      await createOrderMutation.mutateAsync(orderData);
-
-      showSuccess('Order created successfully!');
-      onSuccess();
+      const result = await createOrderMutation.mutateAsync(orderData);
+
+      if (result.queued) {
+        showWarning(
+          'You are offline. The order was saved and will sync when the connection returns.'
+        );
+        onSuccess(null);
+      } else {
+        // Lead with the number so it can be called out for pickup
+        showSuccess(
+          result.order.order_number
+            ? `Order #${result.order.order_number} created`
+            : 'Order created successfully!'
+        );
+        onSuccess(result.order);
+      }
       onClose();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to create order';
@@ -318,175 +225,123 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = ({
     }
   };
 
+  const orderSummary = (
+    <Section>
+      <SectionTitle>Order Summary · {formatOrderType(orderTypeDetails)}</SectionTitle>
+
+      {/* Cart Items */}
+      <CartItemsList>
+        {items.map((item) => (
+          <CartItemRow key={item.cart_item_id}>
+            <CartItemInfo>
+              <CartItemName>
+                {item.quantity}x {item.product.name}
+              </CartItemName>
+              {(item.modifiers.length > 0 || item.addons.length > 0) && (
+                <CartItemDetails>
+                  {item.modifiers.map((modifier) => (
+                    <span key={`${item.cart_item_id}-${modifier.modifier_id}`}>
+                      • {modifier.modifier_name}
+                      {modifier.price_adjustment !== 0 && (
+                        <>
+                          {' '}
+                          ({modifier.price_adjustment > 0 ? '+' : ''}
+                          <PriceDisplay amount={modifier.price_adjustment} currency={currency} />)
+                        </>
+                      )}
+                    </span>
+                  ))}
+                  {item.addons.map((addon) => (
+                    <span key={`${item.cart_item_id}-${addon.addon_id}`}>
+                      • {addon.quantity}x {addon.name} (+
+                      <PriceDisplay amount={addon.price * addon.quantity} currency={currency} />)
+                    </span>
+                  ))}
+                </CartItemDetails>
+              )}
+            </CartItemInfo>
+            <CartItemPrice>
+              <PriceDisplay amount={item.amount} currency={currency} />
+            </CartItemPrice>
+          </CartItemRow>
+        ))}
+      </CartItemsList>
+
+      <OrderTotals
+        subtotal={subtotal}
+        tax={tax}
+        taxRate={taxRate}
+        taxLabel={taxLabel}
+        taxInclusive={taxInclusive}
+        taxLines={taxLines}
+        discount={discount}
+        discounts={discounts}
+        tip={tip}
+        deliveryFee={deliveryFee}
+        total={total}
+        currency={currency}
+      />
+    </Section>
+  );
+
+  if (!isSplit) {
+    return (
+      <PaymentModal
+        isOpen={isOpen}
+        onClose={onClose}
+        title="Checkout"
+        amountDue={total}
+        currency={currency}
+        submitLabel="Complete Order"
+        isSubmitting={createOrderMutation.isPending}
+        onSubmit={createOrder}
+      >
+        {orderSummary}
+      </PaymentModal>
+    );
+  }
+
+  // A split order is saved first, so each guest's payment is kept as soon as they pay
   return (
     <BaseModal
       isOpen={isOpen}
       onClose={onClose}
       title="Checkout"
       showFooterButton
-      footerButtonLabel="Complete Order"
-      onFooterButtonClick={handleSubmit(onSubmit)}
-      footerButtonDisabled={isCompleteDisabled}
+      footerButtonLabel="Take Order"
+      onFooterButtonClick={() => createOrder(null)}
+      footerButtonDisabled={createOrderMutation.isPending}
       footerButtonLoading={createOrderMutation.isPending}
-      isLoading={paymentTypesLoading}
-      loadingMessage="Loading payment methods..."
     >
-      {/* Order Summary */}
-      <Section>
-        <SectionTitle>Order Summary</SectionTitle>
-
-        {/* Cart Items */}
-        <CartItemsList>
-          {items.map((item) => (
-            <CartItemRow key={item.cart_item_id}>
-              <CartItemInfo>
-                <CartItemName>
-                  {item.quantity}x {item.product.name}
-                </CartItemName>
-                {(item.modifiers.length > 0 || item.addons.length > 0) && (
-                  <CartItemDetails>
-                    {item.modifiers.map((modifier) => (
-                      <span key={`${item.cart_item_id}-${modifier.modifier_id}`}>
-                        • {modifier.modifier_name}
-                        {modifier.price_adjustment !== 0 && (
-                          <>
-                            {' '}
-                            ({modifier.price_adjustment > 0 ? '+' : ''}
-                            <PriceDisplay amount={modifier.price_adjustment} currency={currency} />)
-                          </>
-                        )}
-                      </span>
-                    ))}
-                    {item.addons.map((addon) => (
-                      <span key={`${item.cart_item_id}-${addon.addon_id}`}>
-                        • {addon.quantity}x {addon.name} (+
-                        <PriceDisplay amount={addon.price * addon.quantity} currency={currency} />)
-                      </span>
-                    ))}
-                  </CartItemDetails>
-                )}
-              </CartItemInfo>
-              <CartItemPrice>
-                <PriceDisplay amount={item.amount} currency={currency} />
-              </CartItemPrice>
-            </CartItemRow>
-          ))}
-        </CartItemsList>
-
-        <OrderTotals
-          subtotal={subtotal}
-          tax={tax}
-          taxRate={taxRate}
-          discount={discount}
-          tip={tip}
-          total={total}
-          currency={currency}
-        />
-      </Section>
-
-      {/* Payment Method */}
-      <Section>
-        <SectionTitle>Payment Method</SectionTitle>
-
-        <PaymentMethodGroup>
-          {availablePaymentTypes.map((paymentType) => {
-            const isCash = paymentType.code?.toLowerCase() === 'cash';
-            const isCard =
-              paymentType.code?.toLowerCase().includes('card') ||
-              paymentType.code?.toLowerCase().includes('credit') ||
-              paymentType.code?.toLowerCase().includes('debit');
-            const icon = isCash ? cash : isCard ? card : wallet;
-
-            return (
-              <PaymentMethodCard
-                key={paymentType.id}
-                type="button"
-                $isSelected={paymentTypeId === paymentType.id}
-                onClick={() => {
-                  setValue('payment_type_id', paymentType.id, {
-                    shouldValidate: true,
-                  });
-                }}
-              >
-                <PaymentMethodIcon icon={icon} $isSelected={paymentTypeId === paymentType.id} />
-                <PaymentMethodContent>
-                  <PaymentMethodName $isSelected={paymentTypeId === paymentType.id}>
-                    {paymentType.code}
-                  </PaymentMethodName>
-                  {paymentType.description && (
-                    <PaymentMethodDescription $isSelected={paymentTypeId === paymentType.id}>
-                      {paymentType.description}
-                    </PaymentMethodDescription>
-                  )}
-                </PaymentMethodContent>
-              </PaymentMethodCard>
-            );
-          })}
-        </PaymentMethodGroup>
-
-        {errors.payment_type_id && (
-          <IonText color="danger">
-            <p style={{ fontSize: '0.75rem', marginTop: '4px' }}>
-              {errors.payment_type_id.message}
-            </p>
-          </IonText>
-        )}
-      </Section>
-
-      {/* Payment Details */}
-      {isCashPayment && (
-        <Section>
-          <SectionTitle>Payment Details</SectionTitle>
-          <PriceField
-            name="cash_received"
-            control={control}
-            label="Cash Received"
-            placeholder="0.00"
-            required
-            currency={currency}
-            error={errors.cash_received}
-          />
-          {!isCashSufficient && cashReceived !== null && (
-            <IonText color="danger" style={{ fontSize: '0.875rem' }}>
-              Cash received must be at least <PriceDisplay amount={total} currency={currency} />
-            </IonText>
+      {orderSummary}
+
+      {/* Bills, paid one at a time once the order is taken */}
+      {bills.map((bill, index) => (
+        <Section key={bill.label}>
+          <SectionTitle>
+            {bill.label} (Bill {index + 1} of {bills.length})
+          </SectionTitle>
+          {bill.cart_item_ids.length > 0 && (
+            <CartItemsList>
+              {items
+                .filter((item) => bill.cart_item_ids.includes(item.cart_item_id))
+                .map((item) => (
+                  <CartItemRow key={item.cart_item_id}>
+                    <CartItemName>
+                      {item.quantity}x {item.product.name}
+                    </CartItemName>
+                  </CartItemRow>
+                ))}
+            </CartItemsList>
           )}
           <ChangeDisplay>
-            <ChangeLabel>Change</ChangeLabel>
-            <ChangeAmount>
-              <PriceDisplay amount={change} currency={currency} />
-            </ChangeAmount>
+            <ChangeLabel>Bill Total</ChangeLabel>
+            <BalanceAmount>
+              <PriceDisplay amount={bill.amount} currency={currency} />
+            </BalanceAmount>
           </ChangeDisplay>
         </Section>
-      )}
-
-      {/* Customer Information */}
-      <Section>
-        <SectionTitle>Customer Information (Optional)</SectionTitle>
-        <TextField
-          name="customer_name"
-          control={control}
-          label="Name"
-          placeholder="Enter customer name"
-          error={errors.customer_name}
-        />
-        <TextField
-          name="customer_email"
-          control={control}
-          label="Email"
-          type="email"
-          placeholder="customer@example.com"
-          error={errors.customer_email}
-        />
-        <TextField
-          name="customer_phone"
-          control={control}
-          label="Phone"
-          type="tel"
-          placeholder="+1 (555) 123-4567"
-          error={errors.customer_phone}
-        />
-      </Section>
+      ))}
     </BaseModal>
   );
 };
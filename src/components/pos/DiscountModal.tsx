@@ -0,0 +1,197 @@
+// DiscountModal - Apply promo codes and shop discounts to the cart
+
+import {
+  IonButton,
+  IonIcon,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonText,
+} from '@ionic/react';
+import { closeCircleOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useState } from 'react';
+import styled from 'styled-components';
+import BaseModal from '@/components/shared/BaseModal';
+import { PriceDisplay } from '@/components/ui';
+import { useDiscounts } from '@/hooks/useDiscount';
+import { designSystem } from '@/theme/designSystem';
+import type { AppliedDiscount, Discount } from '@/types';
+import { getDiscountUnavailableReason } from '@/utils/discount';
+
+interface DiscountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cartDiscounts: Discount[]; // Discounts applied to the cart
+  appliedDiscounts: AppliedDiscount[]; // What they currently take off
+  currency: string;
+  onApply: (discount: Discount) => string | null; // Returns a reason on failure
+  onApplyCode: (code: string) => string | null; // Returns a reason on failure
+  onRemove: (discountId: string) => void;
+}
+
+const Section = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.sm};
+	margin-bottom: ${designSystem.spacing.lg};
+`;
+
+const SectionTitle = styled.h3`
+	font-size: ${designSystem.typography.fontSize.base};
+	font-weight: ${designSystem.typography.fontWeight.semibold};
+	color: ${designSystem.colors.text.primary};
+	margin: 0;
+`;
+
+const CodeRow = styled.div`
+	display: flex;
+	align-items: center;
+	gap: ${designSystem.spacing.sm};
+`;
+
+export const DiscountModal: React.FC<DiscountModalProps> = ({
+  isOpen,
+  onClose,
+  cartDiscounts,
+  appliedDiscounts,
+  currency,
+  onApply,
+  onApplyCode,
+  onRemove,
+}) => {
+  const { data: discounts = [], isLoading } = useDiscounts();
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  // Discounts without a code can be picked directly
+  const pickable = discounts.filter(
+    (discount) =>
+      !discount.code &&
+      !getDiscountUnavailableReason(discount) &&
+      !cartDiscounts.some((d) => d.id === discount.id)
+  );
+
+  const handleApplyCode = () => {
+    if (!code.trim()) return;
+    const reason = onApplyCode(code);
+    setCodeError(reason);
+    if (!reason) setCode('');
+  };
+
+  const handleApply = (discount: Discount) => {
+    setCodeError(onApply(discount));
+  };
+
+  const amountFor = (discountId: string) =>
+    appliedDiscounts
+      .filter((applied) => applied.discount_id === discountId)
+      .reduce((sum, applied) => sum + applied.amount, 0);
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Discounts"
+      isLoading={isLoading}
+      loadingMessage="Loading discounts..."
+    >
+      {/* Promo Code */}
+      <Section>
+        <SectionTitle>Promo Code</SectionTitle>
+        <CodeRow>
+          <IonInput
+            fill="outline"
+            placeholder="Enter code"
+            value={code}
+            onIonInput={(e) => {
+              setCode(e.detail.value ?? '');
+              setCodeError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleApplyCode();
+            }}
+            autocapitalize="characters"
+          />
+          <IonButton onClick={handleApplyCode} disabled={!code.trim()}>
+            Apply
+          </IonButton>
+        </CodeRow>
+        {codeError && (
+          <IonText color="danger">
+            <small>{codeError}</small>
+          </IonText>
+        )}
+      </Section>
+
+      {/* Applied */}
+      {cartDiscounts.length > 0 && (
+        <Section>
+          <SectionTitle>Applied</SectionTitle>
+          <IonList lines="full" className="ion-no-padding">
+            {cartDiscounts.map((discount) => {
+              const amount = amountFor(discount.id);
+              return (
+                <IonItem key={discount.id}>
+                  <IonLabel>
+                    <h2>{discount.name}</h2>
+                    <p>
+                      {amount > 0 ? (
+                        <>
+                          -<PriceDisplay amount={amount} currency={currency} />
+                        </>
+                      ) : (
+                        'No matching items in the cart'
+                      )}
+                    </p>
+                  </IonLabel>
+                  <IonButton
+                    slot="end"
+                    fill="clear"
+                    color="danger"
+                    onClick={() => onRemove(discount.id)}
+                    aria-label="Remove discount"
+                  >
+                    <IonIcon slot="icon-only" icon={closeCircleOutline} />
+                  </IonButton>
+                </IonItem>
+              );
+            })}
+          </IonList>
+        </Section>
+      )}
+
+      {/* Available */}
+      {pickable.length > 0 && (
+        <Section>
+          <SectionTitle>Available Discounts</SectionTitle>
+          <IonList lines="full" className="ion-no-padding">
+            {pickable.map((discount) => (
+              <IonItem
+                key={discount.id}
+                button
+                detail={false}
+                onClick={() => handleApply(discount)}
+              >
+                <IonLabel>{discount.name}</IonLabel>
+                <IonNote slot="end">
+                  {discount.discount_type === 'percentage' ? (
+                    `${discount.value}% off`
+                  ) : (
+                    <>
+                      <PriceDisplay amount={discount.value} currency={currency} /> off
+                    </>
+                  )}
+                </IonNote>
+              </IonItem>
+            ))}
+          </IonList>
+        </Section>
+      )}
+    </BaseModal>
+  );
+};
+
+export default DiscountModal;
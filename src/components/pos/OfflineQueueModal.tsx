@@ -0,0 +1,172 @@
+// OfflineQueueModal - Orders taken offline, waiting to sync or rejected on sync
+
+import {
+  IonBadge,
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonText,
+} from '@ionic/react';
+import { refreshOutline, trashOutline } from 'ionicons/icons';
+import type React from 'react';
+import BaseModal from '@/components/shared/BaseModal';
+import { PriceDisplay } from '@/components/ui';
+import { useUI } from '@/contexts/UIContext';
+import {
+  useDiscardQueuedOrder,
+  useQueuedOrders,
+  useRetryQueuedOrder,
+  useSyncQueuedOrders,
+} from '@/hooks/useOfflineSync';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import type { QueuedOrder } from '@/types';
+import { formatRelativeTime } from '@/utils/date';
+
+interface OfflineQueueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currency: string;
+  isOnline: boolean;
+}
+
+export const OfflineQueueModal: React.FC<OfflineQueueModalProps> = ({
+  isOpen,
+  onClose,
+  currency,
+  isOnline,
+}) => {
+  const { data: queuedOrders = [], isLoading } = useQueuedOrders();
+  const syncQueuedOrders = useSyncQueuedOrders();
+  const retryQueuedOrder = useRetryQueuedOrder();
+  const discardQueuedOrder = useDiscardQueuedOrder();
+  const { showConfirm } = useUI();
+  const { showSuccess, showError, showWarning } = useToastNotification();
+
+  const isBusy =
+    syncQueuedOrders.isPending || retryQueuedOrder.isPending || discardQueuedOrder.isPending;
+  const pendingCount = queuedOrders.filter(
+    (queuedOrder) => queuedOrder.status === 'pending'
+  ).length;
+
+  const handleSyncNow = async () => {
+    try {
+      const result = await syncQueuedOrders.mutateAsync();
+      if (result.failed > 0) {
+        showWarning(
+          `${result.failed} queued ${result.failed === 1 ? 'order' : 'orders'} could not be synced`
+        );
+      } else if (result.remaining > 0) {
+        showWarning('Lost the connection while syncing. Remaining orders will sync later.');
+      } else {
+        showSuccess(`Synced ${result.synced} ${result.synced === 1 ? 'order' : 'orders'}`);
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to sync orders');
+    }
+  };
+
+  const handleRetry = async (queuedOrder: QueuedOrder) => {
+    try {
+      await retryQueuedOrder.mutateAsync(queuedOrder);
+      if (isOnline) await handleSyncNow();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to retry order');
+    }
+  };
+
+  const handleDiscard = async (queuedOrder: QueuedOrder) => {
+    const confirmed = await showConfirm(
+      'This order will not be recorded. Refund or re-ring any payment taken for it.',
+      'Discard Order'
+    );
+    if (!confirmed) return;
+
+    try {
+      await discardQueuedOrder.mutateAsync(queuedOrder.id);
+      showSuccess('Queued order discarded');
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to discard order');
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Offline Orders"
+      isLoading={isLoading}
+      loadingMessage="Loading queued orders..."
+      showFooterButton={pendingCount > 0}
+      footerButtonLabel="Sync Now"
+      onFooterButtonClick={handleSyncNow}
+      footerButtonDisabled={!isOnline || isBusy}
+      footerButtonLoading={syncQueuedOrders.isPending}
+    >
+      {!isOnline && (
+        <IonText color="medium">
+          <p>You are offline. Orders will sync when the connection returns.</p>
+        </IonText>
+      )}
+
+      {queuedOrders.length > 0 ? (
+        <IonList lines="full" className="ion-no-padding">
+          {queuedOrders.map((queuedOrder) => {
+            const { order_data: orderData } = queuedOrder;
+            const itemCount = orderData.items.reduce((sum, item) => sum + item.quantity, 0);
+            const isFailed = queuedOrder.status === 'failed';
+
+            return (
+              <IonItem key={queuedOrder.id}>
+                <IonLabel className="ion-text-wrap">
+                  <h2>
+                    <PriceDisplay amount={orderData.total_sale} currency={currency} />{' '}
+                    <IonBadge color={isFailed ? 'danger' : 'warning'}>
+                      {isFailed ? 'Failed' : 'Pending'}
+                    </IonBadge>
+                  </h2>
+                  <p>
+                    {itemCount} {itemCount === 1 ? 'item' : 'items'}
+                    {orderData.customer_name && ` · ${orderData.customer_name}`}
+                  </p>
+                  {isFailed && queuedOrder.error && (
+                    <IonText color="danger">
+                      <p>{queuedOrder.error}</p>
+                    </IonText>
+                  )}
+                  <IonNote>Taken {formatRelativeTime(queuedOrder.order_data.order_date)}</IonNote>
+                </IonLabel>
+                <IonButton
+                  slot="end"
+                  fill="clear"
+                  color="danger"
+                  disabled={isBusy}
+                  onClick={() => handleDiscard(queuedOrder)}
+                  aria-label="Discard queued order"
+                >
+                  <IonIcon slot="icon-only" icon={trashOutline} />
+                </IonButton>
+                {isFailed && (
+                  <IonButton slot="end" disabled={isBusy} onClick={() => handleRetry(queuedOrder)}>
+                    <IonIcon slot="start" icon={refreshOutline} />
+                    Retry
+                  </IonButton>
+                )}
+              </IonItem>
+            );
+          })}
+        </IonList>
+      ) : (
+        <div style={{ textAlign: 'center', padding: '2rem' }}>
+          <IonText color="medium">
+            <p>All orders are synced.</p>
+          </IonText>
+        </div>
+      )}
+    </BaseModal>
+  );
+};
+
+export default OfflineQueueModal;
@@ -4,13 +4,19 @@ import type React from 'react';
 import styled from 'styled-components';
 import { PriceDisplay } from '@/components/ui';
 import { designSystem } from '@/theme/designSystem';
+import type { AppliedDiscount, TaxLine } from '@/types';
 
 interface OrderTotalsProps {
 	subtotal: number;
 	tax?: number;
 	taxRate?: number;
+	taxLabel?: string;
+	taxInclusive?: boolean; // Show tax as included in the subtotal
+	taxLines?: TaxLine[]; // Per-rate breakdown; replaces the single tax row when given
 	discount?: number;
+	discounts?: AppliedDiscount[]; // Itemised discounts; any remainder of discount shows as "Discount"
 	tip?: number;
+	deliveryFee?: number;
 	total: number;
 	currency?: string;
 	className?: string;
@@ -64,12 +70,33 @@ export const OrderTotals: React.FC<OrderTotalsProps> = ({
 	subtotal,
 	tax = 0,
 	taxRate,
+	taxLabel = 'Tax',
+	taxInclusive = false,
+	taxLines,
 	discount = 0,
+	discounts = [],
 	tip = 0,
+	deliveryFee = 0,
 	total,
 	currency = 'USD',
 	className = '',
 }) => {
+	// One row per discount, summed across the lines it applies to
+	const discountRows = Object.values(
+		discounts.reduce<Record<string, { key: string; label: string; amount: number }>>(
+			(rows, applied) => {
+				rows[applied.discount_id] = {
+					key: applied.discount_id,
+					label: applied.code ? `${applied.name} (${applied.code})` : applied.name,
+					amount: (rows[applied.discount_id]?.amount ?? 0) + applied.amount,
+				};
+				return rows;
+			},
+			{}
+		)
+	);
+	const otherDiscount = discount - discountRows.reduce((sum, row) => sum + row.amount, 0);
+
 	return (
 		<TotalsContainer className={className}>
 			{/* Subtotal */}
@@ -79,23 +106,53 @@ export const OrderTotals: React.FC<OrderTotalsProps> = ({
 			</TotalRow>
 
 			{/* Discount */}
-			{discount > 0 && (
+			{discountRows.map((row) => (
+				<DiscountRow key={row.key}>
+					<span>{row.label}</span>
+					<span>
+						-<PriceDisplay amount={row.amount} currency={currency} />
+					</span>
+				</DiscountRow>
+			))}
+			{otherDiscount > 0.005 && (
 				<DiscountRow>
 					<span>Discount</span>
 					<span>
-						-<PriceDisplay amount={discount} currency={currency} />
+						-<PriceDisplay amount={otherDiscount} currency={currency} />
 					</span>
 				</DiscountRow>
 			)}
 
 			{/* Tax */}
-			{tax > 0 && (
+			{taxLines?.map(
+				(line) =>
+					line.tax > 0 && (
+						<MutedRow key={line.tax_rate_id ?? 'default'}>
+							<span>
+								{taxInclusive ? `Includes ${line.name}` : line.name} ({line.rate}%)
+							</span>
+							<PriceDisplay amount={line.tax} currency={currency} />
+						</MutedRow>
+					)
+			)}
+			{!taxLines && tax > 0 && (
 				<MutedRow>
-					<span>Tax{taxRate ? ` (${taxRate}%)` : ''}</span>
+					<span>
+						{taxInclusive ? `Includes ${taxLabel}` : taxLabel}
+						{taxRate ? ` (${taxRate}%)` : ''}
+					</span>
 					<PriceDisplay amount={tax} currency={currency} />
 				</MutedRow>
 			)}
 
+			{/* Delivery Fee */}
+			{deliveryFee > 0 && (
+				<TotalRow>
+					<span>Delivery Fee</span>
+					<PriceDisplay amount={deliveryFee} currency={currency} />
+				</TotalRow>
+			)}
+
 			{/* Tip */}
 			{tip > 0 && (
 				<TotalRow>
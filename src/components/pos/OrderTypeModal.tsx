@@ -0,0 +1,124 @@
+// OrderTypeModal - Choose how the order is served: at a table, to take away or delivered
+
+import { IonInput, IonLabel, IonSegment, IonSegmentButton, IonTextarea } from '@ionic/react';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import BaseModal from '@/components/shared/BaseModal';
+import { designSystem } from '@/theme/designSystem';
+import type { OrderType, OrderTypeDetails } from '@/types';
+import { ORDER_TYPE_LABELS, ORDER_TYPES } from '@/utils/order';
+
+interface OrderTypeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  details: OrderTypeDetails; // The cart's current order type
+  onSave: (details: OrderTypeDetails) => void;
+}
+
+const Section = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.sm};
+	margin-top: ${designSystem.spacing.lg};
+`;
+
+export const OrderTypeModal: React.FC<OrderTypeModalProps> = ({
+  isOpen,
+  onClose,
+  details,
+  onSave,
+}) => {
+  const [orderType, setOrderType] = useState<OrderType>(details.order_type);
+  const [tableLabel, setTableLabel] = useState('');
+  const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [deliveryFee, setDeliveryFee] = useState('');
+
+  // Start from the cart's order type each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setOrderType(details.order_type);
+      setTableLabel(details.table_label ?? '');
+      setDeliveryAddress(details.delivery_address ?? '');
+      setDeliveryFee(details.delivery_fee > 0 ? String(details.delivery_fee) : '');
+    }
+  }, [isOpen, details]);
+
+  const fee = Number.parseFloat(deliveryFee) || 0;
+  const isComplete =
+    (orderType !== 'dine_in' || !!tableLabel.trim()) &&
+    (orderType !== 'delivery' || (!!deliveryAddress.trim() && fee >= 0));
+
+  const handleSave = () => {
+    if (!isComplete) return;
+
+    // Only the details that belong to the chosen type are kept
+    onSave({
+      order_type: orderType,
+      table_label: orderType === 'dine_in' ? tableLabel.trim() : null,
+      delivery_address: orderType === 'delivery' ? deliveryAddress.trim() : null,
+      delivery_fee: orderType === 'delivery' ? Math.round(fee * 100) / 100 : 0,
+    });
+    onClose();
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Order Type"
+      showFooterButton
+      footerButtonLabel="Apply"
+      onFooterButtonClick={handleSave}
+      footerButtonDisabled={!isComplete}
+    >
+      <IonSegment value={orderType} onIonChange={(e) => setOrderType(e.detail.value as OrderType)}>
+        {ORDER_TYPES.map((type) => (
+          <IonSegmentButton key={type} value={type} color="dark">
+            <IonLabel className="ion-text-capitalize">{ORDER_TYPE_LABELS[type]}</IonLabel>
+          </IonSegmentButton>
+        ))}
+      </IonSegment>
+
+      {orderType === 'dine_in' && (
+        <Section>
+          <IonInput
+            fill="outline"
+            label="Table *"
+            labelPlacement="floating"
+            placeholder="e.g., 4, Patio 2"
+            value={tableLabel}
+            onIonInput={(e) => setTableLabel(e.detail.value ?? '')}
+          />
+        </Section>
+      )}
+
+      {orderType === 'delivery' && (
+        <Section>
+          <IonTextarea
+            fill="outline"
+            label="Delivery Address *"
+            labelPlacement="floating"
+            rows={3}
+            value={deliveryAddress}
+            onIonInput={(e) => setDeliveryAddress(e.detail.value ?? '')}
+          />
+          <IonInput
+            fill="outline"
+            label="Delivery Fee"
+            labelPlacement="floating"
+            type="number"
+            inputmode="decimal"
+            min={0}
+            step="0.01"
+            placeholder="0.00"
+            value={deliveryFee}
+            onIonInput={(e) => setDeliveryFee(e.detail.value ?? '')}
+          />
+        </Section>
+      )}
+    </BaseModal>
+  );
+};
+
+export default OrderTypeModal;
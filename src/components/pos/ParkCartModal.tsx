@@ -0,0 +1,145 @@
+// ParkCartModal - Set the current cart aside under a label so another can be started
+
+import { IonInput, IonText, IonTextarea } from '@ionic/react';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import BaseModal from '@/components/shared/BaseModal';
+import { PriceDisplay } from '@/components/ui';
+import { useParkCart } from '@/hooks/useParkedCart';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { designSystem } from '@/theme/designSystem';
+import type { CartItem, Discount, OrderTypeDetails } from '@/types';
+
+interface ParkCartModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: CartItem[];
+  discounts: Discount[];
+  customerName: string | null;
+  notes: string | null;
+  orderTypeDetails: OrderTypeDetails;
+  subtotal: number;
+  currency: string;
+  onParked: () => void; // Called once the cart is saved, to clear it
+}
+
+const Section = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.sm};
+	margin-bottom: ${designSystem.spacing.lg};
+`;
+
+const Summary = styled.p`
+	margin: 0 0 ${designSystem.spacing.lg} 0;
+	color: ${designSystem.colors.text.secondary};
+	font-size: ${designSystem.typography.fontSize.sm};
+`;
+
+export const ParkCartModal: React.FC<ParkCartModalProps> = ({
+  isOpen,
+  onClose,
+  items,
+  discounts,
+  customerName,
+  notes,
+  orderTypeDetails,
+  subtotal,
+  currency,
+  onParked,
+}) => {
+  const parkCart = useParkCart();
+  const { showSuccess, showError } = useToastNotification();
+
+  const [label, setLabel] = useState('');
+  const [customer, setCustomer] = useState('');
+  const [cartNotes, setCartNotes] = useState('');
+
+  const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+
+  // Start from the cart's customer and notes each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setLabel('');
+      setCustomer(customerName ?? '');
+      setCartNotes(notes ?? '');
+    }
+  }, [isOpen, customerName, notes]);
+
+  // The label falls back to the customer name
+  const effectiveLabel = label.trim() || customer.trim();
+
+  const handlePark = async () => {
+    if (!effectiveLabel) return;
+
+    try {
+      await parkCart.mutateAsync({
+        label: effectiveLabel,
+        customer_name: customer.trim() || null,
+        notes: cartNotes.trim() || null,
+        items,
+        discounts,
+        ...orderTypeDetails,
+        item_count: itemCount,
+        subtotal,
+      });
+      showSuccess(`Parked "${effectiveLabel}"`);
+      onParked();
+      onClose();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to park cart');
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Park Cart"
+      showFooterButton
+      footerButtonLabel="Park Cart"
+      onFooterButtonClick={handlePark}
+      footerButtonDisabled={!effectiveLabel || items.length === 0 || parkCart.isPending}
+      footerButtonLoading={parkCart.isPending}
+    >
+      <Summary>
+        {itemCount} {itemCount === 1 ? 'item' : 'items'} ·{' '}
+        <PriceDisplay amount={subtotal} currency={currency} />
+      </Summary>
+
+      <Section>
+        <IonInput
+          fill="outline"
+          label="Customer Name"
+          labelPlacement="floating"
+          value={customer}
+          onIonInput={(e) => setCustomer(e.detail.value ?? '')}
+        />
+        <IonInput
+          fill="outline"
+          label="Label"
+          labelPlacement="floating"
+          placeholder={customer.trim() || 'e.g., Table 4, Blue jacket'}
+          value={label}
+          onIonInput={(e) => setLabel(e.detail.value ?? '')}
+        />
+        <IonTextarea
+          fill="outline"
+          label="Notes"
+          labelPlacement="floating"
+          rows={3}
+          value={cartNotes}
+          onIonInput={(e) => setCartNotes(e.detail.value ?? '')}
+        />
+        {!effectiveLabel && (
+          <IonText color="medium">
+            <small>Enter a label or customer name to find this cart later.</small>
+          </IonText>
+        )}
+      </Section>
+    </BaseModal>
+  );
+};
+
+export default ParkCartModal;
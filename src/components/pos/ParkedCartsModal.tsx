@@ -0,0 +1,130 @@
+// ParkedCartsModal - Carts parked in the shop, ready to resume on this register
+
+import { IonButton, IonIcon, IonItem, IonLabel, IonList, IonNote, IonText } from '@ionic/react';
+import { trashOutline } from 'ionicons/icons';
+import type React from 'react';
+import BaseModal from '@/components/shared/BaseModal';
+import { PriceDisplay } from '@/components/ui';
+import { useShopContext } from '@/contexts/ShopContext';
+import { useDeleteParkedCart, useParkedCarts, useResumeParkedCart } from '@/hooks/useParkedCart';
+import { useShopUsers } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import type { ParkedCart } from '@/types';
+import { formatRelativeTime } from '@/utils/date';
+
+interface ParkedCartsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currency: string;
+  canResume: boolean; // False while the current cart has items
+  onResume: (parkedCart: ParkedCart) => void; // Called with the cart once it is claimed
+}
+
+export const ParkedCartsModal: React.FC<ParkedCartsModalProps> = ({
+  isOpen,
+  onClose,
+  currency,
+  canResume,
+  onResume,
+}) => {
+  const { currentShop } = useShopContext();
+  const { data: parkedCarts = [], isLoading } = useParkedCarts();
+  const { data: shopUsers = [] } = useShopUsers(currentShop?.id);
+  const resumeParkedCart = useResumeParkedCart();
+  const deleteParkedCart = useDeleteParkedCart();
+  const { showSuccess, showError } = useToastNotification();
+
+  const isBusy = resumeParkedCart.isPending || deleteParkedCart.isPending;
+
+  const getUserName = (userId: string | null) =>
+    userId
+      ? (shopUsers.find((shopUser) => shopUser.user_id === userId)?.display_name ?? null)
+      : null;
+
+  const handleResume = async (parkedCart: ParkedCart) => {
+    try {
+      const resumed = await resumeParkedCart.mutateAsync(parkedCart.id);
+      if (resumed) onResume(resumed);
+      onClose();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to resume cart');
+    }
+  };
+
+  const handleDiscard = async (parkedCart: ParkedCart) => {
+    try {
+      await deleteParkedCart.mutateAsync(parkedCart.id);
+      showSuccess(`Discarded "${parkedCart.label}"`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to discard cart');
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Parked Carts"
+      isLoading={isLoading}
+      loadingMessage="Loading parked carts..."
+    >
+      {!canResume && parkedCarts.length > 0 && (
+        <IonText color="medium">
+          <p>Park or clear the current order before resuming another.</p>
+        </IonText>
+      )}
+
+      {parkedCarts.length > 0 ? (
+        <IonList lines="full" className="ion-no-padding">
+          {parkedCarts.map((parkedCart) => {
+            const parkedBy = getUserName(parkedCart.created_by);
+            return (
+              <IonItem key={parkedCart.id}>
+                <IonLabel>
+                  <h2>{parkedCart.label}</h2>
+                  {parkedCart.customer_name && parkedCart.customer_name !== parkedCart.label && (
+                    <p>{parkedCart.customer_name}</p>
+                  )}
+                  <p>
+                    {parkedCart.item_count} {parkedCart.item_count === 1 ? 'item' : 'items'} ·{' '}
+                    <PriceDisplay amount={parkedCart.subtotal} currency={currency} />
+                  </p>
+                  {parkedCart.notes && <p>{parkedCart.notes}</p>}
+                  <IonNote>
+                    Parked {formatRelativeTime(parkedCart.created_at)}
+                    {parkedBy && ` by ${parkedBy}`}
+                  </IonNote>
+                </IonLabel>
+                <IonButton
+                  slot="end"
+                  fill="clear"
+                  color="danger"
+                  disabled={isBusy}
+                  onClick={() => handleDiscard(parkedCart)}
+                  aria-label="Discard parked cart"
+                >
+                  <IonIcon slot="icon-only" icon={trashOutline} />
+                </IonButton>
+                <IonButton
+                  slot="end"
+                  disabled={!canResume || isBusy}
+                  onClick={() => handleResume(parkedCart)}
+                >
+                  Resume
+                </IonButton>
+              </IonItem>
+            );
+          })}
+        </IonList>
+      ) : (
+        <div style={{ textAlign: 'center', padding: '2rem' }}>
+          <IonText color="medium">
+            <p>No parked carts. Park the current order to start another.</p>
+          </IonText>
+        </div>
+      )}
+    </BaseModal>
+  );
+};
+
+export default ParkedCartsModal;
@@ -0,0 +1,485 @@
+// PaymentModal - Take one or more tenders towards an amount due, with the customer's details
+
+import { IonButton, IonIcon, IonText } from '@ionic/react';
+import { addOutline, card, cash, closeCircleOutline, wallet } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import styled from 'styled-components';
+import BaseModal from '@/components/shared/BaseModal';
+import { PriceField, TextField } from '@/components/shared/FormFields';
+import { PriceDisplay } from '@/components/ui';
+import { usePaymentTypes } from '@/hooks/useOrder';
+import { designSystem } from '@/theme/designSystem';
+import type { CheckoutFormData, CheckoutPaymentData, CreateOrderPaymentData } from '@/types';
+
+interface PaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  amountDue: number;
+  currency: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  isLoading?: boolean; // While what is being paid for loads
+  resetKey?: string; // Starts over with no tenders when it changes, e.g. on the next bill
+  children?: React.ReactNode; // What is being paid for, shown above the tenders
+  onSubmit: (payment: CheckoutPaymentData) => void | Promise<void>;
+}
+
+// Balances within half a cent count as settled
+const BALANCE_TOLERANCE = 0.005;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const Section = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.md};
+	padding-top: ${designSystem.spacing.lg};
+	border-top: 1px solid ${designSystem.colors.gray[200]};
+	margin-top: ${designSystem.spacing.lg};
+
+	&:first-child {
+		padding-top: 0;
+		border-top: none;
+		margin-top: 0;
+	}
+`;
+
+const SectionTitle = styled.h3`
+	font-size: ${designSystem.typography.fontSize.base};
+	font-weight: ${designSystem.typography.fontWeight.semibold};
+	color: ${designSystem.colors.text.primary};
+	margin: 0 0 ${designSystem.spacing.sm} 0;
+`;
+
+const PaymentMethodGroup = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.sm};
+`;
+
+const PaymentMethodCard = styled.button<{ $isSelected: boolean }>`
+	display: flex;
+	flex-direction: row;
+	align-items: center;
+	gap: ${designSystem.spacing.md};
+	padding: ${(props) => (props.$isSelected ? 'calc(16px - 1px)' : '16px')};
+	background: ${(props) => (props.$isSelected ? designSystem.colors.gray[100] : designSystem.colors.gray[50])};
+	border: ${(props) => (props.$isSelected ? '3px' : '2px')} solid
+		${(props) => (props.$isSelected ? designSystem.colors.primary : designSystem.colors.gray[200])};
+	border-radius: ${designSystem.borderRadius.md};
+	cursor: pointer;
+	transition: all 0.2s ease;
+	width: 100%;
+	text-align: left;
+
+	&:hover {
+		border-color: ${designSystem.colors.primary};
+		background: ${(props) => (props.$isSelected ? designSystem.colors.gray[100] : designSystem.colors.gray[100])};
+	}
+
+	&:active {
+		transform: scale(0.98);
+	}
+`;
+
+const PaymentMethodIcon = styled(IonIcon)<{ $isSelected: boolean }>`
+	font-size: 24px;
+	color: ${(props) => (props.$isSelected ? designSystem.colors.brand.primary : designSystem.colors.text.secondary)};
+	flex-shrink: 0;
+`;
+
+const PaymentMethodContent = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.xs};
+	flex: 1;
+`;
+
+const PaymentMethodName = styled.h4<{ $isSelected: boolean }>`
+	font-size: ${designSystem.typography.fontSize.base};
+	font-weight: ${designSystem.typography.fontWeight.semibold};
+	color: ${(props) => (props.$isSelected ? designSystem.colors.brand.primary : designSystem.colors.text.primary)};
+	margin: 0;
+`;
+
+const PaymentMethodDescription = styled.p<{ $isSelected: boolean }>`
+	font-size: ${designSystem.typography.fontSize.sm};
+	color: ${(props) => (props.$isSelected ? designSystem.colors.brand.secondary : designSystem.colors.text.secondary)};
+	margin: ${designSystem.spacing.xs} 0 0 0;
+`;
+
+const ChangeDisplay = styled.div`
+	display: flex;
+	justify-content: space-between;
+	align-items: center;
+	padding: ${designSystem.spacing.md};
+	background: ${designSystem.colors.gray[50]};
+	border-radius: ${designSystem.borderRadius.md};
+	margin-top: ${designSystem.spacing.sm};
+`;
+
+const ChangeLabel = styled.span`
+	font-size: ${designSystem.typography.fontSize.base};
+	color: ${designSystem.colors.text.secondary};
+`;
+
+const ChangeAmount = styled.span`
+	font-size: ${designSystem.typography.fontSize.xl};
+	font-weight: ${designSystem.typography.fontWeight.bold};
+	color: ${designSystem.colors.success};
+`;
+
+const BalanceAmount = styled.span`
+	font-size: ${designSystem.typography.fontSize.xl};
+	font-weight: ${designSystem.typography.fontWeight.bold};
+	color: ${designSystem.colors.text.primary};
+`;
+
+const TenderList = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.xs};
+`;
+
+const TenderRow = styled.div`
+	display: flex;
+	align-items: center;
+	gap: ${designSystem.spacing.sm};
+	padding-left: ${designSystem.spacing.sm};
+	background: ${designSystem.colors.gray[50]};
+	border-radius: ${designSystem.borderRadius.sm};
+`;
+
+const TenderLabel = styled.span`
+	flex: 1;
+	font-size: ${designSystem.typography.fontSize.base};
+	color: ${designSystem.colors.text.primary};
+`;
+
+export const PaymentModal: React.FC<PaymentModalProps> = ({
+  isOpen,
+  onClose,
+  title,
+  amountDue,
+  currency,
+  submitLabel,
+  isSubmitting,
+  isLoading = false,
+  resetKey,
+  children,
+  onSubmit,
+}) => {
+  // Fetch payment types
+  const { data: paymentTypes = [], isLoading: paymentTypesLoading } = usePaymentTypes();
+
+  // Tenders added so far
+  const [payments, setPayments] = useState<CreateOrderPaymentData[]>([]);
+
+  // Form state
+  const {
+    control,
+    handleSubmit,
+    watch,
+    formState: { errors, isValid },
+    reset,
+    setValue,
+  } = useForm<CheckoutFormData>({
+    mode: 'onChange',
+    defaultValues: {
+      customer_name: '',
+      customer_email: '',
+      customer_phone: '',
+      payment_type_id: '',
+      tender_amount: null,
+      tender_reference: '',
+    },
+  });
+
+  // Watch form values for reactive UI
+  const paymentTypeId = watch('payment_type_id');
+  const tenderAmount = watch('tender_amount');
+
+  // Find selected payment type
+  const selectedPaymentType = useMemo(
+    () => paymentTypes.find((pt) => pt.id === paymentTypeId),
+    [paymentTypes, paymentTypeId]
+  );
+
+  // Tenders like cash may exceed the balance, with the excess given back as change
+  const allowsChange = !!selectedPaymentType?.allows_change;
+  const requiresReference = !!selectedPaymentType?.requires_reference;
+  const tenderReference = watch('tender_reference');
+
+  // Amount still owed after the tenders added so far
+  const balance = useMemo(
+    () => roundAmount(amountDue - payments.reduce((sum, payment) => sum + payment.amount, 0)),
+    [amountDue, payments]
+  );
+
+  // The tender being entered; only tenders that allow change may exceed the balance
+  const pendingPayment = useMemo((): CreateOrderPaymentData | null => {
+    if (!selectedPaymentType || !tenderAmount || tenderAmount <= 0) return null;
+
+    const reference = tenderReference?.trim() || null;
+    if (requiresReference && !reference) return null;
+
+    if (allowsChange) {
+      return {
+        payment_type_id: selectedPaymentType.id,
+        amount: Math.min(tenderAmount, balance),
+        amount_tendered: tenderAmount,
+        change: roundAmount(Math.max(0, tenderAmount - balance)),
+        reference,
+      };
+    }
+
+    if (tenderAmount > balance + BALANCE_TOLERANCE) return null;
+
+    return {
+      payment_type_id: selectedPaymentType.id,
+      amount: tenderAmount,
+      amount_tendered: null,
+      change: 0,
+      reference,
+    };
+  }, [
+    selectedPaymentType,
+    tenderAmount,
+    tenderReference,
+    requiresReference,
+    allowsChange,
+    balance,
+  ]);
+
+  const isOverpaid = !allowsChange && !!tenderAmount && tenderAmount > balance + BALANCE_TOLERANCE;
+
+  // Balance left once the pending tender is included
+  const remainingBalance = roundAmount(balance - (pendingPayment?.amount ?? 0));
+  const change = pendingPayment?.change ?? 0;
+
+  // Complete button disabled state
+  const isCompleteDisabled = useMemo(() => {
+    return !isValid || remainingBalance > BALANCE_TOLERANCE || isOverpaid || isSubmitting;
+  }, [isValid, remainingBalance, isOverpaid, isSubmitting]);
+
+  // Start over when the modal opens or moves on to something else to pay
+  // biome-ignore lint/correctness/useExhaustiveDependencies: resetKey only signals a fresh start
+  useEffect(() => {
+    if (isOpen) {
+      reset();
+      setPayments([]);
+    }
+  }, [isOpen, resetKey, reset]);
+
+  // Select a payment method and prefill the amount with what is still owed
+  const handleSelectPaymentType = (id: string) => {
+    setValue('payment_type_id', id, { shouldValidate: true });
+    setValue('tender_amount', balance > 0 ? balance : null, { shouldValidate: true });
+    setValue('tender_reference', '');
+  };
+
+  // Add the pending tender and start the next one
+  const handleAddPayment = () => {
+    if (!pendingPayment) return;
+    setPayments((current) => [...current, pendingPayment]);
+    setValue('payment_type_id', '');
+    setValue('tender_amount', null);
+    setValue('tender_reference', '');
+  };
+
+  const handleRemovePayment = (index: number) => {
+    setPayments((current) => current.filter((_, i) => i !== index));
+  };
+
+  const getPaymentTypeLabel = (id: string | null) =>
+    paymentTypes.find((pt) => pt.id === id)?.code ?? 'Payment';
+
+  const handlePay = (formData: CheckoutFormData) =>
+    onSubmit({
+      customer_name: formData.customer_name || null,
+      customer_email: formData.customer_email || null,
+      customer_phone: formData.customer_phone || null,
+      // A tender still being entered when completing counts as the last payment
+      payments: pendingPayment ? [...payments, pendingPayment] : payments,
+    });
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={title}
+      showFooterButton
+      footerButtonLabel={submitLabel}
+      onFooterButtonClick={handleSubmit(handlePay)}
+      footerButtonDisabled={isCompleteDisabled}
+      footerButtonLoading={isSubmitting}
+      isLoading={isLoading || paymentTypesLoading}
+      loadingMessage="Loading payment methods..."
+    >
+      {children}
+
+      {/* Payments */}
+      {payments.length > 0 && (
+        <Section>
+          <SectionTitle>Payments</SectionTitle>
+          <TenderList>
+            {payments.map((payment, index) => (
+              <TenderRow key={`${payment.payment_type_id ?? 'cash'}-${index}`}>
+                <TenderLabel>{getPaymentTypeLabel(payment.payment_type_id)}</TenderLabel>
+                <PriceDisplay amount={payment.amount} currency={currency} />
+                <IonButton
+                  fill="clear"
+                  color="danger"
+                  size="small"
+                  onClick={() => handleRemovePayment(index)}
+                  aria-label="Remove payment"
+                >
+                  <IonIcon slot="icon-only" icon={closeCircleOutline} />
+                </IonButton>
+              </TenderRow>
+            ))}
+          </TenderList>
+        </Section>
+      )}
+
+      {/* Payment Method */}
+      <Section>
+        <SectionTitle>
+          {payments.length > 0 ? 'Add Another Payment' : 'Payment Method'}
+        </SectionTitle>
+
+        <ChangeDisplay>
+          <ChangeLabel>Balance Due</ChangeLabel>
+          <BalanceAmount>
+            <PriceDisplay amount={Math.max(0, balance)} currency={currency} />
+          </BalanceAmount>
+        </ChangeDisplay>
+
+        <PaymentMethodGroup>
+          {paymentTypes.map((paymentType) => {
+            const isCard =
+              paymentType.code?.toLowerCase().includes('card') ||
+              paymentType.code?.toLowerCase().includes('credit') ||
+              paymentType.code?.toLowerCase().includes('debit');
+            const icon = paymentType.allows_change ? cash : isCard ? card : wallet;
+
+            return (
+              <PaymentMethodCard
+                key={paymentType.id}
+                type="button"
+                $isSelected={paymentTypeId === paymentType.id}
+                disabled={balance <= BALANCE_TOLERANCE}
+                onClick={() => handleSelectPaymentType(paymentType.id)}
+              >
+                <PaymentMethodIcon icon={icon} $isSelected={paymentTypeId === paymentType.id} />
+                <PaymentMethodContent>
+                  <PaymentMethodName $isSelected={paymentTypeId === paymentType.id}>
+                    {paymentType.code}
+                  </PaymentMethodName>
+                  {paymentType.description && (
+                    <PaymentMethodDescription $isSelected={paymentTypeId === paymentType.id}>
+                      {paymentType.description}
+                    </PaymentMethodDescription>
+                  )}
+                </PaymentMethodContent>
+              </PaymentMethodCard>
+            );
+          })}
+        </PaymentMethodGroup>
+
+        {paymentTypes.length === 0 && (
+          <IonText color="medium" style={{ fontSize: '0.875rem' }}>
+            No payment types are set up. Add them in Settings → Payment Types.
+          </IonText>
+        )}
+
+        {errors.payment_type_id && (
+          <IonText color="danger">
+            <p style={{ fontSize: '0.75rem', marginTop: '4px' }}>
+              {errors.payment_type_id.message}
+            </p>
+          </IonText>
+        )}
+      </Section>
+
+      {/* Payment Details */}
+      {selectedPaymentType && (
+        <Section>
+          <SectionTitle>Payment Details</SectionTitle>
+          <PriceField
+            name="tender_amount"
+            control={control}
+            label={allowsChange ? 'Amount Received' : 'Amount'}
+            placeholder="0.00"
+            required
+            currency={currency}
+            error={errors.tender_amount}
+          />
+          {isOverpaid && (
+            <IonText color="danger" style={{ fontSize: '0.875rem' }}>
+              Amount cannot exceed the balance of{' '}
+              <PriceDisplay amount={balance} currency={currency} />
+            </IonText>
+          )}
+          {requiresReference && (
+            <TextField
+              name="tender_reference"
+              control={control}
+              label="Reference Number"
+              placeholder="e.g., approval or transaction code"
+              required
+              error={errors.tender_reference}
+            />
+          )}
+          {allowsChange && (
+            <ChangeDisplay>
+              <ChangeLabel>Change</ChangeLabel>
+              <ChangeAmount>
+                <PriceDisplay amount={change} currency={currency} />
+              </ChangeAmount>
+            </ChangeDisplay>
+          )}
+          {pendingPayment && remainingBalance > BALANCE_TOLERANCE && (
+            <IonButton expand="block" fill="outline" onClick={handleAddPayment}>
+              <IonIcon slot="start" icon={addOutline} />
+              Add Payment · <PriceDisplay amount={remainingBalance} currency={currency} /> left
+            </IonButton>
+          )}
+        </Section>
+      )}
+
+      {/* Customer Information */}
+      <Section>
+        <SectionTitle>Customer Information (Optional)</SectionTitle>
+        <TextField
+          name="customer_name"
+          control={control}
+          label="Name"
+          placeholder="Enter customer name"
+          error={errors.customer_name}
+        />
+        <TextField
+          name="customer_email"
+          control={control}
+          label="Email"
+          type="email"
+          placeholder="customer@example.com"
+          error={errors.customer_email}
+        />
+        <TextField
+          name="customer_phone"
+          control={control}
+          label="Phone"
+          type="tel"
+          placeholder="+1 (555) 123-4567"
+          error={errors.customer_phone}
+        />
+      </Section>
+    </BaseModal>
+  );
+};
+
+export default PaymentModal;
@@ -6,17 +6,22 @@ import styled from 'styled-components';
 import { PriceDisplay } from '@/components/ui';
 import { designSystem } from '@/theme/designSystem';
 import type { Product } from '@/types';
+import { LOW_STOCK_THRESHOLD } from '@/utils/stock';
 
 interface ProductCardProps {
 	product: Product;
 	currency?: string;
+	price?: number; // Price for the cart's order type; defaults to the product price
+	stockCount?: number; // How many more can be made; omit when the product uses no inventory
 	onTap?: () => void;
 	onLongPress?: () => void;
 	className?: string;
 }
 
 // Styled ProductCard extends the base Card styling
-const StyledProductCard = styled.div`
+const StyledProductCard = styled.div<{ $soldOut: boolean }>`
+	opacity: ${(props) => (props.$soldOut ? 0.5 : 1)};
+	filter: ${(props) => (props.$soldOut ? 'grayscale(1)' : 'none')};
 	background: ${designSystem.colors.surface.elevated};
 	border-radius: ${designSystem.borderRadius.lg};
 	box-shadow: ${designSystem.shadows.md};
@@ -43,6 +48,7 @@ const StyledProductCard = styled.div`
 `;
 
 const ProductImage = styled.div`
+	position: relative;
 	width: 100%;
 	aspect-ratio: 1;
 	border-radius: ${designSystem.borderRadius.md};
@@ -59,6 +65,19 @@ const ProductImage = styled.div`
 	}
 `;
 
+const StockBadge = styled.span<{ $soldOut: boolean }>`
+	position: absolute;
+	top: ${designSystem.spacing.xs};
+	right: ${designSystem.spacing.xs};
+	padding: 2px ${designSystem.spacing.sm};
+	border-radius: ${designSystem.borderRadius.full};
+	font-size: ${designSystem.typography.fontSize.xs};
+	font-weight: ${designSystem.typography.fontWeight.semibold};
+	color: ${designSystem.colors.surface.elevated};
+	background: ${(props) =>
+		props.$soldOut ? designSystem.colors.danger : designSystem.colors.warning};
+`;
+
 const ProductName = styled.div`
 	font-size: ${designSystem.typography.fontSize.base};
 	font-weight: ${designSystem.typography.fontWeight.medium};
@@ -81,6 +100,8 @@ const ProductPrice = styled.div`
 export const ProductCard: React.FC<ProductCardProps> = ({
 	product,
 	currency = 'USD',
+	price,
+	stockCount,
 	onTap,
 	onLongPress,
 	className = '',
@@ -111,8 +132,13 @@ export const ProductCard: React.FC<ProductCardProps> = ({
 		}
 	};
 
+	const isSoldOut = stockCount === 0;
+	const isLowStock = stockCount !== undefined && stockCount > 0 && stockCount <= LOW_STOCK_THRESHOLD;
+
 	return (
 		<StyledProductCard
+			$soldOut={isSoldOut}
+			aria-disabled={isSoldOut}
 			className={className}
 			onTouchStart={handleTouchStart}
 			onTouchEnd={handleTouchEnd}
@@ -126,12 +152,15 @@ export const ProductCard: React.FC<ProductCardProps> = ({
 		>
 			<ProductImage>
 				{product.image_url ? <IonImg src={product.image_url} alt={product.name} /> : null}
+				{/* "86" is kitchen shorthand for an item that has run out */}
+				{isSoldOut && <StockBadge $soldOut>86</StockBadge>}
+				{isLowStock && <StockBadge $soldOut={false}>{stockCount} left</StockBadge>}
 			</ProductImage>
 
 			<ProductName>{product.name}</ProductName>
 
 			<ProductPrice>
-				<PriceDisplay amount={product.price} currency={currency} />
+				<PriceDisplay amount={price ?? product.price} currency={currency} />
 			</ProductPrice>
 		</StyledProductCard>
 	);
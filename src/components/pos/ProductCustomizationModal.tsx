@@ -6,7 +6,14 @@ import styled from 'styled-components';
 import BaseModal from '@/components/shared/BaseModal';
 import { PriceDisplay } from '@/components/ui';
 import { designSystem } from '@/theme/designSystem';
-import type { CartItemAddon, CartItemModifier, Product, ProductWithDetails } from '@/types';
+import type {
+  CartItemAddon,
+  CartItemModifier,
+  OrderType,
+  Product,
+  ProductWithDetails,
+} from '@/types';
+import { getProductPrice } from '@/utils/order';
 import { AddonQuantityControl } from './AddonQuantityControl';
 import { ModifierGroupControl } from './ModifierGroupControl';
 
@@ -19,6 +26,7 @@ interface ProductCustomizationModalProps {
   existingModifiers?: CartItemModifier[];
   onSave: (selectedAddons: CartItemAddon[], selectedModifiers: CartItemModifier[]) => void;
   currency?: string;
+  orderType?: OrderType; // Prices the product for the cart's order type
 }
 
 const ProductHeader = styled.div`
@@ -93,6 +101,7 @@ export const ProductCustomizationModal: React.FC<ProductCustomizationModalProps>
   existingModifiers = [],
   onSave,
   currency = 'USD',
+  orderType,
 }) => {
   // State for modifier selections
   const [modifierSelections, setModifierSelections] = useState<Record<string, string[]>>({});
@@ -232,11 +241,15 @@ export const ProductCustomizationModal: React.FC<ProductCustomizationModalProps>
     return total;
   }, [productDetails, addonSelections]);
 
+  // Base price for the order type, before modifiers and addons
+  const basePrice =
+    product && orderType ? getProductPrice(product, orderType) : (product?.price ?? 0);
+
   // Calculate total price (base + modifiers + addons)
   const totalPrice = useMemo(() => {
     if (!product) return 0;
-    return product.price + modifierTotal + addonTotal;
-  }, [product, modifierTotal, addonTotal]);
+    return basePrice + modifierTotal + addonTotal;
+  }, [product, basePrice, modifierTotal, addonTotal]);
 
   // Handle save
   const handleSave = () => {
@@ -294,7 +307,7 @@ export const ProductCustomizationModal: React.FC<ProductCustomizationModalProps>
         <ProductHeader>
           <ProductName>{product.name}</ProductName>
           <ProductBasePrice>
-            Base Price: <PriceDisplay amount={product.price} currency={currency} />
+            Base Price: <PriceDisplay amount={basePrice} currency={currency} />
           </ProductBasePrice>
         </ProductHeader>
 
@@ -353,7 +366,7 @@ export const ProductCustomizationModal: React.FC<ProductCustomizationModalProps>
           <PriceRow>
             <span>Base Price:</span>
             <span>
-              <PriceDisplay amount={product.price} currency={currency} />
+              <PriceDisplay amount={basePrice} currency={currency} />
             </span>
           </PriceRow>
           {modifierTotal !== 0 && (
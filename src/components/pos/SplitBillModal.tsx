@@ -0,0 +1,219 @@
+// SplitBillModal - Split the cart into separately paid bills
+
+import {
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonSegment,
+  IonSegmentButton,
+  IonSelect,
+  IonSelectOption,
+} from '@ionic/react';
+import { addOutline, removeOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import BaseModal from '@/components/shared/BaseModal';
+import { PriceDisplay } from '@/components/ui';
+import { designSystem } from '@/theme/designSystem';
+import type { BillSplitMode, CartItem, SplitBill } from '@/types';
+import { splitByItems, splitEvenly } from '@/utils/billSplit';
+
+const MIN_GUESTS = 2;
+const MAX_GUESTS = 20;
+
+interface SplitBillModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: CartItem[];
+  lineTotals: Record<string, number>; // Cart item ID to its share of the total
+  total: number;
+  currency: string;
+  onConfirm: (bills: SplitBill[]) => void;
+}
+
+const Section = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.sm};
+	margin-bottom: ${designSystem.spacing.lg};
+`;
+
+const SectionTitle = styled.h3`
+	font-size: ${designSystem.typography.fontSize.base};
+	font-weight: ${designSystem.typography.fontWeight.semibold};
+	color: ${designSystem.colors.text.primary};
+	margin: 0;
+`;
+
+const GuestStepper = styled.div`
+	display: flex;
+	align-items: center;
+	justify-content: center;
+	gap: ${designSystem.spacing.md};
+`;
+
+const GuestCount = styled.span`
+	min-width: 48px;
+	text-align: center;
+	font-size: ${designSystem.typography.fontSize.xl};
+	font-weight: ${designSystem.typography.fontWeight.bold};
+	color: ${designSystem.colors.text.primary};
+`;
+
+export const SplitBillModal: React.FC<SplitBillModalProps> = ({
+  isOpen,
+  onClose,
+  items,
+  lineTotals,
+  total,
+  currency,
+  onConfirm,
+}) => {
+  const [mode, setMode] = useState<BillSplitMode>('items');
+  const [guests, setGuests] = useState(MIN_GUESTS);
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setMode('items');
+      setGuests(MIN_GUESTS);
+      setAssignments({});
+    }
+  }, [isOpen]);
+
+  const bills = useMemo(
+    () =>
+      mode === 'even'
+        ? splitEvenly(total, guests)
+        : splitByItems(
+            items,
+            lineTotals,
+            // Lines assigned to a guest that was since removed fall back to the last guest
+            Object.fromEntries(
+              items.map((item) => [
+                item.cart_item_id,
+                Math.min(assignments[item.cart_item_id] ?? 1, guests),
+              ])
+            ),
+            total
+          ),
+    [mode, total, guests, items, lineTotals, assignments]
+  );
+
+  const guestOptions = Array.from({ length: guests }, (_, index) => index + 1);
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Split Bill"
+      showFooterButton
+      footerButtonLabel={`Pay ${bills.length} Bills`}
+      onFooterButtonClick={() => onConfirm(bills)}
+      footerButtonDisabled={bills.length < MIN_GUESTS}
+    >
+      <Section>
+        <IonSegment value={mode} onIonChange={(e) => setMode(e.detail.value as BillSplitMode)}>
+          <IonSegmentButton value="items" color="dark">
+            <IonLabel className="ion-text-capitalize">By Item</IonLabel>
+          </IonSegmentButton>
+          <IonSegmentButton value="even" color="dark">
+            <IonLabel className="ion-text-capitalize">Evenly</IonLabel>
+          </IonSegmentButton>
+        </IonSegment>
+      </Section>
+
+      {/* Guests */}
+      <Section>
+        <SectionTitle>Guests</SectionTitle>
+        <GuestStepper>
+          <IonButton
+            fill="outline"
+            disabled={guests <= MIN_GUESTS}
+            onClick={() => setGuests((count) => count - 1)}
+            aria-label="Fewer guests"
+          >
+            <IonIcon slot="icon-only" icon={removeOutline} />
+          </IonButton>
+          <GuestCount>{guests}</GuestCount>
+          <IonButton
+            fill="outline"
+            disabled={guests >= MAX_GUESTS}
+            onClick={() => setGuests((count) => count + 1)}
+            aria-label="More guests"
+          >
+            <IonIcon slot="icon-only" icon={addOutline} />
+          </IonButton>
+        </GuestStepper>
+      </Section>
+
+      {/* Line assignments */}
+      {mode === 'items' && (
+        <Section>
+          <SectionTitle>Assign Items</SectionTitle>
+          <IonList lines="full" className="ion-no-padding">
+            {items.map((item) => (
+              <IonItem key={item.cart_item_id}>
+                <IonLabel>
+                  <h2>
+                    {item.quantity}x {item.product.name}
+                  </h2>
+                  <p>
+                    <PriceDisplay amount={lineTotals[item.cart_item_id] || 0} currency={currency} />
+                  </p>
+                </IonLabel>
+                <IonSelect
+                  slot="end"
+                  interface="popover"
+                  aria-label="Guest"
+                  value={Math.min(assignments[item.cart_item_id] ?? 1, guests)}
+                  onIonChange={(e) =>
+                    setAssignments((current) => ({
+                      ...current,
+                      [item.cart_item_id]: Number(e.detail.value),
+                    }))
+                  }
+                >
+                  {guestOptions.map((guest) => (
+                    <IonSelectOption key={guest} value={guest}>
+                      Guest {guest}
+                    </IonSelectOption>
+                  ))}
+                </IonSelect>
+              </IonItem>
+            ))}
+          </IonList>
+        </Section>
+      )}
+
+      {/* Resulting bills */}
+      <Section>
+        <SectionTitle>Bills</SectionTitle>
+        <IonList lines="full" className="ion-no-padding">
+          {bills.map((bill) => (
+            <IonItem key={bill.label}>
+              <IonLabel>
+                <h2>{bill.label}</h2>
+                {mode === 'items' && (
+                  <p>
+                    {bill.cart_item_ids.length} item{bill.cart_item_ids.length === 1 ? '' : 's'}
+                  </p>
+                )}
+              </IonLabel>
+              <IonNote slot="end">
+                <PriceDisplay amount={bill.amount} currency={currency} />
+              </IonNote>
+            </IonItem>
+          ))}
+        </IonList>
+      </Section>
+    </BaseModal>
+  );
+};
+
+export default SplitBillModal;
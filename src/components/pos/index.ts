@@ -2,13 +2,21 @@
 
 export { AddonQuantityControl } from './AddonQuantityControl';
 export { AddonSelectionModal } from './AddonSelectionModal';
+export { BillPaymentModal } from './BillPaymentModal';
 export { CartItem } from './CartItem';
 export { CartPanel } from './CartPanel';
 export { CategoryPillScroller } from './CategoryPillScroller';
 export { CategorySidebar } from './CategorySidebar';
 export { ChargeButton } from './ChargeButton';
 export { CheckoutModal } from './CheckoutModal';
+export { DiscountModal } from './DiscountModal';
 export { ModifierGroupControl } from './ModifierGroupControl';
+export { OfflineQueueModal } from './OfflineQueueModal';
 export { OrderTotals } from './OrderTotals';
+export { OrderTypeModal } from './OrderTypeModal';
+export { ParkCartModal } from './ParkCartModal';
+export { ParkedCartsModal } from './ParkedCartsModal';
+export { PaymentModal } from './PaymentModal';
 export { ProductCard } from './ProductCard';
 export { ProductCustomizationModal } from './ProductCustomizationModal';
+export { SplitBillModal } from './SplitBillModal';
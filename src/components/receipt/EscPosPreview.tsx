@@ -0,0 +1,116 @@
+// EscPosPreview - Show what an ESC/POS buffer will print, without a printer
+
+import { IonIcon, IonNote } from '@ionic/react';
+import { cashOutline, cutOutline, qrCodeOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useMemo } from 'react';
+import styled from 'styled-components';
+import { designSystem } from '@/theme/designSystem';
+import { decodeEscPos } from '@/utils/escpos';
+import type { ReceiptWidth } from '@/utils/receipt';
+
+interface EscPosPreviewProps {
+  data: Uint8Array;
+  width: ReceiptWidth;
+}
+
+const Paper = styled.div<{ $width: ReceiptWidth }>`
+	margin: 0 auto;
+	padding: ${designSystem.spacing.md};
+	width: calc(${({ $width }) => $width}ch + 2 * ${designSystem.spacing.md});
+	max-width: 100%;
+	overflow-x: auto;
+	font-family: 'Courier New', monospace;
+	font-size: 12px;
+	line-height: 1.4;
+	background: white;
+	color: black;
+	border: 1px solid ${designSystem.colors.gray[200]};
+	border-radius: ${designSystem.borderRadius.md};
+`;
+
+const Line = styled.div<{ $align: string; $bold: boolean; $large: boolean }>`
+	min-height: 1.4em;
+	white-space: pre;
+	text-align: ${({ $align }) => $align};
+	font-weight: ${({ $bold }) => ($bold ? 'bold' : 'normal')};
+	transform: ${({ $large }) => ($large ? 'scaleY(2)' : 'none')};
+	margin: ${({ $large }) => ($large ? '0.7em 0' : '0')};
+`;
+
+const QrPlaceholder = styled.div<{ $align: string }>`
+	display: flex;
+	flex-direction: column;
+	align-items: ${({ $align }) =>
+    $align === 'center' ? 'center' : $align === 'right' ? 'flex-end' : 'flex-start'};
+	gap: ${designSystem.spacing.xs};
+	margin: ${designSystem.spacing.sm} 0;
+
+	ion-icon {
+		font-size: 64px;
+	}
+`;
+
+const Marker = styled.div`
+	display: flex;
+	align-items: center;
+	gap: ${designSystem.spacing.xs};
+	margin: ${designSystem.spacing.xs} 0;
+	padding-top: ${designSystem.spacing.xs};
+	font-family: inherit;
+	color: ${designSystem.colors.gray[500]};
+`;
+
+const CutMarker = styled(Marker)`
+	border-top: 1px dashed ${designSystem.colors.gray[400]};
+`;
+
+export const EscPosPreview: React.FC<EscPosPreviewProps> = ({ data, width }) => {
+  const lines = useMemo(() => decodeEscPos(data), [data]);
+
+  return (
+    <>
+      <Paper $width={width}>
+        {lines.map((line, index) => {
+          const key = `${line.type}-${index}`;
+          switch (line.type) {
+            case 'text':
+              return (
+                <Line key={key} $align={line.align} $bold={line.bold} $large={line.large}>
+                  {line.text}
+                </Line>
+              );
+            case 'qr':
+              return (
+                <QrPlaceholder key={key} $align={line.align}>
+                  <IonIcon icon={qrCodeOutline} />
+                  <span>{line.data}</span>
+                </QrPlaceholder>
+              );
+            case 'cut':
+              return (
+                <CutMarker key={key}>
+                  <IonIcon icon={cutOutline} />
+                  Paper cut
+                </CutMarker>
+              );
+            case 'drawer':
+              return (
+                <Marker key={key}>
+                  <IonIcon icon={cashOutline} />
+                  Cash drawer opens
+                </Marker>
+              );
+            default:
+              return null;
+          }
+        })}
+      </Paper>
+      <IonNote className="ion-text-center" style={{ display: 'block', marginTop: '8px' }}>
+        {data.length} bytes
+      </IonNote>
+    </>
+  );
+};
+
+export default EscPosPreview;
@@ -0,0 +1,213 @@
+// ReceiptModal - Preview, print and share an order's receipt
+
+import {
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonSegment,
+  IonSegmentButton,
+  IonSelect,
+  IonSelectOption,
+} from '@ionic/react';
+import { shareOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import styled from 'styled-components';
+import BaseModal from '@/components/shared/BaseModal';
+import { useShopContext } from '@/contexts/ShopContext';
+import { useOrder } from '@/hooks/useOrder';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { designSystem } from '@/theme/designSystem';
+import { downloadEscPos, encodeReceipt } from '@/utils/escpos';
+import {
+  buildReceipt,
+  printHtml,
+  type ReceiptWidth,
+  renderReceiptHtml,
+  renderReceiptText,
+} from '@/utils/receipt';
+import { EscPosPreview } from './EscPosPreview';
+
+type ReceiptFormat = 'html' | 'text' | 'escpos';
+
+interface ReceiptModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: string | null;
+  billId?: string | null; // Bill of a split order to start on; otherwise the whole order
+  reprint?: boolean; // Reprints never kick the cash drawer
+}
+
+const Controls = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: ${designSystem.spacing.sm};
+	margin-bottom: ${designSystem.spacing.md};
+`;
+
+const HtmlPreview = styled.iframe`
+	width: 100%;
+	height: 60vh;
+	border: 1px solid ${designSystem.colors.gray[200]};
+	border-radius: ${designSystem.borderRadius.md};
+	background: white;
+`;
+
+const TextPreview = styled.pre`
+	margin: 0 auto;
+	padding: ${designSystem.spacing.md};
+	width: fit-content;
+	max-width: 100%;
+	overflow-x: auto;
+	font-family: 'Courier New', monospace;
+	font-size: 12px;
+	line-height: 1.4;
+	background: white;
+	color: black;
+	border: 1px solid ${designSystem.colors.gray[200]};
+	border-radius: ${designSystem.borderRadius.md};
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const ReceiptModal: React.FC<ReceiptModalProps> = ({
+  isOpen,
+  onClose,
+  orderId,
+  billId: initialBillId = null,
+  reprint = false,
+}) => {
+  const { currentShop } = useShopContext();
+  const { data: order, isLoading } = useOrder(orderId ?? undefined);
+  const { showSuccess, showError } = useToastNotification();
+
+  const [format, setFormat] = useState<ReceiptFormat>('html');
+  const [width, setWidth] = useState<ReceiptWidth>(32);
+  const selectionKey = `${orderId}:${initialBillId ?? ''}`;
+  const [billSelection, setBillSelection] = useState({ selectionKey, billId: initialBillId || '' });
+
+  // Each order starts on the bill asked for, or its whole-order receipt
+  const billId =
+    billSelection.selectionKey === selectionKey ? billSelection.billId : initialBillId || '';
+
+  const receipt = useMemo(
+    () => (order && currentShop ? buildReceipt(order, currentShop, billId || undefined) : null),
+    [order, currentShop, billId]
+  );
+  const html = useMemo(() => (receipt ? renderReceiptHtml(receipt) : ''), [receipt]);
+  const text = useMemo(() => (receipt ? renderReceiptText(receipt, width) : ''), [receipt, width]);
+  const escPos = useMemo(
+    () =>
+      receipt
+        ? encodeReceipt(receipt, { width, openDrawer: !reprint && receipt.opensCashDrawer })
+        : null,
+    [receipt, width, reprint]
+  );
+
+  const handlePrint = () => {
+    if (!receipt) return;
+
+    // Thermal printers take the raw command buffer through a raw print queue
+    if (format === 'escpos') {
+      if (escPos) downloadEscPos(escPos, `receipt-${receipt.orderNumber}.bin`);
+      return;
+    }
+
+    printHtml(
+      format === 'html'
+        ? html
+        : `<!DOCTYPE html><html><head><meta charset="utf-8"><style>@page { margin: 2mm; } body { margin: 0; }</style></head><body><pre style="font-family: 'Courier New', monospace; font-size: 12px;">${escapeHtml(text)}</pre></body></html>`
+    );
+  };
+
+  const handleShare = async () => {
+    if (!receipt) return;
+    const title = `${receipt.shopName} receipt #${receipt.orderNumber}`;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title, text });
+      } else {
+        await navigator.clipboard.writeText(text);
+        showSuccess('Receipt copied to clipboard');
+      }
+    } catch (error) {
+      // Closing the share sheet is not an error
+      if (error instanceof Error && error.name === 'AbortError') return;
+      showError('Failed to share receipt');
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Receipt"
+      showFooterButton
+      footerButtonLabel={format === 'escpos' ? 'Download ESC/POS' : 'Print Receipt'}
+      onFooterButtonClick={handlePrint}
+      footerButtonDisabled={!receipt}
+      isLoading={isLoading}
+      loadingMessage="Loading receipt..."
+    >
+      <Controls>
+        <IonSegment value={format} onIonChange={(e) => setFormat(e.detail.value as ReceiptFormat)}>
+          <IonSegmentButton value="html" color="dark">
+            <IonLabel className="ion-text-capitalize">Printable</IonLabel>
+          </IonSegmentButton>
+          <IonSegmentButton value="text" color="dark">
+            <IonLabel className="ion-text-capitalize">Plain Text</IonLabel>
+          </IonSegmentButton>
+          <IonSegmentButton value="escpos" color="dark">
+            <IonLabel className="ion-text-capitalize">ESC/POS</IonLabel>
+          </IonSegmentButton>
+        </IonSegment>
+
+        {format !== 'html' && (
+          <IonSegment
+            value={String(width)}
+            onIonChange={(e) => setWidth(Number(e.detail.value) as ReceiptWidth)}
+          >
+            <IonSegmentButton value="32" color="dark">
+              <IonLabel className="ion-text-capitalize">58mm (32 col)</IonLabel>
+            </IonSegmentButton>
+            <IonSegmentButton value="48" color="dark">
+              <IonLabel className="ion-text-capitalize">80mm (48 col)</IonLabel>
+            </IonSegmentButton>
+          </IonSegment>
+        )}
+
+        {order && order.order_bills.length > 0 && (
+          <IonItem lines="none">
+            <IonSelect
+              label="Receipt for"
+              interface="popover"
+              value={billId}
+              onIonChange={(e) => setBillSelection({ selectionKey, billId: e.detail.value })}
+            >
+              <IonSelectOption value="">Whole order</IonSelectOption>
+              {order.order_bills.map((bill) => (
+                <IonSelectOption key={bill.id} value={bill.id}>
+                  {bill.label}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonItem>
+        )}
+
+        <IonButton fill="outline" onClick={handleShare} disabled={!receipt}>
+          <IonIcon slot="start" icon={shareOutline} />
+          Share
+        </IonButton>
+      </Controls>
+
+      {receipt && format === 'html' && <HtmlPreview title="Receipt preview" srcDoc={html} />}
+      {receipt && format === 'text' && <TextPreview>{text}</TextPreview>}
+      {escPos && format === 'escpos' && <EscPosPreview data={escPos} width={width} />}
+    </BaseModal>
+  );
+};
+
+export default ReceiptModal;
@@ -0,0 +1,4 @@
+// Receipt Components - Barrel Export
+
+export { EscPosPreview } from './EscPosPreview';
+export { ReceiptModal } from './ReceiptModal';
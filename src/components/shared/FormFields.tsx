@@ -41,7 +41,7 @@ interface TextFieldProps<T extends FieldValues> {
 	placeholder?: string;
 	required?: boolean;
 	error?: FieldError;
-	type?: 'text' | 'email' | 'password' | 'tel' | 'url';
+	type?: 'text' | 'email' | 'password' | 'tel' | 'url' | 'date';
 	disabled?: boolean;
 }
 
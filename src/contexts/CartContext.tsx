@@ -1,22 +1,69 @@
 // CartContext - Shopping cart state management for POS
 
 import type React from 'react';
-import { createContext, useCallback, useContext, useMemo, useReducer } from 'react';
-import type { CartItem, CartItemAddon, CartItemModifier, Product } from '@/types';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+} from 'react';
+import { productService } from '@/services/product.service';
+import { logger } from '@/services/sentry';
+import type {
+  CartItem,
+  CartItemAddon,
+  CartItemModifier,
+  Discount,
+  OrderTypeDetails,
+  Product,
+  TableTab,
+} from '@/types';
 import { generateCartItemId } from '@/utils/cartItemId';
+import { getProductPrice } from '@/utils/order';
+import { useAuthContext } from './AuthContext';
+import { useShopContext } from './ShopContext';
+import { useUI } from './UIContext';
+
+// Saved per shop and user, e.g. tindera_cart_<shopId>_<userId>
+const CART_STORAGE_KEY = 'tindera_cart';
 
 // ===== State =====
 
-interface CartState {
+export interface CartState {
   items: CartItem[];
   customerName: string | null;
   notes: string | null;
+  discounts: Discount[];
+  orderTypeDetails: OrderTypeDetails;
+  table: CartTable | null;
+}
+
+// The dining table a cart is taken for: either the next round for its order,
+// or the order's lines loaded to close out the tab at checkout
+export interface CartTable {
+  table_id: string;
+  // Set when closing out; paying the order claims the tab if no round was sent meanwhile
+  tab: Pick<TableTab, 'id' | 'order_id' | 'round_count'> | null;
 }
 
+// Carts start as takeaway until another order type is chosen
+const defaultOrderTypeDetails: OrderTypeDetails = {
+  order_type: 'takeaway',
+  table_label: null,
+  delivery_address: null,
+  delivery_fee: 0,
+};
+
 const initialState: CartState = {
   items: [],
   customerName: null,
   notes: null,
+  discounts: [],
+  orderTypeDetails: defaultOrderTypeDetails,
+  table: null,
 };
 
 // ===== Actions =====
@@ -36,11 +83,27 @@ type CartAction =
   | { type: 'SET_MODIFIERS'; cartItemId: string; modifiers: CartItemModifier[] }
   | { type: 'SET_CUSTOMER'; name: string | null }
   | { type: 'SET_NOTES'; notes: string | null }
+  | { type: 'SET_ORDER_TYPE'; details: OrderTypeDetails }
+  | { type: 'APPLY_DISCOUNT'; discount: Discount }
+  | { type: 'REMOVE_DISCOUNT'; discountId: string }
+  | { type: 'LOAD_CART'; cart: CartState }
+  | { type: 'REVALIDATE_ITEMS'; products: Product[] }
   | { type: 'CLEAR_CART' };
 
 // ===== Reducer =====
 
 function cartReducer(state: CartState, action: CartAction): CartState {
+  // Lines are priced for the cart's order type
+  const priceOf = (product: Product) => getProductPrice(product, state.orderTypeDetails.order_type);
+
+  // Lines already on a table's order went to the kitchen with their round and stay as sent
+  if (
+    'cartItemId' in action &&
+    state.items.some((item) => item.cart_item_id === action.cartItemId && item.order_item_id)
+  ) {
+    return state;
+  }
+
   switch (action.type) {
     case 'ADD_ITEM': {
       const modifiers = action.modifiers || [];
@@ -62,7 +125,7 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         // Recalculate amount
         const modifierTotal = modifiers.reduce((sum, m) => sum + m.price_adjustment, 0);
         const addonTotal = addons.reduce((sum, a) => sum + a.price * a.quantity, 0);
-        const baseAmount = action.product.price * newQuantity;
+        const baseAmount = priceOf(action.product) * newQuantity;
 
         newItems[existingIndex] = {
           ...existingItem,
@@ -75,7 +138,7 @@ function cartReducer(state: CartState, action: CartAction): CartState {
       // Add new item with this configuration
       const modifierTotal = modifiers.reduce((sum, m) => sum + m.price_adjustment, 0);
       const addonTotal = addons.reduce((sum, a) => sum + a.price * a.quantity, 0);
-      const baseAmount = action.product.price * quantity;
+      const baseAmount = priceOf(action.product) * quantity;
 
       const newItem: CartItem = {
         cart_item_id: cartItemId,
@@ -121,7 +184,7 @@ function cartReducer(state: CartState, action: CartAction): CartState {
           // Modifiers scale per-item (like base price)
           const modifierTotal = item.modifiers.reduce((sum, m) => sum + m.price_adjustment, 0);
           const addonTotal = scaledAddons.reduce((sum, a) => sum + a.price * a.quantity, 0);
-          const baseAmount = item.product.price * action.quantity;
+          const baseAmount = priceOf(item.product) * action.quantity;
 
           return {
             ...item,
@@ -159,7 +222,7 @@ function cartReducer(state: CartState, action: CartAction): CartState {
           // Recalculate item amount including addons and modifiers
           const modifierTotal = item.modifiers.reduce((sum, m) => sum + m.price_adjustment, 0);
           const addonTotal = newAddons.reduce((sum, a) => sum + a.price * a.quantity, 0);
-          const baseAmount = item.product.price * item.quantity;
+          const baseAmount = priceOf(item.product) * item.quantity;
 
           return {
             ...item,
@@ -179,7 +242,7 @@ function cartReducer(state: CartState, action: CartAction): CartState {
           const newAddons = item.addons.filter((a) => a.addon_id !== action.addonId);
           const modifierTotal = item.modifiers.reduce((sum, m) => sum + m.price_adjustment, 0);
           const addonTotal = newAddons.reduce((sum, a) => sum + a.price * a.quantity, 0);
-          const baseAmount = item.product.price * item.quantity;
+          const baseAmount = priceOf(item.product) * item.quantity;
 
           return {
             ...item,
@@ -198,7 +261,7 @@ function cartReducer(state: CartState, action: CartAction): CartState {
 
           const modifierTotal = action.modifiers.reduce((sum, m) => sum + m.price_adjustment, 0);
           const addonTotal = item.addons.reduce((sum, a) => sum + a.price * a.quantity, 0);
-          const baseAmount = item.product.price * item.quantity;
+          const baseAmount = priceOf(item.product) * item.quantity;
 
           return {
             ...item,
@@ -215,6 +278,64 @@ function cartReducer(state: CartState, action: CartAction): CartState {
     case 'SET_NOTES':
       return { ...state, notes: action.notes };
 
+    case 'SET_ORDER_TYPE': {
+      // Reprice every line for the new order type
+      const priceFor = (product: Product) => getProductPrice(product, action.details.order_type);
+      return {
+        ...state,
+        orderTypeDetails: action.details,
+        items: state.items.map((item) => {
+          const modifierTotal = item.modifiers.reduce((sum, m) => sum + m.price_adjustment, 0);
+          const addonTotal = item.addons.reduce((sum, a) => sum + a.price * a.quantity, 0);
+
+          return {
+            ...item,
+            amount:
+              priceFor(item.product) * item.quantity + addonTotal + modifierTotal * item.quantity,
+          };
+        }),
+      };
+    }
+
+    case 'APPLY_DISCOUNT':
+      // Each discount applies at most once
+      if (state.discounts.some((d) => d.id === action.discount.id)) return state;
+      return { ...state, discounts: [...state.discounts, action.discount] };
+
+    case 'REMOVE_DISCOUNT':
+      return {
+        ...state,
+        discounts: state.discounts.filter((d) => d.id !== action.discountId),
+      };
+
+    case 'LOAD_CART':
+      // Replaces the current cart, e.g. when resuming a parked one or taking a table's round
+      return action.cart;
+
+    case 'REVALIDATE_ITEMS':
+      // Reprice lines from the current products; lines whose product is gone can't be sold
+      return {
+        ...state,
+        items: state.items.map((item) => {
+          // Lines on a table's order keep the price they were sent at
+          if (item.order_item_id) return item;
+
+          const product = action.products.find((p) => p.id === item.product_id);
+          if (!product) return { ...item, available: false };
+
+          const modifierTotal = item.modifiers.reduce((sum, m) => sum + m.price_adjustment, 0);
+          const addonTotal = item.addons.reduce((sum, a) => sum + a.price * a.quantity, 0);
+          const baseAmount = priceOf(product) * item.quantity;
+
+          return {
+            ...item,
+            product: { ...item.product, ...product },
+            amount: baseAmount + addonTotal + modifierTotal * item.quantity,
+            available: true,
+          };
+        }),
+      };
+
     case 'CLEAR_CART':
       return initialState;
 
@@ -230,6 +351,9 @@ interface CartContextValue {
   items: CartItem[];
   customerName: string | null;
   notes: string | null;
+  discounts: Discount[];
+  orderTypeDetails: OrderTypeDetails;
+  table: CartTable | null;
 
   // Computed
   itemCount: number;
@@ -250,6 +374,10 @@ interface CartContextValue {
   setModifiers: (cartItemId: string, modifiers: CartItemModifier[]) => void;
   setCustomer: (name: string | null) => void;
   setNotes: (notes: string | null) => void;
+  setOrderType: (details: OrderTypeDetails) => void;
+  applyDiscount: (discount: Discount) => void;
+  removeDiscount: (discountId: string) => void;
+  loadCart: (cart: CartState) => void;
   clearCart: () => void;
   getItem: (cartItemId: string) => CartItem | undefined;
 }
@@ -262,8 +390,111 @@ interface CartProviderProps {
   children: React.ReactNode;
 }
 
+/**
+ * Read a saved cart, ignoring anything unreadable
+ * @private
+ */
+function readSavedCart(storageKey: string): CartState | null {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return null;
+
+    const cart = JSON.parse(saved) as Partial<CartState>;
+    if (!Array.isArray(cart.items)) return null;
+
+    return {
+      items: cart.items,
+      customerName: cart.customerName ?? null,
+      notes: cart.notes ?? null,
+      discounts: Array.isArray(cart.discounts) ? cart.discounts : [],
+      orderTypeDetails: cart.orderTypeDetails ?? defaultOrderTypeDetails,
+      table: cart.table ?? null,
+    };
+  } catch (err) {
+    logger.error(err as Error, { context: 'readSavedCart', storageKey });
+    return null;
+  }
+}
+
 export function CartProvider({ children }: CartProviderProps) {
   const [state, dispatch] = useReducer(cartReducer, initialState);
+  const { user } = useAuthContext();
+  const { currentShop } = useShopContext();
+  const { showWarning } = useUI();
+
+  // Each shop and user has their own cart, kept across reloads and app restarts
+  const storageKey =
+    user?.id && currentShop?.id ? `${CART_STORAGE_KEY}_${currentShop.id}_${user.id}` : null;
+  const restoredKeyRef = useRef<string | null>(null);
+
+  /**
+   * Check restored lines against the current products. Offline, the saved
+   * snapshot is kept as-is and checkout re-checks prices anyway.
+   */
+  const revalidateItems = useCallback(
+    async ({ items: cartItems, orderTypeDetails }: CartState) => {
+      const items = cartItems.filter((item) => !item.order_item_id);
+      if (items.length === 0) return;
+
+      const productIds = [...new Set(items.map((item) => item.product_id))];
+      const { data: products, error } = await productService.getProductsByIds(productIds);
+      if (error || !products) return;
+
+      dispatch({ type: 'REVALIDATE_ITEMS', products });
+
+      const unavailable = items.filter(
+        (item) => !products.some((product) => product.id === item.product_id)
+      ).length;
+      // Compare the prices lines are charged at for the cart's order type
+      const priceOf = (product: Product) => getProductPrice(product, orderTypeDetails.order_type);
+      const repriced = items.filter((item) =>
+        products.some(
+          (product) => product.id === item.product_id && priceOf(product) !== priceOf(item.product)
+        )
+      ).length;
+
+      if (unavailable > 0) {
+        showWarning(
+          `${unavailable} ${unavailable === 1 ? 'item is' : 'items are'} no longer available`
+        );
+      } else if (repriced > 0) {
+        showWarning(`Prices changed for ${repriced} ${repriced === 1 ? 'item' : 'items'}`);
+      }
+    },
+    [showWarning]
+  );
+
+  // Save every change to the restored cart (declared before the restore so a
+  // shop or user switch never writes the previous cart under the new key)
+  useEffect(() => {
+    if (!storageKey || restoredKeyRef.current !== storageKey) return;
+
+    const isBlank =
+      state.items.length === 0 &&
+      !state.customerName &&
+      !state.notes &&
+      state.discounts.length === 0 &&
+      state.orderTypeDetails.order_type === defaultOrderTypeDetails.order_type &&
+      !state.table;
+
+    try {
+      if (isBlank) {
+        localStorage.removeItem(storageKey);
+      } else {
+        localStorage.setItem(storageKey, JSON.stringify(state));
+      }
+    } catch (err) {
+      logger.error(err as Error, { context: 'saveCart', storageKey });
+    }
+  }, [storageKey, state]);
+
+  // Restore the saved cart when the shop or user changes
+  useEffect(() => {
+    const saved = storageKey ? readSavedCart(storageKey) : null;
+    restoredKeyRef.current = storageKey;
+    dispatch({ type: 'LOAD_CART', cart: saved ?? initialState });
+    if (saved) revalidateItems(saved);
+  }, [storageKey, revalidateItems]);
 
   // Memoized computed values
   const itemCount = useMemo(
@@ -319,6 +550,26 @@ export function CartProvider({ children }: CartProviderProps) {
     dispatch({ type: 'SET_NOTES', notes });
   }, []);
 
+  const setOrderType = useCallback((details: OrderTypeDetails) => {
+    dispatch({ type: 'SET_ORDER_TYPE', details });
+  }, []);
+
+  const applyDiscount = useCallback((discount: Discount) => {
+    dispatch({ type: 'APPLY_DISCOUNT', discount });
+  }, []);
+
+  const removeDiscount = useCallback((discountId: string) => {
+    dispatch({ type: 'REMOVE_DISCOUNT', discountId });
+  }, []);
+
+  const loadCart = useCallback(
+    (cart: CartState) => {
+      dispatch({ type: 'LOAD_CART', cart });
+      revalidateItems(cart);
+    },
+    [revalidateItems]
+  );
+
   const clearCart = useCallback(() => {
     dispatch({ type: 'CLEAR_CART' });
   }, []);
@@ -334,6 +585,9 @@ export function CartProvider({ children }: CartProviderProps) {
       items: state.items,
       customerName: state.customerName,
       notes: state.notes,
+      discounts: state.discounts,
+      orderTypeDetails: state.orderTypeDetails,
+      table: state.table,
 
       // Computed
       itemCount,
@@ -349,6 +603,10 @@ export function CartProvider({ children }: CartProviderProps) {
       setModifiers,
       setCustomer,
       setNotes,
+      setOrderType,
+      applyDiscount,
+      removeDiscount,
+      loadCart,
       clearCart,
       getItem,
     }),
@@ -356,6 +614,9 @@ export function CartProvider({ children }: CartProviderProps) {
       state.items,
       state.customerName,
       state.notes,
+      state.discounts,
+      state.orderTypeDetails,
+      state.table,
       itemCount,
       subtotal,
       isEmpty,
@@ -367,6 +628,10 @@ export function CartProvider({ children }: CartProviderProps) {
       setModifiers,
       setCustomer,
       setNotes,
+      setOrderType,
+      applyDiscount,
+      removeDiscount,
+      loadCart,
       clearCart,
       getItem,
     ]
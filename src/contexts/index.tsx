@@ -18,7 +18,7 @@ interface AppProvidersProps {
  * 1. UIProvider - Must be first, provides toasts/loading that other providers might use
  * 2. AuthProvider - Provides user info
  * 3. ShopProvider - Depends on AuthProvider for user data
- * 4. CartProvider - Depends on ShopProvider for currency
+ * 4. CartProvider - Depends on ShopProvider and AuthProvider to save each shop and user's cart
  */
 export function AppProviders({ children }: AppProvidersProps) {
 	return (
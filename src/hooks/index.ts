@@ -16,6 +16,57 @@ export {
 export type { CartTotals } from './useCart';
 // Cart hooks
 export { CartProvider, default as useCartDefault, useCart } from './useCart';
+// Discount hooks
+export {
+  discountKeys,
+  useCreateDiscount,
+  useDeleteDiscount,
+  useDiscounts,
+  useUpdateDiscount,
+} from './useDiscount';
+// Kitchen hooks
+export {
+  kitchenKeys,
+  useBumpOrderItems,
+  useCreateKitchenStation,
+  useDeleteKitchenStation,
+  useKitchenOrders,
+  useKitchenStations,
+  useUpdateKitchenStation,
+} from './useKitchen';
+// Offline hooks
+export {
+  offlineKeys,
+  useDiscardQueuedOrder,
+  useOfflineSync,
+  useOnlineStatus,
+  useQueuedOrders,
+  useRetryQueuedOrder,
+  useSyncQueuedOrders,
+} from './useOfflineSync';
+// Order hooks
+export {
+  orderKeys,
+  useActiveOrders,
+  useCreateOrder,
+  useCreatePaymentType,
+  useCreateRefund,
+  useOrder,
+  useOrdersInfinite,
+  usePaymentTypes,
+  useReverseOrder,
+  useSalesSummary,
+  useUpdateOrderStatus,
+  useUpdatePaymentType,
+} from './useOrder';
+// Parked cart hooks
+export {
+  parkedCartKeys,
+  useDeleteParkedCart,
+  useParkCart,
+  useParkedCarts,
+  useResumeParkedCart,
+} from './useParkedCart';
 // Product hooks
 export {
   productKeys,
@@ -63,10 +114,31 @@ export {
   shopKeys,
   useAddUserToShop,
   useCreateShop,
+  useCreateTaxRate,
   useDeleteShop,
+  useDeleteTaxRate,
   useRemoveUserFromShop,
   useShop,
   useShopUsers,
+  useTaxRates,
   useUpdateShop,
+  useUpdateTaxRate,
   useUpdateUserRole,
 } from './useShop';
+// Table hooks
+export {
+  tableKeys,
+  useAddTableRound,
+  useCreateDiningTable,
+  useCreateTableArea,
+  useDeleteDiningTable,
+  useDeleteTableArea,
+  useDiningTables,
+  useMergeTableTabs,
+  useSetBillRequested,
+  useTableAreas,
+  useTableTabs,
+  useTransferTableTab,
+  useUpdateDiningTable,
+  useUpdateTableArea,
+} from './useTable';
@@ -0,0 +1,110 @@
+import { renderHook } from '@testing-library/react';
+import { vi } from 'vitest';
+import type { CartItem, Product, Shop, TaxRate } from '@/types';
+import { useCart } from './useCart';
+
+const mocks = vi.hoisted(() => ({
+  cart: {} as Record<string, unknown>,
+  shop: null as Partial<Shop> | null,
+  taxRates: [] as TaxRate[],
+}));
+
+vi.mock('@/contexts/CartContext', () => ({
+  CartProvider: () => null,
+  useCartContext: () => mocks.cart,
+}));
+vi.mock('@/contexts/ShopContext', () => ({
+  useShopContext: () => ({ currentShop: mocks.shop }),
+}));
+vi.mock('@/hooks/useDiscount', () => ({ useDiscounts: () => ({ data: [] }) }));
+vi.mock('@/hooks/useProduct', () => ({ useProductCategories: () => ({ data: [] }) }));
+vi.mock('@/hooks/useShop', () => ({ useTaxRates: () => ({ data: mocks.taxRates }) }));
+
+const makeItem = (id: string, amount: number, taxRateId: string | null = null): CartItem =>
+  ({
+    cart_item_id: `line-${id}`,
+    product_id: id,
+    product: { id, category_id: null, tax_rate_id: taxRateId } as Product,
+    quantity: 1,
+    amount,
+    addons: [],
+    modifiers: [],
+    available: true,
+  }) as CartItem;
+
+const setCart = (items: CartItem[]) => {
+  mocks.cart = {
+    items,
+    subtotal: items.reduce((sum, item) => sum + item.amount, 0),
+    discounts: [],
+    orderTypeDetails: {
+      order_type: 'takeaway',
+      table_label: null,
+      delivery_address: null,
+      delivery_fee: 0,
+    },
+  };
+};
+
+const totalsFor = (items: CartItem[], shop: Partial<Shop>, tipAmount?: number) => {
+  setCart(items);
+  mocks.shop = { tax_label: 'VAT', currency_code: 'USD', ...shop };
+  return renderHook(() => useCart({ tipAmount })).result.current.totals;
+};
+
+beforeEach(() => {
+  mocks.taxRates = [];
+});
+
+describe('useCart totals', () => {
+  it('adds exclusive tax on top of the lines', () => {
+    const totals = totalsFor([makeItem('a', 10), makeItem('b', 5)], {
+      tax_rate: 10,
+      tax_inclusive: false,
+    });
+
+    expect(totals.tax).toBe(1.5);
+    expect(totals.total).toBe(16.5);
+    expect(totals.lineTotals).toEqual({ 'line-a': 11, 'line-b': 5.5 });
+  });
+
+  it('backs inclusive tax out of the lines without changing the total', () => {
+    const totals = totalsFor([makeItem('a', 12), makeItem('b', 6)], {
+      tax_rate: 20,
+      tax_inclusive: true,
+    });
+
+    // 18 includes 20% tax: 18 - 18 / 1.2
+    expect(totals.tax).toBe(3);
+    expect(totals.taxLines).toEqual([
+      { tax_rate_id: null, name: 'VAT', rate: 20, taxable_amount: 18, tax: 3 },
+    ]);
+    expect(totals.total).toBe(18);
+    expect(totals.lineTotals).toEqual({ 'line-a': 12, 'line-b': 6 });
+  });
+
+  it('rounds each rate to cents and sums the rounded rates', () => {
+    mocks.taxRates = [{ id: 'reduced', name: 'Reduced', rate: 5 } as TaxRate];
+    const totals = totalsFor([makeItem('a', 3.33), makeItem('b', 3.33, 'reduced')], {
+      tax_rate: 8.25,
+      tax_inclusive: false,
+    });
+
+    // 3.33 x 8.25% = 0.274725 and 3.33 x 5% = 0.1665
+    expect(totals.taxLines.map((line) => line.tax)).toEqual([0.27, 0.17]);
+    expect(totals.tax).toBe(0.44);
+    expect(totals.total).toBe(7.1);
+  });
+
+  it('keeps line totals in cents that add up to the total', () => {
+    const items = [makeItem('a', 1), makeItem('b', 1), makeItem('c', 1)];
+    const totals = totalsFor(items, { tax_rate: 7, tax_inclusive: false }, 1);
+
+    const lineTotals = Object.values(totals.lineTotals);
+    expect(lineTotals.every((amount) => Math.round(amount * 100) / 100 === amount)).toBe(true);
+    expect(Math.round(lineTotals.reduce((sum, amount) => sum + amount, 0) * 100) / 100).toBe(
+      totals.total
+    );
+    expect(totals.total).toBe(4.21);
+  });
+});
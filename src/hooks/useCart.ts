@@ -3,27 +3,54 @@
 import { useMemo } from 'react';
 import { CartProvider, useCartContext } from '@/contexts/CartContext';
 import { useShopContext } from '@/contexts/ShopContext';
-import type { CartItemAddon, CartItemModifier, Product } from '@/types';
+import { useDiscounts } from '@/hooks/useDiscount';
+import { useProductCategories } from '@/hooks/useProduct';
+import { useTaxRates } from '@/hooks/useShop';
+import type {
+	AppliedDiscount,
+	CartItemAddon,
+	CartItemModifier,
+	Discount,
+	Product,
+	TaxLine,
+} from '@/types';
+import { roundCurrency } from '@/utils/currency';
+import { calculateDiscounts, getDiscountUnavailableReason } from '@/utils/discount';
 
 export interface CartTotals {
 	subtotal: number;
 	tax: number;
-	taxRate: number;
+	taxRate: number; // Shop default rate
+	taxLabel: string;
+	taxInclusive: boolean; // Tax is already part of the subtotal
+	taxLines: TaxLine[]; // Tax per rate, summing to tax
 	discount: number;
 	discountPercent: number;
+	appliedDiscounts: AppliedDiscount[]; // Shop discounts applied to the cart
+	lineDiscounts: Record<string, number>; // Cart item ID to item-level discount
+	lineTotals: Record<string, number>; // Cart item ID to its share of the total, for splitting bills
 	tip: number;
+	deliveryFee: number; // Delivery orders only, untaxed
 	total: number;
 }
 
 interface UseCartOptions {
-	taxRate?: number; // Override shop tax rate
-	discountPercent?: number; // Applied discount percentage
-	discountAmount?: number; // Fixed discount amount (takes precedence)
+	taxRate?: number; // Override shop tax rate (applied to every line)
+	taxInclusive?: boolean; // Override shop inclusive/exclusive pricing
+	discountPercent?: number; // Manual discount percentage, on top of applied discounts
+	discountAmount?: number; // Manual fixed discount amount (takes precedence)
 	tipAmount?: number; // Tip amount
 }
 
 /**
  * Hook for cart operations with automatic tax/discount calculations.
+ * Discounts applied to the cart (see applyDiscount/applyPromoCode) are item-level
+ * first, then order-level. Tax is computed per line: a product's tax rate wins over
+ * its category's, and lines with neither use the shop default rate. Order-level
+ * discounts are spread across lines in proportion to their amount before tax. With
+ * tax-inclusive pricing the tax is backed out of each line instead of added on top.
+ * Lines are priced for the cart's order type, and delivery orders add their fee
+ * to the total without tax.
  *
  * @example
  * ```tsx
@@ -35,7 +62,7 @@ interface UseCartOptions {
  *     updateQuantity,
  *     totals,
  *     clearCart,
- *   } = useCart({ taxRate: 10 });
+ *   } = useCart();
  *
  *   return (
  *     <div>
@@ -57,46 +84,145 @@ export function useCart(options: UseCartOptions = {}) {
 	const cart = useCartContext();
 	const { currentShop } = useShopContext();
 
-	// Use shop's tax rate if not overridden
-	const taxRate = options.taxRate ?? 0; // Default to 0 if no shop settings
+	// Use shop's tax settings if not overridden
+	const taxRate = options.taxRate ?? currentShop?.tax_rate ?? 0;
+	const taxInclusive = options.taxInclusive ?? currentShop?.tax_inclusive ?? false;
+	const taxLabel = currentShop?.tax_label || 'Tax';
+	const { data: taxRates = [] } = useTaxRates();
+	const { data: categories = [] } = useProductCategories();
+	const { data: shopDiscounts = [] } = useDiscounts();
 
 	// Calculate totals
 	const totals: CartTotals = useMemo(() => {
 		const { subtotal } = cart;
 
-		// Calculate discount
-		let discount = 0;
-		let discountPercent = 0;
+		// Calculate applied discounts
+		const { applied, lineDiscounts, orderDiscount, total: appliedTotal } = calculateDiscounts(
+			cart.items,
+			cart.discounts
+		);
+
+		// Manual discount applies to what remains
+		const remaining = subtotal - appliedTotal;
+		let manualDiscount = 0;
 		if (options.discountAmount !== undefined && options.discountAmount > 0) {
-			discount = Math.min(options.discountAmount, subtotal);
-			discountPercent = subtotal > 0 ? (discount / subtotal) * 100 : 0;
+			manualDiscount = Math.min(options.discountAmount, remaining);
 		} else if (options.discountPercent !== undefined && options.discountPercent > 0) {
-			discountPercent = options.discountPercent;
-			discount = subtotal * (discountPercent / 100);
+			manualDiscount = remaining * (options.discountPercent / 100);
 		}
 
+		const discount = appliedTotal + manualDiscount;
+		const discountPercent = subtotal > 0 ? (discount / subtotal) * 100 : 0;
+
 		// Calculate taxable amount (after discount)
 		const taxableAmount = subtotal - discount;
+		// Share of each line (after its item-level discount) taken by order-level discounts
+		const itemsNet = subtotal - (appliedTotal - orderDiscount);
+		const orderDiscountRatio = itemsNet > 0 ? (orderDiscount + manualDiscount) / itemsNet : 0;
+
+		// Group lines by their effective rate and calculate tax per rate
+		const linesByRate = new Map<string, TaxLine>();
+		const lineTotals: Record<string, number> = {};
+		for (const item of cart.items) {
+			const taxRateId =
+				options.taxRate === undefined
+					? (item.product.tax_rate_id ??
+						categories.find((c) => c.id === item.product.category_id)?.tax_rate_id ??
+						null)
+					: null;
+			const named = taxRateId ? taxRates.find((r) => r.id === taxRateId) : undefined;
+			const key = named?.id ?? 'default';
+
+			const line = linesByRate.get(key) ?? {
+				tax_rate_id: named?.id ?? null,
+				name: named?.name ?? taxLabel,
+				rate: named?.rate ?? taxRate,
+				taxable_amount: 0,
+				tax: 0,
+			};
+			const lineTaxable =
+				(item.amount - (lineDiscounts[item.cart_item_id] || 0)) * (1 - orderDiscountRatio);
+			line.taxable_amount += lineTaxable;
+			// Inclusive prices already contain the tax
+			const lineTax = taxInclusive
+				? lineTaxable - lineTaxable / (1 + line.rate / 100)
+				: lineTaxable * (line.rate / 100);
+			line.tax += lineTax;
+			linesByRate.set(key, line);
+			lineTotals[item.cart_item_id] = lineTaxable + (taxInclusive ? 0 : lineTax);
+		}
 
-		// Calculate tax
-		const tax = taxableAmount * (taxRate / 100);
+		// Each rate's tax is rounded to cents and the order's tax is their sum, so the
+		// stored tax lines add up to it
+		const taxLines = Array.from(linesByRate.values()).map((line) => ({
+			...line,
+			taxable_amount: roundCurrency(line.taxable_amount),
+			tax: roundCurrency(line.tax),
+		}));
+		const tax = roundCurrency(taxLines.reduce((sum, line) => sum + line.tax, 0));
 
-		// Tip
+		// Tip and delivery fee
 		const tip = options.tipAmount ?? 0;
+		const { order_type: orderType, delivery_fee: orderDeliveryFee } = cart.orderTypeDetails;
+		const deliveryFee = orderType === 'delivery' ? orderDeliveryFee : 0;
+
+		// Spread the tip and delivery fee across lines in proportion to what they cost
+		const totalBeforeTip = taxableAmount + (taxInclusive ? 0 : tax);
+		const extras = tip + deliveryFee;
+		for (const item of cart.items) {
+			lineTotals[item.cart_item_id] +=
+				totalBeforeTip > 0
+					? extras * (lineTotals[item.cart_item_id] / totalBeforeTip)
+					: extras / cart.items.length;
+		}
 
 		// Total
-		const total = taxableAmount + tax + tip;
+		const total = roundCurrency(totalBeforeTip + extras);
+
+		// Lines are rounded to cents too, with the rounding left over on the last line
+		// so split bills add up to the total
+		for (const item of cart.items) {
+			lineTotals[item.cart_item_id] = roundCurrency(lineTotals[item.cart_item_id]);
+		}
+		const lastItem = cart.items[cart.items.length - 1];
+		if (lastItem) {
+			const allocated = cart.items.reduce((sum, item) => sum + lineTotals[item.cart_item_id], 0);
+			lineTotals[lastItem.cart_item_id] = roundCurrency(
+				lineTotals[lastItem.cart_item_id] + total - allocated
+			);
+		}
 
 		return {
 			subtotal,
 			tax,
 			taxRate,
+			taxLabel,
+			taxInclusive,
+			taxLines,
 			discount,
 			discountPercent,
+			appliedDiscounts: applied,
+			lineDiscounts,
+			lineTotals,
 			tip,
+			deliveryFee,
 			total,
 		};
-	}, [cart.subtotal, taxRate, options.discountAmount, options.discountPercent, options.tipAmount]);
+	}, [
+		cart.subtotal,
+		cart.items,
+		cart.discounts,
+		cart.orderTypeDetails,
+		taxRates,
+		categories,
+		taxRate,
+		taxLabel,
+		taxInclusive,
+		options.taxRate,
+		options.discountAmount,
+		options.discountPercent,
+		options.tipAmount,
+	]);
 
 	// Convenience methods with better names for POS context
 	const addToCart = (
@@ -120,6 +246,28 @@ export function useCart(options: UseCartOptions = {}) {
 		cart.removeAddon(cartItemId, addonId);
 	};
 
+	/**
+	 * Apply a shop discount to the cart
+	 * @returns Reason the discount can't be applied, or null on success
+	 */
+	const applyDiscount = (discount: Discount): string | null => {
+		const reason = getDiscountUnavailableReason(discount);
+		if (reason) return reason;
+		cart.applyDiscount(discount);
+		return null;
+	};
+
+	/**
+	 * Apply a discount by its promo code (case-insensitive)
+	 * @returns Reason the code can't be applied, or null on success
+	 */
+	const applyPromoCode = (code: string): string | null => {
+		const normalized = code.trim().toUpperCase();
+		const discount = shopDiscounts.find((d) => d.code?.toUpperCase() === normalized);
+		if (!discount) return 'Promo code not found';
+		return applyDiscount(discount);
+	};
+
 	const isInCart = (cartItemId: string): boolean => {
 		return cart.getItem(cartItemId) !== undefined;
 	};
@@ -133,6 +281,7 @@ export function useCart(options: UseCartOptions = {}) {
 		items: cart.items,
 		customerName: cart.customerName,
 		notes: cart.notes,
+		discounts: cart.discounts,
 		itemCount: cart.itemCount,
 		isEmpty: cart.isEmpty,
 
@@ -154,10 +303,25 @@ export function useCart(options: UseCartOptions = {}) {
 		getQuantityInCart,
 		getItem: cart.getItem,
 
+		// Discounts
+		applyDiscount,
+		applyPromoCode,
+		removeDiscount: cart.removeDiscount,
+
 		// Customer/Notes
 		setCustomer: cart.setCustomer,
 		setNotes: cart.setNotes,
 
+		// Order type
+		orderTypeDetails: cart.orderTypeDetails,
+		setOrderType: cart.setOrderType,
+
+		// Table the cart is taken for, if any
+		table: cart.table,
+
+		// Park/Resume and table rounds
+		loadCart: cart.loadCart,
+
 		// Clear
 		clearCart: cart.clearCart,
 	};
@@ -0,0 +1,110 @@
+// useDiscount Hook - TanStack Query hooks for discount management
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useShopContext } from '@/contexts/ShopContext';
+import { discountService } from '@/services/discount.service';
+import { offlineService } from '@/services/offline.service';
+import type { DiscountInsert, DiscountUpdate } from '@/types';
+
+// Query keys for discount-related queries
+export const discountKeys = {
+  all: ['discounts'] as const,
+  lists: () => [...discountKeys.all, 'list'] as const,
+  list: (shopId: string) => [...discountKeys.lists(), shopId] as const,
+};
+
+/**
+ * Hook to fetch all discounts for the current shop, including inactive and expired ones.
+ * Filter with getDiscountUnavailableReason for the ones a cashier can apply.
+ */
+export function useDiscounts() {
+  const { currentShop } = useShopContext();
+
+  return useQuery({
+    queryKey: discountKeys.list(currentShop?.id || ''),
+    queryFn: async () => {
+      if (!currentShop) return [];
+
+      const { data, error } = await offlineService.withCache(
+        JSON.stringify(discountKeys.list(currentShop.id)),
+        () => discountService.getDiscounts(currentShop.id)
+      );
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!currentShop,
+    networkMode: 'offlineFirst',
+  });
+}
+
+/**
+ * Hook to create a discount for the current shop
+ */
+export function useCreateDiscount() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async (discount: Omit<DiscountInsert, 'shop_id'>) => {
+      if (!currentShop?.id || !user?.id) {
+        throw new Error('Shop or user not available');
+      }
+
+      const { data, error } = await discountService.createDiscount(
+        { ...discount, shop_id: currentShop.id },
+        user.id
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: discountKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook to update a discount
+ */
+export function useUpdateDiscount() {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async ({
+      discountId,
+      updates,
+    }: {
+      discountId: string;
+      updates: DiscountUpdate;
+    }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const { data, error } = await discountService.updateDiscount(discountId, updates, user.id);
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: discountKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook to delete a discount
+ */
+export function useDeleteDiscount() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (discountId: string) => {
+      const { error } = await discountService.deleteDiscount(discountId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: discountKeys.lists() });
+    },
+  });
+}
@@ -1,6 +1,7 @@
 // useInventory Hook - TanStack Query hooks for inventory management
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { useShopContext } from '@/contexts/ShopContext';
 import {
@@ -8,6 +9,7 @@ import {
 	type InventoryTransactionFilters,
 	inventoryService,
 } from '@/services/inventory.service';
+import { offlineService } from '@/services/offline.service';
 import type {
 	InventoryCategory,
 	InventoryItemInsert,
@@ -31,6 +33,7 @@ export const inventoryKeys = {
 	transaction: (transactionId: string) =>
 		[...inventoryKeys.all, 'transaction', transactionId] as const,
 	counts: (shopId: string) => [...inventoryKeys.all, 'counts', shopId] as const,
+	stockLevels: (shopId: string) => [...inventoryKeys.all, 'stockLevels', shopId] as const,
 };
 
 /**
@@ -531,3 +534,40 @@ export function useCreateInventoryCount() {
 		},
 	});
 }
+
+/**
+ * Hook to fetch the stock the POS works from to tell how many of each product
+ * can be made. Refetches as counts change, including sales on other registers.
+ */
+export function useStockLevels() {
+	const queryClient = useQueryClient();
+	const { currentShop } = useShopContext();
+	const shopId = currentShop?.id;
+
+	useEffect(() => {
+		if (!shopId) return;
+
+		return inventoryService.subscribeToStockChanges(shopId, () => {
+			queryClient.invalidateQueries({ queryKey: inventoryKeys.stockLevels(shopId) });
+		});
+	}, [shopId, queryClient]);
+
+	return useQuery({
+		queryKey: inventoryKeys.stockLevels(shopId || ''),
+		queryFn: async () => {
+			if (!shopId) return null;
+
+			const { data, error } = await offlineService.withCache(
+				JSON.stringify(inventoryKeys.stockLevels(shopId)),
+				() => inventoryService.getStockLevels(shopId),
+			);
+
+			if (error) throw error;
+			return data;
+		},
+		enabled: !!shopId,
+		networkMode: 'offlineFirst',
+		// Fallback for when realtime updates are not getting through
+		refetchInterval: 60 * 1000,
+	});
+}
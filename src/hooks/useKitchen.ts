@@ -0,0 +1,166 @@
+// useKitchen Hook - TanStack Query hooks for kitchen stations and the kitchen display
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useShopContext } from '@/contexts/ShopContext';
+import { orderKeys } from '@/hooks/useOrder';
+import { productKeys } from '@/hooks/useProduct';
+import { kitchenService } from '@/services/kitchen.service';
+import { orderService } from '@/services/order.service';
+import type { KitchenStationInsert, KitchenStationUpdate } from '@/types';
+
+// Query keys for kitchen-related queries
+export const kitchenKeys = {
+  all: ['kitchen'] as const,
+  stations: (shopId: string) => [...kitchenKeys.all, 'stations', shopId] as const,
+  orders: (shopId: string) => [...kitchenKeys.all, 'orders', shopId] as const,
+};
+
+/**
+ * Hook to fetch the current shop's kitchen stations in display order
+ */
+export function useKitchenStations() {
+  const { currentShop } = useShopContext();
+
+  return useQuery({
+    queryKey: kitchenKeys.stations(currentShop?.id || ''),
+    queryFn: async () => {
+      if (!currentShop?.id) return [];
+      const { data, error } = await kitchenService.getKitchenStations(currentShop.id);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!currentShop?.id,
+  });
+}
+
+/**
+ * Hook to create a kitchen station for the current shop
+ */
+export function useCreateKitchenStation() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async (station: Omit<KitchenStationInsert, 'shop_id'>) => {
+      if (!currentShop?.id || !user?.id) {
+        throw new Error('Shop or user not available');
+      }
+      const { data, error } = await kitchenService.createKitchenStation(
+        { ...station, shop_id: currentShop.id },
+        user.id
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kitchenKeys.stations(currentShop?.id || '') });
+    },
+  });
+}
+
+/**
+ * Hook to update a kitchen station
+ */
+export function useUpdateKitchenStation() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async ({
+      stationId,
+      updates,
+    }: {
+      stationId: string;
+      updates: KitchenStationUpdate;
+    }) => {
+      if (!user?.id) throw new Error('User not available');
+      const { data, error } = await kitchenService.updateKitchenStation(
+        stationId,
+        updates,
+        user.id
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kitchenKeys.stations(currentShop?.id || '') });
+    },
+  });
+}
+
+/**
+ * Hook to delete a kitchen station
+ * Categories routed to it are left unrouted.
+ */
+export function useDeleteKitchenStation() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+
+  return useMutation({
+    mutationFn: async (stationId: string) => {
+      const { error } = await kitchenService.deleteKitchenStation(stationId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kitchenKeys.stations(currentShop?.id || '') });
+      // Routings were cleared by ON DELETE SET NULL
+      queryClient.invalidateQueries({ queryKey: productKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch orders with lines still to make, for the kitchen display.
+ * Refreshes as orders are taken at the till or bumped on other screens.
+ */
+export function useKitchenOrders() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const shopId = currentShop?.id;
+
+  useEffect(() => {
+    if (!shopId) return;
+
+    return orderService.subscribeToOrderChanges(shopId, () => {
+      queryClient.invalidateQueries({ queryKey: kitchenKeys.orders(shopId) });
+    });
+  }, [shopId, queryClient]);
+
+  return useQuery({
+    queryKey: kitchenKeys.orders(shopId || ''),
+    queryFn: async () => {
+      if (!shopId) return [];
+      const { data, error } = await kitchenService.getKitchenOrders(shopId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!shopId,
+    // Fallback for when realtime updates are not getting through
+    refetchInterval: 30 * 1000,
+  });
+}
+
+/**
+ * Hook to bump order lines on the kitchen display
+ * Invalidates orders too, since bumping moves an order towards ready
+ */
+export function useBumpOrderItems() {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async (orderItemIds: string[]) => {
+      if (!user?.id) throw new Error('User not authenticated');
+      const { error } = await kitchenService.bumpOrderItems(orderItemIds);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kitchenKeys.all });
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
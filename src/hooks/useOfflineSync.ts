@@ -0,0 +1,251 @@
+// useOfflineSync Hook - Queue of orders taken offline and syncing them to the server
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import { useShopContext } from '@/contexts/ShopContext';
+import { discountKeys } from '@/hooks/useDiscount';
+import { inventoryKeys } from '@/hooks/useInventory';
+import { orderKeys } from '@/hooks/useOrder';
+import { productKeys } from '@/hooks/useProduct';
+import { isNetworkError, offlineKeys, offlineService } from '@/services/offline.service';
+import { orderService } from '@/services/order.service';
+import { productService } from '@/services/product.service';
+import type { QueuedOrder } from '@/types';
+
+export { offlineKeys };
+
+const SYNC_INTERVAL = 60 * 1000; // Retry pending orders every minute while online
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  remaining: number; // Still pending, because the connection dropped mid-sync
+}
+
+// One sync at a time, however many components ask for one
+let activeSync: Promise<SyncResult> | null = null;
+
+/**
+ * Replay a shop's pending orders in the order they were taken. Orders the
+ * server rejects (e.g. not enough stock any more) are marked failed with the
+ * reason and the rest carry on; a network error stops the run. The server
+ * records each order as created by whoever is signed in when it syncs.
+ * @private
+ */
+async function _syncPendingOrders(shopId: string): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, failed: 0, remaining: 0 };
+
+  const { data: queuedOrders, error } = await offlineService.getQueuedOrders(shopId);
+  if (error) throw error;
+
+  const pending = (queuedOrders || []).filter((queuedOrder) => queuedOrder.status === 'pending');
+
+  for (let i = 0; i < pending.length; i++) {
+    const queuedOrder = pending[i];
+    // The queue id is the order's client_order_id, also for orders queued without one
+    const { error: createError } = await orderService.createOrder({
+      ...queuedOrder.order_data,
+      client_order_id: queuedOrder.id,
+    });
+
+    if (!createError) {
+      await offlineService.removeQueuedOrder(queuedOrder.id);
+      result.synced += 1;
+      continue;
+    }
+
+    if (isNetworkError(createError)) {
+      await offlineService.updateQueuedOrder({
+        ...queuedOrder,
+        attempts: queuedOrder.attempts + 1,
+      });
+      result.remaining = pending.length - i;
+      break;
+    }
+
+    await offlineService.updateQueuedOrder({
+      ...queuedOrder,
+      status: 'failed',
+      attempts: queuedOrder.attempts + 1,
+      error: createError.message,
+    });
+    result.failed += 1;
+  }
+
+  return result;
+}
+
+/**
+ * Hook to track whether the browser has a network connection
+ */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+}
+
+/**
+ * Hook to fetch the current shop's queued orders, oldest first
+ */
+export function useQueuedOrders() {
+  const { currentShop } = useShopContext();
+
+  return useQuery({
+    queryKey: offlineKeys.queue(currentShop?.id || ''),
+    queryFn: async () => {
+      if (!currentShop) return [];
+
+      const { data, error } = await offlineService.getQueuedOrders(currentShop.id);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!currentShop,
+    // The queue lives on this device
+    networkMode: 'always',
+    staleTime: 0,
+  });
+}
+
+/**
+ * Hook to sync the current shop's pending orders to the server
+ * Invalidates order history, stock levels and discount usage once orders land
+ */
+export function useSyncQueuedOrders() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!currentShop) throw new Error('No shop selected');
+
+      if (!activeSync) {
+        activeSync = _syncPendingOrders(currentShop.id).finally(() => {
+          activeSync = null;
+        });
+      }
+      return activeSync;
+    },
+    onSettled: (result) => {
+      queryClient.invalidateQueries({ queryKey: offlineKeys.queues() });
+      if (result?.synced) {
+        queryClient.invalidateQueries({ queryKey: orderKeys.all });
+        queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
+        queryClient.invalidateQueries({ queryKey: discountKeys.all });
+      }
+    },
+  });
+}
+
+/**
+ * Hook to put a failed order back in the queue, e.g. after restocking
+ */
+export function useRetryQueuedOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (queuedOrder: QueuedOrder) => {
+      const { error } = await offlineService.updateQueuedOrder({
+        ...queuedOrder,
+        status: 'pending',
+        error: null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offlineKeys.queues() });
+    },
+  });
+}
+
+/**
+ * Hook to drop an order from the queue without syncing it
+ */
+export function useDiscardQueuedOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (queuedOrderId: string) => {
+      const { error } = await offlineService.removeQueuedOrder(queuedOrderId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offlineKeys.queues() });
+    },
+  });
+}
+
+/**
+ * Hook that keeps the register working offline. While online it syncs pending
+ * orders (on reconnect and every minute) and caches each product's modifier
+ * groups and addons so they can be chosen without a connection.
+ *
+ * @returns Whether the device is online and the outcome of the last sync
+ */
+export function useOfflineSync() {
+  const { currentShop } = useShopContext();
+  const isOnline = useOnlineStatus();
+  const { data: queuedOrders = [] } = useQueuedOrders();
+  const syncQueuedOrders = useSyncQueuedOrders();
+  const cachedShopRef = useRef<string | null>(null);
+
+  const shopId = currentShop?.id;
+  const hasPending = queuedOrders.some((queuedOrder) => queuedOrder.status === 'pending');
+  const { mutate: sync } = syncQueuedOrders;
+
+  // Sync as soon as the connection is back, then keep trying while orders wait
+  useEffect(() => {
+    if (!isOnline || !shopId || !hasPending) return;
+
+    sync();
+    const interval = window.setInterval(() => sync(), SYNC_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [isOnline, shopId, hasPending, sync]);
+
+  // Cache product details once per shop, one product at a time
+  useEffect(() => {
+    if (!isOnline || !shopId || cachedShopRef.current === shopId) return;
+    cachedShopRef.current = shopId;
+
+    let cancelled = false;
+    let finished = false;
+
+    (async () => {
+      const { data: products } = await offlineService.withCache(
+        JSON.stringify(productKeys.list(shopId, undefined)),
+        () => productService.getProducts(shopId)
+      );
+
+      for (const product of products || []) {
+        if (cancelled || !navigator.onLine) break;
+        await offlineService.withCache(JSON.stringify(productKeys.detail(product.id)), () =>
+          productService.getProduct(product.id)
+        );
+      }
+      finished = !cancelled && navigator.onLine;
+    })();
+
+    return () => {
+      cancelled = true;
+      // Start over next time if this run was interrupted
+      if (!finished && cachedShopRef.current === shopId) cachedShopRef.current = null;
+    };
+  }, [isOnline, shopId]);
+
+  return {
+    isOnline,
+    isSyncing: syncQueuedOrders.isPending,
+    lastSync: syncQueuedOrders.data ?? null,
+  };
+}
@@ -1,59 +1,410 @@
 // useOrder Hook - TanStack Query hooks for order management
 
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { useShopContext } from '@/contexts/ShopContext';
-import { orderService } from '@/services/order.service';
-import type { CreateOrderData } from '@/types';
+import { discountKeys } from '@/hooks/useDiscount';
+import { inventoryKeys } from '@/hooks/useInventory';
+import { isNetworkError, offlineKeys, offlineService } from '@/services/offline.service';
+import { type OrderFilters, orderService } from '@/services/order.service';
+import type {
+  CheckoutPaymentData,
+  CreateOrderData,
+  CreateOrderRefundData,
+  OrderCreationResult,
+  OrderStatus,
+  PaymentTypeInsert,
+  PaymentTypeUpdate,
+  QueuedOrder,
+  ReverseOrderData,
+} from '@/types';
 
 // Query keys for order-related queries
 export const orderKeys = {
   all: ['orders'] as const,
-  paymentTypes: (shopId: string) => [...orderKeys.all, 'payment-types', shopId] as const,
+  lists: () => [...orderKeys.all, 'list'] as const,
+  list: (shopId: string, filters?: OrderFilters) =>
+    [...orderKeys.lists(), shopId, filters] as const,
+  details: () => [...orderKeys.all, 'detail'] as const,
+  detail: (orderId: string) => [...orderKeys.details(), orderId] as const,
+  allPaymentTypes: () => [...orderKeys.all, 'payment-types'] as const,
+  paymentTypes: (shopId: string, includeInactive: boolean = false) =>
+    [...orderKeys.allPaymentTypes(), shopId, includeInactive] as const,
+  summary: (shopId: string, filters?: Pick<OrderFilters, 'dateFrom' | 'dateTo' | 'orderType'>) =>
+    [...orderKeys.all, 'summary', shopId, filters] as const,
+  active: (shopId: string) => [...orderKeys.all, 'active', shopId] as const,
 };
 
 /**
- * Hook to fetch payment types for current shop
- * Returns active payment types, cached for 5 minutes
+ * Hook to fetch payment types for current shop in checkout order
+ * Returns active payment types unless includeInactive is set, cached for 5 minutes
  */
-export function usePaymentTypes() {
+export function usePaymentTypes(options: { includeInactive?: boolean } = {}) {
   const { currentShop } = useShopContext();
+  const includeInactive = options.includeInactive ?? false;
 
   return useQuery({
-    queryKey: orderKeys.paymentTypes(currentShop?.id || ''),
+    queryKey: orderKeys.paymentTypes(currentShop?.id || '', includeInactive),
     queryFn: async () => {
       if (!currentShop) return [];
 
-      const { data, error } = await orderService.getPaymentTypes(currentShop.id);
+      const { data, error } = await offlineService.withCache(
+        JSON.stringify(orderKeys.paymentTypes(currentShop.id, includeInactive)),
+        () => orderService.getPaymentTypes(currentShop.id, includeInactive)
+      );
       if (error) throw error;
       return data || [];
     },
     enabled: !!currentShop,
     staleTime: 5 * 60 * 1000, // 5 minutes - payment types rarely change
+    networkMode: 'offlineFirst',
   });
 }
 
+/**
+ * Hook to create a payment type for the current shop
+ */
+export function useCreatePaymentType() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async (paymentType: Omit<PaymentTypeInsert, 'shop_id'>) => {
+      if (!currentShop?.id || !user?.id) {
+        throw new Error('Shop or user not available');
+      }
+
+      const { data, error } = await orderService.createPaymentType(
+        { ...paymentType, shop_id: currentShop.id },
+        user.id
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.allPaymentTypes() });
+    },
+  });
+}
+
+/**
+ * Hook to update a payment type, including deactivating and reordering it
+ */
+export function useUpdatePaymentType() {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async ({
+      paymentTypeId,
+      updates,
+    }: {
+      paymentTypeId: string;
+      updates: PaymentTypeUpdate;
+    }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const { data, error } = await orderService.updatePaymentType(paymentTypeId, updates, user.id);
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.allPaymentTypes() });
+    },
+  });
+}
+
+/**
+ * Hook to fetch order history with infinite scroll/pagination.
+ *
+ * @example
+ * ```tsx
+ * function SalesHistory() {
+ *   const { data, fetchNextPage, hasNextPage } = useOrdersInfinite({
+ *     paymentTypeId: 'card-id',
+ *     minTotal: 10,
+ *   });
+ *
+ *   const orders = data?.pages.flatMap((page) => page.data) ?? [];
+ *   // ...render orders with <IonInfiniteScroll disabled={!hasNextPage} />
+ * }
+ * ```
+ */
+export function useOrdersInfinite(filters?: OrderFilters & { pageSize?: number }) {
+  const { currentShop } = useShopContext();
+  const pageSize = filters?.pageSize || 20;
+
+  return useInfiniteQuery({
+    queryKey: [...orderKeys.list(currentShop?.id || '', filters), 'infinite'],
+    queryFn: async ({ pageParam = 1 }) => {
+      if (!currentShop) {
+        return { data: [], count: 0, page: 1, pageSize, hasMore: false };
+      }
+      const { data, error } = await orderService.getOrdersPaginated(
+        currentShop.id,
+        pageParam,
+        pageSize,
+        filters
+      );
+      if (error) throw error;
+      return data!;
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => {
+      if (!lastPage.hasMore) return undefined;
+      return lastPage.page + 1;
+    },
+    enabled: !!currentShop,
+  });
+}
+
+/**
+ * Hook to fetch a single order with line items, modifiers, addons,
+ * payment type and the inventory transactions it produced.
+ */
+export function useOrder(orderId: string | undefined) {
+  return useQuery({
+    queryKey: orderKeys.detail(orderId || ''),
+    queryFn: async () => {
+      if (!orderId) return null;
+      const { data, error } = await orderService.getOrder(orderId);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!orderId,
+  });
+}
+
+/**
+ * Hook to fetch orders not yet handed over, for the order board.
+ * Refreshes as orders are taken or move on other devices.
+ */
+export function useActiveOrders() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const shopId = currentShop?.id;
+
+  useEffect(() => {
+    if (!shopId) return;
+
+    return orderService.subscribeToOrderChanges(shopId, () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.active(shopId) });
+    });
+  }, [shopId, queryClient]);
+
+  return useQuery({
+    queryKey: orderKeys.active(shopId || ''),
+    queryFn: async () => {
+      if (!shopId) return [];
+
+      const { data, error } = await orderService.getActiveOrders(shopId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!shopId,
+    // Fallback for when realtime updates are not getting through
+    refetchInterval: 30 * 1000,
+  });
+}
+
+/**
+ * Hook to move an order to a new status, e.g. from the order board
+ */
+export function useUpdateOrderStatus() {
+  const { user } = useAuthContext();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, status }: { orderId: string; status: OrderStatus }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await orderService.updateOrderStatus(orderId, status);
+      if (error) throw error;
+      if (!data) throw new Error('No data returned from status update');
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch gross sales, refunds and net sales for a period
+ */
+export function useSalesSummary(filters?: Pick<OrderFilters, 'dateFrom' | 'dateTo' | 'orderType'>) {
+  const { currentShop } = useShopContext();
+
+  return useQuery({
+    queryKey: orderKeys.summary(currentShop?.id || '', filters),
+    queryFn: async () => {
+      if (!currentShop) return null;
+
+      const { data, error } = await orderService.getSalesSummary(currentShop.id, filters);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!currentShop,
+  });
+}
+
+/**
+ * Result of taking an order: created on the server, or queued on this device
+ * to sync when the connection returns
+ */
+export type CreateOrderOutcome =
+  | (OrderCreationResult & { queued: false })
+  | { queued: true; queuedOrder: QueuedOrder };
+
 /**
  * Hook to create an order
+ * Paid orders taken while offline are queued locally instead of failing.
  * Automatically invalidates related queries on success
  */
 export function useCreateOrder() {
   const { user } = useAuthContext();
   const queryClient = useQueryClient();
 
+  const enqueue = async (orderData: CreateOrderData, userId: string) => {
+    // A table's tab is claimed as its order is paid, which can't wait for the connection
+    if (orderData.tab) {
+      throw new Error('Closing out a table needs a connection. Try again once back online.');
+    }
+    // Bills are paid one at a time against the saved order, so an order taken
+    // unpaid can't wait for the connection
+    if (!orderData.payment_received) {
+      throw new Error('Splitting a bill needs a connection. Try again once back online.');
+    }
+
+    const { data, error } = await offlineService.enqueueOrder(orderData, userId);
+    if (error) throw error;
+    if (!data) throw new Error('No data returned from queueing the order');
+    return { queued: true as const, queuedOrder: data };
+  };
+
   return useMutation({
-    mutationFn: async (orderData: CreateOrderData) => {
+    mutationFn: async (orderData: CreateOrderData): Promise<CreateOrderOutcome> => {
       if (!user) throw new Error('User not authenticated');
 
-      const { data, error } = await orderService.createOrder(orderData, user.id);
-      if (error) throw error;
+      // The same id goes with the first attempt and the queued copy, so an order the
+      // server recorded before the connection dropped isn't recorded again on sync
+      const order = {
+        ...orderData,
+        client_order_id: orderData.client_order_id ?? crypto.randomUUID(),
+      };
+
+      if (!navigator.onLine) return enqueue(order, user.id);
+
+      const { data, error } = await orderService.createOrder(order);
+      if (error) {
+        if (isNetworkError(error)) return enqueue(order, user.id);
+        throw error;
+      }
       if (!data) throw new Error('No data returned from order creation');
 
+      return { ...data, queued: false };
+    },
+    // Queue the order rather than waiting for the connection
+    networkMode: 'always',
+    onSuccess: (outcome) => {
+      if (outcome.queued) {
+        queryClient.invalidateQueries({ queryKey: offlineKeys.queues() });
+        return;
+      }
+      // Invalidate order history and payment types
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      // Discount usage counts changed
+      queryClient.invalidateQueries({ queryKey: discountKeys.all });
+      // Stock was taken
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to pay one bill of a split order
+ * Needs a connection, since the bill is recorded against the saved order
+ */
+export function usePayOrderBill() {
+  const { user } = useAuthContext();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ billId, payment }: { billId: string; payment: CheckoutPaymentData }) => {
+      if (!user) throw new Error('User not authenticated');
+      if (!navigator.onLine) {
+        throw new Error('Paying a bill needs a connection. Try again once back online.');
+      }
+
+      const { data, error } = await orderService.payOrderBill(billId, payment);
+      if (error) throw error;
+      if (!data) throw new Error('No data returned from bill payment');
+
+      return data;
+    },
+    // Fail straight away offline rather than waiting for the connection
+    networkMode: 'always',
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to void or refund an order
+ * Invalidates order and inventory queries, since stock is returned or written off
+ */
+export function useReverseOrder() {
+  const { user } = useAuthContext();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      orderId,
+      reversalData,
+    }: {
+      orderId: string;
+      reversalData: ReverseOrderData;
+    }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await orderService.reverseOrder(orderId, reversalData);
+      if (error) throw error;
+      if (!data) throw new Error('No data returned from order reversal');
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to refund selected lines of an order
+ * Invalidates order and inventory queries, since stock is returned or written off
+ */
+export function useCreateRefund() {
+  const { user } = useAuthContext();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (refundData: CreateOrderRefundData) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await orderService.createRefund(refundData);
+      if (error) throw error;
+      if (!data) throw new Error('No data returned from refund creation');
+
       return data;
     },
     onSuccess: () => {
-      // Invalidate orders list (for future order history feature)
       queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
     },
   });
 }
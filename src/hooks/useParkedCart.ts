@@ -0,0 +1,99 @@
+// useParkedCart Hook - TanStack Query hooks for carts parked at the till
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useShopContext } from '@/contexts/ShopContext';
+import { cartService } from '@/services/cart.service';
+import type { ParkedCartInsert } from '@/types';
+
+// Query keys for parked cart queries
+export const parkedCartKeys = {
+  all: ['parkedCarts'] as const,
+  lists: () => [...parkedCartKeys.all, 'list'] as const,
+  list: (shopId: string) => [...parkedCartKeys.lists(), shopId] as const,
+};
+
+/**
+ * Hook to fetch the carts parked in the current shop
+ */
+export function useParkedCarts() {
+  const { currentShop } = useShopContext();
+
+  return useQuery({
+    queryKey: parkedCartKeys.list(currentShop?.id || ''),
+    queryFn: async () => {
+      if (!currentShop) return [];
+
+      const { data, error } = await cartService.getParkedCarts(currentShop.id);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!currentShop,
+    // Other registers park and resume carts too
+    staleTime: 0,
+    refetchInterval: 30 * 1000,
+  });
+}
+
+/**
+ * Hook to park a cart in the current shop
+ */
+export function useParkCart() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async (cart: Omit<ParkedCartInsert, 'shop_id'>) => {
+      if (!currentShop?.id || !user?.id) {
+        throw new Error('Shop or user not available');
+      }
+
+      const { data, error } = await cartService.parkCart(
+        { ...cart, shop_id: currentShop.id },
+        user.id
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: parkedCartKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook to resume a parked cart, removing it from the parked list
+ */
+export function useResumeParkedCart() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (parkedCartId: string) => {
+      const { data, error } = await cartService.resumeParkedCart(parkedCartId);
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => {
+      // Refresh even on failure: the cart may have been taken by another register
+      queryClient.invalidateQueries({ queryKey: parkedCartKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook to discard a parked cart
+ */
+export function useDeleteParkedCart() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (parkedCartId: string) => {
+      const { error } = await cartService.deleteParkedCart(parkedCartId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: parkedCartKeys.lists() });
+    },
+  });
+}
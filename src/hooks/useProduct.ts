@@ -3,6 +3,7 @@
 import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { useShopContext } from '@/contexts/ShopContext';
+import { offlineService } from '@/services/offline.service';
 import { type ProductFilters, productService } from '@/services/product.service';
 import type {
   ProductAddon,
@@ -55,11 +56,16 @@ export function useProducts(filters?: ProductFilters) {
     queryKey: productKeys.list(currentShop?.id || '', filters),
     queryFn: async () => {
       if (!currentShop) return [];
-      const { data, error } = await productService.getProducts(currentShop.id, filters);
+      const { data, error } = await offlineService.withCache(
+        JSON.stringify(productKeys.list(currentShop.id, filters)),
+        () => productService.getProducts(currentShop.id, filters)
+      );
       if (error) throw error;
       return data || [];
     },
     enabled: !!currentShop,
+    // Run while offline so the register can fall back to the cached catalogue
+    networkMode: 'offlineFirst',
   });
 }
 
@@ -394,11 +400,15 @@ export function useProductCategories() {
     queryKey: productKeys.categories(currentShop?.id || ''),
     queryFn: async () => {
       if (!currentShop) return [];
-      const { data, error } = await productService.getProductCategories(currentShop.id);
+      const { data, error } = await offlineService.withCache(
+        JSON.stringify(productKeys.categories(currentShop.id)),
+        () => productService.getProductCategories(currentShop.id)
+      );
       if (error) throw error;
       return data || [];
     },
     enabled: !!currentShop,
+    networkMode: 'offlineFirst',
   });
 }
 
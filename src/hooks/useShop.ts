@@ -1,9 +1,12 @@
 // useShop Hook - Convenience hook for shop management
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuthContext } from '@/contexts/AuthContext';
 import { useShopContext } from '@/contexts/ShopContext';
+import { productKeys } from '@/hooks/useProduct';
+import { offlineService } from '@/services/offline.service';
 import { shopService } from '@/services/shop.service';
-import type { ShopInsert, ShopUpdate } from '@/types';
+import type { ShopInsert, ShopUpdate, TaxRateInsert, TaxRateUpdate } from '@/types';
 
 // Query keys for cache management
 export const shopKeys = {
@@ -13,6 +16,7 @@ export const shopKeys = {
 	details: () => [...shopKeys.all, 'detail'] as const,
 	detail: (shopId: string) => [...shopKeys.details(), shopId] as const,
 	users: (shopId: string) => [...shopKeys.all, 'users', shopId] as const,
+	taxRates: (shopId: string) => [...shopKeys.all, 'taxRates', shopId] as const,
 };
 
 /**
@@ -229,4 +233,94 @@ export function useDeleteShop() {
 	});
 }
 
+/**
+ * Hook to fetch the current shop's named tax rates.
+ */
+export function useTaxRates() {
+	const { currentShop } = useShopContext();
+
+	return useQuery({
+		queryKey: shopKeys.taxRates(currentShop?.id || ''),
+		queryFn: async () => {
+			if (!currentShop?.id) return [];
+			const { data, error } = await offlineService.withCache(
+				JSON.stringify(shopKeys.taxRates(currentShop.id)),
+				() => shopService.getTaxRates(currentShop.id),
+			);
+			if (error) throw error;
+			return data || [];
+		},
+		enabled: !!currentShop?.id,
+		networkMode: 'offlineFirst',
+	});
+}
+
+/**
+ * Hook to create a named tax rate for the current shop.
+ */
+export function useCreateTaxRate() {
+	const queryClient = useQueryClient();
+	const { currentShop } = useShopContext();
+	const { user } = useAuthContext();
+
+	return useMutation({
+		mutationFn: async (taxRate: Omit<TaxRateInsert, 'shop_id'>) => {
+			if (!currentShop?.id || !user?.id) {
+				throw new Error('Shop or user not available');
+			}
+			const { data, error } = await shopService.createTaxRate(
+				{ ...taxRate, shop_id: currentShop.id },
+				user.id
+			);
+			if (error) throw error;
+			return data;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: shopKeys.taxRates(currentShop?.id || '') });
+		},
+	});
+}
+
+/**
+ * Hook to update a named tax rate.
+ */
+export function useUpdateTaxRate() {
+	const queryClient = useQueryClient();
+	const { currentShop } = useShopContext();
+	const { user } = useAuthContext();
+
+	return useMutation({
+		mutationFn: async ({ taxRateId, updates }: { taxRateId: string; updates: TaxRateUpdate }) => {
+			if (!user?.id) throw new Error('User not available');
+			const { data, error } = await shopService.updateTaxRate(taxRateId, updates, user.id);
+			if (error) throw error;
+			return data;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: shopKeys.taxRates(currentShop?.id || '') });
+		},
+	});
+}
+
+/**
+ * Hook to delete a named tax rate.
+ * Categories and products assigned to it fall back to the shop default rate.
+ */
+export function useDeleteTaxRate() {
+	const queryClient = useQueryClient();
+	const { currentShop } = useShopContext();
+
+	return useMutation({
+		mutationFn: async (taxRateId: string) => {
+			const { error } = await shopService.deleteTaxRate(taxRateId);
+			if (error) throw error;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: shopKeys.taxRates(currentShop?.id || '') });
+			// Assignments were cleared by ON DELETE SET NULL
+			queryClient.invalidateQueries({ queryKey: productKeys.all });
+		},
+	});
+}
+
 export default useShop;
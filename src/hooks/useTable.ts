@@ -0,0 +1,326 @@
+// useTable Hook - TanStack Query hooks for the floor plan and table tabs
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useShopContext } from '@/contexts/ShopContext';
+import { inventoryKeys } from '@/hooks/useInventory';
+import { orderKeys } from '@/hooks/useOrder';
+import { type TableRoundData, tableService } from '@/services/table.service';
+import type {
+  DiningTable,
+  DiningTableInsert,
+  DiningTableUpdate,
+  TableAreaInsert,
+  TableAreaUpdate,
+} from '@/types';
+
+// Query keys for table-related queries
+export const tableKeys = {
+  all: ['tables'] as const,
+  areas: (shopId: string) => [...tableKeys.all, 'areas', shopId] as const,
+  tables: (shopId: string) => [...tableKeys.all, 'tables', shopId] as const,
+  tabs: (shopId: string) => [...tableKeys.all, 'tabs', shopId] as const,
+};
+
+// ===== Table Areas =====
+
+/**
+ * Hook to fetch the current shop's table areas in display order
+ */
+export function useTableAreas() {
+  const { currentShop } = useShopContext();
+
+  return useQuery({
+    queryKey: tableKeys.areas(currentShop?.id || ''),
+    queryFn: async () => {
+      if (!currentShop?.id) return [];
+      const { data, error } = await tableService.getTableAreas(currentShop.id);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!currentShop?.id,
+  });
+}
+
+/**
+ * Hook to create a table area for the current shop
+ */
+export function useCreateTableArea() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async (area: Omit<TableAreaInsert, 'shop_id'>) => {
+      if (!currentShop?.id || !user?.id) {
+        throw new Error('Shop or user not available');
+      }
+      const { data, error } = await tableService.createTableArea(
+        { ...area, shop_id: currentShop.id },
+        user.id
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.areas(currentShop?.id || '') });
+    },
+  });
+}
+
+/**
+ * Hook to update a table area
+ */
+export function useUpdateTableArea() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async ({ areaId, updates }: { areaId: string; updates: TableAreaUpdate }) => {
+      if (!user?.id) throw new Error('User not available');
+      const { data, error } = await tableService.updateTableArea(areaId, updates, user.id);
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.areas(currentShop?.id || '') });
+    },
+  });
+}
+
+/**
+ * Hook to delete a table area along with its tables
+ */
+export function useDeleteTableArea() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (areaId: string) => {
+      const { error } = await tableService.deleteTableArea(areaId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.all });
+    },
+  });
+}
+
+// ===== Dining Tables =====
+
+/**
+ * Hook to fetch every table in the current shop
+ */
+export function useDiningTables() {
+  const { currentShop } = useShopContext();
+
+  return useQuery({
+    queryKey: tableKeys.tables(currentShop?.id || ''),
+    queryFn: async () => {
+      if (!currentShop?.id) return [];
+      const { data, error } = await tableService.getDiningTables(currentShop.id);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!currentShop?.id,
+  });
+}
+
+/**
+ * Hook to create a dining table in the current shop
+ */
+export function useCreateDiningTable() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async (table: Omit<DiningTableInsert, 'shop_id'>) => {
+      if (!currentShop?.id || !user?.id) {
+        throw new Error('Shop or user not available');
+      }
+      const { data, error } = await tableService.createDiningTable(
+        { ...table, shop_id: currentShop.id },
+        user.id
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.tables(currentShop?.id || '') });
+    },
+  });
+}
+
+/**
+ * Hook to update a dining table, including dragging it on the floor plan.
+ * Moves show straight away rather than waiting for the save.
+ */
+export function useUpdateDiningTable() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const { user } = useAuthContext();
+  const queryKey = tableKeys.tables(currentShop?.id || '');
+
+  return useMutation({
+    mutationFn: async ({ tableId, updates }: { tableId: string; updates: DiningTableUpdate }) => {
+      if (!user?.id) throw new Error('User not available');
+      const { data, error } = await tableService.updateDiningTable(tableId, updates, user.id);
+      if (error) throw error;
+      return data;
+    },
+    onMutate: async ({ tableId, updates }) => {
+      await queryClient.cancelQueries({ queryKey });
+      queryClient.setQueryData<DiningTable[]>(queryKey, (tables) =>
+        tables?.map((table) => (table.id === tableId ? { ...table, ...updates } : table))
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+}
+
+/**
+ * Hook to delete a dining table
+ */
+export function useDeleteDiningTable() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+
+  return useMutation({
+    mutationFn: async (tableId: string) => {
+      const { error } = await tableService.deleteDiningTable(tableId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.tables(currentShop?.id || '') });
+    },
+  });
+}
+
+// ===== Table Tabs =====
+
+/**
+ * Hook to fetch the current shop's open tabs.
+ * Refreshes as other registers send rounds, move tabs or close them out.
+ */
+export function useTableTabs() {
+  const queryClient = useQueryClient();
+  const { currentShop } = useShopContext();
+  const shopId = currentShop?.id;
+
+  useEffect(() => {
+    if (!shopId) return;
+
+    return tableService.subscribeToTableTabChanges(shopId, () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.tabs(shopId) });
+      // A tab changes with every round sent to its order, here or on another register
+      queryClient.invalidateQueries({ queryKey: orderKeys.details() });
+    });
+  }, [shopId, queryClient]);
+
+  return useQuery({
+    queryKey: tableKeys.tabs(shopId || ''),
+    queryFn: async () => {
+      if (!shopId) return [];
+      const { data, error } = await tableService.getTableTabs(shopId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!shopId,
+    // Fallback for when realtime updates are not getting through
+    refetchInterval: 30 * 1000,
+  });
+}
+
+/**
+ * Hook to send a round to a table's order, seating the table if it is free
+ */
+export function useAddTableRound() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tableId, round }: { tableId: string; round: TableRoundData }) => {
+      const { data, error } = await tableService.addTableRound(tableId, round);
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.all });
+      // The round went onto the table's order and its stock was taken
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to mark a tab as waiting for the bill, or take the request back
+ */
+export function useSetBillRequested() {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async ({ tabId, requested }: { tabId: string; requested: boolean }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+      const { data, error } = await tableService.setBillRequested(tabId, requested, user.id);
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to move a tab to a free table
+ */
+export function useTransferTableTab() {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async ({ tabId, targetTableId }: { tabId: string; targetTableId: string }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+      const { data, error } = await tableService.transferTableTab(tabId, targetTableId, user.id);
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => {
+      // Refresh even on failure: the other table may have been seated meanwhile
+      queryClient.invalidateQueries({ queryKey: tableKeys.all });
+      // The tab's order moved with it
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to merge one table's tab into another table's
+ */
+export function useMergeTableTabs() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      sourceTableId,
+      targetTableId,
+    }: {
+      sourceTableId: string;
+      targetTableId: string;
+    }) => {
+      const { data, error } = await tableService.mergeTableTabs(sourceTableId, targetTableId);
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: tableKeys.all });
+      // The tabs' orders were merged too
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+}
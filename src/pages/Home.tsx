@@ -38,6 +38,7 @@ import { useHistory, useParams } from 'react-router-dom';
 import { BentoGrid, BentoTile } from '@/components/layouts';
 import PageHeader from '@/components/shared/PageHeader';
 import { useAuth } from '@/hooks/useAuth';
+import { useActiveOrders } from '@/hooks/useOrder';
 import { useShop } from '@/hooks/useShop';
 
 const Home: React.FC = () => {
@@ -46,6 +47,7 @@ const Home: React.FC = () => {
 	const { user, profile, shopIds } = useAuth();
 	const { createShop, isLoading, selectShop, currentShop } = useShop();
 	const { t } = useTranslation();
+	const { data: activeOrders = [] } = useActiveOrders();
 
 	useEffect(() => {
 		if (shopId && (!currentShop || currentShop.id !== shopId)) {
@@ -138,8 +140,8 @@ const Home: React.FC = () => {
 								title={t('home.tiles.inProgress')}
 								icon={timeOutline}
 								size="large"
-								badge={0}
-								onClick={() => history.push('/orders?status=pending')}
+								badge={activeOrders.length}
+								onClick={() => history.push(`/shops/${currentShop?.id}/order-board`)}
 							/>
 
 							{/* Secondary Actions */}
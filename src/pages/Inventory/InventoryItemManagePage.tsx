@@ -35,8 +35,10 @@ import {
 	construct,
 	cubeOutline,
 	list,
+	returnDownBackSharp,
 	swapVerticalSharp,
 	trashOutline,
+	trashSharp,
 } from 'ionicons/icons';
 import type React from 'react';
 import { useMemo, useRef, useState } from 'react';
@@ -318,6 +320,8 @@ const InventoryItemManagePage: React.FC = () => {
 			sale: 'Sale',
 			adjustment: 'Adjustment',
 			countAdjustment: 'Count Adjustment',
+			return: 'Return',
+			waste: 'Waste',
 		};
 		return labels[type] || type;
 	};
@@ -329,6 +333,8 @@ const InventoryItemManagePage: React.FC = () => {
 			sale: cashSharp,
 			adjustment: swapVerticalSharp,
 			countAdjustment: calculatorSharp,
+			return: returnDownBackSharp,
+			waste: trashSharp,
 		};
 		return icons[type] || construct;
 	};
@@ -20,7 +20,9 @@ import {
 	calculatorSharp,
 	cashSharp,
 	construct,
+	returnDownBackSharp,
 	swapVerticalSharp,
+	trashSharp,
 } from 'ionicons/icons';
 import type React from 'react';
 import { useMemo } from 'react';
@@ -57,6 +59,8 @@ const InventoryTransactionDetailsPage: React.FC = () => {
 			sale: 'Sale',
 			adjustment: 'Adjustment',
 			countAdjustment: 'Count Adjustment',
+			return: 'Return',
+			waste: 'Waste',
 		};
 		return labels[type] || type;
 	};
@@ -68,6 +72,8 @@ const InventoryTransactionDetailsPage: React.FC = () => {
 			sale: cashSharp,
 			adjustment: swapVerticalSharp,
 			countAdjustment: calculatorSharp,
+			return: returnDownBackSharp,
+			waste: trashSharp,
 		};
 		return icons[type] || construct;
 	};
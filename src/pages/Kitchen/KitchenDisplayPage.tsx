@@ -0,0 +1,279 @@
+// Kitchen Display Page - Full-screen tickets for a kitchen or bar station to bump as they are made
+
+import {
+  IonBackButton,
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonLabel,
+  IonPage,
+  IonSegment,
+  IonSegmentButton,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { checkmarkDoneOutline, checkmarkOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useHistory, useLocation } from 'react-router-dom';
+import styled from 'styled-components';
+import { LoadingSpinner } from '@/components/ui';
+import { useBumpOrderItems, useKitchenOrders, useKitchenStations } from '@/hooks/useKitchen';
+import { useShop } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { designSystem } from '@/theme/designSystem';
+import type { KitchenOrder, KitchenOrderItem, KitchenStation } from '@/types';
+import { formatOrderType } from '@/utils/order';
+
+// Segment value for the view showing every station's lines
+const ALL_STATIONS = 'all';
+
+// Targets for the all-stations view, matching the station defaults
+const DEFAULT_TARGETS: Pick<KitchenStation, 'target_minutes' | 'late_minutes'> = {
+  target_minutes: 10,
+  late_minutes: 15,
+};
+
+// Styled Components
+const TicketGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(260px, 1fr));
+  align-items: start;
+  gap: ${designSystem.spacing.md};
+  padding: ${designSystem.spacing.md};
+`;
+
+const Ticket = styled.article<{ $accent: string }>`
+  display: flex;
+  flex-direction: column;
+  background: ${designSystem.colors.surface.elevated};
+  border: 1px solid ${designSystem.colors.gray[200]};
+  border-top: 6px solid ${({ $accent }) => $accent};
+  border-radius: ${designSystem.borderRadius.lg};
+  overflow: hidden;
+`;
+
+const TicketHeader = styled.header`
+  display: flex;
+  align-items: baseline;
+  justify-content: space-between;
+  gap: ${designSystem.spacing.sm};
+  padding: ${designSystem.spacing.sm} ${designSystem.spacing.md};
+  border-bottom: 1px solid ${designSystem.colors.gray[200]};
+`;
+
+const TicketNumber = styled.strong`
+  font-size: ${designSystem.typography.fontSize['2xl']};
+`;
+
+const Elapsed = styled.span<{ $color: string }>`
+  color: ${({ $color }) => $color};
+  font-size: ${designSystem.typography.fontSize.xl};
+  font-weight: ${designSystem.typography.fontWeight.semibold};
+  font-variant-numeric: tabular-nums;
+`;
+
+const TicketMeta = styled.div`
+  padding: ${designSystem.spacing.xs} ${designSystem.spacing.md} 0;
+  color: ${designSystem.colors.gray[500]};
+  font-size: ${designSystem.typography.fontSize.sm};
+`;
+
+const LineList = styled.ul`
+  margin: 0;
+  padding: 0;
+  list-style: none;
+`;
+
+const Line = styled.li`
+  display: flex;
+  align-items: flex-start;
+  justify-content: space-between;
+  gap: ${designSystem.spacing.sm};
+  padding: ${designSystem.spacing.sm} ${designSystem.spacing.md};
+  border-bottom: 1px solid ${designSystem.colors.gray[100]};
+  font-size: ${designSystem.typography.fontSize.lg};
+`;
+
+const LineDetail = styled.div`
+  padding-left: ${designSystem.spacing.md};
+  color: ${designSystem.colors.gray[600]};
+  font-size: ${designSystem.typography.fontSize.sm};
+`;
+
+const EmptyState = styled.div`
+  padding: ${designSystem.spacing['3xl']} ${designSystem.spacing.md};
+  text-align: center;
+  color: ${designSystem.colors.gray[400]};
+  font-size: ${designSystem.typography.fontSize.xl};
+`;
+
+/**
+ * Formats whole seconds since a ticket came in as m:ss
+ */
+const formatElapsed = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Colour for a ticket's waiting time against its station's targets
+ */
+const getElapsedColor = (
+  seconds: number,
+  targets: Pick<KitchenStation, 'target_minutes' | 'late_minutes'>
+) => {
+  if (seconds >= targets.late_minutes * 60) return designSystem.colors.danger;
+  if (seconds >= targets.target_minutes * 60) return designSystem.colors.warning;
+  return designSystem.colors.success;
+};
+
+const KitchenDisplayPage: React.FC = () => {
+  const history = useHistory();
+  const location = useLocation();
+  const { currentShop } = useShop();
+  const { data: stations = [] } = useKitchenStations();
+  const { data: orders = [], isLoading } = useKitchenOrders();
+  const bumpOrderItems = useBumpOrderItems();
+  const { showError } = useToastNotification();
+  const [now, setNow] = useState(Date.now());
+
+  // The station is kept in the URL so each screen can be bookmarked to its own
+  const stationId = new URLSearchParams(location.search).get('station') || ALL_STATIONS;
+  const station = stations.find((s) => s.id === stationId);
+  const targets = station ?? DEFAULT_TARGETS;
+
+  // Tick the timers every second
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Each ticket with only the lines this station still has to make
+  const tickets = useMemo(
+    () =>
+      orders
+        .map((order) => ({
+          order,
+          lines: order.order_items.filter(
+            (item) =>
+              !item.prepared_at && (stationId === ALL_STATIONS || item.station_id === stationId)
+          ),
+        }))
+        .filter((ticket) => ticket.lines.length > 0),
+    [orders, stationId]
+  );
+
+  const handleStationChange = (value: string) => {
+    history.replace({
+      search: value === ALL_STATIONS ? '' : `?station=${value}`,
+    });
+  };
+
+  const bump = async (lines: KitchenOrderItem[]) => {
+    try {
+      await bumpOrderItems.mutateAsync(lines.map((line) => line.id));
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to bump');
+    }
+  };
+
+  const renderTicket = ({ order, lines }: { order: KitchenOrder; lines: KitchenOrderItem[] }) => {
+    const elapsed = Math.max(0, Math.floor((now - new Date(order.order_date).getTime()) / 1000));
+    const color = getElapsedColor(elapsed, targets);
+
+    return (
+      <Ticket key={order.id} $accent={color}>
+        <TicketHeader>
+          <TicketNumber>{order.order_number ? `#${order.order_number}` : 'Order'}</TicketNumber>
+          <Elapsed $color={color}>{formatElapsed(elapsed)}</Elapsed>
+        </TicketHeader>
+        <TicketMeta>
+          <strong>{formatOrderType(order)}</strong>
+          {order.customer_name && ` · ${order.customer_name}`}
+        </TicketMeta>
+
+        <LineList>
+          {lines.map((line) => (
+            <Line key={line.id}>
+              <div>
+                <strong>{line.quantity}x</strong> {line.product_name}
+                {line.order_item_modifiers.map((modifier) => (
+                  <LineDetail key={modifier.id}>+ {modifier.modifier_name}</LineDetail>
+                ))}
+                {line.order_item_addons.map((addon) => (
+                  <LineDetail key={addon.id}>
+                    + {addon.quantity}x {addon.name}
+                  </LineDetail>
+                ))}
+              </div>
+              <IonButton
+                fill="outline"
+                color="success"
+                size="small"
+                disabled={bumpOrderItems.isPending}
+                onClick={() => bump([line])}
+                aria-label={`Bump ${line.product_name}`}
+              >
+                <IonIcon slot="icon-only" icon={checkmarkOutline} />
+              </IonButton>
+            </Line>
+          ))}
+        </LineList>
+
+        <IonButton
+          expand="full"
+          color="success"
+          className="ion-no-margin"
+          disabled={bumpOrderItems.isPending}
+          onClick={() => bump(lines)}
+        >
+          <IonIcon slot="start" icon={checkmarkDoneOutline} />
+          Bump Ticket
+        </IonButton>
+      </Ticket>
+    );
+  };
+
+  return (
+    <IonPage>
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start">
+            <IonBackButton defaultHref={currentShop ? `/shops/${currentShop.id}` : '/shops'} />
+          </IonButtons>
+          <IonTitle>{station ? station.name : 'Kitchen'}</IonTitle>
+        </IonToolbar>
+        {stations.length > 0 && (
+          <IonToolbar>
+            <IonSegment
+              scrollable
+              value={stationId}
+              onIonChange={(e) => handleStationChange(String(e.detail.value))}
+            >
+              <IonSegmentButton value={ALL_STATIONS}>
+                <IonLabel>All Stations</IonLabel>
+              </IonSegmentButton>
+              {stations.map((s) => (
+                <IonSegmentButton key={s.id} value={s.id}>
+                  <IonLabel>{s.name}</IonLabel>
+                </IonSegmentButton>
+              ))}
+            </IonSegment>
+          </IonToolbar>
+        )}
+      </IonHeader>
+      <IonContent>
+        {isLoading ? (
+          <LoadingSpinner />
+        ) : tickets.length > 0 ? (
+          <TicketGrid>{tickets.map(renderTicket)}</TicketGrid>
+        ) : (
+          <EmptyState>All caught up</EmptyState>
+        )}
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default KitchenDisplayPage;
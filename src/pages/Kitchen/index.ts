@@ -0,0 +1,3 @@
+// Kitchen Pages - Barrel Export
+
+export { default as KitchenDisplayPage } from './KitchenDisplayPage';
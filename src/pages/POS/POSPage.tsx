@@ -15,34 +15,69 @@ import {
   IonTitle,
   IonToolbar,
 } from '@ionic/react';
-import { cartOutline } from 'ionicons/icons';
+import {
+  cartOutline,
+  cloudOfflineOutline,
+  cloudUploadOutline,
+  gridOutline,
+  pauseCircleOutline,
+} from 'ionicons/icons';
 import type React from 'react';
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useHistory } from 'react-router-dom';
 // Layout
 import { POSLayout } from '@/components/layouts';
 // POS Components
 import {
+  BillPaymentModal,
   CartPanel,
   CategoryPillScroller,
   CategorySidebar,
   CheckoutModal,
+  DiscountModal,
+  OfflineQueueModal,
+  OrderTypeModal,
+  ParkCartModal,
+  ParkedCartsModal,
   ProductCard,
   ProductCustomizationModal,
+  SplitBillModal,
 } from '@/components/pos';
+// Receipt Components
+import { ReceiptModal } from '@/components/receipt';
 // UI Components
 import { BottomSheet } from '@/components/ui';
+import { useUI } from '@/contexts/UIContext';
 import { useIsMobile, useIsTabletOrLarger } from '@/hooks/useBreakpoint';
 import { useCart } from '@/hooks/useCart';
+import { useStockLevels } from '@/hooks/useInventory';
+import { useOfflineSync, useQueuedOrders } from '@/hooks/useOfflineSync';
+import { useParkedCarts } from '@/hooks/useParkedCart';
 // Hooks
-import { useProductCategories, useProducts } from '@/hooks/useProduct';
+import { productKeys, useProductCategories, useProducts } from '@/hooks/useProduct';
+import { useShop } from '@/hooks/useShop';
+import { useAddTableRound } from '@/hooks/useTable';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { offlineService } from '@/services/offline.service';
 import { productService } from '@/services/product.service';
-import type { CartItemAddon, CartItemModifier, Product, ProductWithDetails } from '@/types';
+import type {
+  CartItemAddon,
+  CartItemModifier,
+  ParkedCart,
+  Product,
+  ProductWithDetails,
+  SplitBill,
+} from '@/types';
+import { formatOrderType, getProductPrice } from '@/utils/order';
+import { getMakeableCounts, getShortCartItemIds } from '@/utils/stock';
 
 const POSPage: React.FC = () => {
   const history = useHistory();
   const isMobile = useIsMobile();
   const isTablet = useIsTabletOrLarger();
+  const { currentShop } = useShop();
+  const { showSuccess, showError } = useToastNotification();
+  const { showWarning } = useUI();
 
   // Cart state
   const {
@@ -56,10 +91,24 @@ const POSPage: React.FC = () => {
     removeFromCart,
     updateQuantity,
     customerName,
+    notes,
     getItem,
+    loadCart,
     clearCart,
+    discounts,
+    applyDiscount,
+    applyPromoCode,
+    removeDiscount,
+    orderTypeDetails,
+    setOrderType,
+    table,
   } = useCart();
 
+  // A cart taken for a table either sends the next round to its order, or
+  // holds the order's lines to close out the tab at checkout
+  const isTableRound = !!table && !table.tab;
+  const addTableRound = useAddTableRound();
+
   // Category filter state
   const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
 
@@ -77,6 +126,43 @@ const POSPage: React.FC = () => {
   // Checkout modal state
   const [checkoutModalOpen, setCheckoutModalOpen] = useState(false);
 
+  // Discount modal state
+  const [discountModalOpen, setDiscountModalOpen] = useState(false);
+
+  // Order type modal state
+  const [orderTypeModalOpen, setOrderTypeModalOpen] = useState(false);
+
+  // Split bill state; empty when the order is paid as one bill
+  const [splitBillModalOpen, setSplitBillModalOpen] = useState(false);
+  const [bills, setBills] = useState<SplitBill[]>([]);
+
+  // Parked carts, shared by every register in the shop
+  const [parkCartModalOpen, setParkCartModalOpen] = useState(false);
+  const [parkedCartsModalOpen, setParkedCartsModalOpen] = useState(false);
+  const { data: parkedCarts = [] } = useParkedCarts();
+
+  // Receipt for the order just completed
+  const [receiptOrderId, setReceiptOrderId] = useState<string | null>(null);
+
+  // Split order just taken, whose bills are paid one at a time
+  const [billOrderId, setBillOrderId] = useState<string | null>(null);
+
+  // Orders taken offline and their sync status
+  const [offlineQueueModalOpen, setOfflineQueueModalOpen] = useState(false);
+  const { isOnline, lastSync } = useOfflineSync();
+  const { data: queuedOrders = [] } = useQueuedOrders();
+  const pendingSyncCount = queuedOrders.filter((order) => order.status === 'pending').length;
+  const failedSyncCount = queuedOrders.length - pendingSyncCount;
+
+  // Report orders the server rejected when they were replayed
+  useEffect(() => {
+    if (lastSync?.failed) {
+      showWarning(
+        `${lastSync.failed} offline ${lastSync.failed === 1 ? 'order' : 'orders'} could not be synced. Open Offline Orders to review.`
+      );
+    }
+  }, [lastSync, showWarning]);
+
   // Fetch products and categories
   const { data: categories = [], isLoading: categoriesLoading } = useProductCategories();
   const { data: products = [], isLoading: productsLoading } = useProducts(
@@ -85,13 +171,43 @@ const POSPage: React.FC = () => {
 
   const isLoading = categoriesLoading || productsLoading;
 
+  // How many of each product can still be made, after what the cart takes.
+  // Lines already on a table's order took their stock when their round was sent.
+  const { data: stockLevels } = useStockLevels();
+  const unsentItems = useMemo(() => items.filter((item) => !item.order_item_id), [items]);
+  const makeableCounts = useMemo(
+    () => (stockLevels ? getMakeableCounts(stockLevels, unsentItems) : {}),
+    [stockLevels, unsentItems]
+  );
+  const shortItemIds = useMemo(
+    () => (stockLevels ? getShortCartItemIds(unsentItems, stockLevels) : []),
+    [stockLevels, unsentItems]
+  );
+
+  // Product details come from the offline cache when the server can't be reached
+  const getProductDetails = (productId: string) =>
+    offlineService.withCache(JSON.stringify(productKeys.detail(productId)), () =>
+      productService.getProduct(productId)
+    );
+
   // Handle product tap - check for modifiers/addons then add to cart
   const handleProductTap = async (product: (typeof products)[0]) => {
+    // Closing out pays for what the table was sent; anything more goes in a round
+    if (table?.tab) {
+      showWarning('Add a round to the table to order more');
+      return;
+    }
+    if (makeableCounts[product.id] === 0) {
+      showWarning(`${product.name} is out of stock`);
+      return;
+    }
+
     // Fetch product details to check for modifiers and addons
-    const { data: productDetails } = await productService.getProduct(product.id);
+    const { data: productDetails } = await getProductDetails(product.id);
 
     const hasCustomization =
-      (productDetails?.linkedModifierGroups?.length ?? 0) > 0 || (productDetails?.addons.length ?? 0) > 0;
+      (productDetails?.linkedModifierGroups?.length ?? 0) > 0 ||
+      (productDetails?.addons.length ?? 0) > 0;
 
     if (hasCustomization) {
       // Product has modifiers or addons - show modal
@@ -114,13 +230,15 @@ const POSPage: React.FC = () => {
   // Handle editing cart item modifiers/addons
   const handleEditCartItem = async (cartItemId: string) => {
     const cartItem = getItem(cartItemId);
-    if (!cartItem) return;
+    // Lines already on a table's order stay as they were sent
+    if (!cartItem || cartItem.order_item_id) return;
 
     // Fetch product details to check if it has modifiers or addons
-    const { data: productDetails } = await productService.getProduct(cartItem.product_id);
+    const { data: productDetails } = await getProductDetails(cartItem.product_id);
 
     const hasCustomization =
-      (productDetails?.linkedModifierGroups?.length ?? 0) > 0 || (productDetails?.addons.length ?? 0) > 0;
+      (productDetails?.linkedModifierGroups?.length ?? 0) > 0 ||
+      (productDetails?.addons.length ?? 0) > 0;
 
     if (hasCustomization) {
       // Product has modifiers or addons - show modal for editing
@@ -161,11 +279,75 @@ const POSPage: React.FC = () => {
     setEditingCartItemId(null);
   };
 
+  // Lines restored from a saved or parked cart whose product has since been deleted
+  const hasUnavailableItems = items.some((item) => !item.available);
+
+  const checkItemsAvailable = () => {
+    if (hasUnavailableItems) {
+      showError('Remove items that are no longer available before charging');
+    }
+    return !hasUnavailableItems;
+  };
+
   // Handle charge button
   const handleCharge = () => {
+    if (!checkItemsAvailable()) return;
+    // Paying the order claims the table's tab, which can't wait for the connection
+    if (table?.tab && !isOnline) {
+      showError('Closing out a table needs a connection. Try again once back online.');
+      return;
+    }
+    setBills([]);
+    setCheckoutModalOpen(true);
+  };
+
+  // Take a split order, then pay each bill in turn
+  const handleSplitBillConfirm = (splitBills: SplitBill[]) => {
+    if (!checkItemsAvailable()) return;
+    // Each bill is paid against the saved order, which can't wait for the connection
+    if (!isOnline) {
+      showError('Splitting a bill needs a connection. Charge the order as one bill instead.');
+      return;
+    }
+    setBills(splitBills);
+    setSplitBillModalOpen(false);
     setCheckoutModalOpen(true);
   };
 
+  // Add the cart to its table's tab and go back to the floor plan
+  const handleSendRound = async () => {
+    if (!table || !checkItemsAvailable()) return;
+
+    try {
+      await addTableRound.mutateAsync({
+        tableId: table.table_id,
+        round: { customer_name: customerName, items, item_count: itemCount, subtotal },
+      });
+      showSuccess(`Round sent to ${formatOrderType(orderTypeDetails)}`);
+      clearCart();
+      history.push(`/shops/${currentShop?.id}/tables`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to send round');
+    }
+  };
+
+  // Continue a parked cart where it was left off
+  const handleResumeCart = (parkedCart: ParkedCart) => {
+    loadCart({
+      items: parkedCart.items,
+      customerName: parkedCart.customer_name,
+      notes: parkedCart.notes,
+      discounts: parkedCart.discounts,
+      orderTypeDetails: {
+        order_type: parkedCart.order_type,
+        table_label: parkedCart.table_label,
+        delivery_address: parkedCart.delivery_address,
+        delivery_fee: parkedCart.delivery_fee,
+      },
+      table: null,
+    });
+  };
+
   // Render category section based on device
   const renderCategories = () => {
     if (isTablet) {
@@ -210,6 +392,8 @@ const POSPage: React.FC = () => {
             key={product.id}
             product={product}
             currency={currency}
+            price={getProductPrice(product, orderTypeDetails.order_type)}
+            stockCount={makeableCounts[product.id]}
             onTap={() => handleProductTap(product)}
             onLongPress={() => handleProductLongPress(product)}
           />
@@ -228,14 +412,28 @@ const POSPage: React.FC = () => {
         subtotal={subtotal}
         tax={totals.tax}
         taxRate={totals.taxRate}
+        taxLabel={totals.taxLabel}
+        taxInclusive={totals.taxInclusive}
+        taxLines={totals.taxLines}
         discount={totals.discount}
+        discounts={totals.appliedDiscounts}
+        lineDiscounts={totals.lineDiscounts}
+        orderTypeDetails={orderTypeDetails}
+        deliveryFee={totals.deliveryFee}
+        shortItemIds={shortItemIds}
         total={totals.total}
         currency={currency}
         customerName={customerName ?? undefined}
         onQuantityChange={updateQuantity}
         onRemoveItem={removeFromCart}
         onEditItem={handleEditCartItem}
+        loading={addTableRound.isPending}
         onCharge={handleCharge}
+        onSendRound={isTableRound ? handleSendRound : undefined}
+        onOrderType={table ? undefined : () => setOrderTypeModalOpen(true)}
+        onDiscounts={() => setDiscountModalOpen(true)}
+        onSplitBill={isTableRound ? undefined : () => setSplitBillModalOpen(true)}
+        onPark={table ? undefined : () => setParkCartModalOpen(true)}
       />
     );
   };
@@ -247,17 +445,54 @@ const POSPage: React.FC = () => {
           <IonButtons slot="start">
             <IonMenuButton />
           </IonButtons>
-          <IonTitle>New Order</IonTitle>
-          {isMobile && !isEmpty && (
-            <IonButtons slot="end">
+          <IonTitle>
+            {table
+              ? `${formatOrderType(orderTypeDetails)} · ${table.tab ? 'Close Out' : 'New Round'}`
+              : 'New Order'}
+          </IonTitle>
+          <IonButtons slot="end">
+            <IonButton
+              onClick={() => history.push(`/shops/${currentShop?.id}/tables`)}
+              aria-label="Tables"
+            >
+              <IonIcon slot="icon-only" icon={gridOutline} />
+            </IonButton>
+            {(!isOnline || queuedOrders.length > 0) && (
+              <IonButton onClick={() => setOfflineQueueModalOpen(true)} aria-label="Offline orders">
+                <IonIcon
+                  slot="icon-only"
+                  icon={isOnline ? cloudUploadOutline : cloudOfflineOutline}
+                  color={isOnline ? undefined : 'medium'}
+                />
+                {pendingSyncCount > 0 && (
+                  <IonBadge color="warning" style={{ position: 'absolute', top: 0, left: 0 }}>
+                    {pendingSyncCount}
+                  </IonBadge>
+                )}
+                {failedSyncCount > 0 && (
+                  <IonBadge color="danger" style={{ position: 'absolute', top: 0, right: 0 }}>
+                    {failedSyncCount}
+                  </IonBadge>
+                )}
+              </IonButton>
+            )}
+            <IonButton onClick={() => setParkedCartsModalOpen(true)} aria-label="Parked carts">
+              <IonIcon slot="icon-only" icon={pauseCircleOutline} />
+              {parkedCarts.length > 0 && (
+                <IonBadge color="warning" style={{ position: 'absolute', top: 0, right: 0 }}>
+                  {parkedCarts.length}
+                </IonBadge>
+              )}
+            </IonButton>
+            {isMobile && !isEmpty && (
               <IonButton onClick={() => setIsCartOpen(true)}>
                 <IonIcon slot="icon-only" icon={cartOutline} />
                 <IonBadge color="danger" style={{ position: 'absolute', top: 0, right: 0 }}>
                   {itemCount}
                 </IonBadge>
               </IonButton>
-            </IonButtons>
-          )}
+            )}
+          </IonButtons>
         </IonToolbar>
 
         {/* Mobile category pills */}
@@ -304,17 +539,52 @@ const POSPage: React.FC = () => {
             subtotal={subtotal}
             tax={totals.tax}
             taxRate={totals.taxRate}
+            taxLabel={totals.taxLabel}
+            taxInclusive={totals.taxInclusive}
+            taxLines={totals.taxLines}
             discount={totals.discount}
+            discounts={totals.appliedDiscounts}
+            lineDiscounts={totals.lineDiscounts}
+            orderTypeDetails={orderTypeDetails}
+            deliveryFee={totals.deliveryFee}
+            shortItemIds={shortItemIds}
             total={totals.total}
             currency={currency}
             customerName={customerName ?? undefined}
             onQuantityChange={updateQuantity}
             onRemoveItem={removeFromCart}
             onEditItem={handleEditCartItem}
+            loading={addTableRound.isPending}
             onCharge={() => {
               setIsCartOpen(false);
               handleCharge();
             }}
+            onSendRound={
+              isTableRound
+                ? () => {
+                    setIsCartOpen(false);
+                    handleSendRound();
+                  }
+                : undefined
+            }
+            onOrderType={table ? undefined : () => setOrderTypeModalOpen(true)}
+            onDiscounts={() => setDiscountModalOpen(true)}
+            onSplitBill={
+              isTableRound
+                ? undefined
+                : () => {
+                    setIsCartOpen(false);
+                    setSplitBillModalOpen(true);
+                  }
+            }
+            onPark={
+              table
+                ? undefined
+                : () => {
+                    setIsCartOpen(false);
+                    setParkCartModalOpen(true);
+                  }
+            }
           />
         </BottomSheet>
 
@@ -333,6 +603,61 @@ const POSPage: React.FC = () => {
           existingModifiers={editingCartItemId ? getItem(editingCartItemId)?.modifiers : undefined}
           onSave={handleCustomizationModalSave}
           currency={currency}
+          orderType={orderTypeDetails.order_type}
+        />
+
+        {/* Discount Modal */}
+        <DiscountModal
+          isOpen={discountModalOpen}
+          onClose={() => setDiscountModalOpen(false)}
+          cartDiscounts={discounts}
+          appliedDiscounts={totals.appliedDiscounts}
+          currency={currency}
+          onApply={applyDiscount}
+          onApplyCode={applyPromoCode}
+          onRemove={removeDiscount}
+        />
+
+        {/* Order Type Modal */}
+        <OrderTypeModal
+          isOpen={orderTypeModalOpen}
+          onClose={() => setOrderTypeModalOpen(false)}
+          details={orderTypeDetails}
+          onSave={setOrderType}
+        />
+
+        {/* Split Bill Modal */}
+        <SplitBillModal
+          isOpen={splitBillModalOpen}
+          onClose={() => setSplitBillModalOpen(false)}
+          items={items}
+          lineTotals={totals.lineTotals}
+          total={totals.total}
+          currency={currency}
+          onConfirm={handleSplitBillConfirm}
+        />
+
+        {/* Park Cart Modal */}
+        <ParkCartModal
+          isOpen={parkCartModalOpen}
+          onClose={() => setParkCartModalOpen(false)}
+          items={items}
+          discounts={discounts}
+          customerName={customerName}
+          notes={notes}
+          orderTypeDetails={orderTypeDetails}
+          subtotal={subtotal}
+          currency={currency}
+          onParked={clearCart}
+        />
+
+        {/* Parked Carts Modal */}
+        <ParkedCartsModal
+          isOpen={parkedCartsModalOpen}
+          onClose={() => setParkedCartsModalOpen(false)}
+          currency={currency}
+          canResume={isEmpty}
+          onResume={handleResumeCart}
         />
 
         {/* Checkout Modal */}
@@ -343,15 +668,50 @@ const POSPage: React.FC = () => {
           subtotal={subtotal}
           tax={totals.tax}
           taxRate={totals.taxRate}
+          taxLabel={totals.taxLabel}
+          taxInclusive={totals.taxInclusive}
+          taxLines={totals.taxLines}
           discount={totals.discount}
+          discounts={totals.appliedDiscounts}
           tip={totals.tip}
+          orderTypeDetails={orderTypeDetails}
+          deliveryFee={totals.deliveryFee}
           total={totals.total}
+          bills={bills}
+          tab={table?.tab ?? undefined}
           currency={currency}
-          onSuccess={() => {
+          onSuccess={(order) => {
             clearCart();
             setCheckoutModalOpen(false);
+            if (!order) return;
+            // Queued orders get a receipt once they sync; split bills get one each as they are paid
+            if (bills.length > 0) setBillOrderId(order.id);
+            else setReceiptOrderId(order.id);
           }}
         />
+
+        {/* Bill Payment Modal */}
+        <BillPaymentModal
+          isOpen={!!billOrderId}
+          onClose={() => setBillOrderId(null)}
+          orderId={billOrderId}
+          currency={currency}
+        />
+
+        {/* Offline Orders Modal */}
+        <OfflineQueueModal
+          isOpen={offlineQueueModalOpen}
+          onClose={() => setOfflineQueueModalOpen(false)}
+          currency={currency}
+          isOnline={isOnline}
+        />
+
+        {/* Receipt Modal */}
+        <ReceiptModal
+          isOpen={!!receiptOrderId}
+          onClose={() => setReceiptOrderId(null)}
+          orderId={receiptOrderId}
+        />
       </IonContent>
     </IonPage>
   );
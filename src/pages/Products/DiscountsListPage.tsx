@@ -0,0 +1,174 @@
+// Discounts List Page - Shop discounts and promo codes
+
+import {
+  IonBadge,
+  IonButton,
+  IonButtons,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonText,
+} from '@ionic/react';
+import { createOutline, trashOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import { BasePage, CenteredLayout } from '@/components/layouts';
+import { CardContainer } from '@/components/shared';
+import DeleteConfirmationAlert from '@/components/shared/DeleteConfirmationAlert';
+import { LoadingSpinner } from '@/components/ui';
+import { useDeleteDiscount, useDiscounts } from '@/hooks/useDiscount';
+import { useProductCategories, useProducts } from '@/hooks/useProduct';
+import { useShop } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { Discount } from '@/types';
+import { createCurrencyFormatter } from '@/utils/currency';
+import { getDiscountUnavailableReason } from '@/utils/discount';
+import { DiscountFormModal } from './components';
+
+export const DiscountsListPage: React.FC = () => {
+  const { currentShop, hasPermission } = useShop();
+  const { showSuccess, showError } = useToastNotification();
+
+  const { data: discounts, isLoading } = useDiscounts();
+  const { data: products } = useProducts();
+  const { data: categories } = useProductCategories();
+  const deleteDiscount = useDeleteDiscount();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedDiscount, setSelectedDiscount] = useState<Discount | null>(null);
+  const [discountToDelete, setDiscountToDelete] = useState<Discount | null>(null);
+
+  const canEdit = hasPermission('admin');
+
+  const formatCurrency = useMemo(
+    () => createCurrencyFormatter(currentShop?.currency_code || 'USD'),
+    [currentShop?.currency_code]
+  );
+
+  // e.g. "10% off Whole order" or "$1.00 off each Coffee"
+  const describeDiscount = (discount: Discount) => {
+    const amount =
+      discount.discount_type === 'percentage'
+        ? `${discount.value}%`
+        : formatCurrency(discount.value);
+    if (discount.scope === 'product') {
+      const product = products?.find((p) => p.id === discount.product_id);
+      return `${amount} off ${discount.discount_type === 'fixed' ? 'each ' : ''}${product?.name ?? 'product'}`;
+    }
+    if (discount.scope === 'category') {
+      const category = categories?.find((c) => c.id === discount.category_id);
+      return `${amount} off ${discount.discount_type === 'fixed' ? 'each item in ' : ''}${category?.name ?? 'category'}`;
+    }
+    return `${amount} off whole order`;
+  };
+
+  const handleAddDiscount = () => {
+    setSelectedDiscount(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEditDiscount = (discount: Discount) => {
+    setSelectedDiscount(discount);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedDiscount(null);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!discountToDelete) return;
+
+    try {
+      await deleteDiscount.mutateAsync(discountToDelete.id);
+      showSuccess('Discount deleted successfully');
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError('Failed to delete discount');
+    } finally {
+      setDiscountToDelete(null);
+    }
+  };
+
+  return (
+    <BasePage title="Discounts" showMenu>
+      <CenteredLayout>
+        <CardContainer onActionClick={canEdit ? handleAddDiscount : undefined} noPadding>
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : discounts && discounts.length > 0 ? (
+            <IonList className="ion-no-margin ion-no-padding" lines="full">
+              {discounts.map((discount) => {
+                const unavailableReason = getDiscountUnavailableReason(discount);
+                return (
+                  <IonItem key={discount.id}>
+                    <IonLabel>
+                      <h2>
+                        {discount.name}{' '}
+                        {discount.code && <IonBadge color="primary">{discount.code}</IonBadge>}{' '}
+                        {unavailableReason && <IonBadge color="medium">Unavailable</IonBadge>}
+                      </h2>
+                      <p>{describeDiscount(discount)}</p>
+                      <p>
+                        Used {discount.usage_count}
+                        {discount.usage_limit !== null ? ` of ${discount.usage_limit}` : ''} times
+                        {unavailableReason ? ` · ${unavailableReason}` : ''}
+                      </p>
+                    </IonLabel>
+                    {canEdit && (
+                      <IonButtons slot="end">
+                        <IonButton
+                          fill="clear"
+                          color="dark"
+                          onClick={() => handleEditDiscount(discount)}
+                          aria-label="Edit discount"
+                        >
+                          <IonIcon slot="icon-only" icon={createOutline} />
+                        </IonButton>
+                        <IonButton
+                          fill="clear"
+                          color="danger"
+                          onClick={() => setDiscountToDelete(discount)}
+                          aria-label="Delete discount"
+                        >
+                          <IonIcon slot="icon-only" icon={trashOutline} />
+                        </IonButton>
+                      </IonButtons>
+                    )}
+                  </IonItem>
+                );
+              })}
+            </IonList>
+          ) : (
+            <div style={{ textAlign: 'center', padding: '2rem' }}>
+              <IonText color="medium">
+                <p>No discounts found. Create your first discount or promo code.</p>
+              </IonText>
+            </div>
+          )}
+        </CardContainer>
+
+        <DiscountFormModal
+          isOpen={isModalOpen}
+          onClose={handleCloseModal}
+          discount={selectedDiscount}
+        />
+
+        {discountToDelete && (
+          <DeleteConfirmationAlert
+            isOpen={!!discountToDelete}
+            onDismiss={() => setDiscountToDelete(null)}
+            onConfirm={handleDeleteConfirm}
+            itemName={discountToDelete.name}
+            itemType="Discount"
+          />
+        )}
+      </CenteredLayout>
+    </BasePage>
+  );
+};
+
+export default DiscountsListPage;
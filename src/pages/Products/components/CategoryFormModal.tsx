@@ -17,15 +17,16 @@ import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import DeleteConfirmationAlert from '@/components/shared/DeleteConfirmationAlert';
-import { TextAreaField, TextField } from '@/components/shared/FormFields';
+import { SelectField, TextAreaField, TextField } from '@/components/shared/FormFields';
 import { SaveButton } from '@/components/shared/SaveButton';
+import { useKitchenStations } from '@/hooks/useKitchen';
 import {
 	useCreateProductCategory,
 	useDeleteProductCategory,
 	useProductCategories,
 	useUpdateProductCategory,
 } from '@/hooks/useProduct';
-import { useShop } from '@/hooks/useShop';
+import { useShop, useTaxRates } from '@/hooks/useShop';
 import { useToastNotification } from '@/hooks/useToastNotification';
 import { logger } from '@/services/sentry';
 import type { ProductCategory } from '@/types';
@@ -34,6 +35,8 @@ import type { ProductCategory } from '@/types';
 const categorySchema = z.object({
 	name: z.string().min(1, 'Category name is required').max(50, 'Name too long').trim(),
 	description: z.string().max(200, 'Description too long').optional().nullable(),
+	tax_rate_id: z.string().optional().nullable(),
+	station_id: z.string().optional().nullable(),
 });
 
 type CategoryFormData = z.infer<typeof categorySchema>;
@@ -48,6 +51,8 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, onClose,
 	const { showSuccess, showError } = useToastNotification();
 	const { hasPermission } = useShop();
 	const { data: categories } = useProductCategories();
+	const { data: taxRates } = useTaxRates();
+	const { data: stations } = useKitchenStations();
 	const createCategory = useCreateProductCategory();
 	const updateCategory = useUpdateProductCategory();
 	const deleteCategory = useDeleteProductCategory();
@@ -68,6 +73,8 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, onClose,
 		defaultValues: {
 			name: '',
 			description: '',
+			tax_rate_id: '',
+			station_id: '',
 		},
 	});
 
@@ -77,11 +84,15 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, onClose,
 			reset({
 				name: category.name,
 				description: category.description || '',
+				tax_rate_id: category.tax_rate_id || '',
+				station_id: category.station_id || '',
 			});
 		} else {
 			reset({
 				name: '',
 				description: '',
+				tax_rate_id: '',
+				station_id: '',
 			});
 		}
 	}, [category, reset]);
@@ -95,6 +106,8 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, onClose,
 				await createCategory.mutateAsync({
 					name: data.name,
 					description: data.description || null,
+					tax_rate_id: data.tax_rate_id || null,
+					station_id: data.station_id || null,
 					sequence: nextSequence,
 				});
 				showSuccess('Category created successfully');
@@ -105,6 +118,8 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, onClose,
 					updates: {
 						name: data.name,
 						description: data.description || null,
+						tax_rate_id: data.tax_rate_id || null,
+						station_id: data.station_id || null,
 					},
 				});
 				showSuccess('Category updated successfully');
@@ -137,6 +152,8 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, onClose,
 		reset({
 			name: '',
 			description: '',
+			tax_rate_id: '',
+			station_id: '',
 		});
 	};
 
@@ -184,6 +201,36 @@ const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, onClose,
 							disabled={!canEdit}
 						/>
 
+						{/* Tax Rate */}
+						<SelectField
+							name="tax_rate_id"
+							control={control}
+							label="Tax Rate"
+							options={[
+								{ value: '', label: 'Shop Default' },
+								...(taxRates?.map((rate) => ({
+									value: rate.id,
+									label: `${rate.name} (${rate.rate}%)`,
+								})) || []),
+							]}
+							disabled={!canEdit}
+						/>
+
+						{/* Kitchen Station */}
+						<SelectField
+							name="station_id"
+							control={control}
+							label="Kitchen Station"
+							options={[
+								{ value: '', label: 'Not Routed' },
+								...(stations?.map((station) => ({
+									value: station.id,
+									label: station.name,
+								})) || []),
+							]}
+							disabled={!canEdit}
+						/>
+
 						{/* Submit Button */}
 						<SaveButton
 							expand="block"
@@ -0,0 +1,317 @@
+// Discount Form Modal Component - Add/Edit a shop discount
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonModal,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { close } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { z } from 'zod';
+import { NumberField, SelectField, TextField, ToggleField } from '@/components/shared/FormFields';
+import { SaveButton } from '@/components/shared/SaveButton';
+import { useCreateDiscount, useUpdateDiscount } from '@/hooks/useDiscount';
+import { useProductCategories, useProducts } from '@/hooks/useProduct';
+import { useShop } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { Discount, DiscountInsert } from '@/types';
+import { toDateInputValue } from '@/utils/date';
+
+// Validation schema
+const discountSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(100, 'Name too long').trim(),
+    code: z.string().max(30, 'Code too long').trim().optional(),
+    discount_type: z.enum(['percentage', 'fixed']),
+    value: z.number().positive('Value must be greater than zero'),
+    scope: z.enum(['order', 'product', 'category']),
+    product_id: z.string().optional(),
+    category_id: z.string().optional(),
+    starts_at: z.string().optional(),
+    ends_at: z.string().optional(),
+    usage_limit: z.number().int('Must be a whole number').positive().nullable().optional(),
+    is_active: z.boolean(),
+  })
+  .refine((data) => data.discount_type !== 'percentage' || data.value <= 100, {
+    message: 'Percentage cannot exceed 100%',
+    path: ['value'],
+  })
+  .refine((data) => data.scope !== 'product' || !!data.product_id, {
+    message: 'Select a product',
+    path: ['product_id'],
+  })
+  .refine((data) => data.scope !== 'category' || !!data.category_id, {
+    message: 'Select a category',
+    path: ['category_id'],
+  })
+  .refine((data) => !data.starts_at || !data.ends_at || data.starts_at <= data.ends_at, {
+    message: 'End date must be on or after start date',
+    path: ['ends_at'],
+  });
+
+type DiscountFormData = z.infer<typeof discountSchema>;
+
+const emptyValues: DiscountFormData = {
+  name: '',
+  code: '',
+  discount_type: 'percentage',
+  value: 0,
+  scope: 'order',
+  product_id: '',
+  category_id: '',
+  starts_at: '',
+  ends_at: '',
+  usage_limit: null,
+  is_active: true,
+};
+
+interface DiscountFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  discount: Discount | null;
+}
+
+const DiscountFormModal: React.FC<DiscountFormModalProps> = ({ isOpen, onClose, discount }) => {
+  const { showSuccess, showError } = useToastNotification();
+  const { hasPermission } = useShop();
+  const { data: products } = useProducts();
+  const { data: categories } = useProductCategories();
+  const createDiscount = useCreateDiscount();
+  const updateDiscount = useUpdateDiscount();
+
+  const canEdit = hasPermission('admin');
+  const isNew = !discount;
+  const isSaving = createDiscount.isPending || updateDiscount.isPending;
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<DiscountFormData>({
+    resolver: zodResolver(discountSchema),
+    defaultValues: emptyValues,
+  });
+
+  const scope = useWatch({ control, name: 'scope' });
+  const discountType = useWatch({ control, name: 'discount_type' });
+
+  // Populate form when discount changes
+  useEffect(() => {
+    if (discount) {
+      reset({
+        name: discount.name,
+        code: discount.code || '',
+        discount_type: discount.discount_type,
+        value: discount.value,
+        scope: discount.scope,
+        product_id: discount.product_id || '',
+        category_id: discount.category_id || '',
+        starts_at: toDateInputValue(discount.starts_at),
+        ends_at: toDateInputValue(discount.ends_at),
+        usage_limit: discount.usage_limit,
+        is_active: discount.is_active,
+      });
+    } else {
+      reset(emptyValues);
+    }
+  }, [discount, reset]);
+
+  const onSubmit = async (data: DiscountFormData) => {
+    const payload: Omit<DiscountInsert, 'shop_id'> = {
+      name: data.name,
+      code: data.code ? data.code.toUpperCase() : null,
+      discount_type: data.discount_type,
+      value: data.value,
+      scope: data.scope,
+      product_id: data.scope === 'product' ? data.product_id || null : null,
+      category_id: data.scope === 'category' ? data.category_id || null : null,
+      // Dates are whole local days: valid from the start of the first to the end of the last
+      starts_at: data.starts_at ? new Date(`${data.starts_at}T00:00:00`).toISOString() : null,
+      ends_at: data.ends_at ? new Date(`${data.ends_at}T23:59:59.999`).toISOString() : null,
+      usage_limit: data.usage_limit || null,
+      is_active: data.is_active,
+    };
+
+    try {
+      if (isNew) {
+        await createDiscount.mutateAsync(payload);
+        showSuccess('Discount created successfully');
+      } else {
+        await updateDiscount.mutateAsync({ discountId: discount.id, updates: payload });
+        showSuccess('Discount updated successfully');
+      }
+
+      onClose();
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError(isNew ? 'Failed to create discount' : 'Failed to update discount');
+    }
+  };
+
+  return (
+    <IonModal isOpen={isOpen} onDidDismiss={onClose} initialBreakpoint={1} breakpoints={[0, 1]}>
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start" />
+          <IonTitle>{isNew ? 'Add Discount' : 'Edit Discount'}</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={onClose}>
+              <IonIcon icon={close} />
+            </IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent className="ion-padding" scrollY={true}>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          {/* Name */}
+          <TextField
+            name="name"
+            control={control}
+            label="Name"
+            placeholder="e.g., Happy Hour, Staff Discount"
+            required
+            error={errors.name}
+            disabled={!canEdit}
+          />
+
+          {/* Promo Code */}
+          <TextField
+            name="code"
+            control={control}
+            label="Promo Code"
+            placeholder="Leave blank to pick from the list at checkout"
+            error={errors.code}
+            disabled={!canEdit}
+          />
+
+          {/* Type and Value */}
+          <SelectField
+            name="discount_type"
+            control={control}
+            label="Type"
+            required
+            options={[
+              { value: 'percentage', label: 'Percentage' },
+              { value: 'fixed', label: 'Fixed Amount' },
+            ]}
+            disabled={!canEdit}
+          />
+          <NumberField
+            name="value"
+            control={control}
+            label={
+              discountType === 'percentage'
+                ? 'Percent Off'
+                : scope === 'order'
+                  ? 'Amount Off'
+                  : 'Amount Off (per unit)'
+            }
+            required
+            error={errors.value}
+            disabled={!canEdit}
+            min={0}
+            step="any"
+          />
+
+          {/* Scope */}
+          <SelectField
+            name="scope"
+            control={control}
+            label="Applies To"
+            required
+            options={[
+              { value: 'order', label: 'Whole Order' },
+              { value: 'product', label: 'A Product' },
+              { value: 'category', label: 'A Category' },
+            ]}
+            disabled={!canEdit}
+          />
+          {scope === 'product' && (
+            <SelectField
+              name="product_id"
+              control={control}
+              label="Product"
+              placeholder="Select product"
+              required
+              error={errors.product_id}
+              options={(products || []).map((product) => ({
+                value: product.id,
+                label: product.name,
+              }))}
+              disabled={!canEdit}
+            />
+          )}
+          {scope === 'category' && (
+            <SelectField
+              name="category_id"
+              control={control}
+              label="Category"
+              placeholder="Select category"
+              required
+              error={errors.category_id}
+              options={(categories || []).map((category) => ({
+                value: category.id,
+                label: category.name,
+              }))}
+              disabled={!canEdit}
+            />
+          )}
+
+          {/* Validity */}
+          <TextField
+            name="starts_at"
+            control={control}
+            label="Valid From"
+            type="date"
+            error={errors.starts_at}
+            disabled={!canEdit}
+          />
+          <TextField
+            name="ends_at"
+            control={control}
+            label="Valid Until"
+            type="date"
+            error={errors.ends_at}
+            disabled={!canEdit}
+          />
+
+          {/* Usage Limit */}
+          <NumberField
+            name="usage_limit"
+            control={control}
+            label="Usage Limit (orders)"
+            placeholder="Unlimited"
+            error={errors.usage_limit}
+            disabled={!canEdit}
+            min={1}
+          />
+
+          <ToggleField name="is_active" control={control} label="Active" disabled={!canEdit} />
+
+          {/* Submit Button */}
+          <SaveButton
+            expand="block"
+            type="submit"
+            disabled={!canEdit || (!isDirty && !isNew) || isSaving}
+            isSaving={isSaving}
+            label={isNew ? 'Create Discount' : 'Save Changes'}
+            savingLabel={isNew ? 'Creating...' : 'Saving...'}
+          />
+        </form>
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default DiscountFormModal;
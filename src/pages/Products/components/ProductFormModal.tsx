@@ -27,7 +27,7 @@ import {
 	useProductCategories,
 	useUpdateProduct,
 } from '@/hooks/useProduct';
-import { useShop } from '@/hooks/useShop';
+import { useShop, useTaxRates } from '@/hooks/useShop';
 import { useToastNotification } from '@/hooks/useToastNotification';
 import { logger } from '@/services/sentry';
 import { uploadProductImage } from '@/services/storage';
@@ -38,7 +38,11 @@ const productSchema = z.object({
 	name: z.string().min(1, 'Product name is required').max(100, 'Name too long'),
 	description: z.string().max(500, 'Description too long').optional().nullable(),
 	price: z.number().min(0, 'Price must be positive'),
+	dine_in_price_adjustment: z.number().min(0, 'Must be positive'),
+	takeaway_price_adjustment: z.number().min(0, 'Must be positive'),
+	delivery_price_adjustment: z.number().min(0, 'Must be positive'),
 	category_id: z.string().optional().nullable(),
+	tax_rate_id: z.string().optional().nullable(),
 	remarks: z.string().max(1000, 'Remarks too long').optional().nullable(),
 	tags: z.array(z.string()).optional().nullable(),
 	image_url: z.string().url('Invalid URL').optional().nullable().or(z.literal('')),
@@ -59,6 +63,7 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, pr
 
 	const { data: product, isLoading: productLoading } = useProduct(isNew ? undefined : productId!);
 	const { data: categories } = useProductCategories();
+	const { data: taxRates } = useTaxRates();
 	const createProduct = useCreateProduct();
 	const updateProduct = useUpdateProduct();
 
@@ -76,7 +81,11 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, pr
 			name: '',
 			description: '',
 			price: 0,
+			dine_in_price_adjustment: 0,
+			takeaway_price_adjustment: 0,
+			delivery_price_adjustment: 0,
 			category_id: null,
+			tax_rate_id: null,
 			remarks: '',
 			tags: [],
 			image_url: '',
@@ -91,7 +100,11 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, pr
 					name: product.name,
 					description: product.description || '',
 					price: product.price,
+					dine_in_price_adjustment: product.dine_in_price_adjustment ?? 0,
+					takeaway_price_adjustment: product.takeaway_price_adjustment ?? 0,
+					delivery_price_adjustment: product.delivery_price_adjustment ?? 0,
 					category_id: product.category_id,
+					tax_rate_id: product.tax_rate_id,
 					remarks: product.remarks || '',
 					tags: product.tags || [],
 					image_url: product.image_url || '',
@@ -101,7 +114,11 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, pr
 					name: '',
 					description: '',
 					price: 0,
+					dine_in_price_adjustment: 0,
+					takeaway_price_adjustment: 0,
+					delivery_price_adjustment: 0,
 					category_id: null,
+			tax_rate_id: null,
 					remarks: '',
 					tags: [],
 					image_url: '',
@@ -117,6 +134,7 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, pr
 				...data,
 				description: data.description || null,
 				category_id: data.category_id || null,
+				tax_rate_id: data.tax_rate_id || null,
 				remarks: data.remarks || null,
 				tags: data.tags && data.tags.length > 0 ? data.tags : null,
 				image_url: data.image_url || null,
@@ -146,7 +164,11 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, pr
 			name: '',
 			description: '',
 			price: 0,
+			dine_in_price_adjustment: 0,
+			takeaway_price_adjustment: 0,
+			delivery_price_adjustment: 0,
 			category_id: null,
+			tax_rate_id: null,
 			remarks: '',
 			tags: [],
 			image_url: '',
@@ -212,6 +234,34 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, pr
 							currency={currentShop?.currency_code || 'USD'}
 						/>
 
+						{/* Order Type Price Adjustments */}
+						<FieldLabel>Extra Charge by Order Type</FieldLabel>
+						<PriceField
+							name="dine_in_price_adjustment"
+							control={control}
+							label="Dine-in"
+							error={errors.dine_in_price_adjustment}
+							disabled={isSaving || !canEdit}
+							currency={currentShop?.currency_code || 'USD'}
+						/>
+						<PriceField
+							name="takeaway_price_adjustment"
+							control={control}
+							label="Takeaway"
+							placeholder="e.g., packaging charge"
+							error={errors.takeaway_price_adjustment}
+							disabled={isSaving || !canEdit}
+							currency={currentShop?.currency_code || 'USD'}
+						/>
+						<PriceField
+							name="delivery_price_adjustment"
+							control={control}
+							label="Delivery"
+							error={errors.delivery_price_adjustment}
+							disabled={isSaving || !canEdit}
+							currency={currentShop?.currency_code || 'USD'}
+						/>
+
 						{/* Category */}
 						<SelectField
 							name="category_id"
@@ -228,6 +278,22 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, pr
 							disabled={isSaving || !canEdit}
 						/>
 
+						{/* Tax Rate */}
+						<SelectField
+							name="tax_rate_id"
+							control={control}
+							label="Tax Rate"
+							placeholder="Select tax rate"
+							options={[
+								{ value: '', label: 'Same as Category' },
+								...(taxRates?.map((rate) => ({
+									value: rate.id,
+									label: `${rate.name} (${rate.rate}%)`,
+								})) || []),
+							]}
+							disabled={isSaving || !canEdit}
+						/>
+
 						{/* Image */}
 						<div style={{ marginBottom: '16px' }}>
 							<FieldLabel>Product Image</FieldLabel>
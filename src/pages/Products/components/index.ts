@@ -1,6 +1,7 @@
 // Products components exports
 
 export { default as CategoryFormModal } from './CategoryFormModal';
+export { default as DiscountFormModal } from './DiscountFormModal';
 export { GlobalModifierFormModal } from './globalModifiers/GlobalModifierFormModal';
 export { GlobalModifierGroupFormModal } from './globalModifiers/GlobalModifierGroupFormModal';
 export { default as ProductActionButtons } from './ProductActionButtons';
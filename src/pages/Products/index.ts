@@ -1,6 +1,7 @@
 // Products Pages - Export
 
 export { CategoriesListPage } from './CategoriesListPage';
+export { DiscountsListPage } from './DiscountsListPage';
 export { default as ModifierGroupManagePage } from './GlobalModifierGroupManagePage';
 export { default as ModifiersListPage } from './GlobalModifiersListPage';
 export { default as ProductManagePage } from './ProductManagePage';
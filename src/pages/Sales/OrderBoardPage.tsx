@@ -0,0 +1,276 @@
+// Order Board Page - Orders not yet handed over, moved forward by staff as they are made
+
+import { IonBadge, IonButton, IonIcon, type RefresherEventDetail } from '@ionic/react';
+import { arrowForwardOutline, closeOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useHistory } from 'react-router-dom';
+import styled from 'styled-components';
+import { BasePage, CenteredLayout } from '@/components/layouts';
+import { LoadingSpinner } from '@/components/ui';
+import { useActiveOrders, useReverseOrder, useUpdateOrderStatus } from '@/hooks/useOrder';
+import { useShop } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { designSystem } from '@/theme/designSystem';
+import type { OrderStatus, OrderWithItems, ReverseOrderData } from '@/types';
+import { formatRelativeTime } from '@/utils/date';
+import {
+  ACTIVE_ORDER_STATUSES,
+  getNextOrderStatus,
+  ORDER_STATUS_COLORS,
+  ORDER_STATUS_LABELS,
+} from '@/utils/order';
+import ReverseOrderModal from './components/ReverseOrderModal';
+
+// Label for the button that moves an order on from each status
+const advanceLabels: Partial<Record<OrderStatus, string>> = {
+  open: 'Start',
+  in_preparation: 'Mark Ready',
+  ready: 'Complete',
+};
+
+// Styled Components
+const Board = styled.div`
+  display: grid;
+  grid-template-columns: repeat(3, minmax(0, 1fr));
+  gap: ${designSystem.spacing.md};
+  width: 100%;
+  padding: ${designSystem.spacing.md};
+
+  @media (max-width: 768px) {
+    grid-template-columns: 1fr;
+  }
+`;
+
+const Column = styled.section`
+  display: flex;
+  flex-direction: column;
+  gap: ${designSystem.spacing.sm};
+  min-width: 0;
+`;
+
+const ColumnHeader = styled.h2`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin: 0 0 ${designSystem.spacing.xs};
+  font-size: ${designSystem.typography.fontSize.lg};
+  font-weight: ${designSystem.typography.fontWeight.semibold};
+`;
+
+const OrderCard = styled.article`
+  display: flex;
+  flex-direction: column;
+  gap: ${designSystem.spacing.xs};
+  padding: ${designSystem.spacing.md};
+  background: ${designSystem.colors.surface.elevated};
+  border: 1px solid ${designSystem.colors.gray[200]};
+  border-radius: ${designSystem.borderRadius.lg};
+`;
+
+const OrderHeader = styled.div`
+  display: flex;
+  align-items: baseline;
+  justify-content: space-between;
+  gap: ${designSystem.spacing.sm};
+  cursor: pointer;
+`;
+
+const OrderNumber = styled.strong`
+  font-size: ${designSystem.typography.fontSize.xl};
+`;
+
+const OrderMeta = styled.span`
+  color: ${designSystem.colors.gray[500]};
+  font-size: ${designSystem.typography.fontSize.sm};
+`;
+
+const ItemList = styled.ul`
+  margin: 0;
+  padding: 0;
+  list-style: none;
+  font-size: ${designSystem.typography.fontSize.sm};
+`;
+
+const ItemDetail = styled.div`
+  padding-left: ${designSystem.spacing.md};
+  color: ${designSystem.colors.gray[500]};
+`;
+
+const CardActions = styled.div`
+  display: flex;
+  justify-content: space-between;
+  margin-top: ${designSystem.spacing.xs};
+`;
+
+const EmptyColumn = styled.p`
+  margin: 0;
+  padding: ${designSystem.spacing.lg} 0;
+  text-align: center;
+  color: ${designSystem.colors.gray[400]};
+`;
+
+const OrderBoardPage: React.FC = () => {
+  const history = useHistory();
+  const { currentShop, isLoading: shopLoading, hasPermission } = useShop();
+  const { data: orders = [], isLoading, refetch } = useActiveOrders();
+  const updateOrderStatus = useUpdateOrderStatus();
+  const reverseOrder = useReverseOrder();
+  const { showSuccess, showError } = useToastNotification();
+  const [, setNow] = useState(Date.now());
+  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
+
+  // Cancelling voids the order, which only admins may do
+  const canCancel = hasPermission('admin');
+
+  // Keep the waiting times current between refreshes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const ordersByStatus = useMemo(
+    () =>
+      ACTIVE_ORDER_STATUSES.reduce(
+        (columns, status) => {
+          columns[status] = orders.filter((order) => order.status === status);
+          return columns;
+        },
+        {} as Record<OrderStatus, OrderWithItems[]>
+      ),
+    [orders]
+  );
+
+  const handleRefresh = async (event: CustomEvent<RefresherEventDetail>) => {
+    await refetch();
+    event.detail.complete();
+  };
+
+  const changeStatus = async (order: OrderWithItems, status: OrderStatus) => {
+    try {
+      await updateOrderStatus.mutateAsync({ orderId: order.id, status });
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to update order');
+    }
+  };
+
+  // Cancelling voids the order, so it leaves the sales figures and its stock is returned
+  const handleCancel = async (data: ReverseOrderData) => {
+    if (!cancellingOrderId) return;
+
+    try {
+      await reverseOrder.mutateAsync({ orderId: cancellingOrderId, reversalData: data });
+      showSuccess('Order cancelled');
+      setCancellingOrderId(null);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to cancel order');
+    }
+  };
+
+  const renderOrderCard = (order: OrderWithItems) => {
+    const nextStatus = getNextOrderStatus(order.status);
+
+    return (
+      <OrderCard key={order.id}>
+        <OrderHeader onClick={() => history.push(`/shops/${currentShop?.id}/orders/${order.id}`)}>
+          <OrderNumber>
+            {order.order_number ? `#${order.order_number}` : order.customer_name || 'Order'}
+          </OrderNumber>
+          <OrderMeta>{formatRelativeTime(order.status_changed_at ?? order.order_date)}</OrderMeta>
+        </OrderHeader>
+        {order.order_number && order.customer_name && <OrderMeta>{order.customer_name}</OrderMeta>}
+
+        <ItemList>
+          {order.order_items.map((item) => (
+            <li key={item.id}>
+              {item.quantity}x {item.product_name}
+              {[
+                ...item.order_item_modifiers.map((modifier) => modifier.modifier_name),
+                ...item.order_item_addons.map((addon) => `${addon.quantity}x ${addon.name}`),
+              ].map((detail) => (
+                <ItemDetail key={detail}>+ {detail}</ItemDetail>
+              ))}
+            </li>
+          ))}
+        </ItemList>
+
+        <CardActions>
+          {canCancel ? (
+            <IonButton
+              fill="clear"
+              color="danger"
+              size="small"
+              disabled={updateOrderStatus.isPending}
+              onClick={() => setCancellingOrderId(order.id)}
+            >
+              <IonIcon slot="start" icon={closeOutline} />
+              Cancel
+            </IonButton>
+          ) : (
+            <span />
+          )}
+          {nextStatus && (
+            <IonButton
+              size="small"
+              disabled={updateOrderStatus.isPending}
+              onClick={() => changeStatus(order, nextStatus)}
+            >
+              {advanceLabels[order.status]}
+              <IonIcon slot="end" icon={arrowForwardOutline} />
+            </IonButton>
+          )}
+        </CardActions>
+      </OrderCard>
+    );
+  };
+
+  // No shop selected state
+  if (!currentShop && !shopLoading) {
+    return (
+      <BasePage title="In Progress" showMenu>
+        <CenteredLayout>
+          <div className="empty-state ion-text-center" style={{ padding: '48px 16px' }}>
+            <h2>No Shop Selected</h2>
+            <p>Please select a shop to view orders</p>
+          </div>
+        </CenteredLayout>
+      </BasePage>
+    );
+  }
+
+  return (
+    <BasePage title="In Progress" showMenu onRefresh={handleRefresh}>
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : (
+        <Board>
+          {ACTIVE_ORDER_STATUSES.map((status) => (
+            <Column key={status} aria-label={ORDER_STATUS_LABELS[status]}>
+              <ColumnHeader>
+                {ORDER_STATUS_LABELS[status]}
+                <IonBadge color={ORDER_STATUS_COLORS[status]}>
+                  {ordersByStatus[status].length}
+                </IonBadge>
+              </ColumnHeader>
+              {ordersByStatus[status].length > 0 ? (
+                ordersByStatus[status].map(renderOrderCard)
+              ) : (
+                <EmptyColumn>No orders</EmptyColumn>
+              )}
+            </Column>
+          ))}
+        </Board>
+      )}
+
+      <ReverseOrderModal
+        isOpen={!!cancellingOrderId}
+        onClose={() => setCancellingOrderId(null)}
+        reversalType="voided"
+        onSubmit={handleCancel}
+        isLoading={reverseOrder.isPending}
+      />
+    </BasePage>
+  );
+};
+
+export default OrderBoardPage;
@@ -0,0 +1,618 @@
+// Order Detail Page - Full breakdown of an order's line items and inventory consumption
+
+import {
+  IonBadge,
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonRefresher,
+  IonRefresherContent,
+  IonText,
+  type RefresherEventDetail,
+} from '@ionic/react';
+import { printOutline, walletOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import { useHistory, useParams } from 'react-router-dom';
+import { BasePage, CenteredLayout } from '@/components/layouts';
+import { BillPaymentModal } from '@/components/pos';
+import { ReceiptModal } from '@/components/receipt';
+import { Div } from '@/components/shared/base/Div';
+import { CardContainer } from '@/components/shared/CardContainer';
+import { StatusBadge } from '@/components/ui';
+import { useCreateRefund, useOrder, useReverseOrder } from '@/hooks/useOrder';
+import { useShop, useShopUsers } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import type { CreateOrderRefundData, OrderReversalType, ReverseOrderData } from '@/types';
+import { createCurrencyFormatter } from '@/utils/currency';
+import { formatDateLabel } from '@/utils/date';
+import {
+  formatOrderType,
+  getOrderItemTotal,
+  getRefundedQuantities,
+  getUnpaidBills,
+  ORDER_STATUS_COLORS,
+  ORDER_STATUS_LABELS,
+} from '@/utils/order';
+import RefundItemsModal from './components/RefundItemsModal';
+import ReverseOrderModal from './components/ReverseOrderModal';
+
+interface RouteParams {
+  shopId: string;
+  orderId: string;
+}
+
+const transactionTypeLabels: Record<string, string> = {
+  sale: 'Sale',
+  return: 'Returned to stock',
+  waste: 'Written off as waste',
+};
+
+const OrderDetailPage: React.FC = () => {
+  const { shopId, orderId } = useParams<RouteParams>();
+  const history = useHistory();
+  const { currentShop, hasPermission } = useShop();
+  const { data: shopUsers = [] } = useShopUsers(shopId);
+  const { data: order, isLoading, refetch } = useOrder(orderId);
+  const reverseOrder = useReverseOrder();
+  const createRefund = useCreateRefund();
+  const { showSuccess, showError } = useToastNotification();
+  const [reversalType, setReversalType] = useState<OrderReversalType | null>(null);
+  const [showRefundModal, setShowRefundModal] = useState(false);
+  const [showReceiptModal, setShowReceiptModal] = useState(false);
+  const [showBillPaymentModal, setShowBillPaymentModal] = useState(false);
+
+  const canReverse = hasPermission('admin');
+
+  // Memoized currency formatter
+  const formatCurrency = useMemo(
+    () => createCurrencyFormatter(currentShop?.currency_code || 'USD'),
+    [currentShop?.currency_code]
+  );
+
+  const handleRefresh = async (event: CustomEvent<RefresherEventDetail>) => {
+    await refetch();
+    event.detail.complete();
+  };
+
+  const handleReverse = async (data: ReverseOrderData) => {
+    try {
+      await reverseOrder.mutateAsync({ orderId, reversalData: data });
+      showSuccess(data.reversal_type === 'voided' ? 'Order voided' : 'Order refunded');
+      setReversalType(null);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to update order');
+    }
+  };
+
+  const handleRefund = async (data: CreateOrderRefundData) => {
+    try {
+      await createRefund.mutateAsync(data);
+      showSuccess('Refund recorded');
+      setShowRefundModal(false);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to record refund');
+    }
+  };
+
+  const getUserName = (userId: string | null) =>
+    userId
+      ? (shopUsers.find((shopUser) => shopUser.user_id === userId)?.display_name ?? null)
+      : null;
+
+  const servedBy = getUserName(order?.served_by_id ?? null);
+  const refundedQuantities = order ? getRefundedQuantities(order) : {};
+  const hasRefunds = !!order && order.refunded_total > 0;
+  // Bills of a split order left unpaid when checkout was closed part-way
+  const hasUnpaidBills = !!order && !order.reversal_type && getUnpaidBills(order).length > 0;
+
+  // Net cost of stock consumed, after any returns
+  const inventoryCost = (order?.inventory_transactions ?? []).reduce(
+    (sum, transaction) =>
+      sum + (transaction.quantity_out - transaction.quantity_in) * transaction.unit_cost,
+    0
+  );
+
+  // One row per discount, summed across the lines it applied to
+  const orderDiscountRows = Object.values(
+    (order?.order_discounts ?? []).reduce<
+      Record<string, { key: string; label: string; amount: number }>
+    >((rows, discount) => {
+      const key = discount.discount_id ?? discount.name;
+      rows[key] = {
+        key,
+        label: discount.code ? `${discount.name} (${discount.code})` : discount.name,
+        amount: (rows[key]?.amount ?? 0) + discount.amount,
+      };
+      return rows;
+    }, {})
+  );
+
+  return (
+    <BasePage
+      title={order?.order_number ? `Order #${order.order_number}` : 'Order Details'}
+      backHref={`/shops/${shopId}/sales`}
+      showMenu={false}
+      isLoading={isLoading}
+      notFound={!isLoading && !order}
+      notFoundMessage="Order not found"
+    >
+      <IonRefresher slot="fixed" onIonRefresh={handleRefresh}>
+        <IonRefresherContent />
+      </IonRefresher>
+
+      {order && (
+        <CenteredLayout>
+          <Div style={{ maxWidth: '800px', width: '100%' }}>
+            {/* Summary */}
+            <CardContainer
+              title={
+                hasRefunds
+                  ? `${formatCurrency(order.total_sale - order.refunded_total)} net`
+                  : formatCurrency(order.total_sale)
+              }
+              subtitle={`${formatDateLabel(order.order_date)} · ${new Date(
+                order.order_date
+              ).toLocaleTimeString('en-US', {
+                hour: 'numeric',
+                minute: '2-digit',
+                hour12: true,
+              })}`}
+              noPadding
+            >
+              <IonList lines="full">
+                <IonItem>
+                  <IonLabel>
+                    <h3>Customer</h3>
+                    <p>{order.customer_name || 'Walk-in customer'}</p>
+                    {(order.customer_email || order.customer_phone) && (
+                      <p>
+                        {[order.customer_email, order.customer_phone].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </IonLabel>
+                </IonItem>
+                <IonItem>
+                  <IonLabel className="ion-text-wrap">
+                    <h3>Order Type</h3>
+                    <p>{formatOrderType(order)}</p>
+                    {order.order_type === 'delivery' && order.delivery_address && (
+                      <p>{order.delivery_address}</p>
+                    )}
+                  </IonLabel>
+                </IonItem>
+                <IonItem>
+                  <IonLabel className="ion-text-wrap">
+                    <h3>Status</h3>
+                    {order.order_status_changes.map((change) => (
+                      <p key={change.id}>
+                        {ORDER_STATUS_LABELS[change.to_status]} ·{' '}
+                        {new Date(change.changed_at).toLocaleTimeString('en-US', {
+                          hour: 'numeric',
+                          minute: '2-digit',
+                          hour12: true,
+                        })}
+                        {getUserName(change.changed_by) && ` · ${getUserName(change.changed_by)}`}
+                      </p>
+                    ))}
+                  </IonLabel>
+                  <IonBadge slot="end" color={ORDER_STATUS_COLORS[order.status]}>
+                    {ORDER_STATUS_LABELS[order.status]}
+                  </IonBadge>
+                </IonItem>
+                <IonItem>
+                  <IonLabel>
+                    <h3>Payment</h3>
+                    <p>
+                      {order.order_bills.length > 0
+                        ? `Split into ${order.order_bills.length} bills`
+                        : order.order_payments.length > 1
+                          ? 'Split payment'
+                          : order.payment_type
+                            ? `${order.payment_type.code} - ${order.payment_type.description}`
+                            : 'Cash'}
+                    </p>
+                  </IonLabel>
+                  <StatusBadge status={order.payment_received ? 'paid' : 'unpaid'} />
+                </IonItem>
+                {order.order_bills.length === 0 &&
+                  order.order_payments.length > 1 &&
+                  order.order_payments.map((payment) => (
+                    <IonItem key={payment.id}>
+                      <IonLabel>
+                        <p>
+                          {payment.payment_type?.code ?? 'Cash'}
+                          {payment.reference && ` · Ref ${payment.reference}`}
+                        </p>
+                      </IonLabel>
+                      <IonNote slot="end">
+                        {formatCurrency(payment.amount)}
+                        {payment.change > 0 && ` (change ${formatCurrency(payment.change)})`}
+                      </IonNote>
+                    </IonItem>
+                  ))}
+                {order.payment_amount_received !== null && (
+                  <IonItem>
+                    <IonLabel>
+                      <h3>Amount Received</h3>
+                      <p>{formatCurrency(order.payment_amount_received)}</p>
+                    </IonLabel>
+                    {!!order.payment_change && (
+                      <IonNote slot="end">Change {formatCurrency(order.payment_change)}</IonNote>
+                    )}
+                  </IonItem>
+                )}
+                {hasRefunds && (
+                  <IonItem>
+                    <IonLabel>
+                      <h3>Gross / Refunded</h3>
+                      <p>
+                        {formatCurrency(order.total_sale)} / {formatCurrency(order.refunded_total)}
+                      </p>
+                    </IonLabel>
+                  </IonItem>
+                )}
+                {servedBy && (
+                  <IonItem lines="none">
+                    <IonLabel>
+                      <h3>Served By</h3>
+                      <p>{servedBy}</p>
+                    </IonLabel>
+                  </IonItem>
+                )}
+              </IonList>
+            </CardContainer>
+
+            {/* Receipt */}
+            <Div className="ion-padding-horizontal">
+              {hasUnpaidBills && (
+                <IonButton expand="block" onClick={() => setShowBillPaymentModal(true)}>
+                  <IonIcon slot="start" icon={walletOutline} />
+                  Pay Bills
+                </IonButton>
+              )}
+              <IonButton expand="block" fill="outline" onClick={() => setShowReceiptModal(true)}>
+                <IonIcon slot="start" icon={printOutline} />
+                Reprint Receipt
+              </IonButton>
+            </Div>
+
+            {/* Void / Refund */}
+            {order.reversal_type ? (
+              <CardContainer
+                title={order.reversal_type === 'voided' ? 'Voided' : 'Refunded'}
+                subtitle={
+                  order.reversed_at
+                    ? new Date(order.reversed_at).toLocaleString('en-US', {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                      })
+                    : undefined
+                }
+              >
+                <IonText color="danger">
+                  <p style={{ margin: 0 }}>{order.reversal_reason}</p>
+                </IonText>
+                {getUserName(order.reversed_by_id) && (
+                  <IonNote>By {getUserName(order.reversed_by_id)}</IonNote>
+                )}
+              </CardContainer>
+            ) : (
+              canReverse && (
+                <Div className="ion-padding-horizontal" style={{ display: 'flex', gap: '8px' }}>
+                  {!hasRefunds && (
+                    <IonButton
+                      expand="block"
+                      fill="outline"
+                      color="medium"
+                      style={{ flex: 1 }}
+                      onClick={() => setReversalType('voided')}
+                    >
+                      Void
+                    </IonButton>
+                  )}
+                  <IonButton
+                    expand="block"
+                    fill="outline"
+                    color="danger"
+                    style={{ flex: 1 }}
+                    onClick={() => setShowRefundModal(true)}
+                  >
+                    Refund Items
+                  </IonButton>
+                  <IonButton
+                    expand="block"
+                    fill="outline"
+                    color="danger"
+                    style={{ flex: 1 }}
+                    onClick={() => setReversalType('refunded')}
+                  >
+                    Refund All
+                  </IonButton>
+                </Div>
+              )
+            )}
+
+            {/* Line Items */}
+            <CardContainer
+              title="Items"
+              subtitle={`${order.order_items.length} ${order.order_items.length === 1 ? 'item' : 'items'}`}
+              noPadding
+            >
+              <IonList lines="full">
+                {order.order_items.map((item, index) => (
+                  <IonItem
+                    key={item.id}
+                    lines={index === order.order_items.length - 1 ? 'none' : 'full'}
+                  >
+                    <IonLabel className="ion-text-wrap">
+                      <h3>
+                        {item.quantity} × {item.product_name}
+                      </h3>
+                      <p>{formatCurrency(item.product_unit_price)} each</p>
+                      {!!refundedQuantities[item.id] && (
+                        <p>
+                          <IonText color="danger">{refundedQuantities[item.id]} refunded</IonText>
+                        </p>
+                      )}
+                      {item.order_item_modifiers.map((modifier) => (
+                        <p key={modifier.id}>
+                          {modifier.modifier_group_name}: {modifier.modifier_name}
+                          {!!modifier.price_adjustment &&
+                            ` (+${formatCurrency(modifier.price_adjustment)})`}
+                        </p>
+                      ))}
+                      {item.order_item_addons.map((addon) => (
+                        <p key={addon.id}>
+                          + {addon.quantity} × {addon.name}
+                          {!!addon.price && ` (${formatCurrency(addon.price * addon.quantity)})`}
+                        </p>
+                      ))}
+                    </IonLabel>
+                    <IonText slot="end" color="dark">
+                      <strong>{formatCurrency(getOrderItemTotal(item))}</strong>
+                    </IonText>
+                  </IonItem>
+                ))}
+              </IonList>
+
+              {/* Totals breakdown, as charged */}
+              <IonList lines="none" className="ion-padding-vertical">
+                <IonItem>
+                  <IonLabel>Subtotal</IonLabel>
+                  <IonText slot="end">{formatCurrency(order.subtotal)}</IonText>
+                </IonItem>
+                {order.order_discounts.length > 0
+                  ? orderDiscountRows.map((row) => (
+                      <IonItem key={row.key}>
+                        <IonLabel>{row.label}</IonLabel>
+                        <IonText slot="end" color="success">
+                          -{formatCurrency(row.amount)}
+                        </IonText>
+                      </IonItem>
+                    ))
+                  : order.discount > 0 && (
+                      <IonItem>
+                        <IonLabel>Discount</IonLabel>
+                        <IonText slot="end" color="success">
+                          -{formatCurrency(order.discount)}
+                        </IonText>
+                      </IonItem>
+                    )}
+                {order.order_tax_lines.length > 0
+                  ? order.order_tax_lines.map(
+                      (line) =>
+                        line.tax > 0 && (
+                          <IonItem key={line.id}>
+                            <IonLabel>
+                              {order.tax_inclusive ? 'Includes ' : ''}
+                              {line.name} ({line.rate}%)
+                            </IonLabel>
+                            <IonText slot="end">{formatCurrency(line.tax)}</IonText>
+                          </IonItem>
+                        )
+                    )
+                  : order.tax > 0 && (
+                      // Orders placed before per-rate tax lines only have the combined tax
+                      <IonItem>
+                        <IonLabel>Tax ({order.tax_rate}%)</IonLabel>
+                        <IonText slot="end">{formatCurrency(order.tax)}</IonText>
+                      </IonItem>
+                    )}
+                {order.delivery_fee > 0 && (
+                  <IonItem>
+                    <IonLabel>Delivery Fee</IonLabel>
+                    <IonText slot="end">{formatCurrency(order.delivery_fee)}</IonText>
+                  </IonItem>
+                )}
+                {order.tip > 0 && (
+                  <IonItem>
+                    <IonLabel>Tip</IonLabel>
+                    <IonText slot="end">{formatCurrency(order.tip)}</IonText>
+                  </IonItem>
+                )}
+                <IonItem>
+                  <IonLabel>
+                    <strong>Total</strong>
+                  </IonLabel>
+                  <IonText slot="end">
+                    <strong>{formatCurrency(order.total_sale)}</strong>
+                  </IonText>
+                </IonItem>
+              </IonList>
+            </CardContainer>
+
+            {/* Bills */}
+            {order.order_bills.length > 0 && (
+              <CardContainer title="Bills" subtitle={`${order.order_bills.length} bills`} noPadding>
+                <IonList lines="full">
+                  {[...order.order_bills]
+                    .sort((a, b) => a.bill_number - b.bill_number)
+                    .map((bill) => {
+                      const billItems = order.order_items.filter(
+                        (item) => item.bill_id === bill.id
+                      );
+                      const billPayments = order.order_payments.filter(
+                        (payment) => payment.bill_id === bill.id
+                      );
+                      return (
+                        <IonItem key={bill.id}>
+                          <IonLabel className="ion-text-wrap">
+                            <h3>
+                              {bill.label}
+                              {bill.customer_name && ` · ${bill.customer_name}`}
+                            </h3>
+                            {billItems.length > 0 && (
+                              <p>
+                                {billItems
+                                  .map((item) => `${item.quantity}x ${item.product_name}`)
+                                  .join(', ')}
+                              </p>
+                            )}
+                            <p>
+                              {billPayments
+                                .map(
+                                  (payment) =>
+                                    `${payment.payment_type?.code ?? 'Cash'} ${formatCurrency(payment.amount)}`
+                                )
+                                .join(' · ')}
+                            </p>
+                          </IonLabel>
+                          <IonNote slot="end">{formatCurrency(bill.amount)}</IonNote>
+                        </IonItem>
+                      );
+                    })}
+                </IonList>
+              </CardContainer>
+            )}
+
+            {/* Refunds */}
+            {order.order_refunds.length > 0 && (
+              <CardContainer
+                title="Refunds"
+                subtitle={`${formatCurrency(order.refunded_total)} refunded`}
+                noPadding
+              >
+                <IonList lines="full">
+                  {order.order_refunds.map((refund, index) => (
+                    <IonItem
+                      key={refund.id}
+                      lines={index === order.order_refunds.length - 1 ? 'none' : 'full'}
+                    >
+                      <IonLabel className="ion-text-wrap">
+                        <h3>{refund.reason}</h3>
+                        {refund.order_refund_items.map((refundItem) => (
+                          <p key={refundItem.id}>
+                            {refundItem.quantity} ×{' '}
+                            {order.order_items.find((item) => item.id === refundItem.order_item_id)
+                              ?.product_name ?? 'Item'}
+                          </p>
+                        ))}
+                        <p>
+                          {new Date(refund.refunded_at).toLocaleString('en-US', {
+                            dateStyle: 'medium',
+                            timeStyle: 'short',
+                          })}
+                          {` · ${refund.payment_type?.code ?? 'Cash'}`}
+                          {refund.inventory_handling === 'waste' ? ' · Wasted' : ' · Restocked'}
+                          {getUserName(refund.refunded_by_id) &&
+                            ` · ${getUserName(refund.refunded_by_id)}`}
+                        </p>
+                      </IonLabel>
+                      <IonText slot="end" color="danger">
+                        -{formatCurrency(refund.amount)}
+                      </IonText>
+                    </IonItem>
+                  ))}
+                </IonList>
+              </CardContainer>
+            )}
+
+            {/* Inventory Consumed */}
+            <CardContainer
+              title="Inventory Consumed"
+              subtitle={`Cost ${formatCurrency(inventoryCost)}`}
+              noPadding
+            >
+              {order.inventory_transactions.length === 0 ? (
+                <Div className="ion-text-center" style={{ padding: '24px 16px' }}>
+                  <IonText color="medium">
+                    <p>No inventory was deducted for this order</p>
+                  </IonText>
+                </Div>
+              ) : (
+                <IonList lines="full">
+                  {order.inventory_transactions.map((transaction, index) => (
+                    <IonItem
+                      key={transaction.id}
+                      button
+                      detail
+                      lines={index === order.inventory_transactions.length - 1 ? 'none' : 'full'}
+                      onClick={() =>
+                        history.push(
+                          `/shops/${shopId}/inventory/${transaction.item_id}/transactions/${transaction.id}`
+                        )
+                      }
+                    >
+                      <IonLabel>
+                        <h3>{transaction.item_name}</h3>
+                        <p>
+                          {transactionTypeLabels[transaction.transaction_type] ||
+                            transaction.transaction_type}{' '}
+                          · {formatCurrency(transaction.unit_cost)} per unit
+                        </p>
+                      </IonLabel>
+                      <IonText slot="end" color="dark">
+                        {transaction.quantity_in > 0
+                          ? `+${transaction.quantity_in}`
+                          : `-${transaction.quantity_out}`}
+                      </IonText>
+                    </IonItem>
+                  ))}
+                </IonList>
+              )}
+            </CardContainer>
+          </Div>
+        </CenteredLayout>
+      )}
+
+      {order && (
+        <RefundItemsModal
+          isOpen={showRefundModal}
+          onClose={() => setShowRefundModal(false)}
+          order={order}
+          currencyCode={currentShop?.currency_code || 'USD'}
+          onSubmit={handleRefund}
+          isLoading={createRefund.isPending}
+        />
+      )}
+
+      <ReceiptModal
+        isOpen={showReceiptModal}
+        onClose={() => setShowReceiptModal(false)}
+        orderId={showReceiptModal ? orderId : null}
+        reprint
+      />
+
+      <BillPaymentModal
+        isOpen={showBillPaymentModal}
+        onClose={() => setShowBillPaymentModal(false)}
+        orderId={showBillPaymentModal ? orderId : null}
+        currency={currentShop?.currency_code || 'USD'}
+      />
+
+      <ReverseOrderModal
+        isOpen={!!reversalType}
+        onClose={() => setReversalType(null)}
+        reversalType={reversalType ?? 'voided'}
+        onSubmit={handleReverse}
+        isLoading={reverseOrder.isPending}
+      />
+    </BasePage>
+  );
+};
+
+export default OrderDetailPage;
@@ -0,0 +1,282 @@
+// Sales History Page - Paginated, filterable order history
+
+import {
+  IonBadge,
+  IonButton,
+  IonButtons,
+  IonIcon,
+  IonInfiniteScroll,
+  IonInfiniteScrollContent,
+  IonItem,
+  IonItemDivider,
+  IonItemGroup,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonText,
+  type RefresherEventDetail,
+} from '@ionic/react';
+import { filterOutline, receiptOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import { useHistory } from 'react-router-dom';
+import { BasePage, CenteredLayout } from '@/components/layouts';
+import { Div } from '@/components/shared/base/Div';
+import { CardContainer } from '@/components/shared/CardContainer';
+import { LoadingSpinner } from '@/components/ui';
+import { useOrdersInfinite, useSalesSummary } from '@/hooks/useOrder';
+import { useShop, useShopUsers } from '@/hooks/useShop';
+import type { OrderFilters } from '@/services/order.service';
+import type { OrderWithPaymentType } from '@/types';
+import { createCurrencyFormatter } from '@/utils/currency';
+import { formatDateLabel } from '@/utils/date';
+import { ORDER_TYPE_LABELS } from '@/utils/order';
+import OrderFiltersModal from './components/OrderFiltersModal';
+
+// Count filters applied through the filter modal (the search is shown in the search bar)
+const countActiveFilters = (filters: OrderFilters) =>
+  [
+    filters.dateFrom,
+    filters.dateTo,
+    filters.paymentTypeId,
+    filters.servedById,
+    filters.orderType,
+    filters.minTotal,
+    filters.maxTotal,
+  ].filter((value) => value !== undefined).length;
+
+const SalesHistoryPage: React.FC = () => {
+  const history = useHistory();
+  const { currentShop, isLoading: shopLoading } = useShop();
+  const { data: shopUsers = [] } = useShopUsers(currentShop?.id);
+  const [filters, setFilters] = useState<OrderFilters>({});
+  const [showFiltersModal, setShowFiltersModal] = useState(false);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, refetch } = useOrdersInfinite(filters);
+  const { data: summary } = useSalesSummary({
+    dateFrom: filters.dateFrom,
+    dateTo: filters.dateTo,
+    orderType: filters.orderType,
+  });
+
+  const orders = useMemo(() => data?.pages.flatMap((page) => page.data) ?? [], [data]);
+  const totalCount = data?.pages[0]?.count ?? 0;
+  const activeFilterCount = countActiveFilters(filters);
+
+  // Group orders by date
+  const groupedOrders = useMemo(
+    () =>
+      orders.reduce(
+        (groups, order) => {
+          const dateLabel = formatDateLabel(order.order_date);
+          if (!groups[dateLabel]) groups[dateLabel] = [];
+          groups[dateLabel].push(order);
+          return groups;
+        },
+        {} as Record<string, OrderWithPaymentType[]>
+      ),
+    [orders]
+  );
+
+  // Memoized currency formatter
+  const formatCurrency = useMemo(
+    () => createCurrencyFormatter(currentShop?.currency_code || 'USD'),
+    [currentShop?.currency_code]
+  );
+
+  const getServedByName = (userId: string | null) => {
+    if (!userId) return null;
+    return shopUsers.find((shopUser) => shopUser.user_id === userId)?.display_name ?? null;
+  };
+
+  // Handle pull-to-refresh
+  const handleRefresh = async (event: CustomEvent<RefresherEventDetail>) => {
+    await refetch();
+    event.detail.complete();
+  };
+
+  const handleSearchChange = (value: string) => {
+    setFilters((prev) => ({ ...prev, search: value || undefined }));
+  };
+
+  // Render individual order row
+  const renderOrderItem = (order: OrderWithPaymentType, index: number, orderCount: number) => {
+    const servedBy = getServedByName(order.served_by_id);
+
+    return (
+      <IonItem
+        key={order.id}
+        button
+        detail
+        lines={index === orderCount - 1 ? 'none' : 'full'}
+        onClick={() => history.push(`/shops/${currentShop?.id}/orders/${order.id}`)}
+      >
+        <IonIcon slot="start" icon={receiptOutline} style={{ fontSize: '24px' }} />
+        <IonLabel>
+          <h3>
+            {order.order_number && `#${order.order_number} · `}
+            {order.customer_name || 'Walk-in customer'}
+          </h3>
+          <p>
+            {new Date(order.order_date).toLocaleTimeString('en-US', {
+              hour: 'numeric',
+              minute: '2-digit',
+              hour12: true,
+            })}
+            {` · ${ORDER_TYPE_LABELS[order.order_type]}`}
+            {` · ${order.payment_type?.code ?? 'Cash'}`}
+            {servedBy && ` · ${servedBy}`}
+          </p>
+        </IonLabel>
+        <IonLabel slot="end" className="ion-text-right ion-padding-end">
+          <IonText color={order.reversal_type ? 'medium' : 'dark'}>
+            <strong style={order.reversal_type ? { textDecoration: 'line-through' } : undefined}>
+              {formatCurrency(order.total_sale)}
+            </strong>
+          </IonText>
+          {order.reversal_type ? (
+            <p>
+              <IonBadge color={order.reversal_type === 'voided' ? 'medium' : 'danger'}>
+                {order.reversal_type === 'voided' ? 'Voided' : 'Refunded'}
+              </IonBadge>
+            </p>
+          ) : (
+            order.refunded_total > 0 && (
+              <p>
+                <IonText color="danger">
+                  {formatCurrency(order.total_sale - order.refunded_total)} net
+                </IonText>
+              </p>
+            )
+          )}
+        </IonLabel>
+      </IonItem>
+    );
+  };
+
+  // Empty state
+  const renderEmptyState = () => (
+    <Div className="empty-state ion-text-center" style={{ padding: '48px 16px' }}>
+      <h2>No Orders Found</h2>
+      <p>
+        <IonText color="medium">
+          {activeFilterCount > 0 || filters.search
+            ? 'Try adjusting your filters'
+            : 'Completed orders will appear here'}
+        </IonText>
+      </p>
+      {activeFilterCount > 0 && (
+        <IonButton fill="outline" onClick={() => setFilters({ search: filters.search })}>
+          Clear Filters
+        </IonButton>
+      )}
+    </Div>
+  );
+
+  // No shop selected state
+  if (!currentShop && !shopLoading) {
+    return (
+      <BasePage title="Sales" showMenu>
+        <CenteredLayout>
+          <div className="empty-state ion-text-center" style={{ padding: '48px 16px' }}>
+            <h2>No Shop Selected</h2>
+            <p>Please select a shop to view sales</p>
+          </div>
+        </CenteredLayout>
+      </BasePage>
+    );
+  }
+
+  return (
+    <BasePage title="Sales" showMenu onRefresh={handleRefresh}>
+      <CenteredLayout>
+        <CardContainer
+          title="Sales History"
+          noPadding
+          showSearch
+          searchValue={filters.search ?? ''}
+          onSearchChange={handleSearchChange}
+          searchPlaceholder="Search order # or customer..."
+          actionButton={
+            <IonButtons>
+              <IonButton
+                onClick={() => setShowFiltersModal(true)}
+                fill="clear"
+                color="dark"
+                aria-label="Filter"
+              >
+                <IonIcon slot="icon-only" icon={filterOutline} />
+                {activeFilterCount > 0 && (
+                  <IonBadge color="primary" style={{ position: 'absolute', top: 0, right: 0 }}>
+                    {activeFilterCount}
+                  </IonBadge>
+                )}
+              </IonButton>
+            </IonButtons>
+          }
+        >
+          {isLoading || shopLoading ? (
+            <LoadingSpinner />
+          ) : orders.length === 0 ? (
+            renderEmptyState()
+          ) : (
+            <>
+              <Div className="ion-padding-horizontal ion-padding-top">
+                <IonNote>
+                  {totalCount} {totalCount === 1 ? 'order' : 'orders'}
+                  {summary &&
+                    ` · Gross ${formatCurrency(summary.gross_sales)} · Refunds ${formatCurrency(
+                      summary.refunds
+                    )} · Net ${formatCurrency(summary.net_sales)}`}
+                </IonNote>
+              </Div>
+              <IonList lines="full">
+                {Object.entries(groupedOrders).map(([date, dateOrders]) => (
+                  <IonItemGroup key={date}>
+                    <IonItemDivider>
+                      <IonLabel color="dark">
+                        <h2>{date}</h2>
+                      </IonLabel>
+                      <IonText slot="end" color="medium" className="ion-padding-end">
+                        {formatCurrency(
+                          dateOrders
+                            .filter((order) => !order.reversal_type)
+                            .reduce(
+                              (sum, order) =>
+                                sum + (order.total_sale || 0) - (order.refunded_total || 0),
+                              0
+                            )
+                        )}
+                      </IonText>
+                    </IonItemDivider>
+                    {dateOrders.map((order, index) =>
+                      renderOrderItem(order, index, dateOrders.length)
+                    )}
+                  </IonItemGroup>
+                ))}
+              </IonList>
+              <IonInfiniteScroll
+                disabled={!hasNextPage}
+                onIonInfinite={async (event) => {
+                  await fetchNextPage();
+                  event.target.complete();
+                }}
+              >
+                <IonInfiniteScrollContent loadingText="Loading more orders..." />
+              </IonInfiniteScroll>
+            </>
+          )}
+        </CardContainer>
+      </CenteredLayout>
+
+      <OrderFiltersModal
+        isOpen={showFiltersModal}
+        onClose={() => setShowFiltersModal(false)}
+        filters={filters}
+        onApply={setFilters}
+      />
+    </BasePage>
+  );
+};
+
+export default SalesHistoryPage;
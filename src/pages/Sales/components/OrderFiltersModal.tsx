@@ -0,0 +1,198 @@
+// Order Filters Modal - Filter sales history by date, payment type, staff, order type and total
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { IonButton } from '@ionic/react';
+import type React from 'react';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import BaseModal from '@/components/shared/BaseModal';
+import { PriceField, SelectField, TextField } from '@/components/shared/FormFields';
+import { usePaymentTypes } from '@/hooks/useOrder';
+import { useShop, useShopUsers } from '@/hooks/useShop';
+import type { OrderFilters } from '@/services/order.service';
+import type { OrderType } from '@/types';
+import { toDateInputValue } from '@/utils/date';
+import { ORDER_TYPE_LABELS, ORDER_TYPES } from '@/utils/order';
+
+// Validation schema
+const orderFiltersSchema = z
+  .object({
+    dateFrom: z.string().optional(),
+    dateTo: z.string().optional(),
+    paymentTypeId: z.string().optional(),
+    servedById: z.string().optional(),
+    orderType: z.string().optional(),
+    minTotal: z.number().min(0, 'Must be positive').nullable(),
+    maxTotal: z.number().min(0, 'Must be positive').nullable(),
+  })
+  .refine((data) => !data.dateFrom || !data.dateTo || data.dateFrom <= data.dateTo, {
+    message: 'End date must be on or after start date',
+    path: ['dateTo'],
+  })
+  .refine((data) => !data.minTotal || !data.maxTotal || data.minTotal <= data.maxTotal, {
+    message: 'Maximum must be greater than minimum',
+    path: ['maxTotal'],
+  });
+
+type OrderFiltersFormData = z.infer<typeof orderFiltersSchema>;
+
+const emptyFormValues: OrderFiltersFormData = {
+  dateFrom: '',
+  dateTo: '',
+  paymentTypeId: '',
+  servedById: '',
+  orderType: '',
+  minTotal: null,
+  maxTotal: null,
+};
+
+// Convert between stored filters (ISO timestamps) and form values (yyyy-mm-dd)
+const toFormValues = (filters: OrderFilters): OrderFiltersFormData => ({
+  dateFrom: toDateInputValue(filters.dateFrom),
+  dateTo: toDateInputValue(filters.dateTo),
+  paymentTypeId: filters.paymentTypeId || '',
+  servedById: filters.servedById || '',
+  orderType: filters.orderType || '',
+  minTotal: filters.minTotal ?? null,
+  maxTotal: filters.maxTotal ?? null,
+});
+
+interface OrderFiltersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filters: OrderFilters;
+  onApply: (filters: OrderFilters) => void;
+}
+
+const OrderFiltersModal: React.FC<OrderFiltersModalProps> = ({
+  isOpen,
+  onClose,
+  filters,
+  onApply,
+}) => {
+  const { currentShop } = useShop();
+  const { data: paymentTypes = [] } = usePaymentTypes();
+  const { data: shopUsers = [] } = useShopUsers(currentShop?.id);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<OrderFiltersFormData>({
+    resolver: zodResolver(orderFiltersSchema),
+    defaultValues: emptyFormValues,
+  });
+
+  // Populate form with the filters currently applied
+  useEffect(() => {
+    if (isOpen) {
+      reset(toFormValues(filters));
+    }
+  }, [isOpen, filters, reset]);
+
+  const onSubmit = (data: OrderFiltersFormData) => {
+    onApply({
+      // Keep the search, it is driven by the list's search bar
+      search: filters.search,
+      dateFrom: data.dateFrom ? new Date(`${data.dateFrom}T00:00:00`).toISOString() : undefined,
+      dateTo: data.dateTo ? new Date(`${data.dateTo}T23:59:59.999`).toISOString() : undefined,
+      paymentTypeId: data.paymentTypeId || undefined,
+      servedById: data.servedById || undefined,
+      orderType: (data.orderType as OrderType) || undefined,
+      minTotal: data.minTotal || undefined,
+      maxTotal: data.maxTotal || undefined,
+    });
+    onClose();
+  };
+
+  const handleClear = () => {
+    onApply({ search: filters.search });
+    onClose();
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Filter Orders"
+      initialBreakpoint={0.75}
+      breakpoints={[0, 0.75, 1]}
+      showFooterButton
+      footerButtonLabel="Apply Filters"
+      onFooterButtonClick={handleSubmit(onSubmit)}
+    >
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <TextField
+          name="dateFrom"
+          control={control}
+          label="From"
+          type="date"
+          error={errors.dateFrom}
+        />
+        <TextField name="dateTo" control={control} label="To" type="date" error={errors.dateTo} />
+
+        <SelectField
+          name="paymentTypeId"
+          control={control}
+          label="Payment Type"
+          placeholder="Any"
+          options={[
+            { value: '', label: 'Any' },
+            ...paymentTypes.map((pt) => ({ value: pt.id, label: pt.code })),
+          ]}
+          error={errors.paymentTypeId}
+        />
+
+        <SelectField
+          name="servedById"
+          control={control}
+          label="Served By"
+          placeholder="Anyone"
+          options={[
+            { value: '', label: 'Anyone' },
+            ...shopUsers.map((shopUser) => ({
+              value: shopUser.user_id,
+              label: shopUser.display_name || shopUser.role,
+            })),
+          ]}
+          error={errors.servedById}
+        />
+
+        <SelectField
+          name="orderType"
+          control={control}
+          label="Order Type"
+          placeholder="Any"
+          options={[
+            { value: '', label: 'Any' },
+            ...ORDER_TYPES.map((type) => ({ value: type, label: ORDER_TYPE_LABELS[type] })),
+          ]}
+          error={errors.orderType}
+        />
+
+        <PriceField
+          name="minTotal"
+          control={control}
+          label="Minimum Total"
+          currency={currentShop?.currency_code || 'USD'}
+          error={errors.minTotal}
+        />
+        <PriceField
+          name="maxTotal"
+          control={control}
+          label="Maximum Total"
+          currency={currentShop?.currency_code || 'USD'}
+          error={errors.maxTotal}
+        />
+
+        <IonButton expand="block" fill="clear" color="medium" onClick={handleClear}>
+          Clear Filters
+        </IonButton>
+      </form>
+    </BaseModal>
+  );
+};
+
+export default OrderFiltersModal;
@@ -0,0 +1,252 @@
+// Refund Items Modal - Refund selected lines or quantities of an order
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+} from '@ionic/react';
+import { addOutline, removeOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import BaseModal from '@/components/shared/BaseModal';
+import { PriceField, SelectField, TextAreaField } from '@/components/shared/FormFields';
+import { usePaymentTypes } from '@/hooks/useOrder';
+import type { CreateOrderRefundData, OrderWithDetails } from '@/types';
+import { createCurrencyFormatter } from '@/utils/currency';
+import { getOrderItemValues, getRefundedQuantities } from '@/utils/order';
+
+// Validation schema
+const refundSchema = z.object({
+  amount: z.number().positive('Amount must be greater than zero'),
+  payment_type_id: z.string().min(1, 'Select how the refund was paid'),
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason is too long'),
+  inventory_handling: z.enum(['restock', 'waste']),
+});
+
+type RefundFormData = z.infer<typeof refundSchema>;
+
+const inventoryHandlingOptions = [
+  { value: 'restock', label: 'Return items to stock' },
+  { value: 'waste', label: 'Record items as waste' },
+];
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+interface RefundItemsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: OrderWithDetails;
+  currencyCode: string;
+  onSubmit: (data: CreateOrderRefundData) => Promise<void>;
+  isLoading?: boolean;
+}
+
+const RefundItemsModal: React.FC<RefundItemsModalProps> = ({
+  isOpen,
+  onClose,
+  order,
+  currencyCode,
+  onSubmit,
+  isLoading = false,
+}) => {
+  const { data: paymentTypes = [] } = usePaymentTypes();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  const formatCurrency = useMemo(() => createCurrencyFormatter(currencyCode), [currencyCode]);
+  const refundedQuantities = useMemo(() => getRefundedQuantities(order), [order]);
+  const itemValues = useMemo(() => getOrderItemValues(order), [order]);
+  const refundable = roundCurrency(order.total_sale - (order.refunded_total || 0));
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setValue,
+    setError,
+    formState: { errors },
+  } = useForm<RefundFormData>({
+    resolver: zodResolver(refundSchema),
+    defaultValues: {
+      amount: 0,
+      payment_type_id: order.payment_type_id || '',
+      reason: '',
+      inventory_handling: 'restock',
+    },
+  });
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuantities({});
+      reset({
+        amount: 0,
+        payment_type_id: order.payment_type_id || '',
+        reason: '',
+        inventory_handling: 'restock',
+      });
+    }
+  }, [isOpen, order.payment_type_id, reset]);
+
+  // Amount for each selected line, its share of what was paid for the line
+  const lineAmounts = useMemo(
+    () =>
+      order.order_items.reduce(
+        (amounts, item) => {
+          const quantity = quantities[item.id] || 0;
+          if (quantity > 0) {
+            amounts[item.id] = roundCurrency((itemValues[item.id] * quantity) / item.quantity);
+          }
+          return amounts;
+        },
+        {} as Record<string, number>
+      ),
+    [order.order_items, itemValues, quantities]
+  );
+
+  // Suggest the refund amount from the selected lines (staff can still adjust it)
+  useEffect(() => {
+    const suggested = Object.values(lineAmounts).reduce((sum, amount) => sum + amount, 0);
+    setValue('amount', Math.min(roundCurrency(suggested), refundable));
+  }, [lineAmounts, refundable, setValue]);
+
+  const handleQuantityChange = (orderItemId: string, quantity: number) => {
+    setQuantities((prev) => ({ ...prev, [orderItemId]: quantity }));
+  };
+
+  const onFormSubmit = async (data: RefundFormData) => {
+    const items = Object.entries(lineAmounts).map(([orderItemId, amount]) => ({
+      order_item_id: orderItemId,
+      quantity: quantities[orderItemId],
+      amount,
+    }));
+
+    if (items.length === 0) {
+      setError('amount', { message: 'Select at least one item to refund' });
+      return;
+    }
+
+    if (data.amount > refundable) {
+      setError('amount', { message: `Cannot refund more than ${formatCurrency(refundable)}` });
+      return;
+    }
+
+    await onSubmit({
+      order_id: order.id,
+      amount: data.amount,
+      payment_type_id: data.payment_type_id || null,
+      reason: data.reason,
+      inventory_handling: data.inventory_handling,
+      items,
+    });
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Refund Items"
+      initialBreakpoint={1}
+      breakpoints={[0, 1]}
+      showFooterButton
+      footerButtonLabel="Refund"
+      onFooterButtonClick={handleSubmit(onFormSubmit)}
+      footerButtonLoading={isLoading}
+    >
+      <form onSubmit={handleSubmit(onFormSubmit)}>
+        <IonList lines="full">
+          <IonListHeader>
+            <IonLabel>Items</IonLabel>
+          </IonListHeader>
+          {order.order_items.map((item) => {
+            const remaining = item.quantity - (refundedQuantities[item.id] || 0);
+            const quantity = quantities[item.id] || 0;
+
+            return (
+              <IonItem key={item.id} disabled={remaining <= 0}>
+                <IonLabel>
+                  <h3>{item.product_name}</h3>
+                  <p>
+                    {remaining <= 0
+                      ? 'Fully refunded'
+                      : `${remaining} of ${item.quantity} refundable · ${formatCurrency(
+                          itemValues[item.id] / item.quantity
+                        )} each`}
+                  </p>
+                </IonLabel>
+                <IonButton
+                  slot="end"
+                  fill="clear"
+                  color="dark"
+                  disabled={quantity === 0}
+                  onClick={() => handleQuantityChange(item.id, quantity - 1)}
+                  aria-label="Decrease quantity"
+                >
+                  <IonIcon slot="icon-only" icon={removeOutline} />
+                </IonButton>
+                <IonNote slot="end" color="dark" style={{ minWidth: '24px', textAlign: 'center' }}>
+                  {quantity}
+                </IonNote>
+                <IonButton
+                  slot="end"
+                  fill="clear"
+                  color="dark"
+                  disabled={quantity >= remaining}
+                  onClick={() => handleQuantityChange(item.id, quantity + 1)}
+                  aria-label="Increase quantity"
+                >
+                  <IonIcon slot="icon-only" icon={addOutline} />
+                </IonButton>
+              </IonItem>
+            );
+          })}
+        </IonList>
+
+        <PriceField
+          name="amount"
+          control={control}
+          label={`Refund Amount (max ${formatCurrency(refundable)})`}
+          currency={currencyCode}
+          required
+          error={errors.amount}
+        />
+
+        <SelectField
+          name="payment_type_id"
+          control={control}
+          label="Refunded Via"
+          placeholder="Select payment type"
+          required
+          options={paymentTypes.map((pt) => ({ value: pt.id, label: pt.code }))}
+          error={errors.payment_type_id}
+        />
+
+        <TextAreaField
+          name="reason"
+          control={control}
+          label="Reason"
+          placeholder="e.g. Item was cold"
+          required
+          rows={3}
+          error={errors.reason}
+        />
+
+        <SelectField
+          name="inventory_handling"
+          control={control}
+          label="Inventory"
+          options={inventoryHandlingOptions}
+          error={errors.inventory_handling}
+        />
+      </form>
+    </BaseModal>
+  );
+};
+
+export default RefundItemsModal;
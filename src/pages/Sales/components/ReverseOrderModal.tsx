@@ -0,0 +1,109 @@
+// Reverse Order Modal - Void or refund an order and choose what happens to the stock
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { IonNote } from '@ionic/react';
+import type React from 'react';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import BaseModal from '@/components/shared/BaseModal';
+import { Div } from '@/components/shared/base/Div';
+import { SelectField, TextAreaField } from '@/components/shared/FormFields';
+import type { OrderReversalType, ReverseOrderData } from '@/types';
+
+// Validation schema
+const reverseOrderSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason is too long'),
+  inventory_handling: z.enum(['restock', 'waste']),
+});
+
+type ReverseOrderFormData = z.infer<typeof reverseOrderSchema>;
+
+const inventoryHandlingOptions = [
+  { value: 'restock', label: 'Return items to stock' },
+  { value: 'waste', label: 'Record items as waste' },
+];
+
+interface ReverseOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reversalType: OrderReversalType;
+  onSubmit: (data: ReverseOrderData) => Promise<void>;
+  isLoading?: boolean;
+}
+
+const ReverseOrderModal: React.FC<ReverseOrderModalProps> = ({
+  isOpen,
+  onClose,
+  reversalType,
+  onSubmit,
+  isLoading = false,
+}) => {
+  const isVoid = reversalType === 'voided';
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ReverseOrderFormData>({
+    resolver: zodResolver(reverseOrderSchema),
+    defaultValues: { reason: '', inventory_handling: 'restock' },
+  });
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      reset({ reason: '', inventory_handling: 'restock' });
+    }
+  }, [isOpen, reset]);
+
+  const onFormSubmit = async (data: ReverseOrderFormData) => {
+    await onSubmit({ reversal_type: reversalType, ...data });
+  };
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isVoid ? 'Void Order' : 'Refund Order'}
+      initialBreakpoint={0.6}
+      breakpoints={[0, 0.6, 1]}
+      showFooterButton
+      footerButtonLabel={isVoid ? 'Void Order' : 'Refund Order'}
+      onFooterButtonClick={handleSubmit(onFormSubmit)}
+      footerButtonLoading={isLoading}
+    >
+      <form onSubmit={handleSubmit(onFormSubmit)}>
+        <Div className="ion-padding-bottom">
+          <IonNote>
+            {isVoid
+              ? 'Voiding cancels an order that was entered by mistake.'
+              : 'Refunding records that the customer was paid back.'}{' '}
+            The order is kept in the sales history and its inventory is reversed.
+          </IonNote>
+        </Div>
+
+        <TextAreaField
+          name="reason"
+          control={control}
+          label="Reason"
+          placeholder={isVoid ? 'e.g. Entered twice' : 'e.g. Customer complaint'}
+          required
+          rows={3}
+          error={errors.reason}
+        />
+
+        <SelectField
+          name="inventory_handling"
+          control={control}
+          label="Inventory"
+          options={inventoryHandlingOptions}
+          error={errors.inventory_handling}
+        />
+      </form>
+    </BaseModal>
+  );
+};
+
+export default ReverseOrderModal;
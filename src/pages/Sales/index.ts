@@ -0,0 +1,5 @@
+// Sales Pages - Export
+
+export { default as OrderBoardPage } from './OrderBoardPage';
+export { default as OrderDetailPage } from './OrderDetailPage';
+export { default as SalesHistoryPage } from './SalesHistoryPage';
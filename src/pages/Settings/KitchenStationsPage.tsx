@@ -0,0 +1,166 @@
+// Kitchen Stations Page - Displays that product categories are routed to
+
+import {
+  IonBackButton,
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonPage,
+  IonText,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { createOutline, trashOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useState } from 'react';
+import { CenteredLayout } from '@/components/layouts';
+import { CardContainer } from '@/components/shared';
+import DeleteConfirmationAlert from '@/components/shared/DeleteConfirmationAlert';
+import { LoadingSpinner } from '@/components/ui';
+import { useDeleteKitchenStation, useKitchenStations } from '@/hooks/useKitchen';
+import { useProductCategories } from '@/hooks/useProduct';
+import { useShop } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { KitchenStation } from '@/types';
+import { KitchenStationFormModal } from './components';
+
+export const KitchenStationsPage: React.FC = () => {
+  const { currentShop, hasPermission } = useShop();
+  const { showSuccess, showError } = useToastNotification();
+
+  const { data: stations, isLoading } = useKitchenStations();
+  const { data: categories = [] } = useProductCategories();
+  const deleteStation = useDeleteKitchenStation();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedStation, setSelectedStation] = useState<KitchenStation | null>(null);
+  const [stationToDelete, setStationToDelete] = useState<KitchenStation | null>(null);
+
+  const canEdit = hasPermission('admin');
+
+  const handleAddStation = () => {
+    setSelectedStation(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEditStation = (station: KitchenStation) => {
+    setSelectedStation(station);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedStation(null);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!stationToDelete) return;
+
+    try {
+      await deleteStation.mutateAsync(stationToDelete.id);
+      showSuccess('Kitchen station deleted successfully');
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError('Failed to delete kitchen station');
+    } finally {
+      setStationToDelete(null);
+    }
+  };
+
+  const getCategoryNames = (stationId: string) =>
+    categories
+      .filter((category) => category.station_id === stationId)
+      .map((category) => category.name)
+      .join(', ');
+
+  return (
+    <IonPage>
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start">
+            <IonBackButton defaultHref={`/shops/${currentShop?.id}/settings`} />
+          </IonButtons>
+          <IonTitle>Kitchen Stations</IonTitle>
+        </IonToolbar>
+      </IonHeader>
+      <IonContent>
+        <CenteredLayout>
+          <CardContainer
+            subtitle="Route product categories to a station when editing the category"
+            onActionClick={canEdit ? handleAddStation : undefined}
+            noPadding
+          >
+            {isLoading ? (
+              <LoadingSpinner />
+            ) : stations && stations.length > 0 ? (
+              <IonList className="ion-no-margin ion-no-padding" lines="full">
+                {stations.map((station) => (
+                  <IonItem key={station.id}>
+                    <IonLabel className="ion-text-wrap">
+                      <h2>{station.name}</h2>
+                      <p>{getCategoryNames(station.id) || 'No categories routed here yet'}</p>
+                    </IonLabel>
+                    <IonNote slot="end">
+                      {station.target_minutes} / {station.late_minutes} min
+                    </IonNote>
+                    {canEdit && (
+                      <IonButtons slot="end">
+                        <IonButton
+                          fill="clear"
+                          color="dark"
+                          onClick={() => handleEditStation(station)}
+                          aria-label="Edit kitchen station"
+                        >
+                          <IonIcon slot="icon-only" icon={createOutline} />
+                        </IonButton>
+                        <IonButton
+                          fill="clear"
+                          color="danger"
+                          onClick={() => setStationToDelete(station)}
+                          aria-label="Delete kitchen station"
+                        >
+                          <IonIcon slot="icon-only" icon={trashOutline} />
+                        </IonButton>
+                      </IonButtons>
+                    )}
+                  </IonItem>
+                ))}
+              </IonList>
+            ) : (
+              <div style={{ textAlign: 'center', padding: '2rem' }}>
+                <IonText color="medium">
+                  <p>No kitchen stations yet. The kitchen display shows every order line.</p>
+                </IonText>
+              </div>
+            )}
+          </CardContainer>
+
+          <KitchenStationFormModal
+            isOpen={isModalOpen}
+            onClose={handleCloseModal}
+            station={selectedStation}
+          />
+
+          {stationToDelete && (
+            <DeleteConfirmationAlert
+              isOpen={!!stationToDelete}
+              onDismiss={() => setStationToDelete(null)}
+              onConfirm={handleDeleteConfirm}
+              itemName={stationToDelete.name}
+              itemType="Kitchen Station"
+            />
+          )}
+        </CenteredLayout>
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default KitchenStationsPage;
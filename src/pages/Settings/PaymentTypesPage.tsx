@@ -0,0 +1,156 @@
+// Payment Types Page - Tenders accepted at checkout, in display order
+
+import {
+  IonBackButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonPage,
+  IonReorder,
+  IonReorderGroup,
+  IonText,
+  IonTitle,
+  IonToolbar,
+  type ItemReorderEventDetail,
+} from '@ionic/react';
+import type React from 'react';
+import { useState } from 'react';
+import { CenteredLayout } from '@/components/layouts';
+import { CardContainer } from '@/components/shared';
+import { LoadingSpinner } from '@/components/ui';
+import { usePaymentTypes, useUpdatePaymentType } from '@/hooks/useOrder';
+import { useShop } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { PaymentType } from '@/types';
+import { PaymentTypeFormModal } from './components';
+
+// Short summary of a tender's behaviour flags
+const describeFlags = (paymentType: PaymentType) =>
+  [
+    paymentType.allows_change && 'Gives change',
+    paymentType.opens_cash_drawer && 'Opens drawer',
+    paymentType.requires_reference && 'Reference required',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const PaymentTypesPage: React.FC = () => {
+  const { currentShop, hasPermission } = useShop();
+  const { showError } = useToastNotification();
+
+  const { data: paymentTypes = [], isLoading } = usePaymentTypes({ includeInactive: true });
+  const updatePaymentType = useUpdatePaymentType();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedPaymentType, setSelectedPaymentType] = useState<PaymentType | null>(null);
+
+  const canEdit = hasPermission('admin');
+
+  const handleAddPaymentType = () => {
+    setSelectedPaymentType(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEditPaymentType = (paymentType: PaymentType) => {
+    setSelectedPaymentType(paymentType);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedPaymentType(null);
+  };
+
+  const handleReorder = async (event: CustomEvent<ItemReorderEventDetail>) => {
+    event.stopPropagation();
+
+    // Reorder array
+    const reordered = [...paymentTypes];
+    const [movedItem] = reordered.splice(event.detail.from, 1);
+    reordered.splice(event.detail.to, 0, movedItem);
+
+    // Update sequences for changed items
+    try {
+      for (let i = 0; i < reordered.length; i++) {
+        if (reordered[i].sequence !== i) {
+          await updatePaymentType.mutateAsync({
+            paymentTypeId: reordered[i].id,
+            updates: { sequence: i },
+          });
+        }
+      }
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError('Failed to reorder payment types');
+    }
+
+    event.detail.complete();
+  };
+
+  return (
+    <IonPage>
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start">
+            <IonBackButton defaultHref={`/shops/${currentShop?.id}/settings`} />
+          </IonButtons>
+          <IonTitle>Payment Types</IonTitle>
+        </IonToolbar>
+      </IonHeader>
+      <IonContent>
+        <CenteredLayout>
+          <CardContainer
+            subtitle="Tenders offered at checkout, in this order. Deactivate a tender to stop offering it."
+            onActionClick={canEdit ? handleAddPaymentType : undefined}
+            noPadding
+          >
+            {isLoading ? (
+              <LoadingSpinner />
+            ) : paymentTypes.length > 0 ? (
+              <IonList className="ion-no-margin ion-no-padding" lines="full">
+                <IonReorderGroup disabled={!canEdit} onIonItemReorder={handleReorder}>
+                  {paymentTypes.map((paymentType) => (
+                    <IonItem
+                      key={paymentType.id}
+                      button={canEdit}
+                      detail={false}
+                      onClick={() => canEdit && handleEditPaymentType(paymentType)}
+                    >
+                      <IonLabel>
+                        <h2>{paymentType.code}</h2>
+                        {paymentType.description && <p>{paymentType.description}</p>}
+                        {describeFlags(paymentType) && <p>{describeFlags(paymentType)}</p>}
+                      </IonLabel>
+                      {!paymentType.is_active && <IonNote slot="end">Inactive</IonNote>}
+                      {canEdit && <IonReorder slot="end" />}
+                    </IonItem>
+                  ))}
+                </IonReorderGroup>
+              </IonList>
+            ) : (
+              <div style={{ textAlign: 'center', padding: '2rem' }}>
+                <IonText color="medium">
+                  <p>No payment types yet. Add one to start taking payments.</p>
+                </IonText>
+              </div>
+            )}
+          </CardContainer>
+
+          <PaymentTypeFormModal
+            isOpen={isModalOpen}
+            onClose={handleCloseModal}
+            paymentType={selectedPaymentType}
+            nextSequence={paymentTypes.length}
+          />
+        </CenteredLayout>
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default PaymentTypesPage;
@@ -12,7 +12,14 @@ import {
 	IonPage,
 	IonTitle,
 } from '@ionic/react';
-import { chevronForwardOutline, storefrontOutline, trashOutline } from 'ionicons/icons';
+import {
+	cardOutline,
+	chevronForwardOutline,
+	receiptOutline,
+	restaurantOutline,
+	storefrontOutline,
+	trashOutline,
+} from 'ionicons/icons';
 import type React from 'react';
 import { useState } from 'react';
 import { useHistory } from 'react-router-dom';
@@ -33,6 +40,24 @@ const SettingsPage: React.FC = () => {
 		}
 	};
 
+	const handleTaxRates = () => {
+		if (currentShop) {
+			history.push(`/shops/${currentShop.id}/settings/tax-rates`);
+		}
+	};
+
+	const handlePaymentTypes = () => {
+		if (currentShop) {
+			history.push(`/shops/${currentShop.id}/settings/payment-types`);
+		}
+	};
+
+	const handleKitchenStations = () => {
+		if (currentShop) {
+			history.push(`/shops/${currentShop.id}/settings/kitchen-stations`);
+		}
+	};
+
 	const handleDeleteShop = () => {
 		setShowDeleteAlert(true);
 	};
@@ -72,6 +97,30 @@ const SettingsPage: React.FC = () => {
 											</IonLabel>
 											<IonIcon slot="end" icon={chevronForwardOutline} />
 										</IonItem>
+										<IonItem button onClick={handleTaxRates} detail={false}>
+											<IonIcon slot="start" icon={receiptOutline} />
+											<IonLabel>
+												<h2>Tax Rates</h2>
+												<p>Named rates for categories and products that differ from the default</p>
+											</IonLabel>
+											<IonIcon slot="end" icon={chevronForwardOutline} />
+										</IonItem>
+										<IonItem button onClick={handlePaymentTypes} detail={false}>
+											<IonIcon slot="start" icon={cardOutline} />
+											<IonLabel>
+												<h2>Payment Types</h2>
+												<p>Tenders accepted at checkout and how each one behaves</p>
+											</IonLabel>
+											<IonIcon slot="end" icon={chevronForwardOutline} />
+										</IonItem>
+										<IonItem button onClick={handleKitchenStations} detail={false}>
+											<IonIcon slot="start" icon={restaurantOutline} />
+											<IonLabel>
+												<h2>Kitchen Stations</h2>
+												<p>Displays that categories are sent to, and their ticket time targets</p>
+											</IonLabel>
+											<IonIcon slot="end" icon={chevronForwardOutline} />
+										</IonItem>
 									</IonList>
 								</IonCardContent>
 							</IonCard>
@@ -0,0 +1,154 @@
+// Tax Rates Page - Named tax rates assignable to categories and products
+
+import {
+  IonBackButton,
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonPage,
+  IonText,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { createOutline, trashOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useState } from 'react';
+import { CenteredLayout } from '@/components/layouts';
+import { CardContainer } from '@/components/shared';
+import DeleteConfirmationAlert from '@/components/shared/DeleteConfirmationAlert';
+import { LoadingSpinner } from '@/components/ui';
+import { useDeleteTaxRate, useShop, useTaxRates } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { TaxRate } from '@/types';
+import { TaxRateFormModal } from './components';
+
+export const TaxRatesPage: React.FC = () => {
+  const { currentShop, hasPermission } = useShop();
+  const { showSuccess, showError } = useToastNotification();
+
+  const { data: taxRates, isLoading } = useTaxRates();
+  const deleteTaxRate = useDeleteTaxRate();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedTaxRate, setSelectedTaxRate] = useState<TaxRate | null>(null);
+  const [taxRateToDelete, setTaxRateToDelete] = useState<TaxRate | null>(null);
+
+  const canEdit = hasPermission('admin');
+
+  const handleAddTaxRate = () => {
+    setSelectedTaxRate(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEditTaxRate = (taxRate: TaxRate) => {
+    setSelectedTaxRate(taxRate);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedTaxRate(null);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!taxRateToDelete) return;
+
+    try {
+      await deleteTaxRate.mutateAsync(taxRateToDelete.id);
+      showSuccess('Tax rate deleted successfully');
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError('Failed to delete tax rate');
+    } finally {
+      setTaxRateToDelete(null);
+    }
+  };
+
+  return (
+    <IonPage>
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start">
+            <IonBackButton defaultHref={`/shops/${currentShop?.id}/settings`} />
+          </IonButtons>
+          <IonTitle>Tax Rates</IonTitle>
+        </IonToolbar>
+      </IonHeader>
+      <IonContent>
+        <CenteredLayout>
+          <CardContainer
+            subtitle={`Products and categories without a rate use the shop default: ${currentShop?.tax_label ?? 'Tax'} ${currentShop?.tax_rate ?? 0}%`}
+            onActionClick={canEdit ? handleAddTaxRate : undefined}
+            noPadding
+          >
+            {isLoading ? (
+              <LoadingSpinner />
+            ) : taxRates && taxRates.length > 0 ? (
+              <IonList className="ion-no-margin ion-no-padding" lines="full">
+                {taxRates.map((taxRate) => (
+                  <IonItem key={taxRate.id}>
+                    <IonLabel>
+                      <h2>{taxRate.name}</h2>
+                    </IonLabel>
+                    <IonNote slot="end">{taxRate.rate}%</IonNote>
+                    {canEdit && (
+                      <IonButtons slot="end">
+                        <IonButton
+                          fill="clear"
+                          color="dark"
+                          onClick={() => handleEditTaxRate(taxRate)}
+                          aria-label="Edit tax rate"
+                        >
+                          <IonIcon slot="icon-only" icon={createOutline} />
+                        </IonButton>
+                        <IonButton
+                          fill="clear"
+                          color="danger"
+                          onClick={() => setTaxRateToDelete(taxRate)}
+                          aria-label="Delete tax rate"
+                        >
+                          <IonIcon slot="icon-only" icon={trashOutline} />
+                        </IonButton>
+                      </IonButtons>
+                    )}
+                  </IonItem>
+                ))}
+              </IonList>
+            ) : (
+              <div style={{ textAlign: 'center', padding: '2rem' }}>
+                <IonText color="medium">
+                  <p>No tax rates yet. Every product uses the shop default rate.</p>
+                </IonText>
+              </div>
+            )}
+          </CardContainer>
+
+          <TaxRateFormModal
+            isOpen={isModalOpen}
+            onClose={handleCloseModal}
+            taxRate={selectedTaxRate}
+          />
+
+          {taxRateToDelete && (
+            <DeleteConfirmationAlert
+              isOpen={!!taxRateToDelete}
+              onDismiss={() => setTaxRateToDelete(null)}
+              onConfirm={handleDeleteConfirm}
+              itemName={taxRateToDelete.name}
+              itemType="Tax Rate"
+            />
+          )}
+        </CenteredLayout>
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default TaxRatesPage;
@@ -0,0 +1,178 @@
+// Kitchen Station Form Modal Component - Add/Edit a kitchen station and its ticket time targets
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonModal,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { close } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { NumberField, TextField } from '@/components/shared/FormFields';
+import { SaveButton } from '@/components/shared/SaveButton';
+import {
+  useCreateKitchenStation,
+  useKitchenStations,
+  useUpdateKitchenStation,
+} from '@/hooks/useKitchen';
+import { useShop } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { KitchenStation } from '@/types';
+
+// Validation schema
+const kitchenStationSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(50, 'Name too long').trim(),
+    target_minutes: z.number().int('Use whole minutes').min(1, 'Target must be at least 1 minute'),
+    late_minutes: z.number().int('Use whole minutes').min(1, 'Must be at least 1 minute'),
+  })
+  .refine((data) => data.late_minutes >= data.target_minutes, {
+    message: 'Late must not be sooner than the target',
+    path: ['late_minutes'],
+  });
+
+type KitchenStationFormData = z.infer<typeof kitchenStationSchema>;
+
+interface KitchenStationFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  station: KitchenStation | null;
+}
+
+const KitchenStationFormModal: React.FC<KitchenStationFormModalProps> = ({
+  isOpen,
+  onClose,
+  station,
+}) => {
+  const { showSuccess, showError } = useToastNotification();
+  const { hasPermission } = useShop();
+  const { data: stations } = useKitchenStations();
+  const createStation = useCreateKitchenStation();
+  const updateStation = useUpdateKitchenStation();
+
+  const canEdit = hasPermission('admin');
+  const isNew = !station;
+  const isSaving = createStation.isPending || updateStation.isPending;
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<KitchenStationFormData>({
+    resolver: zodResolver(kitchenStationSchema),
+    defaultValues: {
+      name: '',
+      target_minutes: 10,
+      late_minutes: 15,
+    },
+  });
+
+  // Populate form when station changes
+  useEffect(() => {
+    reset({
+      name: station?.name ?? '',
+      target_minutes: station?.target_minutes ?? 10,
+      late_minutes: station?.late_minutes ?? 15,
+    });
+  }, [station, reset]);
+
+  const onSubmit = async (data: KitchenStationFormData) => {
+    try {
+      if (isNew) {
+        // New stations are added at the end
+        await createStation.mutateAsync({ ...data, sequence: stations?.length || 0 });
+        showSuccess('Kitchen station created successfully');
+      } else {
+        await updateStation.mutateAsync({ stationId: station.id, updates: data });
+        showSuccess('Kitchen station updated successfully');
+      }
+
+      onClose();
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError(isNew ? 'Failed to create kitchen station' : 'Failed to update kitchen station');
+    }
+  };
+
+  return (
+    <IonModal
+      isOpen={isOpen}
+      onDidDismiss={onClose}
+      initialBreakpoint={0.75}
+      breakpoints={[0, 0.75, 1]}
+    >
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start" />
+          <IonTitle>{isNew ? 'Add Kitchen Station' : 'Edit Kitchen Station'}</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={onClose}>
+              <IonIcon icon={close} />
+            </IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent className="ion-padding" scrollY={true}>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          {/* Name */}
+          <TextField
+            name="name"
+            control={control}
+            label="Name"
+            placeholder="e.g., Grill, Cold Prep, Bar"
+            required
+            error={errors.name}
+            disabled={!canEdit}
+          />
+
+          {/* Target */}
+          <NumberField
+            name="target_minutes"
+            control={control}
+            label="Target (minutes)"
+            required
+            error={errors.target_minutes}
+            disabled={!canEdit}
+            min={1}
+            step={1}
+          />
+
+          {/* Late */}
+          <NumberField
+            name="late_minutes"
+            control={control}
+            label="Late after (minutes)"
+            required
+            error={errors.late_minutes}
+            disabled={!canEdit}
+            min={1}
+            step={1}
+          />
+
+          {/* Submit Button */}
+          <SaveButton
+            expand="block"
+            type="submit"
+            disabled={!canEdit || (!isDirty && !isNew) || isSaving}
+            isSaving={isSaving}
+            label={isNew ? 'Create Kitchen Station' : 'Save Changes'}
+            savingLabel={isNew ? 'Creating...' : 'Saving...'}
+          />
+        </form>
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default KitchenStationFormModal;
@@ -0,0 +1,182 @@
+// Payment Type Form Modal Component - Add/Edit a tender accepted at checkout
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonModal,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { close } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { TextField, ToggleField } from '@/components/shared/FormFields';
+import { SaveButton } from '@/components/shared/SaveButton';
+import { useCreatePaymentType, useUpdatePaymentType } from '@/hooks/useOrder';
+import { useShop } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { PaymentType } from '@/types';
+
+// Validation schema
+const paymentTypeSchema = z.object({
+  code: z.string().min(1, 'Name is required').max(30, 'Name too long').trim(),
+  description: z.string().max(100, 'Description too long').trim().optional(),
+  is_active: z.boolean(),
+  opens_cash_drawer: z.boolean(),
+  allows_change: z.boolean(),
+  requires_reference: z.boolean(),
+});
+
+type PaymentTypeFormData = z.infer<typeof paymentTypeSchema>;
+
+interface PaymentTypeFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  paymentType: PaymentType | null;
+  nextSequence: number; // Sequence for a new payment type, placing it last
+}
+
+const PaymentTypeFormModal: React.FC<PaymentTypeFormModalProps> = ({
+  isOpen,
+  onClose,
+  paymentType,
+  nextSequence,
+}) => {
+  const { showSuccess, showError } = useToastNotification();
+  const { hasPermission } = useShop();
+  const createPaymentType = useCreatePaymentType();
+  const updatePaymentType = useUpdatePaymentType();
+
+  const canEdit = hasPermission('admin');
+  const isNew = !paymentType;
+  const isSaving = createPaymentType.isPending || updatePaymentType.isPending;
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<PaymentTypeFormData>({
+    resolver: zodResolver(paymentTypeSchema),
+    defaultValues: {
+      code: '',
+      description: '',
+      is_active: true,
+      opens_cash_drawer: false,
+      allows_change: false,
+      requires_reference: false,
+    },
+  });
+
+  // Populate form when payment type changes
+  useEffect(() => {
+    reset({
+      code: paymentType?.code ?? '',
+      description: paymentType?.description ?? '',
+      is_active: paymentType?.is_active ?? true,
+      opens_cash_drawer: paymentType?.opens_cash_drawer ?? false,
+      allows_change: paymentType?.allows_change ?? false,
+      requires_reference: paymentType?.requires_reference ?? false,
+    });
+  }, [paymentType, reset]);
+
+  const onSubmit = async (data: PaymentTypeFormData) => {
+    const payload = { ...data, description: data.description || null };
+
+    try {
+      if (isNew) {
+        await createPaymentType.mutateAsync({ ...payload, sequence: nextSequence });
+        showSuccess('Payment type created successfully');
+      } else {
+        await updatePaymentType.mutateAsync({ paymentTypeId: paymentType.id, updates: payload });
+        showSuccess('Payment type updated successfully');
+      }
+
+      onClose();
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError(isNew ? 'Failed to create payment type' : 'Failed to update payment type');
+    }
+  };
+
+  return (
+    <IonModal isOpen={isOpen} onDidDismiss={onClose} initialBreakpoint={1} breakpoints={[0, 1]}>
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start" />
+          <IonTitle>{isNew ? 'Add Payment Type' : 'Edit Payment Type'}</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={onClose}>
+              <IonIcon icon={close} />
+            </IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent className="ion-padding" scrollY={true}>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          {/* Name */}
+          <TextField
+            name="code"
+            control={control}
+            label="Name"
+            placeholder="e.g., Cash, Card, GCash"
+            required
+            error={errors.code}
+            disabled={!canEdit}
+          />
+
+          {/* Description */}
+          <TextField
+            name="description"
+            control={control}
+            label="Description"
+            placeholder="Shown under the name at checkout"
+            error={errors.description}
+            disabled={!canEdit}
+          />
+
+          {/* Behaviour */}
+          <ToggleField
+            name="allows_change"
+            control={control}
+            label="Allows change (customer can hand over more than owed)"
+            disabled={!canEdit}
+          />
+          <ToggleField
+            name="opens_cash_drawer"
+            control={control}
+            label="Opens cash drawer"
+            disabled={!canEdit}
+          />
+          <ToggleField
+            name="requires_reference"
+            control={control}
+            label="Requires reference number"
+            disabled={!canEdit}
+          />
+          <ToggleField name="is_active" control={control} label="Active" disabled={!canEdit} />
+
+          {/* Submit Button */}
+          <SaveButton
+            expand="block"
+            type="submit"
+            disabled={!canEdit || (!isDirty && !isNew) || isSaving}
+            isSaving={isSaving}
+            label={isNew ? 'Create Payment Type' : 'Save Changes'}
+            savingLabel={isNew ? 'Creating...' : 'Saving...'}
+          />
+        </form>
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default PaymentTypeFormModal;
@@ -0,0 +1,148 @@
+// Tax Rate Form Modal Component - Add/Edit a named tax rate
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonModal,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { close } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { NumberField, TextField } from '@/components/shared/FormFields';
+import { SaveButton } from '@/components/shared/SaveButton';
+import { useCreateTaxRate, useShop, useUpdateTaxRate } from '@/hooks/useShop';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { TaxRate } from '@/types';
+
+// Validation schema
+const taxRateSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(50, 'Name too long').trim(),
+  rate: z.number().min(0, 'Rate cannot be negative').max(100, 'Rate cannot exceed 100%'),
+});
+
+type TaxRateFormData = z.infer<typeof taxRateSchema>;
+
+interface TaxRateFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  taxRate: TaxRate | null;
+}
+
+const TaxRateFormModal: React.FC<TaxRateFormModalProps> = ({ isOpen, onClose, taxRate }) => {
+  const { showSuccess, showError } = useToastNotification();
+  const { hasPermission } = useShop();
+  const createTaxRate = useCreateTaxRate();
+  const updateTaxRate = useUpdateTaxRate();
+
+  const canEdit = hasPermission('admin');
+  const isNew = !taxRate;
+  const isSaving = createTaxRate.isPending || updateTaxRate.isPending;
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<TaxRateFormData>({
+    resolver: zodResolver(taxRateSchema),
+    defaultValues: {
+      name: '',
+      rate: 0,
+    },
+  });
+
+  // Populate form when tax rate changes
+  useEffect(() => {
+    reset({
+      name: taxRate?.name ?? '',
+      rate: taxRate?.rate ?? 0,
+    });
+  }, [taxRate, reset]);
+
+  const onSubmit = async (data: TaxRateFormData) => {
+    try {
+      if (isNew) {
+        await createTaxRate.mutateAsync(data);
+        showSuccess('Tax rate created successfully');
+      } else {
+        await updateTaxRate.mutateAsync({ taxRateId: taxRate.id, updates: data });
+        showSuccess('Tax rate updated successfully');
+      }
+
+      onClose();
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError(isNew ? 'Failed to create tax rate' : 'Failed to update tax rate');
+    }
+  };
+
+  return (
+    <IonModal
+      isOpen={isOpen}
+      onDidDismiss={onClose}
+      initialBreakpoint={0.75}
+      breakpoints={[0, 0.75, 1]}
+    >
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start" />
+          <IonTitle>{isNew ? 'Add Tax Rate' : 'Edit Tax Rate'}</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={onClose}>
+              <IonIcon icon={close} />
+            </IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent className="ion-padding" scrollY={true}>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          {/* Name */}
+          <TextField
+            name="name"
+            control={control}
+            label="Name"
+            placeholder="e.g., Standard, Reduced, Zero-rated"
+            required
+            error={errors.name}
+            disabled={!canEdit}
+          />
+
+          {/* Rate */}
+          <NumberField
+            name="rate"
+            control={control}
+            label="Rate (%)"
+            required
+            error={errors.rate}
+            disabled={!canEdit}
+            min={0}
+            max={100}
+            step="any"
+          />
+
+          {/* Submit Button */}
+          <SaveButton
+            expand="block"
+            type="submit"
+            disabled={!canEdit || (!isDirty && !isNew) || isSaving}
+            isSaving={isSaving}
+            label={isNew ? 'Create Tax Rate' : 'Save Changes'}
+            savingLabel={isNew ? 'Creating...' : 'Saving...'}
+          />
+        </form>
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default TaxRateFormModal;
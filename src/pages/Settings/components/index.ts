@@ -0,0 +1,5 @@
+// Settings components exports
+
+export { default as KitchenStationFormModal } from './KitchenStationFormModal';
+export { default as PaymentTypeFormModal } from './PaymentTypeFormModal';
+export { default as TaxRateFormModal } from './TaxRateFormModal';
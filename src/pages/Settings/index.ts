@@ -1 +1,4 @@
+export { default as KitchenStationsPage } from './KitchenStationsPage';
+export { default as PaymentTypesPage } from './PaymentTypesPage';
 export { default as SettingsPage } from './SettingsPage';
+export { default as TaxRatesPage } from './TaxRatesPage';
@@ -15,7 +15,13 @@ import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { useHistory, useParams } from 'react-router-dom';
 import { z } from 'zod';
-import { SelectField, TextAreaField, TextField } from '@/components/shared/FormFields';
+import {
+	NumberField,
+	SelectField,
+	TextAreaField,
+	TextField,
+	ToggleField,
+} from '@/components/shared/FormFields';
 import { SaveButton } from '@/components/shared/SaveButton';
 import { ImageUpload } from '@/components/ui';
 import { useCreateShop, useShop, useUpdateShop } from '@/hooks/useShop';
@@ -55,6 +61,13 @@ const shopSchema = z.object({
 	location: z.string().max(200, 'Location too long').optional().nullable(),
 	currency_code: z.string().min(3, 'Currency is required').max(3),
 	image_url: z.string().optional().nullable(),
+	tax_rate: z.number().min(0, 'Tax rate cannot be negative').max(100, 'Tax rate cannot exceed 100%'),
+	tax_label: z.string().min(1, 'Tax label is required').max(20, 'Label too long'),
+	tax_inclusive: z.boolean(),
+	receipt_header: z.string().max(300, 'Header too long').optional().nullable(),
+	receipt_footer: z.string().max(300, 'Footer too long').optional().nullable(),
+	order_number_prefix: z.string().max(10, 'Prefix too long').optional().nullable(),
+	order_number_daily_reset: z.boolean(),
 });
 
 type ShopFormData = z.infer<typeof shopSchema>;
@@ -94,6 +107,13 @@ const ShopFormPage: React.FC = () => {
 			location: '',
 			currency_code: 'USD',
 			image_url: '',
+			tax_rate: 0,
+			tax_label: 'Tax',
+			tax_inclusive: false,
+			receipt_header: '',
+			receipt_footer: '',
+			order_number_prefix: '',
+			order_number_daily_reset: false,
 		},
 	});
 
@@ -111,6 +131,13 @@ const ShopFormPage: React.FC = () => {
 					location: shop.location || '',
 					currency_code: shop.currency_code,
 					image_url: shop.image_url || '',
+					tax_rate: shop.tax_rate ?? 0,
+					tax_label: shop.tax_label || 'Tax',
+					tax_inclusive: shop.tax_inclusive ?? false,
+					receipt_header: shop.receipt_header || '',
+					receipt_footer: shop.receipt_footer || '',
+					order_number_prefix: shop.order_number_prefix || '',
+					order_number_daily_reset: shop.order_number_daily_reset ?? false,
 				});
 			}
 		}
@@ -135,6 +162,9 @@ const ShopFormPage: React.FC = () => {
 					...data,
 					description: data.description || null,
 					location: data.location || null,
+					receipt_header: data.receipt_header || null,
+					receipt_footer: data.receipt_footer || null,
+					order_number_prefix: data.order_number_prefix || null,
 					image_url: null, // Set after upload
 				};
 
@@ -201,6 +231,9 @@ const ShopFormPage: React.FC = () => {
 					...data,
 					description: data.description || null,
 					location: data.location || null,
+					receipt_header: data.receipt_header || null,
+					receipt_footer: data.receipt_footer || null,
+					order_number_prefix: data.order_number_prefix || null,
 					image_url: imageUrl || null,
 				};
 
@@ -308,6 +341,88 @@ const ShopFormPage: React.FC = () => {
 							</ImageUploadSection>
 						</FormSection>
 
+						<FormSection>
+							<SectionTitle>Tax</SectionTitle>
+
+							{/* Tax Label */}
+							<TextField
+								name="tax_label"
+								control={control}
+								label="Tax Label"
+								placeholder="e.g., VAT, GST"
+								required
+								error={errors.tax_label}
+								disabled={isSaving}
+							/>
+							{/* Tax Rate */}
+							<NumberField
+								name="tax_rate"
+								control={control}
+								label="Tax Rate (%)"
+								placeholder="0"
+								min={0}
+								max={100}
+								step="any"
+								error={errors.tax_rate}
+								disabled={isSaving}
+							/>
+							{/* Inclusive Pricing */}
+							<ToggleField
+								name="tax_inclusive"
+								control={control}
+								label="Prices include tax"
+								error={errors.tax_inclusive}
+								disabled={isSaving}
+							/>
+						</FormSection>
+
+						<FormSection>
+							<SectionTitle>Receipt</SectionTitle>
+
+							{/* Receipt Header */}
+							<TextAreaField
+								name="receipt_header"
+								control={control}
+								label="Header"
+								placeholder="Printed under the shop name, e.g. address, phone, tax number"
+								rows={3}
+								error={errors.receipt_header}
+								disabled={isSaving}
+							/>
+							{/* Receipt Footer */}
+							<TextAreaField
+								name="receipt_footer"
+								control={control}
+								label="Footer"
+								placeholder="e.g., Thank you! Returns accepted within 7 days."
+								rows={3}
+								error={errors.receipt_footer}
+								disabled={isSaving}
+							/>
+						</FormSection>
+
+						<FormSection>
+							<SectionTitle>Order Numbers</SectionTitle>
+
+							{/* Order Number Prefix */}
+							<TextField
+								name="order_number_prefix"
+								control={control}
+								label="Prefix"
+								placeholder="e.g., A- for A-0042"
+								error={errors.order_number_prefix}
+								disabled={isSaving}
+							/>
+							{/* Daily Reset */}
+							<ToggleField
+								name="order_number_daily_reset"
+								control={control}
+								label="Start again at 1 each day"
+								error={errors.order_number_daily_reset}
+								disabled={isSaving}
+							/>
+						</FormSection>
+
 						{/* Submit Button */}
 						<ButtonContainer>
 							<SaveButton
@@ -0,0 +1,524 @@
+// Floor Plan Page - Tables laid out by area, showing who is seated and for how long
+
+import { IonBadge, IonButton, IonIcon, IonLabel, IonSegment, IonSegmentButton } from '@ionic/react';
+import {
+  addOutline,
+  checkmarkOutline,
+  createOutline,
+  moveOutline,
+  trashOutline,
+} from 'ionicons/icons';
+import type React from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useHistory } from 'react-router-dom';
+import styled from 'styled-components';
+import { BasePage, CenteredLayout } from '@/components/layouts';
+import DeleteConfirmationAlert from '@/components/shared/DeleteConfirmationAlert';
+import { LoadingSpinner, PriceDisplay } from '@/components/ui';
+import { useCart } from '@/hooks/useCart';
+import { useShop } from '@/hooks/useShop';
+import {
+  useDeleteDiningTable,
+  useDeleteTableArea,
+  useDiningTables,
+  useTableAreas,
+  useTableTabs,
+  useUpdateDiningTable,
+} from '@/hooks/useTable';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { productService } from '@/services/product.service';
+import { designSystem } from '@/theme/designSystem';
+import type {
+  DiningTable,
+  OrderTypeDetails,
+  OrderWithDetails,
+  TableArea,
+  TableStatus,
+  TableTab,
+} from '@/types';
+import { getOrderCartItems } from '@/utils/order';
+import {
+  formatTableElapsed,
+  getTableStatus,
+  TABLE_STATUS_COLORS,
+  TABLE_STATUS_LABELS,
+} from '@/utils/table';
+import { DiningTableFormModal, TableAreaFormModal, TableTabModal } from './components';
+
+// Floor plans are 4:3; tiles are sized as a share of the plan's width
+const PLAN_ASPECT = 4 / 3;
+const TILE_WIDTH = 12; // Percent of the plan's width
+const TILE_HEIGHT = TILE_WIDTH * PLAN_ASPECT; // Percent of the plan's height, so tiles are square
+
+const STATUSES: TableStatus[] = ['free', 'occupied', 'bill_requested'];
+
+// A tile being dragged to a new spot in edit mode
+interface DragState {
+  tableId: string;
+  offsetX: number; // Where the tile was grabbed, relative to its corner
+  offsetY: number;
+  x: number;
+  y: number;
+  moved: boolean;
+}
+
+// Styled Components
+const AreaBar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${designSystem.spacing.sm};
+  margin-bottom: ${designSystem.spacing.md};
+`;
+
+const Legend = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${designSystem.spacing.sm};
+  margin-bottom: ${designSystem.spacing.md};
+`;
+
+const Plan = styled.div<{ $editing: boolean }>`
+  position: relative;
+  width: 100%;
+  aspect-ratio: ${PLAN_ASPECT};
+  background-color: ${designSystem.colors.gray[50]};
+  background-image: ${({ $editing }) =>
+    $editing ? `radial-gradient(${designSystem.colors.gray[300]} 1px, transparent 1px)` : 'none'};
+  background-size: 24px 24px;
+  border: 1px solid ${designSystem.colors.gray[200]};
+  border-radius: ${designSystem.borderRadius.lg};
+  overflow: hidden;
+  touch-action: ${({ $editing }) => ($editing ? 'none' : 'auto')};
+`;
+
+const Tile = styled.button<{ $color: string; $dragging: boolean }>`
+  position: absolute;
+  width: ${TILE_WIDTH}%;
+  height: ${TILE_HEIGHT}%;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 2px;
+  padding: ${designSystem.spacing.xs};
+  background: ${designSystem.colors.surface.elevated};
+  border: 3px solid var(--ion-color-${({ $color }) => $color});
+  border-radius: ${designSystem.borderRadius.md};
+  box-shadow: ${({ $dragging }) => ($dragging ? '0 8px 16px rgba(0, 0, 0, 0.2)' : 'none')};
+  cursor: pointer;
+  overflow: hidden;
+  z-index: ${({ $dragging }) => ($dragging ? 1 : 0)};
+`;
+
+const TileName = styled.strong`
+  font-size: ${designSystem.typography.fontSize.lg};
+  color: ${designSystem.colors.text.primary};
+`;
+
+const TileDetail = styled.span`
+  font-size: ${designSystem.typography.fontSize.xs};
+  color: ${designSystem.colors.text.secondary};
+  white-space: nowrap;
+`;
+
+const EmptyState = styled.div`
+  padding: 48px 16px;
+  text-align: center;
+`;
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+const FloorPlanPage: React.FC = () => {
+  const history = useHistory();
+  const { currentShop, isLoading: shopLoading, hasPermission } = useShop();
+  const { data: areas = [], isLoading: areasLoading } = useTableAreas();
+  const { data: tables = [], isLoading: tablesLoading } = useDiningTables();
+  const { data: tabs = [] } = useTableTabs();
+  const updateTable = useUpdateDiningTable();
+  const deleteTable = useDeleteDiningTable();
+  const deleteArea = useDeleteTableArea();
+  const { isEmpty, loadCart, currency } = useCart();
+  const { showError, showSuccess } = useToastNotification();
+
+  const [selectedAreaId, setSelectedAreaId] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const planRef = useRef<HTMLDivElement>(null);
+
+  // Modals
+  const [openTableId, setOpenTableId] = useState<string | null>(null);
+  const [areaModalOpen, setAreaModalOpen] = useState(false);
+  const [editingArea, setEditingArea] = useState<TableArea | null>(null);
+  const [areaToDelete, setAreaToDelete] = useState<TableArea | null>(null);
+  const [tableModalOpen, setTableModalOpen] = useState(false);
+  const [editingTable, setEditingTable] = useState<DiningTable | null>(null);
+  const [tableToDelete, setTableToDelete] = useState<DiningTable | null>(null);
+
+  const canEdit = hasPermission('admin');
+  const area = areas.find((a) => a.id === selectedAreaId) ?? areas[0];
+  const areaTables = tables.filter((table) => table.area_id === area?.id);
+  const openTable = tables.find((table) => table.id === openTableId) ?? null;
+
+  // Keep the seated times current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const getTab = (tableId: string) => tabs.find((tab) => tab.table_id === tableId);
+
+  const countByStatus = (status: TableStatus) =>
+    areaTables.filter((table) => getTableStatus(getTab(table.id)) === status).length;
+
+  // ===== Taking orders =====
+
+  const dineInAt = (table: DiningTable): OrderTypeDetails => ({
+    order_type: 'dine_in',
+    table_label: table.name,
+    delivery_address: null,
+    delivery_fee: 0,
+  });
+
+  // Start the till on the table's next round
+  const handleTakeRound = (table: DiningTable) => {
+    loadCart({
+      items: [],
+      customerName: null,
+      notes: null,
+      discounts: [],
+      orderTypeDetails: dineInAt(table),
+      table: { table_id: table.id, tab: null },
+    });
+    setOpenTableId(null);
+    history.push('/pos');
+  };
+
+  // Load the tab's order onto the till to be paid
+  const handleCloseOut = async (table: DiningTable, tab: TableTab, order: OrderWithDetails) => {
+    // Current products give each line its category and tax rate
+    const productIds = [...new Set(order.order_items.map((item) => item.product_id))];
+    const { data: products, error } = await productService.getProductsByIds(productIds);
+    if (error || !products) {
+      showError(`Failed to load the order for table ${table.name}`);
+      return;
+    }
+
+    loadCart({
+      items: getOrderCartItems(order, products),
+      customerName: tab.customer_name,
+      notes: null,
+      discounts: [],
+      orderTypeDetails: dineInAt(table),
+      table: {
+        table_id: table.id,
+        tab: { id: tab.id, order_id: tab.order_id, round_count: tab.round_count },
+      },
+    });
+    setOpenTableId(null);
+    history.push('/pos');
+  };
+
+  // ===== Layout editing =====
+
+  // Pointer position on the plan, in percent
+  const toPlanPosition = (event: React.PointerEvent) => {
+    const rect = planRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * 100,
+      y: ((event.clientY - rect.top) / rect.height) * 100,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, table: DiningTable) => {
+    if (!isEditing) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = toPlanPosition(event);
+    setDrag({
+      tableId: table.id,
+      offsetX: x - table.position_x,
+      offsetY: y - table.position_y,
+      x: table.position_x,
+      y: table.position_y,
+      moved: false,
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+
+    const { x, y } = toPlanPosition(event);
+    setDrag({
+      ...drag,
+      x: clamp(x - drag.offsetX, 100 - TILE_WIDTH),
+      y: clamp(y - drag.offsetY, 100 - TILE_HEIGHT),
+      moved: true,
+    });
+  };
+
+  const handlePointerUp = (table: DiningTable) => {
+    if (!drag) return;
+    setDrag(null);
+
+    // A tap without a drag edits the table
+    if (!drag.moved) {
+      setEditingTable(table);
+      setTableModalOpen(true);
+      return;
+    }
+
+    updateTable.mutate(
+      {
+        tableId: table.id,
+        updates: {
+          position_x: Math.round(drag.x * 100) / 100,
+          position_y: Math.round(drag.y * 100) / 100,
+        },
+      },
+      { onError: () => showError(`Failed to move table ${table.name}`) }
+    );
+  };
+
+  const handleDeleteTable = async () => {
+    if (!tableToDelete) return;
+
+    try {
+      await deleteTable.mutateAsync(tableToDelete.id);
+      showSuccess('Table deleted successfully');
+      setTableModalOpen(false);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to delete table');
+    } finally {
+      setTableToDelete(null);
+    }
+  };
+
+  const handleDeleteArea = async () => {
+    if (!areaToDelete) return;
+
+    try {
+      await deleteArea.mutateAsync(areaToDelete.id);
+      showSuccess('Area deleted successfully');
+      setSelectedAreaId(null);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to delete area');
+    } finally {
+      setAreaToDelete(null);
+    }
+  };
+
+  // ===== Rendering =====
+
+  const renderTile = (table: DiningTable) => {
+    const tab = getTab(table.id);
+    const status = getTableStatus(tab);
+    const isDragging = drag?.tableId === table.id;
+    const x = isDragging ? drag.x : table.position_x;
+    const y = isDragging ? drag.y : table.position_y;
+
+    return (
+      <Tile
+        key={table.id}
+        type="button"
+        $color={TABLE_STATUS_COLORS[status]}
+        $dragging={isDragging}
+        style={{ left: `${x}%`, top: `${y}%` }}
+        aria-label={`Table ${table.name}, ${TABLE_STATUS_LABELS[status]}`}
+        onPointerDown={(event) => handlePointerDown(event, table)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => handlePointerUp(table)}
+        onClick={() => !isEditing && setOpenTableId(table.id)}
+      >
+        <TileName>{table.name}</TileName>
+        {tab ? (
+          <>
+            <TileDetail>{formatTableElapsed(tab.opened_at, now)}</TileDetail>
+            <TileDetail>
+              <PriceDisplay amount={tab.subtotal} currency={currency} />
+            </TileDetail>
+          </>
+        ) : (
+          table.seats && <TileDetail>{table.seats} seats</TileDetail>
+        )}
+      </Tile>
+    );
+  };
+
+  const editButton = canEdit && areas.length > 0 && (
+    <IonButton onClick={() => setIsEditing(!isEditing)}>
+      <IonIcon slot="start" icon={isEditing ? checkmarkOutline : moveOutline} />
+      {isEditing ? 'Done' : 'Edit Layout'}
+    </IonButton>
+  );
+
+  // No shop selected state
+  if (!currentShop && !shopLoading) {
+    return (
+      <BasePage title="Tables" showMenu>
+        <CenteredLayout>
+          <EmptyState className="empty-state">
+            <h2>No Shop Selected</h2>
+            <p>Please select a shop to view its tables</p>
+          </EmptyState>
+        </CenteredLayout>
+      </BasePage>
+    );
+  }
+
+  return (
+    <BasePage title="Tables" showMenu endButtons={editButton}>
+      <CenteredLayout>
+        {areasLoading || tablesLoading ? (
+          <LoadingSpinner />
+        ) : areas.length === 0 ? (
+          <EmptyState className="empty-state">
+            <h2>No Floor Plan Yet</h2>
+            {canEdit ? (
+              <>
+                <p>Add a seating area, then place its tables.</p>
+                <IonButton onClick={() => setAreaModalOpen(true)}>
+                  <IonIcon slot="start" icon={addOutline} />
+                  Add Area
+                </IonButton>
+              </>
+            ) : (
+              <p>Ask a shop admin to set up the floor plan.</p>
+            )}
+          </EmptyState>
+        ) : (
+          <>
+            <AreaBar>
+              <IonSegment
+                scrollable
+                value={area?.id}
+                onIonChange={(e) => setSelectedAreaId(String(e.detail.value))}
+              >
+                {areas.map((a) => (
+                  <IonSegmentButton key={a.id} value={a.id}>
+                    <IonLabel>{a.name}</IonLabel>
+                  </IonSegmentButton>
+                ))}
+              </IonSegment>
+              {isEditing && (
+                <>
+                  <IonButton
+                    fill="clear"
+                    onClick={() => {
+                      setEditingArea(null);
+                      setAreaModalOpen(true);
+                    }}
+                    aria-label="Add area"
+                  >
+                    <IonIcon slot="icon-only" icon={addOutline} />
+                  </IonButton>
+                  <IonButton
+                    fill="clear"
+                    color="dark"
+                    onClick={() => {
+                      setEditingArea(area ?? null);
+                      setAreaModalOpen(true);
+                    }}
+                    aria-label="Edit area"
+                  >
+                    <IonIcon slot="icon-only" icon={createOutline} />
+                  </IonButton>
+                  <IonButton
+                    fill="clear"
+                    color="danger"
+                    onClick={() => setAreaToDelete(area ?? null)}
+                    aria-label="Delete area"
+                  >
+                    <IonIcon slot="icon-only" icon={trashOutline} />
+                  </IonButton>
+                </>
+              )}
+            </AreaBar>
+
+            {isEditing ? (
+              <Legend>
+                <IonButton
+                  size="small"
+                  onClick={() => {
+                    setEditingTable(null);
+                    setTableModalOpen(true);
+                  }}
+                >
+                  <IonIcon slot="start" icon={addOutline} />
+                  Add Table
+                </IonButton>
+                <IonLabel color="medium">Drag tables into place; tap one to edit it.</IonLabel>
+              </Legend>
+            ) : (
+              <Legend>
+                {STATUSES.map((status) => (
+                  <IonBadge key={status} color={TABLE_STATUS_COLORS[status]}>
+                    {TABLE_STATUS_LABELS[status]}: {countByStatus(status)}
+                  </IonBadge>
+                ))}
+              </Legend>
+            )}
+
+            <Plan ref={planRef} $editing={isEditing}>
+              {areaTables.map(renderTile)}
+            </Plan>
+          </>
+        )}
+
+        <TableTabModal
+          isOpen={!!openTable}
+          onClose={() => setOpenTableId(null)}
+          table={openTable}
+          tables={tables}
+          tabs={tabs}
+          currency={currency}
+          now={now}
+          canStart={isEmpty}
+          onTakeRound={handleTakeRound}
+          onCloseOut={handleCloseOut}
+        />
+
+        <TableAreaFormModal
+          isOpen={areaModalOpen}
+          onClose={() => setAreaModalOpen(false)}
+          area={editingArea}
+          onSaved={(saved) => setSelectedAreaId(saved.id)}
+        />
+
+        {area && (
+          <DiningTableFormModal
+            isOpen={tableModalOpen}
+            onClose={() => setTableModalOpen(false)}
+            table={editingTable}
+            defaultAreaId={area.id}
+            onDelete={setTableToDelete}
+          />
+        )}
+
+        {tableToDelete && (
+          <DeleteConfirmationAlert
+            isOpen={!!tableToDelete}
+            onDismiss={() => setTableToDelete(null)}
+            onConfirm={handleDeleteTable}
+            itemName={tableToDelete.name}
+            itemType="Table"
+          />
+        )}
+
+        {areaToDelete && (
+          <DeleteConfirmationAlert
+            isOpen={!!areaToDelete}
+            onDismiss={() => setAreaToDelete(null)}
+            onConfirm={handleDeleteArea}
+            itemName={areaToDelete.name}
+            itemType="Area"
+            message={`Delete "${areaToDelete.name}" and all of its tables? This cannot be undone.`}
+          />
+        )}
+      </CenteredLayout>
+    </BasePage>
+  );
+};
+
+export default FloorPlanPage;
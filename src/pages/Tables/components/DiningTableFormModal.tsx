@@ -0,0 +1,175 @@
+// Dining Table Form Modal Component - Add/Edit a table on the floor plan
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonModal,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { close, trashOutline } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { NumberField, SelectField, TextField } from '@/components/shared/FormFields';
+import { SaveButton } from '@/components/shared/SaveButton';
+import { useCreateDiningTable, useTableAreas, useUpdateDiningTable } from '@/hooks/useTable';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { DiningTable } from '@/types';
+
+// Validation schema
+const diningTableSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(20, 'Name too long').trim(),
+  area_id: z.string().min(1, 'Area is required'),
+  seats: z.number().int('Use whole seats').min(1, 'Must seat at least 1').nullable(),
+});
+
+type DiningTableFormData = z.infer<typeof diningTableSchema>;
+
+interface DiningTableFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  table: DiningTable | null;
+  defaultAreaId: string; // Area new tables are added to
+  onDelete?: (table: DiningTable) => void;
+}
+
+// Where new tables land on the floor plan, ready to be dragged into place
+const NEW_TABLE_POSITION = { position_x: 5, position_y: 5 };
+
+const DiningTableFormModal: React.FC<DiningTableFormModalProps> = ({
+  isOpen,
+  onClose,
+  table,
+  defaultAreaId,
+  onDelete,
+}) => {
+  const { showSuccess, showError } = useToastNotification();
+  const { data: areas = [] } = useTableAreas();
+  const createTable = useCreateDiningTable();
+  const updateTable = useUpdateDiningTable();
+
+  const isNew = !table;
+  const isSaving = createTable.isPending || updateTable.isPending;
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<DiningTableFormData>({
+    resolver: zodResolver(diningTableSchema),
+    defaultValues: {
+      name: '',
+      area_id: defaultAreaId,
+      seats: null,
+    },
+  });
+
+  // Populate form when table changes
+  useEffect(() => {
+    reset({
+      name: table?.name ?? '',
+      area_id: table?.area_id ?? defaultAreaId,
+      seats: table?.seats ?? null,
+    });
+  }, [table, defaultAreaId, reset]);
+
+  const onSubmit = async (data: DiningTableFormData) => {
+    try {
+      if (isNew) {
+        await createTable.mutateAsync({ ...data, ...NEW_TABLE_POSITION });
+        showSuccess('Table created successfully');
+      } else {
+        await updateTable.mutateAsync({ tableId: table.id, updates: data });
+        showSuccess('Table updated successfully');
+      }
+
+      onClose();
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError(isNew ? 'Failed to create table' : 'Failed to update table');
+    }
+  };
+
+  return (
+    <IonModal
+      isOpen={isOpen}
+      onDidDismiss={onClose}
+      initialBreakpoint={0.75}
+      breakpoints={[0, 0.75, 1]}
+    >
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start" />
+          <IonTitle>{isNew ? 'Add Table' : 'Edit Table'}</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={onClose}>
+              <IonIcon icon={close} />
+            </IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent className="ion-padding" scrollY={true}>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          {/* Name */}
+          <TextField
+            name="name"
+            control={control}
+            label="Name"
+            placeholder="e.g., 4, Patio 2"
+            required
+            error={errors.name}
+          />
+
+          {/* Area */}
+          <SelectField
+            name="area_id"
+            control={control}
+            label="Area"
+            required
+            options={areas.map((area) => ({ value: area.id, label: area.name }))}
+            error={errors.area_id}
+          />
+
+          {/* Seats */}
+          <NumberField
+            name="seats"
+            control={control}
+            label="Seats"
+            placeholder="Optional"
+            error={errors.seats}
+            min={1}
+            step={1}
+          />
+
+          {/* Submit Button */}
+          <SaveButton
+            expand="block"
+            type="submit"
+            disabled={(!isDirty && !isNew) || isSaving}
+            isSaving={isSaving}
+            label={isNew ? 'Create Table' : 'Save Changes'}
+            savingLabel={isNew ? 'Creating...' : 'Saving...'}
+          />
+
+          {table && onDelete && (
+            <IonButton expand="block" fill="clear" color="danger" onClick={() => onDelete(table)}>
+              <IonIcon slot="start" icon={trashOutline} />
+              Delete Table
+            </IonButton>
+          )}
+        </form>
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default DiningTableFormModal;
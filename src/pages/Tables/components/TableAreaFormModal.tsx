@@ -0,0 +1,135 @@
+// Table Area Form Modal Component - Add/Edit a seating area on the floor plan
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonModal,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { close } from 'ionicons/icons';
+import type React from 'react';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { TextField } from '@/components/shared/FormFields';
+import { SaveButton } from '@/components/shared/SaveButton';
+import { useCreateTableArea, useTableAreas, useUpdateTableArea } from '@/hooks/useTable';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import { logger } from '@/services/sentry';
+import type { TableArea } from '@/types';
+
+// Validation schema
+const tableAreaSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(50, 'Name too long').trim(),
+});
+
+type TableAreaFormData = z.infer<typeof tableAreaSchema>;
+
+interface TableAreaFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  area: TableArea | null;
+  onSaved?: (area: TableArea) => void; // e.g. to switch the floor plan to a new area
+}
+
+const TableAreaFormModal: React.FC<TableAreaFormModalProps> = ({
+  isOpen,
+  onClose,
+  area,
+  onSaved,
+}) => {
+  const { showSuccess, showError } = useToastNotification();
+  const { data: areas } = useTableAreas();
+  const createArea = useCreateTableArea();
+  const updateArea = useUpdateTableArea();
+
+  const isNew = !area;
+  const isSaving = createArea.isPending || updateArea.isPending;
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<TableAreaFormData>({
+    resolver: zodResolver(tableAreaSchema),
+    defaultValues: { name: '' },
+  });
+
+  // Populate form when area changes
+  useEffect(() => {
+    reset({ name: area?.name ?? '' });
+  }, [area, reset]);
+
+  const onSubmit = async (data: TableAreaFormData) => {
+    try {
+      if (isNew) {
+        // New areas are added at the end
+        const created = await createArea.mutateAsync({ ...data, sequence: areas?.length || 0 });
+        showSuccess('Area created successfully');
+        if (created) onSaved?.(created);
+      } else {
+        const updated = await updateArea.mutateAsync({ areaId: area.id, updates: data });
+        showSuccess('Area updated successfully');
+        if (updated) onSaved?.(updated);
+      }
+
+      onClose();
+    } catch (error) {
+      logger.error(error instanceof Error ? error : new Error(String(error)));
+      showError(isNew ? 'Failed to create area' : 'Failed to update area');
+    }
+  };
+
+  return (
+    <IonModal
+      isOpen={isOpen}
+      onDidDismiss={onClose}
+      initialBreakpoint={0.5}
+      breakpoints={[0, 0.5, 1]}
+    >
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start" />
+          <IonTitle>{isNew ? 'Add Area' : 'Edit Area'}</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={onClose}>
+              <IonIcon icon={close} />
+            </IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent className="ion-padding" scrollY={true}>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          {/* Name */}
+          <TextField
+            name="name"
+            control={control}
+            label="Name"
+            placeholder="e.g., Inside, Patio, Bar"
+            required
+            error={errors.name}
+          />
+
+          {/* Submit Button */}
+          <SaveButton
+            expand="block"
+            type="submit"
+            disabled={(!isDirty && !isNew) || isSaving}
+            isSaving={isSaving}
+            label={isNew ? 'Create Area' : 'Save Changes'}
+            savingLabel={isNew ? 'Creating...' : 'Saving...'}
+          />
+        </form>
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default TableAreaFormModal;
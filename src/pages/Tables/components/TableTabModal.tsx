@@ -0,0 +1,276 @@
+// Table Tab Modal - A table's open tab: its rounds, the bill request, moving it and closing it out
+
+import {
+  IonBadge,
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonNote,
+  IonText,
+} from '@ionic/react';
+import {
+  addCircleOutline,
+  arrowBackOutline,
+  cardOutline,
+  gitMergeOutline,
+  receiptOutline,
+  swapHorizontalOutline,
+} from 'ionicons/icons';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import BaseModal from '@/components/shared/BaseModal';
+import { LoadingSpinner, PriceDisplay } from '@/components/ui';
+import { useOrder } from '@/hooks/useOrder';
+import { useMergeTableTabs, useSetBillRequested, useTransferTableTab } from '@/hooks/useTable';
+import { useToastNotification } from '@/hooks/useToastNotification';
+import type { DiningTable, OrderWithDetails, TableTab } from '@/types';
+import { getOrderItemTotal } from '@/utils/order';
+import {
+  formatTableElapsed,
+  getTableStatus,
+  TABLE_STATUS_COLORS,
+  TABLE_STATUS_LABELS,
+} from '@/utils/table';
+
+// Moving a tab to a free table, or folding it into an occupied one
+type MoveMode = 'transfer' | 'merge';
+
+interface TableTabModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  table: DiningTable | null;
+  tables: DiningTable[]; // Every table in the shop, to move the tab to
+  tabs: TableTab[]; // Every open tab in the shop
+  currency: string;
+  now: number; // Current time in milliseconds, ticked by the floor plan
+  canStart: boolean; // False while the till has an order in progress
+  onTakeRound: (table: DiningTable) => void;
+  onCloseOut: (table: DiningTable, tab: TableTab, order: OrderWithDetails) => void;
+}
+
+const TableTabModal: React.FC<TableTabModalProps> = ({
+  isOpen,
+  onClose,
+  table,
+  tables,
+  tabs,
+  currency,
+  now,
+  canStart,
+  onTakeRound,
+  onCloseOut,
+}) => {
+  const [moveMode, setMoveMode] = useState<MoveMode | null>(null);
+  const setBillRequested = useSetBillRequested();
+  const transferTab = useTransferTableTab();
+  const mergeTabs = useMergeTableTabs();
+  const { showSuccess, showError } = useToastNotification();
+
+  const tab = table ? tabs.find((t) => t.table_id === table.id) : undefined;
+  const status = getTableStatus(tab);
+  // The lines sent so far, on the order the tab holds open
+  const { data: order, isLoading: isOrderLoading } = useOrder(isOpen ? tab?.order_id : undefined);
+  const isBusy = setBillRequested.isPending || transferTab.isPending || mergeTabs.isPending;
+
+  // Start from the tab itself each time the modal opens
+  useEffect(() => {
+    if (isOpen) setMoveMode(null);
+  }, [isOpen]);
+
+  // Free tables take a transfer; tables with a tab take a merge
+  const moveTargets = tables.filter(
+    (t) =>
+      t.id !== table?.id && tabs.some((other) => other.table_id === t.id) === (moveMode === 'merge')
+  );
+
+  const handleBillRequest = async () => {
+    if (!tab) return;
+
+    try {
+      await setBillRequested.mutateAsync({ tabId: tab.id, requested: !tab.bill_requested_at });
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to update the bill request');
+    }
+  };
+
+  const handleMove = async (target: DiningTable) => {
+    if (!table || !tab) return;
+
+    try {
+      if (moveMode === 'merge') {
+        await mergeTabs.mutateAsync({ sourceTableId: table.id, targetTableId: target.id });
+        showSuccess(`Merged ${table.name} into ${target.name}`);
+      } else {
+        await transferTab.mutateAsync({ tabId: tab.id, targetTableId: target.id });
+        showSuccess(`Moved ${table.name} to ${target.name}`);
+      }
+      onClose();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to move the tab');
+    }
+  };
+
+  const renderMoveTargets = () => (
+    <>
+      <IonButton fill="clear" size="small" onClick={() => setMoveMode(null)}>
+        <IonIcon slot="start" icon={arrowBackOutline} />
+        Back
+      </IonButton>
+      <IonText color="medium">
+        <p>
+          {moveMode === 'merge'
+            ? `Choose the table to merge ${table?.name}'s tab into.`
+            : `Choose a free table to move ${table?.name}'s tab to.`}
+        </p>
+      </IonText>
+      {moveTargets.length > 0 ? (
+        <IonList lines="full" className="ion-no-padding">
+          {moveTargets.map((target) => (
+            <IonItem
+              key={target.id}
+              button
+              detail
+              disabled={isBusy}
+              onClick={() => handleMove(target)}
+            >
+              <IonLabel>{target.name}</IonLabel>
+              {target.seats && <IonNote slot="end">{target.seats} seats</IonNote>}
+            </IonItem>
+          ))}
+        </IonList>
+      ) : (
+        <IonText color="medium">
+          <p>{moveMode === 'merge' ? 'No other table has a tab.' : 'No tables are free.'}</p>
+        </IonText>
+      )}
+    </>
+  );
+
+  const renderTab = (openTab: TableTab) => (
+    <>
+      <IonText color="medium">
+        <p>
+          Seated {formatTableElapsed(openTab.opened_at, now)} ago · {openTab.round_count}{' '}
+          {openTab.round_count === 1 ? 'round' : 'rounds'}
+          {openTab.customer_name && ` · ${openTab.customer_name}`}
+        </p>
+      </IonText>
+
+      {isOrderLoading && <LoadingSpinner padding="24px" />}
+      <IonList lines="full" className="ion-no-padding">
+        {order?.order_items.map((item) => {
+          const extras = [
+            ...item.order_item_modifiers.map((modifier) => modifier.modifier_name),
+            ...item.order_item_addons.map((addon) => `${addon.quantity}x ${addon.name}`),
+          ];
+          return (
+            <IonItem key={item.id}>
+              <IonLabel className="ion-text-wrap">
+                {item.quantity}x {item.product_name}
+                {extras.length > 0 && <p>{extras.join(', ')}</p>}
+              </IonLabel>
+              <IonNote slot="end">
+                <PriceDisplay amount={getOrderItemTotal(item)} currency={currency} />
+              </IonNote>
+            </IonItem>
+          );
+        })}
+        <IonItem lines="none">
+          <IonLabel>
+            <strong>Subtotal</strong>
+          </IonLabel>
+          <IonNote slot="end">
+            <PriceDisplay amount={openTab.subtotal} currency={currency} />
+          </IonNote>
+        </IonItem>
+      </IonList>
+
+      {!canStart && (
+        <IonText color="medium">
+          <p>Finish or clear the order on the till before adding a round or closing out.</p>
+        </IonText>
+      )}
+
+      <IonButton
+        expand="block"
+        disabled={!canStart || isBusy}
+        onClick={() => table && onTakeRound(table)}
+      >
+        <IonIcon slot="start" icon={addCircleOutline} />
+        Add Round
+      </IonButton>
+      <IonButton expand="block" fill="outline" disabled={isBusy} onClick={handleBillRequest}>
+        <IonIcon slot="start" icon={receiptOutline} />
+        {openTab.bill_requested_at ? 'Cancel Bill Request' : 'Request Bill'}
+      </IonButton>
+      <IonButton
+        expand="block"
+        fill="outline"
+        disabled={isBusy}
+        onClick={() => setMoveMode('transfer')}
+      >
+        <IonIcon slot="start" icon={swapHorizontalOutline} />
+        Transfer to Another Table
+      </IonButton>
+      <IonButton
+        expand="block"
+        fill="outline"
+        disabled={isBusy}
+        onClick={() => setMoveMode('merge')}
+      >
+        <IonIcon slot="start" icon={gitMergeOutline} />
+        Merge with Another Table
+      </IonButton>
+      <IonButton
+        expand="block"
+        color="success"
+        disabled={!canStart || isBusy || !order}
+        onClick={() => table && order && onCloseOut(table, openTab, order)}
+      >
+        <IonIcon slot="start" icon={cardOutline} />
+        Close Out
+      </IonButton>
+    </>
+  );
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={table ? `Table ${table.name}` : 'Table'}
+      initialBreakpoint={0.75}
+      breakpoints={[0, 0.75, 1]}
+      endButtons={
+        <IonBadge color={TABLE_STATUS_COLORS[status]}>{TABLE_STATUS_LABELS[status]}</IonBadge>
+      }
+    >
+      {moveMode ? (
+        renderMoveTargets()
+      ) : tab ? (
+        renderTab(tab)
+      ) : (
+        <>
+          <IonText color="medium">
+            <p>
+              {canStart
+                ? 'Seat the table by sending its first round.'
+                : 'Finish or clear the order on the till before seating a table.'}
+            </p>
+          </IonText>
+          <IonButton
+            expand="block"
+            disabled={!canStart}
+            onClick={() => table && onTakeRound(table)}
+          >
+            <IonIcon slot="start" icon={addCircleOutline} />
+            Take Order
+          </IonButton>
+        </>
+      )}
+    </BaseModal>
+  );
+};
+
+export default TableTabModal;
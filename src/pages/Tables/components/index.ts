@@ -0,0 +1,5 @@
+// Tables components exports
+
+export { default as DiningTableFormModal } from './DiningTableFormModal';
+export { default as TableAreaFormModal } from './TableAreaFormModal';
+export { default as TableTabModal } from './TableTabModal';
@@ -0,0 +1,3 @@
+// Tables Pages - Barrel Export
+
+export { default as FloorPlanPage } from './FloorPlanPage';
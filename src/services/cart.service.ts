@@ -0,0 +1,115 @@
+// Cart Service - Supabase Parked Cart Operations
+
+import type { ApiResponse, ParkedCart, ParkedCartInsert } from '@/types';
+import type { Json } from '@/types/supabase.generated';
+import { logger } from './sentry';
+import { supabase } from './supabase';
+
+export const cartService = {
+  /**
+   * Get the carts parked in a shop, oldest first
+   */
+  async getParkedCarts(shopId: string): Promise<ApiResponse<ParkedCart[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('parked_carts')
+        .select('*')
+        .eq('shop_id', shopId)
+        .order('created_at');
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getParkedCarts', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as unknown as ParkedCart[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getParkedCarts', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Park a cart so it can be resumed later from any register in the shop
+   */
+  async parkCart(cart: ParkedCartInsert, userId: string): Promise<ApiResponse<ParkedCart>> {
+    try {
+      const { data, error } = await supabase
+        .from('parked_carts')
+        .insert({
+          ...cart,
+          items: cart.items as unknown as Json,
+          discounts: cart.discounts as unknown as Json,
+          created_by: userId,
+          updated_by: userId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'parkCart', shopId: cart.shop_id });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as unknown as ParkedCart, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'parkCart', shopId: cart.shop_id });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Take a parked cart off the list and return it. The delete is the claim, so
+   * a cart already resumed on another register comes back as an error.
+   */
+  async resumeParkedCart(parkedCartId: string): Promise<ApiResponse<ParkedCart>> {
+    try {
+      const { data, error } = await supabase
+        .from('parked_carts')
+        .delete()
+        .eq('id', parkedCartId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'resumeParkedCart', parkedCartId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      if (!data) {
+        return {
+          data: null,
+          error: new Error('This cart has already been resumed or discarded'),
+        };
+      }
+
+      return { data: data as unknown as ParkedCart, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'resumeParkedCart', parkedCartId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Discard a parked cart without resuming it
+   */
+  async deleteParkedCart(parkedCartId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.from('parked_carts').delete().eq('id', parkedCartId);
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'deleteParkedCart', parkedCartId });
+        return { error: new Error(error.message) };
+      }
+
+      return { error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'deleteParkedCart', parkedCartId });
+      return { error };
+    }
+  },
+};
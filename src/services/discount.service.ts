@@ -0,0 +1,155 @@
+// Discount Service - Supabase Discount Operations
+
+import type { ApiResponse, Discount, DiscountInsert, DiscountUpdate } from '@/types';
+import { logger } from './sentry';
+import { supabase } from './supabase';
+
+export const discountService = {
+  /**
+   * Get all discounts for a shop
+   */
+  async getDiscounts(shopId: string): Promise<ApiResponse<Discount[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('discounts')
+        .select('*')
+        .eq('shop_id', shopId)
+        .order('name');
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getDiscounts', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as Discount[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getDiscounts', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Get discounts by ID, e.g. to re-check the ones applied to a cart at checkout
+   */
+  async getDiscountsByIds(discountIds: string[]): Promise<ApiResponse<Discount[]>> {
+    try {
+      const { data, error } = await supabase.from('discounts').select('*').in('id', discountIds);
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getDiscountsByIds', discountIds });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as Discount[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getDiscountsByIds', discountIds });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Create a discount
+   */
+  async createDiscount(discount: DiscountInsert, userId: string): Promise<ApiResponse<Discount>> {
+    try {
+      const { data, error } = await supabase
+        .from('discounts')
+        .insert({
+          ...discount,
+          created_by: userId,
+          updated_by: userId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'createDiscount' });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as Discount, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'createDiscount' });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Update a discount
+   */
+  async updateDiscount(
+    discountId: string,
+    updates: DiscountUpdate,
+    userId: string
+  ): Promise<ApiResponse<Discount>> {
+    try {
+      const { data, error } = await supabase
+        .from('discounts')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString(),
+          updated_by: userId,
+        })
+        .eq('id', discountId)
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'updateDiscount', discountId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as Discount, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'updateDiscount', discountId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Delete a discount. Orders keep their snapshot in order_discounts.
+   */
+  async deleteDiscount(discountId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.from('discounts').delete().eq('id', discountId);
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'deleteDiscount', discountId });
+        return { error: new Error(error.message) };
+      }
+
+      return { error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'deleteDiscount', discountId });
+      return { error };
+    }
+  },
+
+  /**
+   * Count one use of each discount for an order
+   * @returns IDs of discounts that had already reached their usage limit
+   */
+  async incrementUsage(discountIds: string[]): Promise<ApiResponse<string[]>> {
+    try {
+      const { data, error } = await supabase.rpc('increment_discount_usage', {
+        discount_ids: discountIds,
+      });
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'incrementDiscountUsage', discountIds });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data || [], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'incrementDiscountUsage', discountIds });
+      return { data: null, error };
+    }
+  },
+};
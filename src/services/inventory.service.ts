@@ -12,6 +12,7 @@ import type {
   PackageSize,
   PackageSizeInsert,
   PackageSizeUpdate,
+  StockLevels,
 } from '@/types';
 import { logger } from './sentry';
 import { supabase } from './supabase';
@@ -849,6 +850,7 @@ export const inventoryService = {
       quantity: number;
       unit_cost: number;
       reference: string; // Order ID
+      order_item_id?: string | null;
       notes?: string | null;
       transaction_on: string;
     },
@@ -891,6 +893,7 @@ export const inventoryService = {
           quantity_out: transactionData.quantity,
           unit_cost: transactionData.unit_cost,
           reference: transactionData.reference,
+          order_item_id: transactionData.order_item_id || null,
           notes: transactionData.notes || null,
           adjustment_reason_code: null,
           adjustment_reason_other: null,
@@ -930,6 +933,72 @@ export const inventoryService = {
     }
   },
 
+  // ===== Stock Levels =====
+
+  /**
+   * Get what the POS needs to tell how many of each product can be made:
+   * every product's linked inventory items, and the count on hand of each item
+   */
+  async getStockLevels(shopId: string): Promise<ApiResponse<StockLevels>> {
+    try {
+      const [recipesResult, itemsResult] = await Promise.all([
+        supabase
+          .from('product_items')
+          .select('product_id, inventory_item_id, quantity, product:products!inner(shop_id)')
+          .eq('product.shop_id', shopId)
+          .not('inventory_item_id', 'is', null),
+        supabase.from('inventory_items').select('id, current_count').eq('shop_id', shopId),
+      ]);
+
+      const error = recipesResult.error || itemsResult.error;
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getStockLevels', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      const onHand: Record<string, number> = {};
+      for (const item of itemsResult.data || []) {
+        onHand[item.id] = item.current_count || 0;
+      }
+
+      return {
+        data: {
+          recipes: (recipesResult.data || []).map((recipe) => ({
+            product_id: recipe.product_id,
+            inventory_item_id: recipe.inventory_item_id as string,
+            quantity: recipe.quantity || 0,
+          })),
+          on_hand: onHand,
+        },
+        error: null,
+      };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getStockLevels', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Listen for changes to a shop's inventory counts, e.g. sales on other registers
+   * @param onChange - Called after each change
+   * @returns Function that stops listening
+   */
+  subscribeToStockChanges(shopId: string, onChange: () => void): () => void {
+    const channel = supabase
+      .channel(`stock-levels:${shopId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'inventory_items', filter: `shop_id=eq.${shopId}` },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
   // ===== Inventory Counts =====
 
   /**
@@ -0,0 +1,193 @@
+// Kitchen Service - Supabase operations for kitchen stations and the kitchen display
+
+import type {
+  ApiResponse,
+  KitchenOrder,
+  KitchenStation,
+  KitchenStationInsert,
+  KitchenStationUpdate,
+} from '@/types';
+import { logger } from './sentry';
+import { supabase } from './supabase';
+
+export const kitchenService = {
+  // ===== Kitchen Stations =====
+
+  /**
+   * Get a shop's kitchen stations in display order
+   */
+  async getKitchenStations(shopId: string): Promise<ApiResponse<KitchenStation[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('kitchen_stations')
+        .select('*')
+        .eq('shop_id', shopId)
+        .order('sequence')
+        .order('name');
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getKitchenStations', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as KitchenStation[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getKitchenStations', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Create a kitchen station
+   */
+  async createKitchenStation(
+    station: KitchenStationInsert,
+    userId: string
+  ): Promise<ApiResponse<KitchenStation>> {
+    try {
+      const { data, error } = await supabase
+        .from('kitchen_stations')
+        .insert({ ...station, created_by: userId, updated_by: userId })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'createKitchenStation' });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as KitchenStation, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'createKitchenStation' });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Update a kitchen station
+   */
+  async updateKitchenStation(
+    stationId: string,
+    updates: KitchenStationUpdate,
+    userId: string
+  ): Promise<ApiResponse<KitchenStation>> {
+    try {
+      const { data, error } = await supabase
+        .from('kitchen_stations')
+        .update({ ...updates, updated_by: userId })
+        .eq('id', stationId)
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'updateKitchenStation', stationId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as KitchenStation, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'updateKitchenStation', stationId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Delete a kitchen station. Its categories are no longer routed anywhere.
+   */
+  async deleteKitchenStation(stationId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.from('kitchen_stations').delete().eq('id', stationId);
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'deleteKitchenStation', stationId });
+        return { error: new Error(error.message) };
+      }
+
+      return { error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'deleteKitchenStation', stationId });
+      return { error };
+    }
+  },
+
+  // ===== Kitchen Display =====
+
+  /**
+   * Get orders with lines still to make, oldest first. Each line carries the
+   * station its product's category is routed to.
+   */
+  async getKitchenOrders(shopId: string): Promise<ApiResponse<KitchenOrder[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          order_items (
+            *,
+            order_item_modifiers (*),
+            order_item_addons (*),
+            product:products (
+              category:product_categories (station_id)
+            )
+          )
+        `)
+        .eq('shop_id', shopId)
+        .in('status', ['open', 'in_preparation'])
+        .is('reversal_type', null)
+        .order('order_date');
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getKitchenOrders', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      // Note: Cast through unknown due to Supabase's limited type inference for relations
+      const orders = (data || []).map(({ order_items, ...order }) => ({
+        ...order,
+        order_items: order_items.map(({ product, ...item }) => ({
+          ...item,
+          station_id:
+            (product as unknown as { category: { station_id: string | null } | null } | null)
+              ?.category?.station_id ?? null,
+        })),
+      })) as unknown as KitchenOrder[];
+
+      return { data: orders, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getKitchenOrders', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Mark order lines as prepared. The order moves to in preparation with its
+   * first bumped line and to ready once all of them are done. The lines are
+   * recorded as prepared by the signed-in user.
+   * @param orderItemIds - Lines to bump, e.g. one line or a station's share of a ticket
+   */
+  async bumpOrderItems(orderItemIds: string[]): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase
+        .from('order_items')
+        .update({ prepared_at: new Date().toISOString() })
+        .in('id', orderItemIds)
+        .is('prepared_at', null);
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'bumpOrderItems', orderItemIds });
+        return { error: new Error(error.message) };
+      }
+
+      return { error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'bumpOrderItems', orderItemIds });
+      return { error };
+    }
+  },
+};
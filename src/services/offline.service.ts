@@ -0,0 +1,210 @@
+// Offline Service - IndexedDB catalogue cache and queue of orders taken offline
+
+import type { ApiResponse, CreateOrderData, QueuedOrder } from '@/types';
+import { logger } from './sentry';
+
+const DB_NAME = 'tindera_offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'orderQueue';
+
+interface CacheEntry {
+  key: string;
+  value: unknown;
+  saved_at: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Query keys for the offline order queue. Kept here rather than in
+// useOfflineSync so useOrder can queue orders without importing that hook.
+export const offlineKeys = {
+  all: ['offline'] as const,
+  queues: () => [...offlineKeys.all, 'queue'] as const,
+  queue: (shopId: string) => [...offlineKeys.queues(), shopId] as const,
+};
+
+/**
+ * Open the offline database, creating its stores on first use
+ * @private
+ */
+function _openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          const queue = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+          queue.createIndex('shop_id', 'shop_id');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open offline storage'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a single request against a store and resolve once its transaction commits
+ * @private
+ */
+async function _run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await _openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Whether an error means the server could not be reached, as opposed to the
+ * server rejecting the request
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(
+    message
+  );
+}
+
+export const offlineService = {
+  /**
+   * Read a cached value, or null if nothing is cached under the key
+   */
+  async getCached<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await _run<CacheEntry | undefined>(CACHE_STORE, 'readonly', (store) =>
+        store.get(key)
+      );
+      return entry ? (entry.value as T) : null;
+    } catch (err) {
+      logger.error(err as Error, { context: 'getCached', key });
+      return null;
+    }
+  },
+
+  /**
+   * Cache a value under a key, replacing what was there
+   */
+  async setCached(key: string, value: unknown): Promise<void> {
+    try {
+      const entry: CacheEntry = { key, value, saved_at: new Date().toISOString() };
+      await _run(CACHE_STORE, 'readwrite', (store) => store.put(entry));
+    } catch (err) {
+      logger.error(err as Error, { context: 'setCached', key });
+    }
+  },
+
+  /**
+   * Fetch through the cache: successful responses are saved, and when the
+   * server cannot be reached the last saved response is returned instead
+   * @param key - Cache key, including the shop id
+   * @param fetcher - Service call to make while online
+   */
+  async withCache<T>(key: string, fetcher: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+    const response = await fetcher();
+
+    if (!response.error) {
+      await this.setCached(key, response.data);
+      return response;
+    }
+
+    if (isNetworkError(response.error)) {
+      const cached = await this.getCached<T>(key);
+      if (cached !== null) return { data: cached, error: null };
+    }
+
+    return response;
+  },
+
+  /**
+   * Add an order to the end of the offline queue, under its client_order_id
+   * when it has one so a replay can't record it twice
+   */
+  async enqueueOrder(
+    orderData: CreateOrderData,
+    userId: string
+  ): Promise<ApiResponse<QueuedOrder>> {
+    try {
+      const queuedOrder: QueuedOrder = {
+        id: orderData.client_order_id ?? crypto.randomUUID(),
+        shop_id: orderData.shop_id,
+        user_id: userId,
+        order_data: orderData,
+        queued_at: new Date().toISOString(),
+        status: 'pending',
+        attempts: 0,
+        error: null,
+      };
+
+      await _run(QUEUE_STORE, 'readwrite', (store) => store.add(queuedOrder));
+      return { data: queuedOrder, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'enqueueOrder', shopId: orderData.shop_id });
+      return { data: null, error: new Error('Failed to save the order on this device') };
+    }
+  },
+
+  /**
+   * Get a shop's queued orders in the order they were taken
+   */
+  async getQueuedOrders(shopId: string): Promise<ApiResponse<QueuedOrder[]>> {
+    try {
+      const orders = await _run<QueuedOrder[]>(QUEUE_STORE, 'readonly', (store) =>
+        store.index('shop_id').getAll(shopId)
+      );
+      orders.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+      return { data: orders, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getQueuedOrders', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Save changes to a queued order, e.g. its sync status
+   */
+  async updateQueuedOrder(queuedOrder: QueuedOrder): Promise<{ error: Error | null }> {
+    try {
+      await _run(QUEUE_STORE, 'readwrite', (store) => store.put(queuedOrder));
+      return { error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'updateQueuedOrder', queuedOrderId: queuedOrder.id });
+      return { error };
+    }
+  },
+
+  /**
+   * Remove an order from the queue, once synced or discarded
+   */
+  async removeQueuedOrder(queuedOrderId: string): Promise<{ error: Error | null }> {
+    try {
+      await _run(QUEUE_STORE, 'readwrite', (store) => store.delete(queuedOrderId));
+      return { error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'removeQueuedOrder', queuedOrderId });
+      return { error };
+    }
+  },
+};
@@ -2,29 +2,74 @@
 
 import type {
   ApiResponse,
-  CartItem,
+  CheckoutPaymentData,
   CreateOrderData,
+  CreateOrderPaymentData,
+  CreateOrderRefundData,
+  InventoryTransaction,
   Order,
   OrderCreationResult,
+  OrderRefund,
+  OrderStatus,
+  OrderType,
+  OrderWithDetails,
+  OrderWithItems,
+  OrderWithPaymentType,
+  PaginatedResponse,
   PaymentType,
+  PaymentTypeInsert,
+  PaymentTypeUpdate,
+  ReverseOrderData,
+  SalesSummary,
 } from '@/types';
-import { inventoryService } from './inventory.service';
+import type { Json } from '@/types/supabase.generated';
+import { toDateInputValue } from '@/utils/date';
+import { getDiscountUnavailableReason } from '@/utils/discount';
+import { ACTIVE_ORDER_STATUSES, toOrderLine } from '@/utils/order';
+import { discountService } from './discount.service';
 import { logger } from './sentry';
 import { supabase } from './supabase';
 
+// Postgres check_violation, raised by create_order when stock runs short or a
+// table's tab changed while it was being closed out, by reverse_order and
+// create_refund when more would be reversed than is left, by pay_order_bill
+// when a bill is already paid, and when an order's status can't change that way
+const CHECK_VIOLATION_CODE = '23514';
+
+export interface OrderFilters {
+  dateFrom?: string; // ISO timestamp, inclusive
+  dateTo?: string; // ISO timestamp, inclusive
+  paymentTypeId?: string;
+  servedById?: string;
+  orderType?: OrderType;
+  search?: string; // Matches order number, customer name, email or phone
+  minTotal?: number;
+  maxTotal?: number;
+}
+
 export const orderService = {
   /**
-   * Get all active payment types for a shop
+   * Get payment types for a shop in checkout order
+   * @param includeInactive - Also return deactivated tenders, e.g. for settings
    */
-  async getPaymentTypes(shopId: string): Promise<ApiResponse<PaymentType[]>> {
+  async getPaymentTypes(
+    shopId: string,
+    includeInactive: boolean = false
+  ): Promise<ApiResponse<PaymentType[]>> {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('payment_types')
         .select('*')
         .eq('shop_id', shopId)
-        .eq('is_active', true)
+        .order('sequence')
         .order('code');
 
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query;
+
       if (error) {
         logger.error(new Error(error.message), { context: 'getPaymentTypes', shopId });
         return { data: null, error: new Error(error.message) };
@@ -39,458 +84,720 @@ export const orderService = {
   },
 
   /**
-   * Create a complete order with items, modifiers, addons, and inventory adjustments
-   * Uses a rollback pattern for transaction safety
+   * Create a payment type
    */
-  async createOrder(
-    orderData: CreateOrderData,
+  async createPaymentType(
+    paymentType: PaymentTypeInsert,
     userId: string
-  ): Promise<ApiResponse<OrderCreationResult>> {
+  ): Promise<ApiResponse<PaymentType>> {
     try {
-      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('payment_types')
+        .insert({
+          ...paymentType,
+          created_by: userId,
+          updated_by: userId,
+        })
+        .select()
+        .single();
 
-      // STEP 1: Validate inventory availability before creating order
-      const inventoryChecks = await this._validateInventoryAvailability(orderData.items);
-      if (inventoryChecks.error) {
-        return { data: null, error: inventoryChecks.error };
+      if (error) {
+        logger.error(new Error(error.message), { context: 'createPaymentType' });
+        return { data: null, error: new Error(error.message) };
       }
 
-      // STEP 2: Create the order record
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          shop_id: orderData.shop_id,
-          order_date: orderData.order_date,
-          total_sale: orderData.total_sale,
-          served_by_id: orderData.served_by_id,
-          customer_name: orderData.customer_name,
-          customer_email: orderData.customer_email,
-          customer_phone: orderData.customer_phone,
-          payment_type_id: orderData.payment_type_id,
-          payment_received: orderData.payment_received,
-          payment_amount_received: orderData.payment_amount_received,
-          payment_change: orderData.payment_change,
-          created_at: now,
-          updated_at: now,
-          created_by: userId,
+      return { data: data as PaymentType, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'createPaymentType' });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Update a payment type. Tenders used by orders are deactivated rather than deleted.
+   */
+  async updatePaymentType(
+    paymentTypeId: string,
+    updates: PaymentTypeUpdate,
+    userId: string
+  ): Promise<ApiResponse<PaymentType>> {
+    try {
+      const { data, error } = await supabase
+        .from('payment_types')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString(),
           updated_by: userId,
         })
+        .eq('id', paymentTypeId)
         .select()
         .single();
 
-      if (orderError || !order) {
-        logger.error(new Error(orderError?.message || 'Order creation failed'), {
-          context: 'createOrder_orderInsert',
-        });
-        return { data: null, error: new Error(orderError?.message || 'Order creation failed') };
+      if (error) {
+        logger.error(new Error(error.message), { context: 'updatePaymentType', paymentTypeId });
+        return { data: null, error: new Error(error.message) };
       }
 
-      // STEP 3: Create order items with modifiers and addons
-      const orderItemsResult = await this._createOrderItems(order.id, orderData.items, userId);
+      return { data: data as PaymentType, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'updatePaymentType', paymentTypeId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Get paginated order history for a shop, newest first
+   */
+  async getOrdersPaginated(
+    shopId: string,
+    page: number = 1,
+    pageSize: number = 20,
+    filters?: OrderFilters
+  ): Promise<ApiResponse<PaginatedResponse<OrderWithPaymentType>>> {
+    try {
+      const from = (page - 1) * pageSize;
+      const to = from + pageSize - 1;
+
+      let query = supabase
+        .from('orders')
+        .select(
+          `
+          *,
+          payment_type:payment_types (
+            id,
+            shop_id,
+            code,
+            description,
+            is_active
+          ),
+          order_payments (payment_type_id)
+        `,
+          { count: 'exact' }
+        )
+        .eq('shop_id', shopId)
+        .order('order_date', { ascending: false })
+        .range(from, to);
+
+      // Apply filters
+      if (filters?.dateFrom) {
+        query = query.gte('order_date', filters.dateFrom);
+      }
+
+      if (filters?.dateTo) {
+        query = query.lte('order_date', filters.dateTo);
+      }
+
+      if (filters?.paymentTypeId) {
+        // Split orders match on any of their tenders; the not-null check drops orders with none
+        query = query
+          .eq('order_payments.payment_type_id', filters.paymentTypeId)
+          .not('order_payments', 'is', null);
+      }
 
-      if (orderItemsResult.error) {
-        // Rollback: Delete the order (cascades to items/modifiers/addons)
-        await supabase.from('orders').delete().eq('id', order.id);
-        return { data: null, error: orderItemsResult.error };
+      if (filters?.servedById) {
+        query = query.eq('served_by_id', filters.servedById);
       }
 
-      // STEP 4: Decrement inventory
-      const inventoryResult = await this._decrementInventory(
-        orderData.shop_id,
-        orderData.items,
-        order.id,
-        userId
-      );
-
-      if (inventoryResult.error) {
-        // Rollback: Delete order items and order
-        await supabase.from('orders').delete().eq('id', order.id);
-        return { data: null, error: inventoryResult.error };
+      if (filters?.orderType) {
+        query = query.eq('order_type', filters.orderType);
       }
 
+      if (filters?.search) {
+        // Numbers are printed as "#A-0042", so a pasted "#" still matches
+        const term = filters.search.replace(/^#/, '');
+        query = query.or(
+          `order_number.ilike.%${term}%,customer_name.ilike.%${term}%,customer_email.ilike.%${term}%,customer_phone.ilike.%${term}%`
+        );
+      }
+
+      if (filters?.minTotal !== undefined) {
+        query = query.gte('total_sale', filters.minTotal);
+      }
+
+      if (filters?.maxTotal !== undefined) {
+        query = query.lte('total_sale', filters.maxTotal);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getOrdersPaginated', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      // Note: Cast through unknown due to Supabase's limited type inference for relations
+      const orders = (data || []).map((item) => ({
+        ...item,
+        payment_type: item.payment_type as unknown as PaymentType | null,
+      })) as unknown as OrderWithPaymentType[];
+
+      const totalCount = count || 0;
+
       return {
         data: {
-          order: order as Order,
-          inventoryAdjustments: inventoryResult.data || [],
+          data: orders,
+          count: totalCount,
+          page,
+          pageSize,
+          hasMore: from + orders.length < totalCount,
         },
         error: null,
       };
     } catch (err) {
       const error = err as Error;
-      logger.error(error, { context: 'createOrder' });
+      logger.error(error, { context: 'getOrdersPaginated', shopId });
       return { data: null, error };
     }
   },
 
   /**
-   * Validate that all required inventory items have sufficient quantity
-   * @private
+   * Get a single order with line items, modifiers, addons, payments
+   * and the inventory sale transactions it produced
    */
-  async _validateInventoryAvailability(cartItems: CartItem[]): Promise<{ error: Error | null }> {
+  async getOrder(orderId: string): Promise<ApiResponse<OrderWithDetails>> {
     try {
-      // Check each cart item's inventory requirements
-      for (const cartItem of cartItems) {
-        // Get product_items links for this product
-        const { data: productItems, error: productItemsError } = await supabase
-          .from('product_items')
-          .select(
-            'inventory_item_id, quantity, inventory_item:inventory_items(name, current_count)'
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          payment_type:payment_types (
+            id,
+            shop_id,
+            code,
+            description,
+            is_active
+          ),
+          order_items (
+            *,
+            order_item_modifiers (*),
+            order_item_addons (*)
+          ),
+          order_refunds (
+            *,
+            order_refund_items (*),
+            payment_type:payment_types (
+              id,
+              shop_id,
+              code,
+              description,
+              is_active
+            )
+          ),
+          order_tax_lines (*),
+          order_discounts (*),
+          order_bills (*),
+          order_payments (
+            *,
+            payment_type:payment_types (
+              id,
+              shop_id,
+              code,
+              description,
+              is_active,
+              opens_cash_drawer
+            )
+          ),
+          order_status_changes (*)
+        `)
+        .eq('id', orderId)
+        .order('changed_at', { referencedTable: 'order_status_changes' })
+        .single();
+
+      if (orderError) {
+        logger.error(new Error(orderError.message), { context: 'getOrder', orderId });
+        return { data: null, error: new Error(orderError.message) };
+      }
+
+      // Inventory transactions link back to the order through their reference
+      // (sales, plus any returns/waste posted when the order was voided or refunded)
+      const { data: transactions, error: transactionsError } = await supabase
+        .from('inventory_transactions')
+        .select('*')
+        .eq('shop_id', order.shop_id)
+        .in('transaction_type', ['sale', 'return', 'waste'])
+        .eq('reference', orderId)
+        .order('transaction_on')
+        .order('item_name');
+
+      if (transactionsError) {
+        logger.error(new Error(transactionsError.message), {
+          context: 'getOrder_transactions',
+          orderId,
+        });
+        return { data: null, error: new Error(transactionsError.message) };
+      }
+
+      const orderWithDetails = {
+        ...order,
+        inventory_transactions: (transactions as InventoryTransaction[]) || [],
+      } as unknown as OrderWithDetails;
+
+      return { data: orderWithDetails, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getOrder', orderId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Get orders still being prepared or waiting for pickup, oldest first.
+   * Voided and refunded orders are left out, since there is nothing to hand over.
+   */
+  async getActiveOrders(shopId: string): Promise<ApiResponse<OrderWithItems[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          order_items (
+            *,
+            order_item_modifiers (*),
+            order_item_addons (*)
           )
-          .eq('product_id', cartItem.product_id);
+        `)
+        .eq('shop_id', shopId)
+        .in('status', ACTIVE_ORDER_STATUSES)
+        .is('reversal_type', null)
+        .order('order_date');
 
-        if (productItemsError) {
-          return {
-            error: new Error(`Failed to fetch product items: ${productItemsError.message}`),
-          };
-        }
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getActiveOrders', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
 
-        // Check each product item has sufficient inventory
-        if (productItems && productItems.length > 0) {
-          for (const productItem of productItems) {
-            // Safely access inventory_item properties
-            const invItem = productItem.inventory_item;
-            if (!invItem || typeof invItem !== 'object') continue;
-
-            const invItemTyped = invItem as { name: string; current_count: number };
-            const requiredQty = (productItem.quantity || 0) * cartItem.quantity;
-
-            if ((invItemTyped.current_count || 0) < requiredQty) {
-              return {
-                error: new Error(
-                  `Insufficient inventory for ${invItemTyped.name}. Required: ${requiredQty}, Available: ${invItemTyped.current_count || 0}`
-                ),
-              };
-            }
-          }
-        }
+      return { data: (data || []) as unknown as OrderWithItems[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getActiveOrders', shopId });
+      return { data: null, error };
+    }
+  },
 
-        // Check modifiers with inventory links
-        for (const modifier of cartItem.modifiers) {
-          // Skip modifiers without inventory links
-          if (!modifier.inventory_item_id) continue;
-
-          const { data: invItem, error: invError } = await supabase
-            .from('inventory_items')
-            .select('name, current_count')
-            .eq('id', modifier.inventory_item_id)
-            .single();
-
-          if (invError || !invItem) continue;
-
-          const requiredQty = (modifier.quantity || 0) * cartItem.quantity;
-          if ((invItem.current_count || 0) < requiredQty) {
-            return {
-              error: new Error(
-                `Insufficient inventory for ${invItem.name}. Required: ${requiredQty}, Available: ${invItem.current_count || 0}`
-              ),
-            };
-          }
-        }
+  /**
+   * Move an order to a new status. The database only lets orders move forward,
+   * logs the change against the signed-in user, and records who completed the order.
+   */
+  async updateOrderStatus(orderId: string, status: OrderStatus): Promise<ApiResponse<Order>> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .update({ status })
+        .eq('id', orderId)
+        .select()
+        .single();
 
-        // Check addons with inventory links
-        for (const addon of cartItem.addons) {
-          // Skip addons without inventory links
-          if (!addon.item_id) continue;
-
-          const { data: invItem, error: invError } = await supabase
-            .from('inventory_items')
-            .select('name, current_count')
-            .eq('id', addon.item_id)
-            .single();
-
-          if (invError || !invItem) continue;
-
-          const requiredQty = addon.quantity * cartItem.quantity;
-          if ((invItem.current_count || 0) < requiredQty) {
-            return {
-              error: new Error(
-                `Insufficient inventory for ${invItem.name}. Required: ${requiredQty}, Available: ${invItem.current_count || 0}`
-              ),
-            };
-          }
+      if (error) {
+        // Moves the database refuses (e.g. an order already handed over) are expected
+        if (error.code !== CHECK_VIOLATION_CODE) {
+          logger.error(new Error(error.message), { context: 'updateOrderStatus', orderId });
         }
+        return { data: null, error: new Error(error.message) };
       }
 
-      return { error: null };
+      return { data: data as Order, error: null };
     } catch (err) {
       const error = err as Error;
-      logger.error(error, { context: '_validateInventoryAvailability' });
-      return { error };
+      logger.error(error, { context: 'updateOrderStatus', orderId });
+      return { data: null, error };
     }
   },
 
   /**
-   * Create order items with their modifiers and addons (denormalized)
-   * @private
+   * Listen for orders being taken or changing status in a shop
+   * @param onChange - Called on every change
+   * @returns Function that stops listening
    */
-  async _createOrderItems(
-    orderId: string,
-    cartItems: CartItem[],
-    userId: string
-  ): Promise<{ error: Error | null }> {
+  subscribeToOrderChanges(shopId: string, onChange: () => void): () => void {
+    // Each listener gets its own channel, since the board, dashboard and kitchen
+    // display can be open at once and a joined channel takes no new listeners
+    const channel = supabase
+      .channel(`orders:${shopId}:${crypto.randomUUID()}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'orders', filter: `shop_id=eq.${shopId}` },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  /**
+   * Create a complete order with items, modifiers, addons, and inventory adjustments.
+   * The create_order database function writes everything in one transaction, so an
+   * order is either recorded in full with its stock taken, or not at all. Sending the
+   * same client_order_id again returns the order already recorded. With a table's tab,
+   * the tab is claimed and its order paid in the same transaction.
+   */
+  async createOrder(orderData: CreateOrderData): Promise<ApiResponse<OrderCreationResult>> {
     try {
-      const now = new Date().toISOString();
-
-      // Create order items for each cart item
-      for (const cartItem of cartItems) {
-        const product = cartItem.product;
-
-        // Insert order item (denormalized product data)
-        // Get category name from ProductWithCategory if available
-        const categoryName =
-          'category' in product &&
-          product.category &&
-          typeof product.category === 'object' &&
-          'name' in product.category
-            ? (product.category as { name: string }).name
-            : null;
-
-        const { data: orderItem, error: orderItemError } = await supabase
-          .from('order_items')
-          .insert({
-            order_id: orderId,
-            product_id: product.id,
-            product_name: product.name,
-            product_description: product.description,
-            product_unit_price: product.price,
-            product_category: categoryName,
-            quantity: cartItem.quantity,
-          })
-          .select()
-          .single();
-
-        if (orderItemError || !orderItem) {
-          return {
-            error: new Error(
-              `Failed to create order item: ${orderItemError?.message || 'Unknown error'}`
-            ),
-          };
+      // STEP 1: Re-check applied discounts, which may have expired or run out since they were applied
+      const discountIds = [...new Set(orderData.discounts.map((d) => d.discount_id))];
+      if (discountIds.length > 0) {
+        const discountChecks = await this._validateDiscounts(discountIds);
+        if (discountChecks.error) {
+          return { data: null, error: discountChecks.error };
         }
+      }
 
-        // Insert order item modifiers (denormalized)
-        if (cartItem.modifiers && cartItem.modifiers.length > 0) {
-          const orderItemModifiers = cartItem.modifiers.map((modifier) => ({
-            order_item_id: orderItem.id,
-            modifier_group_id: modifier.modifier_group_id,
-            modifier_group_name: modifier.modifier_group_name,
-            modifier_id: modifier.modifier_id,
-            modifier_name: modifier.modifier_name,
-            price_adjustment: modifier.price_adjustment,
-            inventory_item_id: modifier.inventory_item_id || null,
-            quantity: modifier.quantity,
-            created_at: now,
-            updated_at: now,
-            created_by: userId,
-            updated_by: userId,
-          }));
-
-          const { error: modifiersError } = await supabase
-            .from('order_item_modifiers')
-            .insert(orderItemModifiers);
-
-          if (modifiersError) {
-            return {
-              error: new Error(`Failed to create order item modifiers: ${modifiersError.message}`),
-            };
-          }
-        }
+      // STEP 2: Check the tenders settle the order exactly (each bill, when split)
+      const paymentChecks = this._validateBills(orderData);
+      if (paymentChecks.error) {
+        return { data: null, error: paymentChecks.error };
+      }
 
-        // Insert order item addons (denormalized)
-        if (cartItem.addons && cartItem.addons.length > 0) {
-          const orderItemAddons = cartItem.addons.map((addon) => ({
-            order_item_id: orderItem.id,
-            name: addon.name,
-            quantity: addon.quantity,
-            price: addon.price,
-            item_id: addon.item_id || null,
-            created_at: now,
-            updated_at: now,
-            created_by: userId,
-            updated_by: userId,
-          }));
-
-          const { error: addonsError } = await supabase
-            .from('order_item_addons')
-            .insert(orderItemAddons);
-
-          if (addonsError) {
-            return {
-              error: new Error(`Failed to create order item addons: ${addonsError.message}`),
-            };
-          }
+      // STEP 3: Check stock for the whole cart, write the order and post sale transactions
+      // in one transaction. Every short item is named in a single error.
+      const { data, error } = await supabase.rpc('create_order', {
+        order_data: this._toOrderPayload(orderData) as unknown as Json,
+      });
+
+      if (error || !data) {
+        // Running out of stock is an expected outcome, not a failure worth reporting
+        if (error?.code !== CHECK_VIOLATION_CODE) {
+          logger.error(new Error(error?.message || 'Order creation failed'), {
+            context: 'createOrder',
+            shopId: orderData.shop_id,
+          });
         }
+        return { data: null, error: new Error(error?.message || 'Order creation failed') };
+      }
+
+      const result = data as unknown as {
+        order: Order;
+        inventory_adjustments: OrderCreationResult['inventoryAdjustments'];
+        exhausted_discount_ids: string[];
+      };
+
+      // A discount limit reached by a concurrent checkout is only logged rather than failing the order
+      if (result.exhausted_discount_ids.length > 0) {
+        logger.warn('Discount used past its usage limit', {
+          context: 'createOrder_discountUsage',
+          orderId: result.order.id,
+          discountIds: result.exhausted_discount_ids,
+        });
       }
 
-      return { error: null };
+      return {
+        data: {
+          order: result.order,
+          inventoryAdjustments: result.inventory_adjustments,
+        },
+        error: null,
+      };
     } catch (err) {
       const error = err as Error;
-      logger.error(error, { context: '_createOrderItems' });
-      return { error };
+      logger.error(error, { context: 'createOrder' });
+      return { data: null, error };
     }
   },
 
   /**
-   * Decrement inventory for all items, modifiers, and addons
-   * Returns list of inventory adjustments made
-   * @private
+   * Pay one bill of a split order. The pay_order_bill database function records
+   * the bill's tenders as soon as its guest pays, so they are kept if checkout is
+   * left part-way, checks they add up to the bill, and marks the order paid once
+   * its last bill is paid.
    */
-  async _decrementInventory(
-    shopId: string,
-    cartItems: CartItem[],
-    orderId: string,
-    userId: string
-  ): Promise<ApiResponse<Array<{ item_id: string; quantity_adjusted: number }>>> {
+  async payOrderBill(billId: string, payment: CheckoutPaymentData): Promise<ApiResponse<Order>> {
     try {
-      const adjustments: Array<{ item_id: string; quantity_adjusted: number }> = [];
-
-      // Process each cart item
-      for (const cartItem of cartItems) {
-        // 1. Decrement product items
-        const { data: productItems, error: productItemsError } = await supabase
-          .from('product_items')
-          .select('inventory_item_id, quantity, inventory_item:inventory_items(name, unit_cost)')
-          .eq('product_id', cartItem.product_id);
-
-        if (productItemsError) {
-          return {
-            data: null,
-            error: new Error(`Failed to fetch product items: ${productItemsError.message}`),
-          };
+      const { data, error } = await supabase.rpc('pay_order_bill', {
+        target_bill_id: billId,
+        bill_data: payment as unknown as Json,
+      });
+
+      if (error || !data) {
+        // A bill paid from another register, or payments short of it, is expected rather than a failure worth reporting
+        if (error?.code !== CHECK_VIOLATION_CODE) {
+          logger.error(new Error(error?.message || 'Bill payment failed'), {
+            context: 'payOrderBill',
+            billId,
+          });
         }
+        return { data: null, error: new Error(error?.message || 'Bill payment failed') };
+      }
 
-        if (productItems && productItems.length > 0) {
-          for (const productItem of productItems) {
-            // Safely access inventory_item properties
-            const invItem = productItem.inventory_item;
-            if (!invItem || typeof invItem !== 'object') continue;
-
-            const invItemTyped = invItem as { name: string; unit_cost: number };
-            const qtyToDecrement = (productItem.quantity || 0) * cartItem.quantity;
-
-            // Skip if no inventory_item_id
-            if (!productItem.inventory_item_id) continue;
-
-            const saleResult = await inventoryService.createSaleTransaction(
-              {
-                shop_id: shopId,
-                item_id: productItem.inventory_item_id,
-                item_name: invItemTyped.name,
-                quantity: qtyToDecrement,
-                unit_cost: invItemTyped.unit_cost || 0,
-                reference: orderId,
-                notes: `Product: ${cartItem.product.name} (Qty: ${cartItem.quantity})`,
-                transaction_on: new Date().toISOString(),
-              },
-              userId
-            );
-
-            if (saleResult.error) {
-              return {
-                data: null,
-                error: new Error(`Failed to decrement inventory: ${saleResult.error.message}`),
-              };
-            }
-
-            // Only push if item_id is not null
-            if (productItem.inventory_item_id) {
-              adjustments.push({
-                item_id: productItem.inventory_item_id,
-                quantity_adjusted: qtyToDecrement,
-              });
-            }
-          }
-        }
+      return { data: data as unknown as Order, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'payOrderBill', billId });
+      return { data: null, error };
+    }
+  },
 
-        // 2. Decrement modifiers with inventory links
-        for (const modifier of cartItem.modifiers) {
-          if (!modifier.inventory_item_id) continue;
-
-          const { data: invItem, error: invError } = await supabase
-            .from('inventory_items')
-            .select('name, unit_cost')
-            .eq('id', modifier.inventory_item_id)
-            .single();
-
-          if (invError || !invItem) continue;
-
-          const qtyToDecrement = (modifier.quantity || 0) * cartItem.quantity;
-
-          const saleResult = await inventoryService.createSaleTransaction(
-            {
-              shop_id: shopId,
-              item_id: modifier.inventory_item_id || '',
-              item_name: invItem.name,
-              quantity: qtyToDecrement,
-              unit_cost: invItem.unit_cost || 0,
-              reference: orderId,
-              notes: `Modifier: ${modifier.modifier_name} for ${cartItem.product.name}`,
-              transaction_on: new Date().toISOString(),
-            },
-            userId
-          );
-
-          if (saleResult.error) {
-            return {
-              data: null,
-              error: new Error(
-                `Failed to decrement modifier inventory: ${saleResult.error.message}`
-              ),
-            };
-          }
-
-          adjustments.push({
-            item_id: modifier.inventory_item_id || '',
-            quantity_adjusted: qtyToDecrement,
+  /**
+   * Void or refund an order. The order is kept and marked with the reason and
+   * acting user, and every sale transaction it produced is compensated. The
+   * reverse_order database function does both in one transaction, so an order
+   * is never left marked reversed with its stock only partly returned.
+   */
+  async reverseOrder(orderId: string, reversalData: ReverseOrderData): Promise<ApiResponse<Order>> {
+    try {
+      const { data, error } = await supabase.rpc('reverse_order', {
+        target_order_id: orderId,
+        reversal_data: reversalData as unknown as Json,
+      });
+
+      if (error || !data) {
+        // Already reversed, or voiding a refunded order, is expected rather than a failure worth reporting
+        if (error?.code !== CHECK_VIOLATION_CODE) {
+          logger.error(new Error(error?.message || 'Order reversal failed'), {
+            context: 'reverseOrder',
+            orderId,
           });
         }
+        return { data: null, error: new Error(error?.message || 'Order reversal failed') };
+      }
 
-        // 3. Decrement addons with inventory links
-        for (const addon of cartItem.addons) {
-          if (!addon.item_id) continue;
-
-          const { data: invItem, error: invError } = await supabase
-            .from('inventory_items')
-            .select('name, unit_cost')
-            .eq('id', addon.item_id)
-            .single();
-
-          if (invError || !invItem) continue;
-
-          const qtyToDecrement = addon.quantity * cartItem.quantity;
-
-          const saleResult = await inventoryService.createSaleTransaction(
-            {
-              shop_id: shopId,
-              item_id: addon.item_id || '',
-              item_name: invItem.name,
-              quantity: qtyToDecrement,
-              unit_cost: invItem.unit_cost || 0,
-              reference: orderId,
-              notes: `Addon: ${addon.name} (${addon.quantity}x) for ${cartItem.product.name}`,
-              transaction_on: new Date().toISOString(),
-            },
-            userId
-          );
-
-          if (saleResult.error) {
-            return {
-              data: null,
-              error: new Error(`Failed to decrement addon inventory: ${saleResult.error.message}`),
-            };
-          }
-
-          adjustments.push({
-            item_id: addon.item_id || '',
-            quantity_adjusted: qtyToDecrement,
+      return { data: data as unknown as Order, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'reverseOrder', orderId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Refund selected lines (or quantities of lines) of an order.
+   * Records the refund with its own amount, payment type and inventory handling,
+   * adds it to the order's refunded total and reverses the matching stock. The
+   * create_refund database function locks the order and does all of it in one
+   * transaction, so concurrent refunds can't add up to more than the order total.
+   */
+  async createRefund(refundData: CreateOrderRefundData): Promise<ApiResponse<OrderRefund>> {
+    try {
+      const { order_id, ...refund } = refundData;
+      const { data, error } = await supabase.rpc('create_refund', {
+        target_order_id: order_id,
+        refund_data: refund as unknown as Json,
+      });
+
+      if (error || !data) {
+        // A refund that is more than is left to refund is expected rather than a failure worth reporting
+        if (error?.code !== CHECK_VIOLATION_CODE) {
+          logger.error(new Error(error?.message || 'Refund creation failed'), {
+            context: 'createRefund',
+            orderId: order_id,
           });
         }
+        return { data: null, error: new Error(error?.message || 'Refund creation failed') };
       }
 
-      return { data: adjustments, error: null };
+      return { data: data as unknown as OrderRefund, error: null };
     } catch (err) {
       const error = err as Error;
-      logger.error(error, { context: '_decrementInventory' });
+      logger.error(error, { context: 'createRefund', orderId: refundData.order_id });
       return { data: null, error };
     }
   },
+
+  /**
+   * Summarise sales for a period, keeping gross sales and refunds apart.
+   * Voided orders are excluded entirely; refunds count in the period they were made.
+   * The get_sales_summary database function does the sums, so every row counts
+   * however many orders the period holds.
+   */
+  async getSalesSummary(
+    shopId: string,
+    filters?: Pick<OrderFilters, 'dateFrom' | 'dateTo' | 'orderType'>
+  ): Promise<ApiResponse<SalesSummary>> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_sales_summary', {
+          target_shop_id: shopId,
+          date_from: filters?.dateFrom,
+          date_to: filters?.dateTo,
+          filter_order_type: filters?.orderType,
+        })
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getSalesSummary', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as SalesSummary, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getSalesSummary', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Validate that the tenders add up to the order total
+   * @private
+   */
+  _validatePayments(
+    payments: CreateOrderPaymentData[],
+    totalSale: number
+  ): { error: Error | null } {
+    if (payments.some((payment) => payment.amount <= 0 || payment.change < 0)) {
+      return { error: new Error('Payment amounts must be greater than zero') };
+    }
+
+    const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    if (Math.abs(paid - totalSale) > 0.005) {
+      return { error: new Error('Payments do not add up to the order total') };
+    }
+
+    return { error: null };
+  },
+
+  /**
+   * Validate an order's tenders. A split order's bills must add up to the total
+   * and any bill already paid must be paid in full; otherwise the tenders cover the total.
+   * @private
+   */
+  _validateBills(orderData: CreateOrderData): { error: Error | null } {
+    if (orderData.bills.length === 0) {
+      return this._validatePayments(orderData.payments, orderData.total_sale);
+    }
+
+    const billed = orderData.bills.reduce((sum, bill) => sum + bill.amount, 0);
+    if (Math.abs(billed - orderData.total_sale) > 0.005) {
+      return { error: new Error('Bills do not add up to the order total') };
+    }
+
+    for (const bill of orderData.bills.filter((b) => b.payments.length > 0)) {
+      const result = this._validatePayments(bill.payments, bill.amount);
+      if (result.error) {
+        return { error: new Error(`${bill.label}: ${result.error.message}`) };
+      }
+    }
+
+    return { error: null };
+  },
+
+  /**
+   * Shape an order for the create_order database function. Lines are denormalized
+   * from the cart, and bills, lines and discounts refer to each other by position.
+   * @private
+   */
+  _toOrderPayload(orderData: CreateOrderData) {
+    // The order keeps a summary of its tenders: the largest one, what was handed over and the change
+    const payments =
+      orderData.bills.length > 0
+        ? orderData.bills.flatMap((bill) => bill.payments)
+        : orderData.payments;
+    const primaryPayment = payments.reduce<CreateOrderPaymentData | null>(
+      (largest, payment) => (!largest || payment.amount > largest.amount ? payment : largest),
+      null
+    );
+    const hasTenderedAmounts = payments.some((p) => p.amount_tendered !== null);
+
+    // Bills are numbered from 1 in the order they were split
+    const billNumberFor = (cartItemId: string) => {
+      const index = orderData.bills.findIndex((bill) => bill.cart_item_ids.includes(cartItemId));
+      return index >= 0 ? index + 1 : null;
+    };
+
+    const toPaymentRow = (payment: CreateOrderPaymentData, billNumber: number | null) => ({
+      bill_number: billNumber,
+      payment_type_id: payment.payment_type_id,
+      amount: payment.amount,
+      amount_tendered: payment.amount_tendered,
+      change: payment.change,
+      reference: payment.reference,
+    });
+
+    return {
+      client_order_id: orderData.client_order_id ?? null,
+      shop_id: orderData.shop_id,
+      order_date: orderData.order_date,
+      total_sale: orderData.total_sale,
+      served_by_id: orderData.served_by_id,
+      customer_name: orderData.customer_name,
+      customer_email: orderData.customer_email,
+      customer_phone: orderData.customer_phone,
+      payment_type_id: primaryPayment?.payment_type_id ?? null,
+      payment_received: orderData.payment_received,
+      payment_amount_received: hasTenderedAmounts
+        ? payments.reduce((sum, p) => sum + (p.amount_tendered ?? p.amount), 0)
+        : null,
+      payment_change: hasTenderedAmounts ? payments.reduce((sum, p) => sum + p.change, 0) : null,
+      subtotal: orderData.subtotal,
+      discount: orderData.discount,
+      tax: orderData.tax,
+      tax_rate: orderData.tax_rate,
+      tax_inclusive: orderData.tax_inclusive,
+      tip: orderData.tip,
+      order_type: orderData.order_type,
+      table_label: orderData.table_label,
+      delivery_address: orderData.delivery_address,
+      delivery_fee: orderData.delivery_fee,
+      // Closing out a table pays the order its rounds were added to
+      order_id: orderData.tab?.order_id ?? null,
+      round_count: orderData.tab?.round_count ?? null,
+      // Till's local day, so shops that reset order numbers daily restart at local midnight
+      business_date: toDateInputValue(orderData.order_date),
+      items: orderData.items.map((cartItem) => ({
+        ...toOrderLine(cartItem, orderData.order_type),
+        bill_number: billNumberFor(cartItem.cart_item_id),
+      })),
+      tax_lines: orderData.tax_lines.map((line) => ({
+        tax_rate_id: line.tax_rate_id,
+        name: line.name,
+        rate: line.rate,
+        taxable_amount: line.taxable_amount,
+        tax: line.tax,
+      })),
+      discounts: orderData.discounts.map((discount) => {
+        const itemIndex = discount.cart_item_id
+          ? orderData.items.findIndex((item) => item.cart_item_id === discount.cart_item_id)
+          : -1;
+        return {
+          discount_id: discount.discount_id,
+          line_number: itemIndex >= 0 ? itemIndex + 1 : null,
+          name: discount.name,
+          code: discount.code,
+          discount_type: discount.discount_type,
+          value: discount.value,
+          amount: discount.amount,
+        };
+      }),
+      bills: orderData.bills.map((bill, index) => ({
+        bill_number: index + 1,
+        label: bill.label,
+        amount: bill.amount,
+        customer_name: bill.customer_name,
+        customer_email: bill.customer_email,
+        customer_phone: bill.customer_phone,
+      })),
+      payments:
+        orderData.bills.length > 0
+          ? orderData.bills.flatMap((bill, index) =>
+              bill.payments.map((payment) => toPaymentRow(payment, index + 1))
+            )
+          : orderData.payments.map((payment) => toPaymentRow(payment, null)),
+    };
+  },
+
+  /**
+   * Validate that every applied discount is still usable
+   * @private
+   */
+  async _validateDiscounts(discountIds: string[]): Promise<{ error: Error | null }> {
+    const { data: discounts, error } = await discountService.getDiscountsByIds(discountIds);
+    if (error || !discounts) {
+      return { error: error || new Error('Failed to load discounts') };
+    }
+
+    for (const discountId of discountIds) {
+      const discount = discounts.find((d) => d.id === discountId);
+      if (!discount) {
+        return { error: new Error('An applied discount no longer exists') };
+      }
+      const reason = getDiscountUnavailableReason(discount);
+      if (reason) {
+        return { error: new Error(`${discount.name}: ${reason}`) };
+      }
+    }
+
+    return { error: null };
+  },
 };
@@ -46,7 +46,8 @@ export const productService = {
             shop_id,
             name,
             description,
-            sequence
+            sequence,
+            tax_rate_id
           )
         `)
         .eq('shop_id', shopId)
@@ -87,6 +88,27 @@ export const productService = {
     }
   },
 
+  /**
+   * Get products by ID, e.g. to re-check prices in a restored cart.
+   * Deleted products are simply missing from the result.
+   */
+  async getProductsByIds(productIds: string[]): Promise<ApiResponse<Product[]>> {
+    try {
+      const { data, error } = await supabase.from('products').select('*').in('id', productIds);
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getProductsByIds', productIds });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as Product[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getProductsByIds', productIds });
+      return { data: null, error };
+    }
+  },
+
   /**
    * Get paginated products for a shop
    */
@@ -110,7 +132,8 @@ export const productService = {
             shop_id,
             name,
             description,
-            sequence
+            sequence,
+            tax_rate_id
           )
         `,
           { count: 'exact' }
@@ -177,7 +200,8 @@ export const productService = {
             shop_id,
             name,
             description,
-            sequence
+            sequence,
+            tax_rate_id
           )
         `)
         .eq('id', productId)
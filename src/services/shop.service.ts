@@ -1,6 +1,15 @@
 // Shop Service - Supabase Shop Operations
 
-import type { ApiResponse, Shop, ShopInsert, ShopUpdate, ShopUser } from '@/types';
+import type {
+	ApiResponse,
+	Shop,
+	ShopInsert,
+	ShopUpdate,
+	ShopUserWithProfile,
+	TaxRate,
+	TaxRateInsert,
+	TaxRateUpdate,
+} from '@/types';
 import { logger } from './sentry';
 import { supabase } from './supabase';
 
@@ -25,6 +34,9 @@ export const shopService = {
             location,
             currency_code,
             image_url,
+            tax_rate,
+            tax_label,
+            tax_inclusive,
             created_at,
             updated_at,
             created_by,
@@ -165,9 +177,9 @@ export const shopService = {
 	},
 
 	/**
-	 * Get users for a shop
+	 * Get users for a shop, including their display names
 	 */
-	async getShopUsers(shopId: string): Promise<ApiResponse<ShopUser[]>> {
+	async getShopUsers(shopId: string): Promise<ApiResponse<ShopUserWithProfile[]>> {
 		try {
 			const { data, error } = await supabase.from('shop_users').select('*').eq('shop_id', shopId);
 
@@ -176,7 +188,21 @@ export const shopService = {
 				return { data: null, error: new Error(error.message) };
 			}
 
-			return { data: data as ShopUser[], error: null };
+			// shop_users references auth.users, so profiles can't be embedded - fetch them separately
+			const userIds = (data || []).map((shopUser) => shopUser.user_id);
+			const { data: profiles } = await supabase
+				.from('user_profiles')
+				.select('id, display_name')
+				.in('id', userIds);
+
+			const users = (data || []).map((shopUser) => ({
+				shop_id: shopUser.shop_id,
+				user_id: shopUser.user_id,
+				role: shopUser.role,
+				display_name: profiles?.find((p) => p.id === shopUser.user_id)?.display_name ?? null,
+			}));
+
+			return { data: users as ShopUserWithProfile[], error: null };
 		} catch (err) {
 			const error = err as Error;
 			logger.error(error, { context: 'getShopUsers', shopId });
@@ -288,4 +314,102 @@ export const shopService = {
 			return { data: null, error };
 		}
 	},
+	// ===== Tax Rates =====
+
+	/**
+	 * Get all named tax rates for a shop
+	 */
+	async getTaxRates(shopId: string): Promise<ApiResponse<TaxRate[]>> {
+		try {
+			const { data, error } = await supabase
+				.from('tax_rates')
+				.select('*')
+				.eq('shop_id', shopId)
+				.order('name');
+
+			if (error) {
+				logger.error(new Error(error.message), { context: 'getTaxRates', shopId });
+				return { data: null, error: new Error(error.message) };
+			}
+
+			return { data: data as TaxRate[], error: null };
+		} catch (err) {
+			const error = err as Error;
+			logger.error(error, { context: 'getTaxRates', shopId });
+			return { data: null, error };
+		}
+	},
+
+	/**
+	 * Create a named tax rate
+	 */
+	async createTaxRate(taxRate: TaxRateInsert, userId: string): Promise<ApiResponse<TaxRate>> {
+		try {
+			const { data, error } = await supabase
+				.from('tax_rates')
+				.insert({ ...taxRate, created_by: userId, updated_by: userId })
+				.select()
+				.single();
+
+			if (error) {
+				logger.error(new Error(error.message), { context: 'createTaxRate' });
+				return { data: null, error: new Error(error.message) };
+			}
+
+			return { data: data as TaxRate, error: null };
+		} catch (err) {
+			const error = err as Error;
+			logger.error(error, { context: 'createTaxRate' });
+			return { data: null, error };
+		}
+	},
+
+	/**
+	 * Update a named tax rate
+	 */
+	async updateTaxRate(
+		taxRateId: string,
+		updates: TaxRateUpdate,
+		userId: string
+	): Promise<ApiResponse<TaxRate>> {
+		try {
+			const { data, error } = await supabase
+				.from('tax_rates')
+				.update({ ...updates, updated_by: userId, updated_at: new Date().toISOString() })
+				.eq('id', taxRateId)
+				.select()
+				.single();
+
+			if (error) {
+				logger.error(new Error(error.message), { context: 'updateTaxRate', taxRateId });
+				return { data: null, error: new Error(error.message) };
+			}
+
+			return { data: data as TaxRate, error: null };
+		} catch (err) {
+			const error = err as Error;
+			logger.error(error, { context: 'updateTaxRate', taxRateId });
+			return { data: null, error };
+		}
+	},
+
+	/**
+	 * Delete a named tax rate. Categories and products using it fall back to the shop default.
+	 */
+	async deleteTaxRate(taxRateId: string): Promise<{ error: Error | null }> {
+		try {
+			const { error } = await supabase.from('tax_rates').delete().eq('id', taxRateId);
+
+			if (error) {
+				logger.error(new Error(error.message), { context: 'deleteTaxRate', taxRateId });
+				return { error: new Error(error.message) };
+			}
+
+			return { error: null };
+		} catch (err) {
+			const error = err as Error;
+			logger.error(error, { context: 'deleteTaxRate', taxRateId });
+			return { error };
+		}
+	},
 };
@@ -0,0 +1,414 @@
+// Table Service - Supabase operations for table areas, dining tables and their tabs
+
+import type {
+  ApiResponse,
+  CartItem,
+  DiningTable,
+  DiningTableInsert,
+  DiningTableUpdate,
+  TableArea,
+  TableAreaInsert,
+  TableAreaUpdate,
+  TableTab,
+} from '@/types';
+import type { Json } from '@/types/supabase.generated';
+import { toDateInputValue } from '@/utils/date';
+import { toOrderLine } from '@/utils/order';
+import { logger } from './sentry';
+import { supabase } from './supabase';
+
+// Postgres check_violation, raised by add_table_round when stock runs short and
+// by merge_table_tabs when a table has no tab
+const CHECK_VIOLATION_CODE = '23514';
+// Postgres unique_violation, raised when a tab moves to a table that has one
+const UNIQUE_VIOLATION_CODE = '23505';
+// Postgres foreign_key_violation, raised when deleting a table that has a tab
+const FOREIGN_KEY_VIOLATION_CODE = '23503';
+
+// A round sent from the till to a table's tab
+export type TableRoundData = Pick<TableTab, 'customer_name' | 'item_count' | 'subtotal'> & {
+  items: CartItem[];
+};
+
+export const tableService = {
+  // ===== Table Areas =====
+
+  /**
+   * Get a shop's table areas in display order
+   */
+  async getTableAreas(shopId: string): Promise<ApiResponse<TableArea[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('table_areas')
+        .select('*')
+        .eq('shop_id', shopId)
+        .order('sequence')
+        .order('name');
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getTableAreas', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as TableArea[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getTableAreas', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Create a table area
+   */
+  async createTableArea(area: TableAreaInsert, userId: string): Promise<ApiResponse<TableArea>> {
+    try {
+      const { data, error } = await supabase
+        .from('table_areas')
+        .insert({ ...area, created_by: userId, updated_by: userId })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'createTableArea' });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as TableArea, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'createTableArea' });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Update a table area
+   */
+  async updateTableArea(
+    areaId: string,
+    updates: TableAreaUpdate,
+    userId: string
+  ): Promise<ApiResponse<TableArea>> {
+    try {
+      const { data, error } = await supabase
+        .from('table_areas')
+        .update({ ...updates, updated_by: userId })
+        .eq('id', areaId)
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'updateTableArea', areaId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as TableArea, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'updateTableArea', areaId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Delete a table area with its tables. Refused while any of them has a tab.
+   */
+  async deleteTableArea(areaId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.from('table_areas').delete().eq('id', areaId);
+
+      if (error) {
+        if (error.code === FOREIGN_KEY_VIOLATION_CODE) {
+          return { error: new Error('Close out or move the open tabs in this area first') };
+        }
+        logger.error(new Error(error.message), { context: 'deleteTableArea', areaId });
+        return { error: new Error(error.message) };
+      }
+
+      return { error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'deleteTableArea', areaId });
+      return { error };
+    }
+  },
+
+  // ===== Dining Tables =====
+
+  /**
+   * Get every table in a shop, across all areas
+   */
+  async getDiningTables(shopId: string): Promise<ApiResponse<DiningTable[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('dining_tables')
+        .select('*')
+        .eq('shop_id', shopId)
+        .order('name');
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getDiningTables', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as DiningTable[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getDiningTables', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Create a dining table
+   */
+  async createDiningTable(
+    table: DiningTableInsert,
+    userId: string
+  ): Promise<ApiResponse<DiningTable>> {
+    try {
+      const { data, error } = await supabase
+        .from('dining_tables')
+        .insert({ ...table, created_by: userId, updated_by: userId })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'createDiningTable' });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as DiningTable, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'createDiningTable' });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Update a dining table, including moving it on the floor plan
+   */
+  async updateDiningTable(
+    tableId: string,
+    updates: DiningTableUpdate,
+    userId: string
+  ): Promise<ApiResponse<DiningTable>> {
+    try {
+      const { data, error } = await supabase
+        .from('dining_tables')
+        .update({ ...updates, updated_by: userId })
+        .eq('id', tableId)
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'updateDiningTable', tableId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as DiningTable, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'updateDiningTable', tableId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Delete a dining table. Refused while it has a tab.
+   */
+  async deleteDiningTable(tableId: string): Promise<{ error: Error | null }> {
+    try {
+      const { error } = await supabase.from('dining_tables').delete().eq('id', tableId);
+
+      if (error) {
+        if (error.code === FOREIGN_KEY_VIOLATION_CODE) {
+          return { error: new Error('Close out or move the open tab before deleting this table') };
+        }
+        logger.error(new Error(error.message), { context: 'deleteDiningTable', tableId });
+        return { error: new Error(error.message) };
+      }
+
+      return { error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'deleteDiningTable', tableId });
+      return { error };
+    }
+  },
+
+  // ===== Table Tabs =====
+
+  /**
+   * Get the open tabs in a shop, one per occupied table
+   */
+  async getTableTabs(shopId: string): Promise<ApiResponse<TableTab[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('table_tabs')
+        .select('*')
+        .eq('shop_id', shopId)
+        .order('opened_at');
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'getTableTabs', shopId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as unknown as TableTab[], error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'getTableTabs', shopId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Listen for tabs being opened, added to, moved or closed in a shop
+   * @returns Unsubscribe function
+   */
+  subscribeToTableTabChanges(shopId: string, onChange: () => void): () => void {
+    const channel = supabase
+      .channel(`table_tabs:${shopId}:${crypto.randomUUID()}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'table_tabs', filter: `shop_id=eq.${shopId}` },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  /**
+   * Add a round to a table's order, seating the table if it is free. The round's
+   * lines go to the kitchen and their stock is taken straight away.
+   */
+  async addTableRound(tableId: string, round: TableRoundData): Promise<ApiResponse<TableTab>> {
+    try {
+      const { data, error } = await supabase.rpc('add_table_round', {
+        target_table_id: tableId,
+        round_data: {
+          ...round,
+          items: round.items.map((item) => toOrderLine(item, 'dine_in')),
+          // Till's local day, which a newly seated table's order number counts within
+          business_date: toDateInputValue(new Date().toISOString()),
+        } as unknown as Json,
+      });
+
+      if (error) {
+        // Running out of stock is an expected outcome, not a failure worth reporting
+        if (error.code !== CHECK_VIOLATION_CODE) {
+          logger.error(new Error(error.message), { context: 'addTableRound', tableId });
+        }
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as unknown as TableTab, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'addTableRound', tableId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Mark a tab as waiting for the bill, or take the request back
+   */
+  async setBillRequested(
+    tabId: string,
+    requested: boolean,
+    userId: string
+  ): Promise<ApiResponse<TableTab>> {
+    try {
+      const { data, error } = await supabase
+        .from('table_tabs')
+        .update({
+          bill_requested_at: requested ? new Date().toISOString() : null,
+          updated_by: userId,
+        })
+        .eq('id', tabId)
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(new Error(error.message), { context: 'setBillRequested', tabId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as unknown as TableTab, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'setBillRequested', tabId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Move a tab to a free table, e.g. when the guests change seats
+   */
+  async transferTableTab(
+    tabId: string,
+    targetTableId: string,
+    userId: string
+  ): Promise<ApiResponse<TableTab>> {
+    try {
+      const { data, error } = await supabase
+        .from('table_tabs')
+        .update({ table_id: targetTableId, updated_by: userId })
+        .eq('id', tabId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === UNIQUE_VIOLATION_CODE) {
+          return {
+            data: null,
+            error: new Error('That table already has a tab. Merge the tabs instead.'),
+          };
+        }
+        logger.error(new Error(error.message), { context: 'transferTableTab', tabId });
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as unknown as TableTab, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'transferTableTab', tabId });
+      return { data: null, error };
+    }
+  },
+
+  /**
+   * Merge one table's tab into another table's, freeing the first table
+   */
+  async mergeTableTabs(
+    sourceTableId: string,
+    targetTableId: string
+  ): Promise<ApiResponse<TableTab>> {
+    try {
+      const { data, error } = await supabase.rpc('merge_table_tabs', {
+        source_table_id: sourceTableId,
+        target_table_id: targetTableId,
+      });
+
+      if (error) {
+        // A tab closed out or moved on another register is expected, not a failure worth reporting
+        if (error.code !== CHECK_VIOLATION_CODE) {
+          logger.error(new Error(error.message), { context: 'mergeTableTabs', sourceTableId });
+        }
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as unknown as TableTab, error: null };
+    } catch (err) {
+      const error = err as Error;
+      logger.error(error, { context: 'mergeTableTabs', sourceTableId });
+      return { data: null, error };
+    }
+  },
+};
@@ -6,6 +6,8 @@ export enum InventoryTransactionType {
 	Sale = 'sale',
 	Adjustment = 'adjustment',
 	CountAdjustment = 'countAdjustment',
+	Return = 'return',
+	Waste = 'waste',
 }
 
 export enum UnitOfMeasure {
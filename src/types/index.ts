@@ -45,6 +45,13 @@ export interface Shop extends Auditable {
   location: string | null;
   currency_code: string;
   image_url: string | null;
+  tax_rate: number; // Percent applied by the cart
+  tax_label: string; // e.g. "VAT", "GST"
+  tax_inclusive: boolean; // Shelf prices already include tax
+  receipt_header: string | null; // Printed under the shop name on receipts
+  receipt_footer: string | null; // Printed at the bottom of receipts
+  order_number_prefix: string | null; // e.g. "A-" for order A-0042
+  order_number_daily_reset: boolean; // Order numbers restart at 1 each day
 }
 
 export interface ShopUser {
@@ -53,12 +60,37 @@ export interface ShopUser {
   role: string;
 }
 
+export interface ShopUserWithProfile extends ShopUser {
+  display_name: string | null;
+}
+
 export interface PaymentType {
   id: string;
   shop_id: string;
   code: string;
   description: string | null;
   is_active: boolean;
+  sequence: number; // Display order at checkout
+  opens_cash_drawer: boolean;
+  allows_change: boolean; // May exceed the balance; the excess is given back as change
+  requires_reference: boolean; // Cashier records a reference number, e.g. card approval code
+}
+
+export interface TaxRate extends Auditable {
+  id: string;
+  shop_id: string;
+  name: string; // e.g. "Standard", "Zero-rated"
+  rate: number; // Percent
+}
+
+// Kitchen or bar display that product categories are routed to
+export interface KitchenStation extends Auditable {
+  id: string;
+  shop_id: string;
+  name: string; // e.g. "Grill", "Bar"
+  sequence: number;
+  target_minutes: number; // Tickets waiting longer are running behind
+  late_minutes: number; // Tickets waiting longer are late
 }
 
 // ===== Category Types =====
@@ -69,6 +101,8 @@ export interface ProductCategory {
   name: string;
   description: string | null;
   sequence: number;
+  tax_rate_id: string | null; // NULL = shop default
+  station_id: string | null; // Kitchen station its products are routed to
 }
 
 export interface InventoryCategory {
@@ -112,7 +146,12 @@ export interface Product extends Auditable {
   remarks: string | null;
   price: number;
   category_id: string | null;
+  tax_rate_id: string | null; // Overrides the category's rate; NULL = use category
   image_url: string | null;
+  // Added to the price for each order type, e.g. a takeaway packaging charge
+  dine_in_price_adjustment: number;
+  takeaway_price_adjustment: number;
+  delivery_price_adjustment: number;
 }
 
 export interface ProductWithCategory extends Product {
@@ -294,6 +333,7 @@ export interface InventoryTransaction extends Auditable {
   adjustment_reason_other: string | null;
   unit_cost: number;
   supplier: string | null;
+  order_item_id: string | null; // Order line this sale/return/waste belongs to
 }
 
 export interface InventoryCount extends Auditable {
@@ -316,11 +356,66 @@ export interface InventoryCountItem {
   notes: string | null;
 }
 
+// Stock the POS works from to tell how many of each product can be made
+export interface StockLevels {
+  recipes: Array<{ product_id: string; inventory_item_id: string; quantity: number }>;
+  on_hand: Record<string, number>; // inventory_item_id -> current_count
+}
+
+// ===== Discount Types =====
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export type DiscountScope = 'order' | 'product' | 'category';
+
+export interface Discount extends Auditable {
+  id: string;
+  shop_id: string;
+  name: string;
+  code: string | null; // Promo code; NULL = picked from the list at the till
+  discount_type: DiscountType;
+  value: number; // Percent, or amount (per unit for product/category discounts)
+  scope: DiscountScope;
+  product_id: string | null; // Set when scope is 'product'
+  category_id: string | null; // Set when scope is 'category'
+  starts_at: string | null;
+  ends_at: string | null;
+  usage_limit: number | null; // Max orders; NULL = unlimited
+  usage_count: number;
+  is_active: boolean;
+}
+
+// A discount as it applies to the current cart
+export interface AppliedDiscount {
+  discount_id: string;
+  name: string;
+  code: string | null;
+  discount_type: DiscountType;
+  value: number;
+  cart_item_id: string | null; // NULL for order-level discounts
+  amount: number;
+}
+
+export interface OrderDiscount {
+  id: string;
+  order_id: string;
+  discount_id: string | null;
+  order_item_id: string | null;
+  name: string;
+  code: string | null;
+  discount_type: DiscountType;
+  value: number;
+  amount: number;
+  created_at: string;
+}
+
 // ===== Order Types =====
 
-export interface Order extends Auditable {
+export interface Order extends Auditable, OrderTypeDetails {
   id: string;
   shop_id: string;
+  order_number: string | null; // Per-shop sequence with the shop's prefix, e.g. "A-0042"
+  client_order_id: string | null; // Given by the till, so a repeated attempt returns this order
   order_date: string;
   total_sale: number;
   served_by_id: string | null;
@@ -333,11 +428,74 @@ export interface Order extends Auditable {
   payment_received: boolean;
   payment_amount_received: number | null;
   payment_change: number | null;
+  subtotal: number; // Line totals before discount, tax and tip
+  discount: number;
+  tax: number;
+  tax_rate: number; // Percent used when the order was placed
+  tax_inclusive: boolean; // Tax was included in prices rather than added on top
+  tip: number;
+  reversal_type: OrderReversalType | null; // null while the order stands
+  reversal_reason: string | null;
+  reversed_by_id: string | null;
+  reversed_at: string | null;
+  refunded_total: number; // Sum of partial refunds; net total = total_sale - refunded_total
+  status: OrderStatus;
+  status_changed_at: string | null;
+}
+
+export type OrderReversalType = 'voided' | 'refunded';
+
+export type OrderType = 'dine_in' | 'takeaway' | 'delivery';
+
+// How an order is served, chosen when the cart is started
+export interface OrderTypeDetails {
+  order_type: OrderType;
+  table_label: string | null; // Dine-in only
+  delivery_address: string | null; // Delivery only
+  delivery_fee: number; // Delivery only; added to the total untaxed
+}
+
+// Orders move forward through these, skipping steps as needed; completed means handed over
+export type OrderStatus = 'open' | 'in_preparation' | 'ready' | 'completed' | 'cancelled';
+
+export interface OrderStatusChange {
+  id: string;
+  order_id: string;
+  shop_id: string;
+  from_status: OrderStatus | null; // null for the status the order was taken with
+  to_status: OrderStatus;
+  changed_at: string;
+  changed_by: string | null;
 }
 
-export interface OrderWithDetails extends Order {
+export type InventoryHandling = 'restock' | 'waste'; // waste keeps returned goods out of stock
+
+export interface OrderWithPaymentType extends Order {
   payment_type: PaymentType | null;
-  order_items: OrderItem[];
+}
+
+export interface OrderWithItems extends Order {
+  order_items: OrderItemWithDetails[];
+}
+
+export interface KitchenOrderItem extends OrderItemWithDetails {
+  station_id: string | null; // From the product's category; null when not routed
+}
+
+// Order as shown on the kitchen display
+export interface KitchenOrder extends Order {
+  order_items: KitchenOrderItem[];
+}
+
+export interface OrderWithDetails extends OrderWithPaymentType {
+  order_items: OrderItemWithDetails[];
+  order_status_changes: OrderStatusChange[];
+  inventory_transactions: InventoryTransaction[]; // Sale/return/waste transactions referencing this order
+  order_refunds: OrderRefundWithItems[];
+  order_tax_lines: OrderTaxLine[];
+  order_discounts: OrderDiscount[];
+  order_payments: OrderPaymentWithType[];
+  order_bills: OrderBill[];
 }
 
 export interface OrderItem {
@@ -349,6 +507,9 @@ export interface OrderItem {
   product_unit_price: number;
   product_category: string | null;
   quantity: number;
+  bill_id: string | null; // Set when the order was split by line
+  prepared_at: string | null; // Bumped on the kitchen display
+  prepared_by: string | null;
 }
 
 export interface OrderItemAddon {
@@ -360,6 +521,82 @@ export interface OrderItemAddon {
   item_id: string | null;
 }
 
+export interface OrderItemWithDetails extends OrderItem {
+  order_item_modifiers: OrderItemModifier[];
+  order_item_addons: OrderItemAddon[];
+}
+
+// Tax collected at one rate; tax_rate_id is null for the shop default rate
+export interface TaxLine {
+  tax_rate_id: string | null;
+  name: string;
+  rate: number;
+  taxable_amount: number;
+  tax: number;
+}
+
+export interface OrderTaxLine extends TaxLine {
+  id: string;
+  order_id: string;
+}
+
+// One tender towards an order; only cash is over-tendered, giving change
+export interface OrderPayment {
+  id: string;
+  order_id: string;
+  bill_id: string | null; // Set when the order was split into bills
+  payment_type_id: string | null;
+  amount: number; // Paid towards the order
+  amount_tendered: number | null; // Cash handed over (amount + change)
+  change: number;
+  reference: string | null;
+  created_at: string;
+  created_by: string | null;
+}
+
+export interface OrderPaymentWithType extends OrderPayment {
+  payment_type: PaymentType | null;
+}
+
+// One guest's share of a split order, paid and receipted on its own
+export interface OrderBill {
+  id: string;
+  order_id: string;
+  bill_number: number;
+  label: string;
+  amount: number;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  created_at: string;
+  created_by: string | null;
+}
+
+export interface OrderRefund extends Auditable {
+  id: string;
+  shop_id: string;
+  order_id: string;
+  amount: number;
+  payment_type_id: string | null;
+  reason: string;
+  inventory_handling: InventoryHandling;
+  refunded_by_id: string;
+  refunded_at: string;
+}
+
+export interface OrderRefundItem {
+  id: string;
+  refund_id: string;
+  order_item_id: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface OrderRefundWithItems extends OrderRefund {
+  order_refund_items: OrderRefundItem[];
+  payment_type: PaymentType | null;
+}
+
 // ===== Cart Types (Client-side only) =====
 
 export interface Cart {
@@ -376,6 +613,7 @@ export interface CartItem {
   addons: CartItemAddon[];
   modifiers: CartItemModifier[];
   available: boolean;
+  order_item_id?: string; // Line already on a table's order, sent with an earlier round
 }
 
 export interface CartItemAddon {
@@ -396,6 +634,57 @@ export interface CartItemModifier {
   quantity: number; // Quantity per product (for inventory decrement)
 }
 
+// A cart set aside at the till and resumed later, possibly on another register
+export interface ParkedCart extends Auditable, OrderTypeDetails {
+  id: string;
+  shop_id: string;
+  label: string; // Label or customer name shown in the parked list
+  customer_name: string | null;
+  notes: string | null;
+  items: CartItem[];
+  discounts: Discount[];
+  item_count: number;
+  subtotal: number; // Before discounts and tax
+}
+
+// ===== Table Types =====
+
+// Seating area with its own floor plan, e.g. "Inside", "Patio"
+export interface TableArea extends Auditable {
+  id: string;
+  shop_id: string;
+  name: string;
+  sequence: number;
+}
+
+export interface DiningTable extends Auditable {
+  id: string;
+  shop_id: string;
+  area_id: string;
+  name: string; // e.g. "4", "Patio 2"
+  seats: number | null;
+  position_x: number; // Left edge on the floor plan, percent of its width
+  position_y: number; // Top edge on the floor plan, percent of its height
+}
+
+// A table's open tab, holding the order its rounds are added to until it is closed out at checkout
+export interface TableTab extends Auditable {
+  id: string;
+  shop_id: string;
+  table_id: string;
+  order_id: string;
+  customer_name: string | null;
+  item_count: number;
+  subtotal: number; // Before discounts and tax
+  round_count: number;
+  opened_at: string; // When the table was seated
+  last_round_at: string | null;
+  bill_requested_at: string | null;
+}
+
+// Derived from the table's tab: none, ordering, or waiting for the bill
+export type TableStatus = 'free' | 'occupied' | 'bill_requested';
+
 // ===== Form Input Types =====
 
 export type ProductInsert = Omit<
@@ -404,6 +693,44 @@ export type ProductInsert = Omit<
 >;
 export type ProductUpdate = Partial<ProductInsert>;
 
+export type DiscountInsert = Omit<
+  Discount,
+  'id' | 'usage_count' | 'created_at' | 'updated_at' | 'created_by' | 'updated_by'
+>;
+export type DiscountUpdate = Partial<Omit<DiscountInsert, 'shop_id'>>;
+
+export type ParkedCartInsert = Omit<
+  ParkedCart,
+  'id' | 'created_at' | 'updated_at' | 'created_by' | 'updated_by'
+>;
+
+export type TaxRateInsert = Omit<
+  TaxRate,
+  'id' | 'created_at' | 'updated_at' | 'created_by' | 'updated_by'
+>;
+export type TaxRateUpdate = Partial<Omit<TaxRateInsert, 'shop_id'>>;
+
+export type KitchenStationInsert = Omit<
+  KitchenStation,
+  'id' | 'created_at' | 'updated_at' | 'created_by' | 'updated_by'
+>;
+export type KitchenStationUpdate = Partial<Omit<KitchenStationInsert, 'shop_id'>>;
+
+export type TableAreaInsert = Omit<
+  TableArea,
+  'id' | 'created_at' | 'updated_at' | 'created_by' | 'updated_by'
+>;
+export type TableAreaUpdate = Partial<Omit<TableAreaInsert, 'shop_id'>>;
+
+export type DiningTableInsert = Omit<
+  DiningTable,
+  'id' | 'created_at' | 'updated_at' | 'created_by' | 'updated_by'
+>;
+export type DiningTableUpdate = Partial<Omit<DiningTableInsert, 'shop_id'>>;
+
+export type PaymentTypeInsert = Omit<PaymentType, 'id'>;
+export type PaymentTypeUpdate = Partial<Omit<PaymentTypeInsert, 'shop_id'>>;
+
 export type ProductModifierGroupInsert = Omit<
   ProductModifierGroup,
   'id' | 'created_at' | 'updated_at'
@@ -451,8 +778,31 @@ export type OrderUpdate = Partial<OrderInsert>;
 
 export type ShopInsert = Omit<
   Shop,
-  'id' | 'created_at' | 'updated_at' | 'created_by' | 'updated_by'
->;
+  | 'id'
+  | 'created_at'
+  | 'updated_at'
+  | 'created_by'
+  | 'updated_by'
+  | 'tax_rate'
+  | 'tax_label'
+  | 'tax_inclusive'
+  | 'receipt_header'
+  | 'receipt_footer'
+  | 'order_number_prefix'
+  | 'order_number_daily_reset'
+> &
+  Partial<
+    Pick<
+      Shop,
+      | 'tax_rate'
+      | 'tax_label'
+      | 'tax_inclusive'
+      | 'receipt_header'
+      | 'receipt_footer'
+      | 'order_number_prefix'
+      | 'order_number_daily_reset'
+    >
+  >; // Tax, receipt and order number settings default in the database
 export type ShopUpdate = Partial<ShopInsert>;
 
 // ===== Checkout Types =====
@@ -461,11 +811,41 @@ export interface CheckoutFormData {
   customer_name: string;
   customer_email: string;
   customer_phone: string;
-  payment_type_id: string;
-  cash_received: number | null;
+  payment_type_id: string; // Tender being entered
+  tender_amount: number | null;
+  tender_reference: string;
+}
+
+export interface CreateOrderPaymentData {
+  payment_type_id: string | null;
+  amount: number;
+  amount_tendered: number | null;
+  change: number;
+  reference: string | null;
+}
+
+export type BillSplitMode = 'items' | 'even';
+
+// A bill proposed when splitting the cart; cart_item_ids is empty for an even split
+export interface SplitBill {
+  label: string;
+  cart_item_ids: string[];
+  amount: number;
+}
+
+// The tenders and customer details taken for an order or one of its bills
+export interface CheckoutPaymentData {
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  payments: CreateOrderPaymentData[]; // Must add up to the amount paid
 }
 
-export interface CreateOrderData {
+// Bills are taken unpaid, with empty payments, and paid one at a time afterwards
+export interface CreateOrderBillData extends SplitBill, CheckoutPaymentData {}
+
+export interface CreateOrderData extends OrderTypeDetails {
+  client_order_id?: string; // Kept across retries and the offline queue so the order is recorded once
   shop_id: string;
   order_date: string;
   total_sale: number;
@@ -473,14 +853,46 @@ export interface CreateOrderData {
   customer_name: string | null;
   customer_email: string | null;
   customer_phone: string | null;
-  payment_type_id: string | null;
   payment_received: boolean;
-  payment_amount_received: number | null;
-  payment_change: number | null;
   items: CartItem[];
+  subtotal: number;
   tax: number;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  tax_lines: TaxLine[];
   discount: number;
+  discounts: AppliedDiscount[];
   tip: number;
+  payments: CreateOrderPaymentData[]; // Must add up to total_sale; empty when split into bills
+  bills: CreateOrderBillData[]; // Bill amounts must add up to total_sale
+  tab?: Pick<TableTab, 'order_id' | 'round_count'>; // Table tab being closed out, whose order this pays
+}
+
+export interface ReverseOrderData {
+  reversal_type: OrderReversalType;
+  reason: string;
+  inventory_handling: InventoryHandling;
+}
+
+export interface CreateOrderRefundData {
+  order_id: string;
+  amount: number;
+  payment_type_id: string | null;
+  reason: string;
+  inventory_handling: InventoryHandling;
+  items: Array<{
+    order_item_id: string;
+    quantity: number;
+    amount: number;
+  }>;
+}
+
+export interface SalesSummary {
+  gross_sales: number; // Orders that were not voided
+  refunds: number; // Partial refunds plus fully refunded orders
+  net_sales: number;
+  order_count: number;
+  refund_count: number;
 }
 
 export interface OrderCreationResult {
@@ -491,6 +903,20 @@ export interface OrderCreationResult {
   }>;
 }
 
+// Orders taken while offline wait in the local queue until they sync
+export type QueuedOrderStatus = 'pending' | 'failed';
+
+export interface QueuedOrder {
+  id: string;
+  shop_id: string;
+  user_id: string;
+  order_data: CreateOrderData;
+  queued_at: string;
+  status: QueuedOrderStatus;
+  attempts: number;
+  error: string | null; // Why the last sync was rejected, e.g. not enough stock
+}
+
 // ===== API Response Types =====
 
 export interface ApiResponse<T> {
@@ -14,6 +14,148 @@ export type Database = {
   }
   public: {
     Tables: {
+      dining_tables: {
+        Row: {
+          area_id: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          position_x: number
+          position_y: number
+          seats: number | null
+          shop_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          area_id: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          position_x?: number
+          position_y?: number
+          seats?: number | null
+          shop_id: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          area_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          position_x?: number
+          position_y?: number
+          seats?: number | null
+          shop_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dining_tables_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "table_areas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dining_tables_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      discounts: {
+        Row: {
+          category_id: string | null
+          code: string | null
+          created_at: string | null
+          created_by: string | null
+          discount_type: string
+          ends_at: string | null
+          id: string
+          is_active: boolean
+          name: string
+          product_id: string | null
+          scope: string
+          shop_id: string
+          starts_at: string | null
+          updated_at: string | null
+          updated_by: string | null
+          usage_count: number
+          usage_limit: number | null
+          value: number
+        }
+        Insert: {
+          category_id?: string | null
+          code?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          discount_type: string
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          product_id?: string | null
+          scope?: string
+          shop_id: string
+          starts_at?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+          usage_count?: number
+          usage_limit?: number | null
+          value: number
+        }
+        Update: {
+          category_id?: string | null
+          code?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          discount_type?: string
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          product_id?: string | null
+          scope?: string
+          shop_id?: string
+          starts_at?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+          usage_count?: number
+          usage_limit?: number | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discounts_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "product_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discounts_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discounts_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inventory_categories: {
         Row: {
           created_at: string | null
@@ -247,6 +389,7 @@ export type Database = {
           item_id: string
           item_name: string
           notes: string | null
+          order_item_id: string | null
           package_cost_per_unit: number | null
           package_quantity: number | null
           package_size_id: string | null
@@ -271,6 +414,7 @@ export type Database = {
           item_id: string
           item_name: string
           notes?: string | null
+          order_item_id?: string | null
           package_cost_per_unit?: number | null
           package_quantity?: number | null
           package_size_id?: string | null
@@ -295,6 +439,7 @@ export type Database = {
           item_id?: string
           item_name?: string
           notes?: string | null
+          order_item_id?: string | null
           package_cost_per_unit?: number | null
           package_quantity?: number | null
           package_size_id?: string | null
@@ -318,6 +463,13 @@ export type Database = {
             referencedRelation: "inventory_items"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "inventory_transactions_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "inventory_transactions_package_size_id_fkey"
             columns: ["package_size_id"]
@@ -334,6 +486,53 @@ export type Database = {
           },
         ]
       }
+      kitchen_stations: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          late_minutes: number
+          name: string
+          sequence: number
+          shop_id: string
+          target_minutes: number
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          late_minutes?: number
+          name: string
+          sequence?: number
+          shop_id: string
+          target_minutes?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          late_minutes?: number
+          name?: string
+          sequence?: number
+          shop_id?: string
+          target_minutes?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kitchen_stations_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       modifier_groups: {
         Row: {
           created_at: string
@@ -447,6 +646,114 @@ export type Database = {
           },
         ]
       }
+      order_bills: {
+        Row: {
+          amount: number
+          bill_number: number
+          created_at: string | null
+          created_by: string | null
+          customer_email: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          id: string
+          label: string
+          order_id: string
+        }
+        Insert: {
+          amount: number
+          bill_number: number
+          created_at?: string | null
+          created_by?: string | null
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          id?: string
+          label: string
+          order_id: string
+        }
+        Update: {
+          amount?: number
+          bill_number?: number
+          created_at?: string | null
+          created_by?: string | null
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          id?: string
+          label?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_bills_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_discounts: {
+        Row: {
+          amount: number
+          code: string | null
+          created_at: string | null
+          discount_id: string | null
+          discount_type: string
+          id: string
+          name: string
+          order_id: string
+          order_item_id: string | null
+          value: number
+        }
+        Insert: {
+          amount?: number
+          code?: string | null
+          created_at?: string | null
+          discount_id?: string | null
+          discount_type: string
+          id?: string
+          name: string
+          order_id: string
+          order_item_id?: string | null
+          value?: number
+        }
+        Update: {
+          amount?: number
+          code?: string | null
+          created_at?: string | null
+          discount_id?: string | null
+          discount_type?: string
+          id?: string
+          name?: string
+          order_id?: string
+          order_item_id?: string | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_discounts_discount_id_fkey"
+            columns: ["discount_id"]
+            isOneToOne: false
+            referencedRelation: "discounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_item_addons: {
         Row: {
           created_at: string | null
@@ -552,10 +859,13 @@ export type Database = {
       }
       order_items: {
         Row: {
+          bill_id: string | null
           created_at: string | null
           created_by: string | null
           id: string
           order_id: string
+          prepared_at: string | null
+          prepared_by: string | null
           product_category: string | null
           product_description: string | null
           product_id: string | null
@@ -566,10 +876,13 @@ export type Database = {
           updated_by: string | null
         }
         Insert: {
+          bill_id?: string | null
           created_at?: string | null
           created_by?: string | null
           id?: string
           order_id: string
+          prepared_at?: string | null
+          prepared_by?: string | null
           product_category?: string | null
           product_description?: string | null
           product_id?: string | null
@@ -580,10 +893,13 @@ export type Database = {
           updated_by?: string | null
         }
         Update: {
+          bill_id?: string | null
           created_at?: string | null
           created_by?: string | null
           id?: string
           order_id?: string
+          prepared_at?: string | null
+          prepared_by?: string | null
           product_category?: string | null
           product_description?: string | null
           product_id?: string | null
@@ -594,6 +910,13 @@ export type Database = {
           updated_by?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "order_items_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "order_bills"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "order_items_order_id_fkey"
             columns: ["order_id"]
@@ -610,63 +933,412 @@ export type Database = {
           },
         ]
       }
+      order_number_sequences: {
+        Row: {
+          last_number: number
+          period: string
+          shop_id: string
+        }
+        Insert: {
+          last_number?: number
+          period: string
+          shop_id: string
+        }
+        Update: {
+          last_number?: number
+          period?: string
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_number_sequences_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_payments: {
+        Row: {
+          amount: number
+          amount_tendered: number | null
+          bill_id: string | null
+          change: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          order_id: string
+          payment_type_id: string | null
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          amount_tendered?: number | null
+          bill_id?: string | null
+          change?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          order_id: string
+          payment_type_id?: string | null
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_tendered?: number | null
+          bill_id?: string | null
+          change?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          order_id?: string
+          payment_type_id?: string | null
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "order_bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_payments_payment_type_id_fkey"
+            columns: ["payment_type_id"]
+            isOneToOne: false
+            referencedRelation: "payment_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_refund_items: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          refund_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_refund_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "order_refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_refunds: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          inventory_handling: string
+          order_id: string
+          payment_type_id: string | null
+          reason: string
+          refunded_at: string
+          refunded_by_id: string
+          shop_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          inventory_handling?: string
+          order_id: string
+          payment_type_id?: string | null
+          reason: string
+          refunded_at?: string
+          refunded_by_id: string
+          shop_id: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          inventory_handling?: string
+          order_id?: string
+          payment_type_id?: string | null
+          reason?: string
+          refunded_at?: string
+          refunded_by_id?: string
+          shop_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_payment_type_id_fkey"
+            columns: ["payment_type_id"]
+            isOneToOne: false
+            referencedRelation: "payment_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: string | null
+          id: string
+          order_id: string
+          shop_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string | null
+          id?: string
+          order_id: string
+          shop_id: string
+          to_status: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string | null
+          id?: string
+          order_id?: string
+          shop_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_changes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_changes_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_tax_lines: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          order_id: string
+          rate: number
+          tax: number
+          tax_rate_id: string | null
+          taxable_amount: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          order_id: string
+          rate?: number
+          tax?: number
+          tax_rate_id?: string | null
+          taxable_amount?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          order_id?: string
+          rate?: number
+          tax?: number
+          tax_rate_id?: string | null
+          taxable_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_tax_lines_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_tax_lines_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
+          client_order_id: string | null
           created_at: string | null
           created_by: string | null
           customer_email: string | null
           customer_name: string | null
           customer_phone: string | null
           customer_reference: string | null
+          delivery_address: string | null
+          delivery_fee: number
+          discount: number
           dispatched_by_id: string | null
           id: string
           order_date: string | null
+          order_number: string | null
+          order_type: string
           payment_amount_received: number | null
           payment_change: number | null
           payment_received: boolean | null
           payment_type_id: string | null
+          refunded_total: number
+          reversal_reason: string | null
+          reversal_type: string | null
+          reversed_at: string | null
+          reversed_by_id: string | null
           served_by_id: string | null
           shop_id: string
+          status: string
+          status_changed_at: string | null
+          subtotal: number
+          table_label: string | null
+          tax: number
+          tax_inclusive: boolean
+          tax_rate: number
+          tip: number
           total_sale: number | null
           updated_at: string | null
           updated_by: string | null
         }
         Insert: {
+          client_order_id?: string | null
           created_at?: string | null
           created_by?: string | null
           customer_email?: string | null
           customer_name?: string | null
           customer_phone?: string | null
           customer_reference?: string | null
+          delivery_address?: string | null
+          delivery_fee?: number
+          discount?: number
           dispatched_by_id?: string | null
           id?: string
           order_date?: string | null
+          order_number?: string | null
+          order_type?: string
           payment_amount_received?: number | null
           payment_change?: number | null
           payment_received?: boolean | null
           payment_type_id?: string | null
+          refunded_total?: number
+          reversal_reason?: string | null
+          reversal_type?: string | null
+          reversed_at?: string | null
+          reversed_by_id?: string | null
           served_by_id?: string | null
           shop_id: string
+          status?: string
+          status_changed_at?: string | null
+          subtotal?: number
+          table_label?: string | null
+          tax?: number
+          tax_inclusive?: boolean
+          tax_rate?: number
+          tip?: number
           total_sale?: number | null
           updated_at?: string | null
           updated_by?: string | null
         }
         Update: {
+          client_order_id?: string | null
           created_at?: string | null
           created_by?: string | null
           customer_email?: string | null
           customer_name?: string | null
           customer_phone?: string | null
           customer_reference?: string | null
+          delivery_address?: string | null
+          delivery_fee?: number
+          discount?: number
           dispatched_by_id?: string | null
           id?: string
           order_date?: string | null
+          order_number?: string | null
+          order_type?: string
           payment_amount_received?: number | null
           payment_change?: number | null
           payment_received?: boolean | null
           payment_type_id?: string | null
+          refunded_total?: number
+          reversal_reason?: string | null
+          reversal_type?: string | null
+          reversed_at?: string | null
+          reversed_by_id?: string | null
           served_by_id?: string | null
           shop_id?: string
+          status?: string
+          status_changed_at?: string | null
+          subtotal?: number
+          table_label?: string | null
+          tax?: number
+          tax_inclusive?: boolean
+          tax_rate?: number
+          tip?: number
           total_sale?: number | null
           updated_at?: string | null
           updated_by?: string | null
@@ -751,36 +1423,116 @@ export type Database = {
           },
         ]
       }
+      parked_carts: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          customer_name: string | null
+          delivery_address: string | null
+          delivery_fee: number
+          discounts: Json
+          id: string
+          item_count: number
+          items: Json
+          label: string
+          notes: string | null
+          order_type: string
+          shop_id: string
+          subtotal: number
+          table_label: string | null
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          customer_name?: string | null
+          delivery_address?: string | null
+          delivery_fee?: number
+          discounts?: Json
+          id?: string
+          item_count?: number
+          items?: Json
+          label: string
+          notes?: string | null
+          order_type?: string
+          shop_id: string
+          subtotal?: number
+          table_label?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          customer_name?: string | null
+          delivery_address?: string | null
+          delivery_fee?: number
+          discounts?: Json
+          id?: string
+          item_count?: number
+          items?: Json
+          label?: string
+          notes?: string | null
+          order_type?: string
+          shop_id?: string
+          subtotal?: number
+          table_label?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parked_carts_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payment_types: {
         Row: {
+          allows_change: boolean
           code: string
           created_at: string | null
           created_by: string | null
           description: string | null
           id: string
           is_active: boolean | null
+          opens_cash_drawer: boolean
+          requires_reference: boolean
+          sequence: number | null
           shop_id: string
           updated_at: string | null
           updated_by: string | null
         }
         Insert: {
+          allows_change?: boolean
           code: string
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           id?: string
           is_active?: boolean | null
+          opens_cash_drawer?: boolean
+          requires_reference?: boolean
+          sequence?: number | null
           shop_id: string
           updated_at?: string | null
           updated_by?: string | null
         }
         Update: {
+          allows_change?: boolean
           code?: string
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           id?: string
           is_active?: boolean | null
+          opens_cash_drawer?: boolean
+          requires_reference?: boolean
+          sequence?: number | null
           shop_id?: string
           updated_at?: string | null
           updated_by?: string | null
@@ -857,6 +1609,8 @@ export type Database = {
           name: string
           sequence: number | null
           shop_id: string
+          station_id: string | null
+          tax_rate_id: string | null
           updated_at: string | null
           updated_by: string | null
         }
@@ -868,6 +1622,8 @@ export type Database = {
           name: string
           sequence?: number | null
           shop_id: string
+          station_id?: string | null
+          tax_rate_id?: string | null
           updated_at?: string | null
           updated_by?: string | null
         }
@@ -879,6 +1635,8 @@ export type Database = {
           name?: string
           sequence?: number | null
           shop_id?: string
+          station_id?: string | null
+          tax_rate_id?: string | null
           updated_at?: string | null
           updated_by?: string | null
         }
@@ -890,6 +1648,20 @@ export type Database = {
             referencedRelation: "shops"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "product_categories_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "kitchen_stations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_categories_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       product_items: {
@@ -1151,7 +1923,9 @@ export type Database = {
           category_id: string | null
           created_at: string | null
           created_by: string | null
+          delivery_price_adjustment: number
           description: string | null
+          dine_in_price_adjustment: number
           id: string
           image_url: string | null
           name: string
@@ -1159,6 +1933,8 @@ export type Database = {
           remarks: string | null
           shop_id: string
           tags: string[] | null
+          takeaway_price_adjustment: number
+          tax_rate_id: string | null
           updated_at: string | null
           updated_by: string | null
         }
@@ -1166,7 +1942,9 @@ export type Database = {
           category_id?: string | null
           created_at?: string | null
           created_by?: string | null
+          delivery_price_adjustment?: number
           description?: string | null
+          dine_in_price_adjustment?: number
           id?: string
           image_url?: string | null
           name: string
@@ -1174,6 +1952,8 @@ export type Database = {
           remarks?: string | null
           shop_id: string
           tags?: string[] | null
+          takeaway_price_adjustment?: number
+          tax_rate_id?: string | null
           updated_at?: string | null
           updated_by?: string | null
         }
@@ -1181,7 +1961,9 @@ export type Database = {
           category_id?: string | null
           created_at?: string | null
           created_by?: string | null
+          delivery_price_adjustment?: number
           description?: string | null
+          dine_in_price_adjustment?: number
           id?: string
           image_url?: string | null
           name?: string
@@ -1189,6 +1971,8 @@ export type Database = {
           remarks?: string | null
           shop_id?: string
           tags?: string[] | null
+          takeaway_price_adjustment?: number
+          tax_rate_id?: string | null
           updated_at?: string | null
           updated_by?: string | null
         }
@@ -1207,6 +1991,13 @@ export type Database = {
             referencedRelation: "shops"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "products_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       shop_users: {
@@ -1257,6 +2048,13 @@ export type Database = {
           image_url: string | null
           location: string | null
           name: string
+          order_number_daily_reset: boolean
+          order_number_prefix: string | null
+          receipt_footer: string | null
+          receipt_header: string | null
+          tax_inclusive: boolean
+          tax_label: string
+          tax_rate: number
           updated_at: string | null
           updated_by: string | null
         }
@@ -1269,6 +2067,13 @@ export type Database = {
           image_url?: string | null
           location?: string | null
           name: string
+          order_number_daily_reset?: boolean
+          order_number_prefix?: string | null
+          receipt_footer?: string | null
+          receipt_header?: string | null
+          tax_inclusive?: boolean
+          tax_label?: string
+          tax_rate?: number
           updated_at?: string | null
           updated_by?: string | null
         }
@@ -1281,11 +2086,176 @@ export type Database = {
           image_url?: string | null
           location?: string | null
           name?: string
+          order_number_daily_reset?: boolean
+          order_number_prefix?: string | null
+          receipt_footer?: string | null
+          receipt_header?: string | null
+          tax_inclusive?: boolean
+          tax_label?: string
+          tax_rate?: number
           updated_at?: string | null
           updated_by?: string | null
         }
         Relationships: []
       }
+      table_areas: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          sequence: number
+          shop_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          sequence?: number
+          shop_id: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          sequence?: number
+          shop_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "table_areas_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      table_tabs: {
+        Row: {
+          bill_requested_at: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_name: string | null
+          id: string
+          item_count: number
+          last_round_at: string | null
+          opened_at: string
+          order_id: string
+          round_count: number
+          shop_id: string
+          subtotal: number
+          table_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          bill_requested_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_name?: string | null
+          id?: string
+          item_count?: number
+          last_round_at?: string | null
+          opened_at?: string
+          order_id?: string
+          round_count?: number
+          shop_id: string
+          subtotal?: number
+          table_id: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          bill_requested_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_name?: string | null
+          id?: string
+          item_count?: number
+          last_round_at?: string | null
+          opened_at?: string
+          order_id?: string
+          round_count?: number
+          shop_id?: string
+          subtotal?: number
+          table_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "table_tabs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "table_tabs_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "table_tabs_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: true
+            referencedRelation: "dining_tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_rates: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          rate: number
+          shop_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          rate?: number
+          shop_id: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          rate?: number
+          shop_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_rates_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_profiles: {
         Row: {
           avatar_url: string | null
@@ -1321,8 +2291,212 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_order_lines: {
+        Args: {
+          bill_ids: string[]
+          items: Json
+          taken_at: string
+          target_order: Database["public"]["Tables"]["orders"]["Row"]
+        }
+        Returns: Record<string, unknown>
+      }
+      add_table_round: {
+        Args: { round_data: Json; target_table_id: string }
+        Returns: {
+          bill_requested_at: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_name: string | null
+          id: string
+          item_count: number
+          last_round_at: string | null
+          opened_at: string
+          order_id: string
+          round_count: number
+          shop_id: string
+          subtotal: number
+          table_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      check_order_stock: { Args: { requirements: Json }; Returns: undefined }
+      create_order: {
+        Args: { order_data: Json }
+        Returns: Json
+      }
+      create_refund: {
+        Args: { refund_data: Json; target_order_id: string }
+        Returns: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          inventory_handling: string
+          order_id: string
+          payment_type_id: string | null
+          reason: string
+          refunded_at: string
+          refunded_by_id: string
+          shop_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      get_sales_summary: {
+        Args: {
+          date_from?: string
+          date_to?: string
+          filter_order_type?: string
+          target_shop_id: string
+        }
+        Returns: {
+          gross_sales: number
+          net_sales: number
+          order_count: number
+          refund_count: number
+          refunds: number
+        }[]
+      }
+      increment_discount_usage: {
+        Args: { discount_ids: string[] }
+        Returns: string[]
+      }
       is_shop_admin: { Args: { check_shop_id: string }; Returns: boolean }
       is_shop_owner: { Args: { check_shop_id: string }; Returns: boolean }
+      merge_table_tabs: {
+        Args: { source_table_id: string; target_table_id: string }
+        Returns: {
+          bill_requested_at: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_name: string | null
+          id: string
+          item_count: number
+          last_round_at: string | null
+          opened_at: string
+          order_id: string
+          round_count: number
+          shop_id: string
+          subtotal: number
+          table_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      next_order_number: {
+        Args: { business_date: string; target_shop_id: string }
+        Returns: string
+      }
+      order_item_values: {
+        Args: { target_order_id: string }
+        Returns: {
+          amount: number
+          order_item_id: string
+        }[]
+      }
+      order_stock_requirements: {
+        Args: { items: Json }
+        Returns: {
+          inventory_item_id: string
+          line_number: number
+          notes: string
+          quantity: number
+        }[]
+      }
+      pay_order_bill: {
+        Args: { bill_data: Json; target_bill_id: string }
+        Returns: {
+          client_order_id: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_email: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_reference: string | null
+          delivery_address: string | null
+          delivery_fee: number
+          discount: number
+          dispatched_by_id: string | null
+          id: string
+          order_date: string | null
+          order_number: string | null
+          order_type: string
+          payment_amount_received: number | null
+          payment_change: number | null
+          payment_received: boolean | null
+          payment_type_id: string | null
+          refunded_total: number
+          reversal_reason: string | null
+          reversal_type: string | null
+          reversed_at: string | null
+          reversed_by_id: string | null
+          served_by_id: string | null
+          shop_id: string
+          status: string
+          status_changed_at: string | null
+          subtotal: number
+          table_label: string | null
+          tax: number
+          tax_inclusive: boolean
+          tax_rate: number
+          tip: number
+          total_sale: number | null
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      reverse_order: {
+        Args: { reversal_data: Json; target_order_id: string }
+        Returns: {
+          client_order_id: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_email: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_reference: string | null
+          delivery_address: string | null
+          delivery_fee: number
+          discount: number
+          dispatched_by_id: string | null
+          id: string
+          order_date: string | null
+          order_number: string | null
+          order_type: string
+          payment_amount_received: number | null
+          payment_change: number | null
+          payment_received: boolean | null
+          payment_type_id: string | null
+          refunded_total: number
+          reversal_reason: string | null
+          reversal_type: string | null
+          reversed_at: string | null
+          reversed_by_id: string | null
+          served_by_id: string | null
+          shop_id: string
+          status: string
+          status_changed_at: string | null
+          subtotal: number
+          table_label: string | null
+          tax: number
+          tax_inclusive: boolean
+          tax_rate: number
+          tip: number
+          total_sale: number | null
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      reverse_order_stock: {
+        Args: {
+          handling: string
+          refund_lines?: Json
+          reversal_notes: string
+          target_order_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
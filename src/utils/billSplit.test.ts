@@ -0,0 +1,61 @@
+import type { CartItem } from '@/types';
+import { splitByItems, splitEvenly } from './billSplit';
+
+const makeItem = (cartItemId: string): CartItem => ({ cart_item_id: cartItemId }) as CartItem;
+
+const totalOf = (bills: { amount: number }[]) =>
+  Math.round(bills.reduce((sum, bill) => sum + bill.amount * 100, 0)) / 100;
+
+describe('splitEvenly', () => {
+  it('gives the leftover cents to the first bills', () => {
+    expect(splitEvenly(10, 3)).toEqual([
+      { label: 'Guest 1', cart_item_ids: [], amount: 3.34 },
+      { label: 'Guest 2', cart_item_ids: [], amount: 3.33 },
+      { label: 'Guest 3', cart_item_ids: [], amount: 3.33 },
+    ]);
+  });
+
+  it('adds up to the rounded total', () => {
+    const bills = splitEvenly(47.555, 4);
+    expect(bills.map((bill) => bill.amount)).toEqual([11.89, 11.89, 11.89, 11.89]);
+    expect(totalOf(bills)).toBe(47.56);
+  });
+
+  it('always makes at least one whole bill', () => {
+    expect(splitEvenly(12.5, 0)).toHaveLength(1);
+    expect(splitEvenly(12.5, 2.7)).toHaveLength(2);
+  });
+});
+
+describe('splitByItems', () => {
+  const items = [makeItem('a'), makeItem('b'), makeItem('c')];
+
+  it('bills each guest for their lines, in guest order', () => {
+    const bills = splitByItems(items, { a: 10, b: 5.5, c: 4.5 }, { a: 3, b: 1, c: 3 }, 20);
+
+    expect(bills).toEqual([
+      { label: 'Guest 1', cart_item_ids: ['b'], amount: 5.5 },
+      { label: 'Guest 3', cart_item_ids: ['a', 'c'], amount: 14.5 },
+    ]);
+  });
+
+  it('puts unassigned lines on the first guest', () => {
+    const bills = splitByItems(items, { a: 1, b: 2, c: 3 }, { b: 2 }, 6);
+
+    expect(bills.map((bill) => [bill.label, bill.cart_item_ids])).toEqual([
+      ['Guest 1', ['a', 'c']],
+      ['Guest 2', ['b']],
+    ]);
+  });
+
+  it('puts rounding differences on the last bill', () => {
+    const bills = splitByItems(items, { a: 3.333, b: 3.333, c: 3.334 }, { a: 1, b: 2, c: 3 }, 10);
+
+    expect(bills.map((bill) => bill.amount)).toEqual([3.33, 3.33, 3.34]);
+    expect(totalOf(bills)).toBe(10);
+  });
+
+  it('returns no bills for an empty cart', () => {
+    expect(splitByItems([], {}, {}, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+// Bill Splitting Utilities
+
+import type { CartItem, SplitBill } from '@/types';
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Split an order total evenly. Amounts are in whole cents; the first bills
+ * take the leftover cents so the bills add up to the rounded total.
+ * @param total - Order total
+ * @param ways - Number of bills
+ * @returns One bill per guest
+ */
+export function splitEvenly(total: number, ways: number): SplitBill[] {
+  const count = Math.max(1, Math.floor(ways));
+  const totalCents = toCents(total);
+  const share = Math.floor(totalCents / count);
+  const remainder = totalCents - share * count;
+
+  return Array.from({ length: count }, (_, index) => ({
+    label: `Guest ${index + 1}`,
+    cart_item_ids: [],
+    amount: (share + (index < remainder ? 1 : 0)) / 100,
+  }));
+}
+
+/**
+ * Split an order by assigning each cart line to a guest. Guests without lines
+ * are left out; rounding differences go to the last bill.
+ * @param items - Cart lines
+ * @param lineTotals - Cart item ID to the line's share of the order total
+ * @param assignments - Cart item ID to guest number (1-based)
+ * @param total - Order total
+ * @returns One bill per guest with lines
+ */
+export function splitByItems(
+  items: CartItem[],
+  lineTotals: Record<string, number>,
+  assignments: Record<string, number>,
+  total: number
+): SplitBill[] {
+  const guests = [...new Set(items.map((item) => assignments[item.cart_item_id] ?? 1))].sort(
+    (a, b) => a - b
+  );
+
+  const bills = guests.map((guest) => {
+    const cartItemIds = items
+      .filter((item) => (assignments[item.cart_item_id] ?? 1) === guest)
+      .map((item) => item.cart_item_id);
+    const amount = cartItemIds.reduce((sum, id) => sum + (lineTotals[id] || 0), 0);
+    return { label: `Guest ${guest}`, cart_item_ids: cartItemIds, amount: toCents(amount) / 100 };
+  });
+
+  if (bills.length > 0) {
+    const billedCents = bills.reduce((sum, bill) => sum + toCents(bill.amount), 0);
+    const last = bills[bills.length - 1];
+    last.amount = (toCents(last.amount) + toCents(total) - billedCents) / 100;
+  }
+
+  return bills;
+}
@@ -33,3 +33,12 @@ export function createCurrencyFormatter(
 ): (amount: number) => string {
 	return (amount: number) => formatCurrency(amount, currencyCode, locale);
 }
+
+/**
+ * Round an amount to whole cents
+ * @param amount - The amount to round
+ * @returns The amount to two decimal places
+ */
+export function roundCurrency(amount: number): number {
+	return Math.round(amount * 100) / 100;
+}
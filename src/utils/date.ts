@@ -73,3 +73,16 @@ export function formatRelativeTime(dateString: string): string {
 	// For older dates, use the formatDateLabel function
 	return formatDateLabel(dateString);
 }
+
+/**
+ * Converts an ISO timestamp to a local yyyy-mm-dd value for date inputs
+ * @param iso - ISO date string (optional)
+ * @returns Date input value, or an empty string
+ */
+export function toDateInputValue(iso?: string | null): string {
+	if (!iso) return '';
+	const date = new Date(iso);
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
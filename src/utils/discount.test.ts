@@ -0,0 +1,166 @@
+import type { CartItem, Discount, Product } from '@/types';
+import {
+  calculateDiscounts,
+  discountAppliesToItem,
+  getDiscountUnavailableReason,
+} from './discount';
+
+const makeItem = (id: string, amount: number, quantity = 1, categoryId = 'cat-1'): CartItem => ({
+  cart_item_id: `line-${id}`,
+  product_id: id,
+  product: { id, category_id: categoryId, price: amount / quantity } as Product,
+  quantity,
+  amount,
+  addons: [],
+  modifiers: [],
+  available: true,
+});
+
+const makeDiscount = (overrides: Partial<Discount>): Discount =>
+  ({
+    id: 'discount-1',
+    shop_id: 'shop-1',
+    name: 'Discount',
+    code: null,
+    discount_type: 'percentage',
+    value: 10,
+    scope: 'order',
+    product_id: null,
+    category_id: null,
+    starts_at: null,
+    ends_at: null,
+    usage_limit: null,
+    usage_count: 0,
+    is_active: true,
+    ...overrides,
+  }) as Discount;
+
+describe('getDiscountUnavailableReason', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('accepts an active discount inside its window', () => {
+    const discount = makeDiscount({
+      starts_at: '2026-02-01T00:00:00Z',
+      ends_at: '2026-04-01T00:00:00Z',
+    });
+    expect(getDiscountUnavailableReason(discount, now)).toBeNull();
+  });
+
+  it('rejects inactive, future, expired and used-up discounts', () => {
+    expect(getDiscountUnavailableReason(makeDiscount({ is_active: false }), now)).toBe(
+      'This discount is not active'
+    );
+    expect(
+      getDiscountUnavailableReason(makeDiscount({ starts_at: '2026-03-02T00:00:00Z' }), now)
+    ).toBe('This discount has not started yet');
+    expect(getDiscountUnavailableReason(makeDiscount({ ends_at: now.toISOString() }), now)).toBe(
+      'This discount has expired'
+    );
+    expect(
+      getDiscountUnavailableReason(makeDiscount({ usage_limit: 5, usage_count: 5 }), now)
+    ).toBe('This discount has reached its usage limit');
+  });
+});
+
+describe('discountAppliesToItem', () => {
+  const item = makeItem('product-1', 10, 1, 'cat-1');
+
+  it('matches product and category discounts to their lines', () => {
+    expect(
+      discountAppliesToItem(makeDiscount({ scope: 'product', product_id: 'product-1' }), item)
+    ).toBe(true);
+    expect(
+      discountAppliesToItem(makeDiscount({ scope: 'product', product_id: 'product-2' }), item)
+    ).toBe(false);
+    expect(
+      discountAppliesToItem(makeDiscount({ scope: 'category', category_id: 'cat-1' }), item)
+    ).toBe(true);
+  });
+
+  it('never matches order-level discounts', () => {
+    expect(discountAppliesToItem(makeDiscount({ scope: 'order' }), item)).toBe(false);
+  });
+});
+
+describe('calculateDiscounts', () => {
+  it('applies fixed item-level discounts per unit', () => {
+    const items = [makeItem('product-1', 30, 3), makeItem('product-2', 20)];
+    const result = calculateDiscounts(items, [
+      makeDiscount({
+        scope: 'product',
+        product_id: 'product-1',
+        discount_type: 'fixed',
+        value: 2,
+      }),
+    ]);
+
+    expect(result.lineDiscounts).toEqual({ 'line-product-1': 6 });
+    expect(result.orderDiscount).toBe(0);
+    expect(result.total).toBe(6);
+    expect(result.applied).toHaveLength(1);
+    expect(result.applied[0]).toMatchObject({ cart_item_id: 'line-product-1', amount: 6 });
+  });
+
+  it('applies order-level discounts to what item-level discounts leave', () => {
+    const items = [makeItem('product-1', 40), makeItem('product-2', 60)];
+    const result = calculateDiscounts(items, [
+      makeDiscount({ id: 'order-10', scope: 'order', value: 10 }),
+      makeDiscount({ id: 'item-50', scope: 'product', product_id: 'product-1', value: 50 }),
+    ]);
+
+    // 50% off the 40 line, then 10% off the remaining 80
+    expect(result.lineDiscounts).toEqual({ 'line-product-1': 20 });
+    expect(result.orderDiscount).toBe(8);
+    expect(result.total).toBe(28);
+    expect(result.applied.map((a) => [a.discount_id, a.cart_item_id, a.amount])).toEqual([
+      ['item-50', 'line-product-1', 20],
+      ['order-10', null, 8],
+    ]);
+  });
+
+  it('stacks item-level discounts without taking a line below zero', () => {
+    const items = [makeItem('product-1', 10)];
+    const result = calculateDiscounts(items, [
+      makeDiscount({ id: 'a', scope: 'product', product_id: 'product-1', value: 80 }),
+      makeDiscount({
+        id: 'b',
+        scope: 'category',
+        category_id: 'cat-1',
+        discount_type: 'fixed',
+        value: 5,
+      }),
+      makeDiscount({ id: 'c', scope: 'product', product_id: 'product-1', value: 50 }),
+    ]);
+
+    expect(result.lineDiscounts).toEqual({ 'line-product-1': 10 });
+    expect(result.applied.map((a) => [a.discount_id, a.amount])).toEqual([
+      ['a', 8],
+      ['b', 2],
+    ]);
+  });
+
+  it('never takes the order below zero', () => {
+    const items = [makeItem('product-1', 15)];
+    const result = calculateDiscounts(items, [
+      makeDiscount({ id: 'a', discount_type: 'fixed', value: 10 }),
+      makeDiscount({ id: 'b', discount_type: 'fixed', value: 10 }),
+      makeDiscount({ id: 'c', discount_type: 'fixed', value: 10 }),
+    ]);
+
+    expect(result.orderDiscount).toBe(15);
+    expect(result.total).toBe(15);
+    expect(result.applied.map((a) => [a.discount_id, a.amount])).toEqual([
+      ['a', 10],
+      ['b', 5],
+    ]);
+  });
+
+  it('returns nothing for an empty cart', () => {
+    expect(calculateDiscounts([], [makeDiscount({ value: 10 })])).toEqual({
+      applied: [],
+      lineDiscounts: {},
+      orderDiscount: 0,
+      total: 0,
+    });
+  });
+});
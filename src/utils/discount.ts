@@ -0,0 +1,109 @@
+// Discount Calculation Utilities
+
+import type { AppliedDiscount, CartItem, Discount } from '@/types';
+
+export interface DiscountCalculation {
+  applied: AppliedDiscount[]; // One entry per discount per affected line (order-level: one entry)
+  lineDiscounts: Record<string, number>; // Cart item ID to item-level discount
+  orderDiscount: number; // Order-level discounts, after item-level ones
+  total: number;
+}
+
+/**
+ * Why a discount cannot be applied right now
+ * @param discount - Shop discount
+ * @param now - Point in time to check the validity window against
+ * @returns Reason message, or null if the discount is usable
+ */
+export function getDiscountUnavailableReason(
+  discount: Discount,
+  now: Date = new Date()
+): string | null {
+  if (!discount.is_active) return 'This discount is not active';
+  if (discount.starts_at && new Date(discount.starts_at) > now) {
+    return 'This discount has not started yet';
+  }
+  if (discount.ends_at && new Date(discount.ends_at) <= now) return 'This discount has expired';
+  if (discount.usage_limit !== null && discount.usage_count >= discount.usage_limit) {
+    return 'This discount has reached its usage limit';
+  }
+  return null;
+}
+
+/**
+ * Whether an item-level discount covers a cart line
+ * @param discount - Product or category discount
+ * @param item - Cart line
+ */
+export function discountAppliesToItem(discount: Discount, item: CartItem): boolean {
+  if (discount.scope === 'product') return discount.product_id === item.product_id;
+  if (discount.scope === 'category') return discount.category_id === item.product.category_id;
+  return false;
+}
+
+/**
+ * Calculate the discounts applied to a cart.
+ * Item-level discounts come first (fixed values are per unit); order-level discounts
+ * then apply to what remains. No discount takes a line or the order below zero.
+ * @param items - Cart lines
+ * @param discounts - Discounts applied to the cart
+ * @returns Applied discounts with per-line and order-level amounts
+ */
+export function calculateDiscounts(items: CartItem[], discounts: Discount[]): DiscountCalculation {
+  const applied: AppliedDiscount[] = [];
+  const lineDiscounts: Record<string, number> = {};
+
+  const toApplied = (discount: Discount, cartItemId: string | null, amount: number) => ({
+    discount_id: discount.id,
+    name: discount.name,
+    code: discount.code,
+    discount_type: discount.discount_type,
+    value: discount.value,
+    cart_item_id: cartItemId,
+    amount,
+  });
+
+  // Item-level discounts
+  for (const discount of discounts.filter((d) => d.scope !== 'order')) {
+    for (const item of items) {
+      if (!discountAppliesToItem(discount, item)) continue;
+
+      const remaining = item.amount - (lineDiscounts[item.cart_item_id] || 0);
+      const amount = Math.min(
+        discount.discount_type === 'percentage'
+          ? item.amount * (discount.value / 100)
+          : discount.value * item.quantity,
+        remaining
+      );
+      if (amount <= 0) continue;
+
+      lineDiscounts[item.cart_item_id] = (lineDiscounts[item.cart_item_id] || 0) + amount;
+      applied.push(toApplied(discount, item.cart_item_id, amount));
+    }
+  }
+
+  // Order-level discounts
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const itemDiscountTotal = Object.values(lineDiscounts).reduce((sum, amount) => sum + amount, 0);
+  let orderDiscount = 0;
+  for (const discount of discounts.filter((d) => d.scope === 'order')) {
+    const remaining = subtotal - itemDiscountTotal - orderDiscount;
+    const amount = Math.min(
+      discount.discount_type === 'percentage'
+        ? (subtotal - itemDiscountTotal) * (discount.value / 100)
+        : discount.value,
+      remaining
+    );
+    if (amount <= 0) continue;
+
+    orderDiscount += amount;
+    applied.push(toApplied(discount, null, amount));
+  }
+
+  return {
+    applied,
+    lineDiscounts,
+    orderDiscount,
+    total: itemDiscountTotal + orderDiscount,
+  };
+}
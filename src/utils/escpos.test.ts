@@ -0,0 +1,100 @@
+import { decodeEscPos, encodeReceipt } from './escpos';
+import { layoutReceipt, type Receipt } from './receipt';
+
+const receipt: Receipt = {
+  shopName: 'Café Zoë',
+  shopLocation: null,
+  logoUrl: null,
+  header: null,
+  footer: 'See you soon',
+  currency: 'USD',
+  orderId: 'a1b2c3d4-0000-0000-0000-000000000000',
+  orderNumber: '1042',
+  orderDate: '2026-03-01T12:30:00Z',
+  billLabel: null,
+  orderType: 'Takeaway',
+  deliveryAddress: null,
+  customerName: null,
+  items: [{ quantity: 2, name: 'Crème brûlée', total: 9, details: [] }],
+  subtotal: 9,
+  adjustments: [],
+  taxIncluded: [],
+  total: 9,
+  payments: [{ label: 'CASH', amount: 10 }],
+  change: 1,
+  notes: [],
+  opensCashDrawer: true,
+};
+
+describe('encodeReceipt', () => {
+  it('initializes the printer first and cuts the paper last', () => {
+    const bytes = Array.from(encodeReceipt(receipt));
+
+    expect(bytes.slice(0, 2)).toEqual([0x1b, 0x40]);
+    expect(bytes.slice(-4)).toEqual([0x1d, 0x56, 0x41, 0x03]);
+  });
+
+  it('kicks the drawer before printing for tenders that open it', () => {
+    const preview = decodeEscPos(encodeReceipt(receipt));
+    expect(preview[0]).toEqual({ type: 'drawer' });
+
+    const reprint = decodeEscPos(encodeReceipt(receipt, { openDrawer: false }));
+    expect(reprint.some((line) => line.type === 'drawer')).toBe(false);
+
+    const card = decodeEscPos(encodeReceipt({ ...receipt, opensCashDrawer: false }));
+    expect(card.some((line) => line.type === 'drawer')).toBe(false);
+  });
+
+  it('prints the order id as a centred QR code unless turned off', () => {
+    const preview = decodeEscPos(encodeReceipt(receipt));
+    expect(preview.filter((line) => line.type === 'qr')).toEqual([
+      { type: 'qr', data: receipt.orderId, align: 'center' },
+    ]);
+
+    const withoutQr = decodeEscPos(encodeReceipt(receipt, { qrCode: false }));
+    expect(withoutQr.some((line) => line.type === 'qr')).toBe(false);
+  });
+
+  it('only emits ASCII text', () => {
+    const bytes = encodeReceipt(receipt);
+    const text = decodeEscPos(bytes).flatMap((line) => (line.type === 'text' ? [line.text] : []));
+
+    expect(text[0]).toBe('CAFE ZOE');
+    expect(text).toContain(`2x Creme brulee${' '.repeat(12)}$9.00`);
+    expect(text.every((line) => /^[\x20-\x7e]*$/.test(line))).toBe(true);
+  });
+});
+
+describe('decodeEscPos', () => {
+  it('round-trips the receipt layout with its styling', () => {
+    for (const width of [32, 48] as const) {
+      const layout = layoutReceipt(receipt, width, { ascii: true });
+      const text = decodeEscPos(encodeReceipt(receipt, { width, qrCode: false })).filter(
+        (line) => line.type === 'text'
+      );
+
+      expect(text).toEqual(
+        layout.map((line) => ({
+          type: 'text',
+          text: line.text,
+          align: line.align,
+          bold: !!line.bold,
+          large: !!line.large,
+        }))
+      );
+    }
+  });
+
+  it('feeds blank lines and skips commands it does not know', () => {
+    const data = Uint8Array.from([
+      0x1b, 0x61, 0x02, 0x41, 0x0a, 0x1b, 0x64, 0x02, 0x1b, 0x3c, 0x1d, 0x56, 0x00,
+    ]);
+
+    expect(decodeEscPos(data)).toEqual([
+      { type: 'text', text: 'A', align: 'right', bold: false, large: false },
+      { type: 'text', text: '', align: 'right', bold: false, large: false },
+      { type: 'text', text: '', align: 'right', bold: false, large: false },
+      { type: 'cut' },
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+// ESC/POS Utilities - Encode receipts as command bytes for thermal receipt printers
+
+import { layoutReceipt, type Receipt, type ReceiptWidth } from '@/utils/receipt';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+export interface EscPosOptions {
+  width?: ReceiptWidth; // Characters per line (default 32, 58mm paper)
+  openDrawer?: boolean; // Kick the cash drawer; defaults to the receipt's tender settings
+  qrCode?: boolean; // Print the order id as a QR code (default true)
+}
+
+/** One decoded element of an ESC/POS buffer, for previewing without a printer */
+export type EscPosPreviewLine =
+  | { type: 'text'; text: string; align: EscPosAlign; bold: boolean; large: boolean }
+  | { type: 'qr'; data: string; align: EscPosAlign }
+  | { type: 'cut' }
+  | { type: 'drawer' };
+
+const ALIGN_CODES: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 };
+const QR_MODULE_SIZE = 6;
+const QR_ERROR_CORRECTION_M = 0x31;
+
+/**
+ * ESC/POS command bytes
+ * @private
+ */
+const commands = {
+  initialize: () => [ESC, 0x40],
+  align: (align: EscPosAlign) => [ESC, 0x61, ALIGN_CODES[align]],
+  bold: (on: boolean) => [ESC, 0x45, on ? 1 : 0],
+  // GS ! n - bit 0 doubles the height, keeping the line width unchanged
+  doubleHeight: (on: boolean) => [GS, 0x21, on ? 0x01 : 0x00],
+  // GS V 65 n - feed n lines, then full cut
+  cut: () => [GS, 0x56, 0x41, 0x03],
+  // ESC p m t1 t2 - pulse drawer pin 2 on for 50ms, off for 500ms
+  kickDrawer: () => [ESC, 0x70, 0x00, 0x19, 0xfa],
+  // GS ( k - select model 2, set module size and error correction, store, print
+  qrCode: (data: string) => {
+    const bytes = encodeText(data);
+    const storeLength = bytes.length + 3;
+    return [
+      ...[GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00],
+      ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, QR_MODULE_SIZE],
+      ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, QR_ERROR_CORRECTION_M],
+      ...[GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...bytes],
+      ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30],
+    ];
+  },
+};
+
+/**
+ * Encode text as single bytes; the layout has already folded it to ASCII
+ * @private
+ */
+function encodeText(text: string): number[] {
+  return Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    return code < 0x80 ? code : 0x3f; // "?"
+  });
+}
+
+/**
+ * Encode a receipt as an ESC/POS command buffer
+ * @param receipt - Receipt to print, including the shop's header and footer
+ * @param options - Paper width, drawer kick and QR code
+ * @returns Bytes to send to the printer as-is
+ */
+export function encodeReceipt(receipt: Receipt, options: EscPosOptions = {}): Uint8Array {
+  const { width = 32, openDrawer = receipt.opensCashDrawer, qrCode = true } = options;
+  const bytes: number[] = [...commands.initialize()];
+
+  // Kick first so the drawer is open while the receipt prints
+  if (openDrawer) bytes.push(...commands.kickDrawer());
+
+  for (const line of layoutReceipt(receipt, width, { ascii: true })) {
+    bytes.push(
+      ...commands.align(line.align),
+      ...commands.bold(!!line.bold),
+      ...commands.doubleHeight(!!line.large),
+      ...encodeText(line.text),
+      LF
+    );
+  }
+
+  if (qrCode) {
+    bytes.push(...commands.align('center'), ...commands.qrCode(receipt.orderId), LF);
+  }
+
+  bytes.push(
+    ...commands.align('left'),
+    ...commands.bold(false),
+    ...commands.doubleHeight(false),
+    ...commands.cut()
+  );
+
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Decode an ESC/POS buffer back into printed lines. Understands the commands
+ * encodeReceipt emits and skips anything else.
+ * @param data - ESC/POS bytes
+ * @returns Lines, QR codes, cuts and drawer kicks in printing order
+ */
+export function decodeEscPos(data: Uint8Array): EscPosPreviewLine[] {
+  const lines: EscPosPreviewLine[] = [];
+  let align: EscPosAlign = 'left';
+  let bold = false;
+  let large = false;
+  let text = '';
+  let qrData = '';
+
+  const alignments = Object.keys(ALIGN_CODES) as EscPosAlign[];
+
+  let i = 0;
+  while (i < data.length) {
+    const byte = data[i];
+
+    if (byte === LF) {
+      lines.push({ type: 'text', text, align, bold, large });
+      text = '';
+      i += 1;
+    } else if (byte === ESC) {
+      const command = data[i + 1];
+      if (command === 0x40) {
+        align = 'left';
+        bold = false;
+        large = false;
+        i += 2;
+      } else if (command === 0x61) {
+        align = alignments[data[i + 2] % 48] ?? 'left';
+        i += 3;
+      } else if (command === 0x45) {
+        bold = (data[i + 2] & 0x01) === 1;
+        i += 3;
+      } else if (command === 0x64) {
+        for (let n = 0; n < data[i + 2]; n++) {
+          lines.push({ type: 'text', text: '', align, bold, large });
+        }
+        i += 3;
+      } else if (command === 0x70) {
+        lines.push({ type: 'drawer' });
+        i += 5;
+      } else {
+        i += 2;
+      }
+    } else if (byte === GS) {
+      const command = data[i + 1];
+      if (command === 0x21) {
+        large = (data[i + 2] & 0x0f) > 0;
+        i += 3;
+      } else if (command === 0x56) {
+        lines.push({ type: 'cut' });
+        i += data[i + 2] >= 0x41 ? 4 : 3;
+      } else if (command === 0x28 && data[i + 2] === 0x6b) {
+        const length = data[i + 3] + (data[i + 4] << 8);
+        const fn = data[i + 6];
+        const payload = data.slice(i + 8, i + 5 + length);
+        if (fn === 0x50) qrData = String.fromCharCode(...payload);
+        if (fn === 0x51) lines.push({ type: 'qr', data: qrData, align });
+        i += 5 + length;
+      } else {
+        i += 2;
+      }
+    } else {
+      text += String.fromCharCode(byte);
+      i += 1;
+    }
+  }
+
+  if (text) lines.push({ type: 'text', text, align, bold, large });
+  return lines;
+}
+
+/**
+ * Save an ESC/POS buffer as a file, for sending to a printer with a raw print
+ * queue (e.g. `lp -o raw receipt.bin`)
+ * @param data - ESC/POS bytes
+ * @param filename - Name for the downloaded file
+ */
+export function downloadEscPos(data: Uint8Array, filename: string): void {
+  const url = URL.createObjectURL(
+    new Blob([new Uint8Array(data)], { type: 'application/octet-stream' })
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
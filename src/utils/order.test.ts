@@ -0,0 +1,299 @@
+import type {
+  CartItem,
+  OrderItemAddon,
+  OrderItemModifier,
+  OrderItemWithDetails,
+  OrderRefundWithItems,
+  OrderWithDetails,
+  Product,
+} from '@/types';
+import {
+  formatOrderType,
+  getNextOrderStatus,
+  getOrderCartItems,
+  getOrderItemTotal,
+  getOrderItemValues,
+  getProductPrice,
+  getRefundedQuantities,
+  getUnpaidBills,
+  toOrderLine,
+} from './order';
+
+describe('getOrderItemTotal', () => {
+  it('charges modifiers per unit and addons as recorded', () => {
+    const item = {
+      product_unit_price: 4,
+      quantity: 3,
+      order_item_modifiers: [
+        { price_adjustment: 0.5 },
+        { price_adjustment: -0.25 },
+      ] as OrderItemModifier[],
+      order_item_addons: [{ price: 1.5, quantity: 2 }] as OrderItemAddon[],
+    } as OrderItemWithDetails;
+
+    // 3 x (4 + 0.5 - 0.25) + 2 x 1.5
+    expect(getOrderItemTotal(item)).toBe(15.75);
+  });
+
+  it('treats missing prices and quantities as zero', () => {
+    const item = {
+      product_unit_price: 2,
+      quantity: 2,
+      order_item_modifiers: [{ price_adjustment: null }] as unknown as OrderItemModifier[],
+      order_item_addons: [{ price: 1, quantity: null }] as unknown as OrderItemAddon[],
+    } as OrderItemWithDetails;
+
+    expect(getOrderItemTotal(item)).toBe(4);
+  });
+});
+
+describe('getRefundedQuantities', () => {
+  it('adds up refunded quantities per order line across refunds', () => {
+    const order = {
+      order_refunds: [
+        {
+          order_refund_items: [
+            { order_item_id: 'item-1', quantity: 1 },
+            { order_item_id: 'item-2', quantity: 2 },
+          ],
+        },
+        { order_refund_items: [{ order_item_id: 'item-1', quantity: 2 }] },
+      ] as OrderRefundWithItems[],
+    } as OrderWithDetails;
+
+    expect(getRefundedQuantities(order)).toEqual({ 'item-1': 3, 'item-2': 2 });
+  });
+
+  it('is empty for orders without refunds', () => {
+    expect(getRefundedQuantities({ order_refunds: [] } as unknown as OrderWithDetails)).toEqual({});
+  });
+});
+
+describe('getUnpaidBills', () => {
+  it('keeps bills without tenders in bill order', () => {
+    const order = {
+      order_bills: [
+        { id: 'bill-3', bill_number: 3 },
+        { id: 'bill-1', bill_number: 1 },
+        { id: 'bill-2', bill_number: 2 },
+      ],
+      order_payments: [{ bill_id: 'bill-1' }, { bill_id: 'bill-1' }],
+    } as unknown as OrderWithDetails;
+
+    expect(getUnpaidBills(order).map((bill) => bill.id)).toEqual(['bill-2', 'bill-3']);
+  });
+
+  it('is empty for orders that were not split', () => {
+    const order = {
+      order_bills: [],
+      order_payments: [{ bill_id: null }],
+    } as unknown as OrderWithDetails;
+
+    expect(getUnpaidBills(order)).toEqual([]);
+  });
+});
+
+describe('getNextOrderStatus', () => {
+  it('moves active orders forward one step', () => {
+    expect(getNextOrderStatus('open')).toBe('in_preparation');
+    expect(getNextOrderStatus('in_preparation')).toBe('ready');
+    expect(getNextOrderStatus('ready')).toBe('completed');
+  });
+
+  it('stops at completed and cancelled orders', () => {
+    expect(getNextOrderStatus('completed')).toBeNull();
+    expect(getNextOrderStatus('cancelled')).toBeNull();
+  });
+});
+
+describe('getProductPrice', () => {
+  const product = {
+    price: 10,
+    dine_in_price_adjustment: 1.5,
+    takeaway_price_adjustment: 0,
+    delivery_price_adjustment: 2,
+  };
+
+  it("adds the order type's adjustment to the base price", () => {
+    expect(getProductPrice(product, 'dine_in')).toBe(11.5);
+    expect(getProductPrice(product, 'takeaway')).toBe(10);
+    expect(getProductPrice(product, 'delivery')).toBe(12);
+  });
+
+  it('uses the base price for products saved before adjustments existed', () => {
+    expect(getProductPrice({ price: 10 } as typeof product, 'delivery')).toBe(10);
+  });
+});
+
+describe('toOrderLine', () => {
+  const cartItem = {
+    cart_item_id: 'line-1',
+    product_id: 'latte',
+    product: {
+      id: 'latte',
+      name: 'Latte',
+      description: null,
+      price: 4,
+      dine_in_price_adjustment: 0.5,
+      takeaway_price_adjustment: 0,
+      delivery_price_adjustment: 1,
+      category: { name: 'Coffee' },
+    },
+    quantity: 2,
+    amount: 9,
+    modifiers: [],
+    addons: [{ addon_id: 'a-1', name: 'Syrup', quantity: 2, price: 0.5, item_id: '' }],
+    available: true,
+  } as unknown as CartItem;
+
+  it('prices the line for the order type and keeps its category', () => {
+    const line = toOrderLine(cartItem, 'dine_in');
+
+    expect(line).toMatchObject({
+      order_item_id: null,
+      product_name: 'Latte',
+      product_unit_price: 4.5,
+      product_category: 'Coffee',
+      quantity: 2,
+    });
+    expect(line.addons).toEqual([{ name: 'Syrup', quantity: 2, price: 0.5, item_id: null }]);
+  });
+
+  it('keeps the order line of a line already sent', () => {
+    expect(toOrderLine({ ...cartItem, order_item_id: 'item-1' }, 'dine_in').order_item_id).toBe(
+      'item-1'
+    );
+  });
+});
+
+describe('getOrderCartItems', () => {
+  const order = {
+    shop_id: 'shop-1',
+    created_at: '2026-03-01T12:00:00Z',
+    order_items: [
+      {
+        id: 'item-1',
+        product_id: 'latte',
+        product_name: 'Latte',
+        product_description: null,
+        product_unit_price: 4.5,
+        quantity: 2,
+        order_item_modifiers: [{ modifier_id: 'oat', price_adjustment: 0.5 }],
+        order_item_addons: [
+          { id: 'addon-1', name: 'Syrup', quantity: 2, price: 0.5, item_id: null },
+        ],
+      },
+      {
+        id: 'item-2',
+        product_id: 'gone',
+        product_name: 'Old Special',
+        product_description: null,
+        product_unit_price: 3,
+        quantity: 1,
+        order_item_modifiers: [],
+        order_item_addons: [],
+      },
+    ],
+  } as unknown as OrderWithDetails;
+  const latte = {
+    id: 'latte',
+    name: 'Latte',
+    price: 5,
+    category_id: 'coffee',
+    dine_in_price_adjustment: 0.5,
+  } as Product;
+
+  it('keeps the price each line was sent at and ties it to its order line', () => {
+    const [line] = getOrderCartItems(order, [latte]);
+
+    expect(line).toMatchObject({
+      cart_item_id: 'item-1',
+      order_item_id: 'item-1',
+      quantity: 2,
+      // 2 x (4.5 + 0.5) + 2 x 0.5
+      amount: 11,
+      available: true,
+    });
+    expect(line.product.category_id).toBe('coffee');
+    expect(getProductPrice(line.product, 'dine_in')).toBe(4.5);
+    expect(line.addons).toEqual([
+      { addon_id: 'addon-1', name: 'Syrup', quantity: 2, price: 0.5, item_id: null },
+    ]);
+  });
+
+  it('rebuilds the product of a line whose product was deleted', () => {
+    const [, line] = getOrderCartItems(order, [latte]);
+
+    expect(line.product).toMatchObject({ id: 'gone', name: 'Old Special', price: 3 });
+    expect(line.amount).toBe(3);
+  });
+});
+
+describe('formatOrderType', () => {
+  it('adds the table to dine-in orders only', () => {
+    expect(formatOrderType({ order_type: 'dine_in', table_label: '4' })).toBe('Dine-in · Table 4');
+    expect(formatOrderType({ order_type: 'dine_in', table_label: null })).toBe('Dine-in');
+    expect(formatOrderType({ order_type: 'delivery', table_label: '4' })).toBe('Delivery');
+  });
+});
+
+describe('getOrderItemValues', () => {
+  const makeOrder = (overrides: Partial<OrderWithDetails>) =>
+    ({
+      subtotal: 30,
+      discount: 0,
+      tax: 0,
+      tax_inclusive: false,
+      tip: 0,
+      delivery_fee: 0,
+      order_items: [
+        { id: 'item-1', product_unit_price: 10, quantity: 2 },
+        { id: 'item-2', product_unit_price: 10, quantity: 1 },
+      ].map((item) => ({ ...item, order_item_modifiers: [], order_item_addons: [] })),
+      order_discounts: [],
+      order_tax_lines: [],
+      ...overrides,
+    }) as unknown as OrderWithDetails;
+
+  it('takes item-level discounts off their line and spreads order-level ones', () => {
+    const order = makeOrder({
+      // 5 off item-1, then 10% off the remaining 25, plus a 2.5 tip
+      discount: 7.5,
+      tip: 2.5,
+      order_discounts: [
+        { order_item_id: 'item-1', amount: 5 },
+        { order_item_id: null, amount: 2.5 },
+      ] as OrderWithDetails['order_discounts'],
+    });
+
+    const values = getOrderItemValues(order);
+
+    expect(values['item-1']).toBeCloseTo(13.5);
+    expect(values['item-2']).toBeCloseTo(9);
+  });
+
+  it('adds tax charged on top of prices to each line', () => {
+    const order = makeOrder({
+      tax: 3,
+      order_tax_lines: [
+        { rate: 10, taxable_amount: 20, tax: 2 },
+        { rate: 10, taxable_amount: 10, tax: 1 },
+      ] as OrderWithDetails['order_tax_lines'],
+      delivery_fee: 4,
+    });
+
+    expect(getOrderItemValues(order)).toEqual({ 'item-1': 22, 'item-2': 11 });
+  });
+
+  it('leaves tax already in the prices alone', () => {
+    const order = makeOrder({
+      tax: 5,
+      tax_inclusive: true,
+      order_tax_lines: [
+        { rate: 20, taxable_amount: 30, tax: 5 },
+      ] as OrderWithDetails['order_tax_lines'],
+    });
+
+    expect(getOrderItemValues(order)).toEqual({ 'item-1': 20, 'item-2': 10 });
+  });
+});
@@ -0,0 +1,272 @@
+// Order Calculation Utilities
+
+import type {
+  CartItem,
+  OrderBill,
+  OrderItemWithDetails,
+  OrderStatus,
+  OrderType,
+  OrderTypeDetails,
+  OrderWithDetails,
+  Product,
+} from '@/types';
+
+/**
+ * Calculate the total charged for an order line.
+ * Mirrors the cart: modifier adjustments are per unit, addon quantities are already scaled.
+ * @param item - Order item with its modifiers and addons
+ * @returns Line total
+ */
+export function getOrderItemTotal(item: OrderItemWithDetails): number {
+  const modifierTotal = item.order_item_modifiers.reduce(
+    (sum, modifier) => sum + (modifier.price_adjustment || 0),
+    0
+  );
+  const addonTotal = item.order_item_addons.reduce(
+    (sum, addon) => sum + (addon.price || 0) * (addon.quantity || 0),
+    0
+  );
+  return item.product_unit_price * item.quantity + addonTotal + modifierTotal * item.quantity;
+}
+
+/**
+ * What the customer paid for each order line: its total after its own discounts,
+ * with order-level discounts and tax added on top spread across lines in
+ * proportion. Tip and delivery fee belong to no line and are left out.
+ * @param order - Order with its items, discounts and tax lines
+ * @returns Map of order item ID to the amount paid for the whole line
+ */
+export function getOrderItemValues(order: OrderWithDetails): Record<string, number> {
+  const lineNet = order.order_items.map((item) => {
+    const itemDiscount = order.order_discounts
+      .filter((discount) => discount.order_item_id === item.id)
+      .reduce((sum, discount) => sum + discount.amount, 0);
+    return [item.id, getOrderItemTotal(item) - itemDiscount] as const;
+  });
+  const itemsNet = lineNet.reduce((sum, [, net]) => sum + net, 0);
+
+  const addedTax =
+    order.order_tax_lines.length > 0
+      ? order.order_tax_lines.reduce((sum, line) => sum + line.tax, 0)
+      : order.tax;
+  const charged = order.subtotal - order.discount + (order.tax_inclusive ? 0 : addedTax);
+
+  const values: Record<string, number> = {};
+  for (const [itemId, net] of lineNet) {
+    values[itemId] = itemsNet > 0 ? (net * charged) / itemsNet : 0;
+  }
+  return values;
+}
+
+/**
+ * Quantity of each order line already refunded
+ * @param order - Order with its refunds
+ * @returns Map of order item ID to refunded quantity
+ */
+export function getRefundedQuantities(order: OrderWithDetails): Record<string, number> {
+  const quantities: Record<string, number> = {};
+  for (const refund of order.order_refunds) {
+    for (const refundItem of refund.order_refund_items) {
+      quantities[refundItem.order_item_id] =
+        (quantities[refundItem.order_item_id] || 0) + refundItem.quantity;
+    }
+  }
+  return quantities;
+}
+
+/**
+ * Bills of a split order with no tenders recorded yet, in bill order
+ * @param order - Order with its bills and payments
+ * @returns Bills still to be paid; empty once every bill is paid or when not split
+ */
+export function getUnpaidBills(
+  order: Pick<OrderWithDetails, 'order_bills' | 'order_payments'>
+): OrderBill[] {
+  const paidBillIds = new Set(order.order_payments.map((payment) => payment.bill_id));
+  return order.order_bills
+    .filter((bill) => !paidBillIds.has(bill.id))
+    .sort((a, b) => a.bill_number - b.bill_number);
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  open: 'Open',
+  in_preparation: 'In Preparation',
+  ready: 'Ready',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// Ionic colors for status badges
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  open: 'medium',
+  in_preparation: 'warning',
+  ready: 'success',
+  completed: 'primary',
+  cancelled: 'danger',
+};
+
+// Statuses of orders not yet handed over, in the order they move through
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = ['open', 'in_preparation', 'ready'];
+
+/**
+ * Status an order moves to next on the order board
+ * @param status - Current status
+ * @returns Next status, or null once the order is completed or cancelled
+ */
+export function getNextOrderStatus(status: OrderStatus): OrderStatus | null {
+  switch (status) {
+    case 'open':
+      return 'in_preparation';
+    case 'in_preparation':
+      return 'ready';
+    case 'ready':
+      return 'completed';
+    default:
+      return null;
+  }
+}
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  dine_in: 'Dine-in',
+  takeaway: 'Takeaway',
+  delivery: 'Delivery',
+};
+
+// Order types in the order they are offered at the till
+export const ORDER_TYPES: OrderType[] = ['dine_in', 'takeaway', 'delivery'];
+
+/**
+ * Unit price of a product for an order type, including the type's adjustment
+ * @param product - Product being sold
+ * @param orderType - How the order is served
+ */
+export function getProductPrice(
+  product: Pick<
+    Product,
+    'price' | 'dine_in_price_adjustment' | 'takeaway_price_adjustment' | 'delivery_price_adjustment'
+  >,
+  orderType: OrderType
+): number {
+  // Products cached or parked before adjustments existed have none
+  const adjustment = product[`${orderType}_price_adjustment`] ?? 0;
+  return product.price + adjustment;
+}
+
+/**
+ * Shape a cart line as an order line for the database, denormalizing its product
+ * @param cartItem - Cart line; lines already on a table's order keep their order_item_id
+ * @param orderType - How the order is served, which the line is priced for
+ */
+export function toOrderLine(cartItem: CartItem, orderType: OrderType) {
+  const product = cartItem.product;
+  // Get category name from ProductWithCategory if available
+  const categoryName =
+    'category' in product &&
+    product.category &&
+    typeof product.category === 'object' &&
+    'name' in product.category
+      ? (product.category as { name: string }).name
+      : null;
+
+  return {
+    order_item_id: cartItem.order_item_id ?? null,
+    product_id: product.id,
+    product_name: product.name,
+    product_description: product.description,
+    // Lines were priced for the order type at the till
+    product_unit_price: getProductPrice(product, orderType),
+    product_category: categoryName,
+    quantity: cartItem.quantity,
+    modifiers: cartItem.modifiers.map((modifier) => ({
+      modifier_group_id: modifier.modifier_group_id,
+      modifier_group_name: modifier.modifier_group_name,
+      modifier_id: modifier.modifier_id,
+      modifier_name: modifier.modifier_name,
+      price_adjustment: modifier.price_adjustment,
+      inventory_item_id: modifier.inventory_item_id || null,
+      quantity: modifier.quantity,
+    })),
+    addons: cartItem.addons.map((addon) => ({
+      name: addon.name,
+      quantity: addon.quantity,
+      price: addon.price,
+      item_id: addon.item_id || null,
+    })),
+  };
+}
+
+/**
+ * Cart lines for the lines already on an order, to close out a table's tab at
+ * checkout. Each keeps the price it was sent at, whatever the product costs now.
+ * @param order - Order with its items, modifiers and addons
+ * @param products - Current products, for category and tax; deleted products are rebuilt from the line
+ * @returns Cart lines tied to their order lines by order_item_id
+ */
+export function getOrderCartItems(
+  order: Pick<OrderWithDetails, 'shop_id' | 'created_at' | 'order_items'>,
+  products: Product[]
+): CartItem[] {
+  return order.order_items.map((item) => {
+    const current = products.find((product) => product.id === item.product_id);
+    const product: Product = {
+      ...(current ?? {
+        id: item.product_id,
+        shop_id: order.shop_id,
+        name: item.product_name,
+        description: item.product_description,
+        tags: null,
+        remarks: null,
+        category_id: null,
+        tax_rate_id: null,
+        image_url: null,
+        created_at: order.created_at,
+        created_by: null,
+        updated_at: order.created_at,
+        updated_by: null,
+      }),
+      price: item.product_unit_price,
+      dine_in_price_adjustment: 0,
+      takeaway_price_adjustment: 0,
+      delivery_price_adjustment: 0,
+    };
+
+    return {
+      cart_item_id: item.id,
+      order_item_id: item.id,
+      product_id: item.product_id,
+      product,
+      quantity: item.quantity,
+      amount: getOrderItemTotal(item),
+      modifiers: item.order_item_modifiers.map((modifier) => ({
+        modifier_group_id: modifier.modifier_group_id,
+        modifier_group_name: modifier.modifier_group_name,
+        modifier_id: modifier.modifier_id,
+        modifier_name: modifier.modifier_name,
+        price_adjustment: modifier.price_adjustment,
+        inventory_item_id: modifier.inventory_item_id,
+        quantity: modifier.quantity,
+      })),
+      addons: item.order_item_addons.map((addon) => ({
+        addon_id: addon.id,
+        name: addon.name,
+        quantity: addon.quantity,
+        price: addon.price,
+        item_id: addon.item_id,
+      })),
+      available: true,
+    };
+  });
+}
+
+/**
+ * Short description of how an order is served, e.g. "Dine-in · Table 4"
+ * @param details - Order type with its table or delivery address
+ */
+export function formatOrderType(
+  details: Pick<OrderTypeDetails, 'order_type' | 'table_label'>
+): string {
+  const label = ORDER_TYPE_LABELS[details.order_type] ?? ORDER_TYPE_LABELS.takeaway;
+  return details.order_type === 'dine_in' && details.table_label
+    ? `${label} · Table ${details.table_label}`
+    : label;
+}
@@ -0,0 +1,289 @@
+import type {
+  OrderBill,
+  OrderItemWithDetails,
+  OrderPaymentWithType,
+  OrderWithDetails,
+  PaymentType,
+  Shop,
+} from '@/types';
+import { buildReceipt, getReceiptOrderNumber, layoutReceipt, renderReceiptText } from './receipt';
+
+const shop = {
+  id: 'shop-1',
+  name: 'Corner Café',
+  location: '1 Main St',
+  image_url: null,
+  receipt_header: 'Open daily\n\n  8am - 6pm  ',
+  receipt_footer: null,
+  currency_code: 'USD',
+  tax_label: 'VAT',
+} as Shop;
+
+const makeItem = (
+  id: string,
+  name: string,
+  unitPrice: number,
+  quantity: number,
+  overrides: Partial<OrderItemWithDetails> = {}
+): OrderItemWithDetails =>
+  ({
+    id,
+    product_name: name,
+    product_unit_price: unitPrice,
+    quantity,
+    bill_id: null,
+    order_item_modifiers: [],
+    order_item_addons: [],
+    ...overrides,
+  }) as OrderItemWithDetails;
+
+const cash = { code: 'CASH', opens_cash_drawer: true } as PaymentType;
+
+const makePayment = (overrides: Partial<OrderPaymentWithType>): OrderPaymentWithType =>
+  ({
+    id: 'payment-1',
+    bill_id: null,
+    amount: 0,
+    amount_tendered: null,
+    change: 0,
+    reference: null,
+    payment_type: cash,
+    ...overrides,
+  }) as OrderPaymentWithType;
+
+const makeOrder = (overrides: Partial<OrderWithDetails> = {}): OrderWithDetails =>
+  ({
+    id: 'a1b2c3d4-0000-0000-0000-000000000000',
+    order_number: '1042',
+    order_date: '2026-03-01T12:30:00Z',
+    order_type: 'takeaway',
+    table_label: null,
+    delivery_address: null,
+    customer_name: 'Sam',
+    subtotal: 20,
+    discount: 0,
+    tax: 0,
+    tax_rate: 0,
+    tax_inclusive: false,
+    delivery_fee: 0,
+    tip: 0,
+    total_sale: 20,
+    refunded_total: 0,
+    reversal_type: null,
+    order_items: [
+      makeItem('item-1', 'Latte', 4, 2, {
+        order_item_modifiers: [
+          { modifier_name: 'Oat milk', price_adjustment: 0.5 },
+        ] as OrderItemWithDetails['order_item_modifiers'],
+      }),
+      makeItem('item-2', 'Bagel', 11, 1, {
+        order_item_addons: [
+          { name: 'Cream cheese', price: 1, quantity: 0 },
+        ] as OrderItemWithDetails['order_item_addons'],
+      }),
+    ],
+    order_tax_lines: [],
+    order_discounts: [],
+    order_payments: [],
+    order_bills: [],
+    ...overrides,
+  }) as OrderWithDetails;
+
+describe('getReceiptOrderNumber', () => {
+  it('prefers the order number and falls back to a short id', () => {
+    expect(getReceiptOrderNumber({ id: 'a1b2c3d4-e5f6', order_number: '7' })).toBe('7');
+    expect(getReceiptOrderNumber({ id: 'a1b2c3d4-e5f6', order_number: null })).toBe('A1B2C3D4');
+  });
+});
+
+describe('buildReceipt', () => {
+  it('lists items with their modifiers and addons', () => {
+    const receipt = buildReceipt(makeOrder(), shop);
+
+    expect(receipt.items).toEqual([
+      { quantity: 2, name: 'Latte', total: 9, details: ['Oat milk'] },
+      { quantity: 1, name: 'Bagel', total: 11, details: ['0x Cream cheese'] },
+    ]);
+    expect(receipt.orderNumber).toBe('1042');
+    expect(receipt.orderType).toBe('Takeaway');
+    expect(receipt.total).toBe(20);
+  });
+
+  it('groups discounts by name and lists what they leave unaccounted for', () => {
+    const receipt = buildReceipt(
+      makeOrder({
+        discount: 5,
+        order_discounts: [
+          { name: 'Happy hour', amount: 1.5 },
+          { name: 'Happy hour', amount: 1.5 },
+          { name: 'Staff', amount: 1 },
+        ] as OrderWithDetails['order_discounts'],
+      }),
+      shop
+    );
+
+    expect(receipt.adjustments).toEqual([
+      { label: 'Happy hour', amount: -3 },
+      { label: 'Staff', amount: -1 },
+      { label: 'Other discount', amount: -1 },
+    ]);
+  });
+
+  it('adds exclusive tax to the adjustments and lists inclusive tax separately', () => {
+    const taxLines = [
+      { name: 'VAT', rate: 20, tax: 3 },
+      { name: 'Zero', rate: 0, tax: 0 },
+    ] as OrderWithDetails['order_tax_lines'];
+
+    const exclusive = buildReceipt(
+      makeOrder({ order_tax_lines: taxLines, delivery_fee: 2, tip: 1 }),
+      shop
+    );
+    expect(exclusive.adjustments).toEqual([
+      { label: 'VAT 20%', amount: 3 },
+      { label: 'Delivery fee', amount: 2 },
+      { label: 'Tip', amount: 1 },
+    ]);
+    expect(exclusive.taxIncluded).toEqual([]);
+
+    const inclusive = buildReceipt(
+      makeOrder({ order_tax_lines: taxLines, tax_inclusive: true }),
+      shop
+    );
+    expect(inclusive.adjustments).toEqual([]);
+    expect(inclusive.taxIncluded).toEqual([{ label: 'VAT 20%', amount: 3 }]);
+  });
+
+  it("falls back to the shop's tax label for orders without tax lines", () => {
+    const receipt = buildReceipt(makeOrder({ tax: 1.6, tax_rate: 8 }), shop);
+    expect(receipt.adjustments).toEqual([{ label: 'VAT 8%', amount: 1.6 }]);
+  });
+
+  it('prints tendered amounts and change, and opens the drawer for cash', () => {
+    const receipt = buildReceipt(
+      makeOrder({
+        order_payments: [
+          makePayment({ amount: 15, amount_tendered: 20, change: 5 }),
+          makePayment({
+            id: 'payment-2',
+            amount: 5,
+            reference: '9931',
+            payment_type: { code: 'CARD', opens_cash_drawer: false } as PaymentType,
+          }),
+        ],
+      }),
+      shop
+    );
+
+    expect(receipt.payments).toEqual([
+      { label: 'CASH', amount: 20 },
+      { label: 'CARD Ref 9931', amount: 5 },
+    ]);
+    expect(receipt.change).toBe(5);
+    expect(receipt.opensCashDrawer).toBe(true);
+  });
+
+  it("receipts one bill of an order split by line with the bill's share", () => {
+    const bills = [
+      { id: 'bill-1', bill_number: 1, label: 'Guest 1', amount: 10.8, customer_name: 'Ana' },
+      { id: 'bill-2', bill_number: 2, label: 'Guest 2', amount: 12.2, customer_name: null },
+    ] as OrderBill[];
+    const order = makeOrder({
+      total_sale: 23,
+      order_bills: bills,
+      order_items: [
+        makeItem('item-1', 'Latte', 4, 2, { bill_id: 'bill-1' }),
+        makeItem('item-2', 'Bagel', 11, 1, { bill_id: 'bill-2' }),
+      ],
+      order_payments: [
+        makePayment({ bill_id: 'bill-1', amount: 10.8 }),
+        makePayment({ id: 'payment-2', bill_id: 'bill-2', amount: 12.2 }),
+      ],
+    });
+
+    const receipt = buildReceipt(order, shop, 'bill-1');
+
+    expect(receipt.billLabel).toBe('Guest 1 (Bill 1 of 2)');
+    expect(receipt.customerName).toBe('Ana');
+    expect(receipt.items.map((item) => item.name)).toEqual(['Latte']);
+    expect(receipt.subtotal).toBe(8);
+    expect(receipt.adjustments).toHaveLength(1);
+    expect(receipt.adjustments[0].label).toBe('Share of discounts, tax & tip');
+    expect(receipt.adjustments[0].amount).toBeCloseTo(2.8);
+    expect(receipt.total).toBe(10.8);
+    expect(receipt.payments).toEqual([{ label: 'CASH', amount: 10.8 }]);
+  });
+
+  it('notes how an evenly split order was shared', () => {
+    const order = makeOrder({
+      order_bills: [
+        { id: 'bill-1', bill_number: 1, label: 'Guest 1', amount: 10 },
+        { id: 'bill-2', bill_number: 2, label: 'Guest 2', amount: 10 },
+      ] as OrderBill[],
+    });
+
+    const receipt = buildReceipt(order, shop, 'bill-2');
+
+    expect(receipt.items).toHaveLength(2);
+    expect(receipt.total).toBe(10);
+    expect(receipt.notes).toEqual(['Order total $20.00 split 2 ways']);
+  });
+
+  it('notes reversals and partial refunds', () => {
+    expect(buildReceipt(makeOrder({ reversal_type: 'voided' }), shop).notes).toEqual(['VOIDED']);
+    expect(buildReceipt(makeOrder({ refunded_total: 4.5 }), shop).notes).toEqual([
+      'Refunded $4.50',
+    ]);
+  });
+});
+
+describe('layoutReceipt', () => {
+  it('keeps every line within the paper width', () => {
+    const receipt = buildReceipt(
+      makeOrder({
+        order_items: [makeItem('item-1', 'Extremely long seasonal pumpkin spice latte', 4, 1)],
+      }),
+      shop
+    );
+
+    for (const width of [32, 48] as const) {
+      for (const line of layoutReceipt(receipt, width)) {
+        expect(line.text.length).toBeLessThanOrEqual(width);
+      }
+    }
+  });
+
+  it('right-aligns amounts after the wrapped label', () => {
+    const receipt = buildReceipt(
+      makeOrder({ order_items: [makeItem('item-1', 'Extremely long seasonal latte', 4, 1)] }),
+      shop
+    );
+    const lines = layoutReceipt(receipt, 32).map((line) => line.text);
+
+    expect(lines).toContain('1x Extremely long seasonal');
+    expect(lines).toContain(`latte${' '.repeat(22)}$4.00`);
+  });
+
+  it('folds text to ASCII when asked', () => {
+    const receipt = { ...buildReceipt(makeOrder(), shop), currency: 'EUR' };
+    const lines = layoutReceipt(receipt, 32, { ascii: true }).map((line) => line.text);
+
+    expect(lines[0]).toBe('CORNER CAFE');
+    expect(lines.every((line) => /^[\x20-\x7e]*$/.test(line))).toBe(true);
+    expect(lines.some((line) => line.endsWith('EUR20.00'))).toBe(true);
+  });
+});
+
+describe('renderReceiptText', () => {
+  it('centres the header and skips blank header lines', () => {
+    const lines = renderReceiptText(buildReceipt(makeOrder(), shop), 32).split('\n');
+
+    expect(lines.slice(0, 4)).toEqual([
+      '          CORNER CAFÉ',
+      '           1 Main St',
+      '           Open daily',
+      '           8am - 6pm',
+    ]);
+    expect(lines[lines.length - 1]).toBe('           Thank you!');
+  });
+});
@@ -0,0 +1,484 @@
+// Receipt Utilities - Build a receipt from an order and render it as HTML or plain text
+
+import type { Order, OrderWithDetails, Shop } from '@/types';
+import { formatCurrency } from '@/utils/currency';
+import { formatOrderType, getOrderItemTotal } from '@/utils/order';
+
+export type ReceiptWidth = 32 | 48; // Characters per line on 58mm / 80mm thermal paper
+
+export interface ReceiptLine {
+  label: string;
+  amount: number;
+}
+
+export interface ReceiptItem {
+  quantity: number;
+  name: string;
+  total: number;
+  details: string[]; // Modifiers and addons
+}
+
+export interface Receipt {
+  shopName: string;
+  shopLocation: string | null;
+  logoUrl: string | null;
+  header: string | null; // Shop's receipt header, may span several lines
+  footer: string | null; // Shop's receipt footer, may span several lines
+  currency: string;
+  orderId: string;
+  orderNumber: string;
+  orderDate: string;
+  billLabel: string | null; // Set for one bill of a split order
+  orderType: string; // e.g. "Dine-in · Table 4"
+  deliveryAddress: string | null; // Set for delivery orders
+  customerName: string | null;
+  items: ReceiptItem[];
+  subtotal: number;
+  adjustments: ReceiptLine[]; // Discounts (negative), tax, delivery fee and tip, in printing order
+  taxIncluded: ReceiptLine[]; // Tax already contained in the prices
+  total: number;
+  payments: ReceiptLine[];
+  change: number;
+  notes: string[]; // e.g. refunds or how a bill was split
+  opensCashDrawer: boolean; // Paid with a tender set to kick the cash drawer
+}
+
+export interface ReceiptTextLine {
+  text: string; // Wrapped to the receipt width; centred lines are not padded
+  align: 'left' | 'center';
+  bold?: boolean;
+  large?: boolean; // Double height on thermal printers
+}
+
+const DEFAULT_FOOTER = 'Thank you!';
+
+/**
+ * Order reference printed on receipts: the shop's order number, or a short
+ * form of the UUID for orders without one
+ * @param order - Order to reference
+ */
+export function getReceiptOrderNumber(order: Pick<Order, 'id' | 'order_number'>): string {
+  return order.order_number ?? order.id.slice(0, 8).toUpperCase();
+}
+
+/**
+ * Build a receipt for an order, or for one bill of a split order
+ * @param order - Order with items, tax lines, discounts, payments and bills
+ * @param shop - Shop printed in the header
+ * @param billId - Bill to receipt; omit for the whole order
+ * @returns Receipt ready for rendering
+ */
+export function buildReceipt(order: OrderWithDetails, shop: Shop, billId?: string): Receipt {
+  const bill = billId ? order.order_bills.find((b) => b.id === billId) : undefined;
+
+  const orderItems =
+    bill && order.order_items.some((item) => item.bill_id === bill.id)
+      ? order.order_items.filter((item) => item.bill_id === bill.id)
+      : order.order_items;
+
+  const items: ReceiptItem[] = orderItems.map((item) => ({
+    quantity: item.quantity,
+    name: item.product_name,
+    total: getOrderItemTotal(item),
+    details: [
+      ...item.order_item_modifiers.map((modifier) => modifier.modifier_name),
+      ...item.order_item_addons.map((addon) => `${addon.quantity}x ${addon.name}`),
+    ],
+  }));
+  const itemsTotal = items.reduce((sum, item) => sum + item.total, 0);
+
+  const payments = order.order_payments.filter((payment) => !bill || payment.bill_id === bill.id);
+  const notes: string[] = [];
+
+  // Order-wide breakdown: discounts, tax, delivery fee and tip
+  const adjustments: ReceiptLine[] = [];
+  const taxIncluded: ReceiptLine[] = [];
+  if (!bill) {
+    if (order.order_discounts.length > 0) {
+      const byName = new Map<string, number>();
+      for (const discount of order.order_discounts) {
+        byName.set(discount.name, (byName.get(discount.name) || 0) + discount.amount);
+      }
+      const listed = order.order_discounts.reduce((sum, discount) => sum + discount.amount, 0);
+      for (const [name, amount] of byName) adjustments.push({ label: name, amount: -amount });
+      if (order.discount - listed > 0.005) {
+        adjustments.push({ label: 'Other discount', amount: -(order.discount - listed) });
+      }
+    } else if (order.discount > 0) {
+      adjustments.push({ label: 'Discount', amount: -order.discount });
+    }
+
+    const taxLines =
+      order.order_tax_lines.length > 0
+        ? order.order_tax_lines
+            .filter((line) => line.tax > 0)
+            .map((line) => ({ label: `${line.name} ${line.rate}%`, amount: line.tax }))
+        : order.tax > 0
+          ? [{ label: `${shop.tax_label} ${order.tax_rate}%`, amount: order.tax }]
+          : [];
+    (order.tax_inclusive ? taxIncluded : adjustments).push(...taxLines);
+
+    if (order.delivery_fee > 0)
+      adjustments.push({ label: 'Delivery fee', amount: order.delivery_fee });
+    if (order.tip > 0) adjustments.push({ label: 'Tip', amount: order.tip });
+  } else if (orderItems === order.order_items) {
+    notes.push(
+      `Order total ${formatCurrency(order.total_sale, shop.currency_code)} split ${order.order_bills.length} ways`
+    );
+  } else if (Math.abs(bill.amount - itemsTotal) > 0.005) {
+    adjustments.push({
+      label:
+        order.delivery_fee > 0
+          ? 'Share of discounts, tax, delivery & tip'
+          : 'Share of discounts, tax & tip',
+      amount: bill.amount - itemsTotal,
+    });
+  }
+
+  if (order.reversal_type) {
+    notes.push(order.reversal_type === 'voided' ? 'VOIDED' : 'REFUNDED');
+  } else if (!bill && order.refunded_total > 0) {
+    notes.push(`Refunded ${formatCurrency(order.refunded_total, shop.currency_code)}`);
+  }
+
+  return {
+    shopName: shop.name,
+    shopLocation: shop.location,
+    logoUrl: shop.image_url,
+    header: shop.receipt_header,
+    footer: shop.receipt_footer,
+    currency: shop.currency_code,
+    orderId: order.id,
+    orderNumber: getReceiptOrderNumber(order),
+    orderDate: order.order_date,
+    billLabel: bill
+      ? `${bill.label} (Bill ${bill.bill_number} of ${order.order_bills.length})`
+      : null,
+    orderType: formatOrderType(order),
+    deliveryAddress: order.order_type === 'delivery' ? order.delivery_address : null,
+    customerName: bill ? bill.customer_name : order.customer_name,
+    items,
+    subtotal: bill ? itemsTotal : order.subtotal,
+    adjustments,
+    taxIncluded,
+    total: bill ? bill.amount : order.total_sale,
+    payments: payments.map((payment) => ({
+      label: [
+        payment.payment_type?.code ?? 'Payment',
+        payment.reference && `Ref ${payment.reference}`,
+      ]
+        .filter(Boolean)
+        .join(' '),
+      amount: payment.amount_tendered ?? payment.amount,
+    })),
+    change: payments.reduce((sum, payment) => sum + payment.change, 0),
+    notes,
+    opensCashDrawer: payments.some((payment) => payment.payment_type?.opens_cash_drawer),
+  };
+}
+
+const formatReceiptDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * Break text into lines of at most width characters, on spaces where possible
+ * @private
+ */
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+    while (current.length > width) {
+      lines.push(current.slice(0, width));
+      current = current.slice(width);
+    }
+  }
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Left text and right-aligned amount on one line; long text wraps above the amount
+ * @private
+ */
+function columns(left: string, right: string, width: number): string[] {
+  // Amounts too wide to share a line go on their own, right-aligned
+  if (right.length > width - 8) {
+    return [
+      ...wrapText(left, width),
+      ...wrapText(right, width).map((line) => line.padStart(width)),
+    ];
+  }
+  const wrapped = wrapText(left, width - right.length - 1);
+  const last = wrapped.pop() ?? '';
+  return [...wrapped, `${last}${' '.repeat(width - last.length - right.length)}${right}`];
+}
+
+/**
+ * Split multi-line shop text into its non-empty lines
+ * @private
+ */
+function textLines(text: string | null): string[] {
+  return (text ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Shop's footer lines, or a plain thank-you when it has none
+ * @private
+ */
+function footerLines(receipt: Receipt): string[] {
+  const lines = textLines(receipt.footer);
+  return lines.length > 0 ? lines : [DEFAULT_FOOTER];
+}
+
+// Printer-safe spellings for characters outside ASCII
+const ASCII_FALLBACKS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₱': 'PHP',
+  '₹': 'INR',
+  '₩': 'KRW',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+};
+
+/**
+ * Fold text to printable ASCII: accents are dropped, known symbols spelled
+ * out and anything else replaced with "?"
+ * @private
+ */
+function toAscii(text: string): string {
+  return Array.from(text.normalize('NFKD').replace(/[\u0300-\u036f]/g, ''))
+    .map((char) => (/[\x20-\x7e]/.test(char) ? char : (ASCII_FALLBACKS[char] ?? '?')))
+    .join('');
+}
+
+/**
+ * Lay a receipt out as fixed-width lines with their styling, shared by the
+ * plain-text and ESC/POS renderers
+ * @param receipt - Receipt to lay out
+ * @param width - Characters per line (32 for 58mm paper, 48 for 80mm)
+ * @param options.ascii - Fold text to ASCII for printers without Unicode support
+ * @returns Lines in printing order
+ */
+export function layoutReceipt(
+  receipt: Receipt,
+  width: ReceiptWidth = 32,
+  options: { ascii?: boolean } = {}
+): ReceiptTextLine[] {
+  const fold = options.ascii ? toAscii : (text: string) => text;
+  const money = (amount: number) => formatCurrency(amount, receipt.currency);
+  const lines: ReceiptTextLine[] = [];
+
+  const left = (texts: string[], bold = false) =>
+    lines.push(...texts.map((text) => ({ text, align: 'left' as const, bold })));
+  const center = (text: string, style: Pick<ReceiptTextLine, 'bold' | 'large'> = {}) =>
+    lines.push(
+      ...wrapText(fold(text), width).map((line) => ({
+        text: line,
+        align: 'center' as const,
+        ...style,
+      }))
+    );
+  const row = (label: string, amount: string, bold = false) =>
+    left(columns(fold(label), fold(amount), width), bold);
+  const rule = () => left(['-'.repeat(width)]);
+
+  center(receipt.shopName.toUpperCase(), { bold: true, large: true });
+  if (receipt.shopLocation) center(receipt.shopLocation);
+  for (const line of textLines(receipt.header)) center(line);
+  rule();
+  row('Order', `#${receipt.orderNumber}`);
+  row('Date', formatReceiptDate(receipt.orderDate));
+  if (receipt.billLabel) left(wrapText(fold(receipt.billLabel), width));
+  left(wrapText(fold(receipt.orderType), width), true);
+  if (receipt.deliveryAddress) {
+    left(wrapText(fold(`Deliver to: ${receipt.deliveryAddress}`), width));
+  }
+  if (receipt.customerName) left(wrapText(fold(`Customer: ${receipt.customerName}`), width));
+  rule();
+
+  for (const item of receipt.items) {
+    row(`${item.quantity}x ${item.name}`, money(item.total));
+    for (const detail of item.details) {
+      left(
+        wrapText(fold(detail), width - 4).map((line, i) => `${i === 0 ? '  + ' : '    '}${line}`)
+      );
+    }
+  }
+  rule();
+
+  row('Subtotal', money(receipt.subtotal));
+  for (const line of receipt.adjustments) row(line.label, money(line.amount));
+  row('TOTAL', money(receipt.total), true);
+  for (const line of receipt.taxIncluded) row(`Incl. ${line.label}`, money(line.amount));
+
+  if (receipt.payments.length > 0) {
+    rule();
+    for (const payment of receipt.payments) row(payment.label, money(payment.amount));
+    if (receipt.change > 0) row('Change', money(receipt.change));
+  }
+
+  if (receipt.notes.length > 0) {
+    rule();
+    for (const note of receipt.notes) center(note, { bold: true });
+  }
+
+  rule();
+  for (const line of footerLines(receipt)) center(line);
+
+  return lines;
+}
+
+/**
+ * Render a receipt as fixed-width plain text for thermal printers
+ * @param receipt - Receipt to render
+ * @param width - Characters per line (32 for 58mm paper, 48 for 80mm)
+ * @returns Receipt text with \n line breaks
+ */
+export function renderReceiptText(receipt: Receipt, width: ReceiptWidth = 32): string {
+  return layoutReceipt(receipt, width)
+    .map((line) =>
+      line.align === 'center'
+        ? `${' '.repeat(Math.floor((width - line.text.length) / 2))}${line.text}`
+        : line.text
+    )
+    .join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render a receipt as a standalone, printable HTML document sized for receipt paper
+ * @param receipt - Receipt to render
+ * @returns Complete HTML document
+ */
+export function renderReceiptHtml(receipt: Receipt): string {
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, receipt.currency));
+  const row = (label: string, amount: string, className = '') =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${amount}</td></tr>`;
+
+  const items = receipt.items
+    .map(
+      (item) =>
+        row(`${item.quantity}x ${item.name}`, money(item.total)) +
+        item.details
+          .map((detail) => `<tr class="detail"><td colspan="2">+ ${escapeHtml(detail)}</td></tr>`)
+          .join('')
+    )
+    .join('');
+
+  const totals = [
+    row('Subtotal', money(receipt.subtotal)),
+    ...receipt.adjustments.map((line) => row(line.label, money(line.amount))),
+    row('Total', money(receipt.total), 'total'),
+    ...receipt.taxIncluded.map((line) => row(`Incl. ${line.label}`, money(line.amount), 'detail')),
+  ].join('');
+
+  const paragraphs = (lines: string[]) =>
+    lines.map((line) => `<p>${escapeHtml(line)}</p>`).join('');
+
+  const payments =
+    receipt.payments.length > 0
+      ? `<table>${receipt.payments.map((payment) => row(payment.label, money(payment.amount))).join('')}${
+          receipt.change > 0 ? row('Change', money(receipt.change)) : ''
+        }</table>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt #${escapeHtml(receipt.orderNumber)}</title>
+<style>
+  @page { size: 80mm auto; margin: 4mm; }
+  body { font-family: 'Courier New', monospace; font-size: 12px; color: #000; max-width: 72mm; margin: 0 auto; }
+  .header { text-align: center; }
+  .header img { max-width: 40mm; max-height: 20mm; }
+  .header h1 { font-size: 16px; margin: 4px 0; }
+  .header p, .meta p { margin: 2px 0; }
+  hr { border: none; border-top: 1px dashed #000; margin: 6px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  td { vertical-align: top; padding: 1px 0; }
+  td.amount { text-align: right; white-space: nowrap; padding-left: 8px; }
+  tr.detail td { font-size: 11px; padding-left: 8px; }
+  tr.total td { font-weight: bold; font-size: 14px; padding-top: 4px; }
+  .notes, .footer { text-align: center; }
+</style>
+</head>
+<body>
+<div class="header">
+  ${receipt.logoUrl ? `<img src="${escapeHtml(receipt.logoUrl)}" alt="">` : ''}
+  <h1>${escapeHtml(receipt.shopName)}</h1>
+  ${receipt.shopLocation ? `<p>${escapeHtml(receipt.shopLocation)}</p>` : ''}
+  ${paragraphs(textLines(receipt.header))}
+</div>
+<hr>
+<div class="meta">
+  <p>Order #${escapeHtml(receipt.orderNumber)}</p>
+  <p>${escapeHtml(formatReceiptDate(receipt.orderDate))}</p>
+  ${receipt.billLabel ? `<p>${escapeHtml(receipt.billLabel)}</p>` : ''}
+  <p><strong>${escapeHtml(receipt.orderType)}</strong></p>
+  ${receipt.deliveryAddress ? `<p>Deliver to: ${escapeHtml(receipt.deliveryAddress)}</p>` : ''}
+  ${receipt.customerName ? `<p>Customer: ${escapeHtml(receipt.customerName)}</p>` : ''}
+</div>
+<hr>
+<table>${items}</table>
+<hr>
+<table>${totals}</table>
+${payments ? `<hr>${payments}` : ''}
+${receipt.notes.length > 0 ? `<hr><div class="notes">${receipt.notes.map((note) => `<p>${escapeHtml(note)}</p>`).join('')}</div>` : ''}
+<hr>
+<div class="footer">${paragraphs(footerLines(receipt))}</div>
+</body>
+</html>`;
+}
+
+/**
+ * Print an HTML document through a hidden frame, leaving the app page untouched
+ * @param html - Complete HTML document
+ */
+export function printHtml(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Give the print dialog time to take its snapshot before removing the frame
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,101 @@
+import type { CartItem, CartItemAddon, CartItemModifier, StockLevels } from '@/types';
+import { getCartStockUsage, getMakeableCounts, getShortCartItemIds } from './stock';
+
+const makeItem = (
+  cartItemId: string,
+  productId: string,
+  quantity: number,
+  extras: { modifiers?: Partial<CartItemModifier>[]; addons?: Partial<CartItemAddon>[] } = {}
+): CartItem =>
+  ({
+    cart_item_id: cartItemId,
+    product_id: productId,
+    quantity,
+    modifiers: extras.modifiers ?? [],
+    addons: extras.addons ?? [],
+  }) as CartItem;
+
+// A latte takes a shot and 0.2l of milk; a cookie takes one cookie
+const stock: StockLevels = {
+  recipes: [
+    { product_id: 'latte', inventory_item_id: 'espresso', quantity: 1 },
+    { product_id: 'latte', inventory_item_id: 'milk', quantity: 0.2 },
+    { product_id: 'cookie', inventory_item_id: 'cookies', quantity: 1 },
+  ],
+  on_hand: { espresso: 10, milk: 1, cookies: 0, syrup: 3 },
+};
+
+describe('getCartStockUsage', () => {
+  it('scales recipes and modifiers by the line quantity but not addons', () => {
+    const items = [
+      makeItem('line-1', 'latte', 2, {
+        modifiers: [
+          { inventory_item_id: 'espresso', quantity: 1 },
+          { inventory_item_id: null, quantity: 1 },
+        ],
+        addons: [{ item_id: 'syrup', quantity: 3 }],
+      }),
+      makeItem('line-2', 'latte', 1),
+    ];
+
+    const usage = getCartStockUsage(items, stock);
+
+    expect(usage).toEqual({ espresso: 5, milk: expect.any(Number), syrup: 3 });
+    expect(usage.milk).toBeCloseTo(0.6);
+  });
+});
+
+describe('getMakeableCounts', () => {
+  it('limits each product by its scarcest ingredient', () => {
+    // Milk runs out first: 1l makes five lattes, despite float error in 1 / 0.2
+    expect(getMakeableCounts(stock)).toEqual({ latte: 5, cookie: 0 });
+  });
+
+  it("takes the cart's share out first", () => {
+    const items = [makeItem('line-1', 'latte', 3)];
+    expect(getMakeableCounts(stock, items).latte).toBe(2);
+  });
+
+  it('never goes below zero', () => {
+    const items = [makeItem('line-1', 'latte', 8)];
+    expect(getMakeableCounts(stock, items).latte).toBe(0);
+  });
+
+  it('leaves out products without tracked inventory', () => {
+    const counts = getMakeableCounts({
+      recipes: [
+        { product_id: 'water', inventory_item_id: 'untracked', quantity: 1 },
+        { product_id: 'napkin', inventory_item_id: 'espresso', quantity: 0 },
+      ],
+      on_hand: { espresso: 10 },
+    });
+
+    expect(counts).toEqual({});
+  });
+});
+
+describe('getShortCartItemIds', () => {
+  it('flags every line drawing on an item the whole cart needs more of', () => {
+    const items = [
+      makeItem('line-1', 'latte', 3),
+      makeItem('line-2', 'latte', 3),
+      makeItem('line-3', 'tea', 1),
+    ];
+
+    expect(getShortCartItemIds(items, stock)).toEqual(['line-1', 'line-2']);
+  });
+
+  it('accepts a cart that uses exactly what is on hand', () => {
+    const items = [makeItem('line-1', 'latte', 5)];
+    expect(getShortCartItemIds(items, stock)).toEqual([]);
+  });
+
+  it('flags lines whose addons run short', () => {
+    const items = [
+      makeItem('line-1', 'tea', 1, { addons: [{ item_id: 'syrup', quantity: 2 }] }),
+      makeItem('line-2', 'tea', 1, { addons: [{ item_id: 'syrup', quantity: 2 }] }),
+    ];
+
+    expect(getShortCartItemIds(items, stock)).toEqual(['line-1', 'line-2']);
+  });
+});
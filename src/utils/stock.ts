@@ -0,0 +1,88 @@
+// Stock Utilities - How many of each product can be made from what is on hand
+
+import type { CartItem, StockLevels } from '@/types';
+
+export const LOW_STOCK_THRESHOLD = 5; // Badge products that can be made this many times or fewer
+
+/**
+ * Inventory one cart line draws on: linked product items and modifiers per unit
+ * of the line, and addons as chosen for the whole line
+ * @private
+ */
+function lineStockUsage(item: CartItem, stock: StockLevels): Array<[string, number]> {
+  return [
+    ...stock.recipes
+      .filter((recipe) => recipe.product_id === item.product_id)
+      .map((recipe): [string, number] => [
+        recipe.inventory_item_id,
+        recipe.quantity * item.quantity,
+      ]),
+    ...item.modifiers
+      .filter((modifier) => modifier.inventory_item_id)
+      .map((modifier): [string, number] => [
+        modifier.inventory_item_id as string,
+        (modifier.quantity || 0) * item.quantity,
+      ]),
+    ...item.addons
+      .filter((addon) => addon.item_id)
+      .map((addon): [string, number] => [addon.item_id as string, addon.quantity]),
+  ];
+}
+
+/**
+ * Total inventory the cart draws on
+ * @returns Inventory item ID to quantity
+ */
+export function getCartStockUsage(items: CartItem[], stock: StockLevels): Record<string, number> {
+  const usage: Record<string, number> = {};
+  for (const item of items) {
+    for (const [inventoryItemId, quantity] of lineStockUsage(item, stock)) {
+      usage[inventoryItemId] = (usage[inventoryItemId] ?? 0) + quantity;
+    }
+  }
+  return usage;
+}
+
+/**
+ * How many more of each product can be made once the cart has taken its share.
+ * Products without linked inventory are left out, since they never run short.
+ * @param stock - Recipes and counts on hand
+ * @param items - Cart lines already drawing on the stock
+ * @returns Product ID to count (0 when it can't be made)
+ */
+export function getMakeableCounts(
+  stock: StockLevels,
+  items: CartItem[] = []
+): Record<string, number> {
+  const usage = getCartStockUsage(items, stock);
+  const counts: Record<string, number> = {};
+
+  for (const recipe of stock.recipes) {
+    if (recipe.quantity <= 0 || !(recipe.inventory_item_id in stock.on_hand)) continue;
+
+    const remaining =
+      stock.on_hand[recipe.inventory_item_id] - (usage[recipe.inventory_item_id] ?? 0);
+    // Allow for float error in fractional recipes (e.g. 0.1 of a litre)
+    const makeable = Math.max(Math.floor(remaining / recipe.quantity + 1e-9), 0);
+    counts[recipe.product_id] = Math.min(counts[recipe.product_id] ?? makeable, makeable);
+  }
+
+  return counts;
+}
+
+/**
+ * Cart lines drawing on an inventory item the whole cart needs more of than is on hand
+ * @returns Cart item IDs
+ */
+export function getShortCartItemIds(items: CartItem[], stock: StockLevels): string[] {
+  const usage = getCartStockUsage(items, stock);
+  const isShort = (inventoryItemId: string) =>
+    inventoryItemId in stock.on_hand &&
+    usage[inventoryItemId] > stock.on_hand[inventoryItemId] + 1e-9;
+
+  return items
+    .filter((item) =>
+      lineStockUsage(item, stock).some(([inventoryItemId]) => isShort(inventoryItemId))
+    )
+    .map((item) => item.cart_item_id);
+}
@@ -0,0 +1,36 @@
+import type { TableTab } from '@/types';
+import { formatTableElapsed, getTableStatus } from './table';
+
+describe('getTableStatus', () => {
+  it('is free without an open tab', () => {
+    expect(getTableStatus(undefined)).toBe('free');
+  });
+
+  it('is occupied until the bill is requested', () => {
+    const tab = { bill_requested_at: null } as TableTab;
+
+    expect(getTableStatus(tab)).toBe('occupied');
+    expect(getTableStatus({ ...tab, bill_requested_at: '2026-03-01T13:00:00Z' })).toBe(
+      'bill_requested'
+    );
+  });
+});
+
+describe('formatTableElapsed', () => {
+  const openedAt = '2026-03-01T12:00:00Z';
+  const minutesLater = (minutes: number) => new Date(openedAt).getTime() + minutes * 60000;
+
+  it('shows minutes for the first hour', () => {
+    expect(formatTableElapsed(openedAt, minutesLater(0))).toBe('0m');
+    expect(formatTableElapsed(openedAt, minutesLater(59.9))).toBe('59m');
+  });
+
+  it('shows hours and padded minutes after that', () => {
+    expect(formatTableElapsed(openedAt, minutesLater(60))).toBe('1h 00m');
+    expect(formatTableElapsed(openedAt, minutesLater(125))).toBe('2h 05m');
+  });
+
+  it('never goes negative when the clock is behind', () => {
+    expect(formatTableElapsed(openedAt, minutesLater(-3))).toBe('0m');
+  });
+});
@@ -0,0 +1,35 @@
+// Table Utilities - Floor plan status and timing for dining tables
+
+import type { TableStatus, TableTab } from '@/types';
+
+export const TABLE_STATUS_LABELS: Record<TableStatus, string> = {
+  free: 'Free',
+  occupied: 'Occupied',
+  bill_requested: 'Bill Requested',
+};
+
+// Ionic colors for status badges and floor plan tiles
+export const TABLE_STATUS_COLORS: Record<TableStatus, string> = {
+  free: 'success',
+  occupied: 'warning',
+  bill_requested: 'danger',
+};
+
+/**
+ * A table's status from its open tab, if it has one
+ */
+export function getTableStatus(tab: TableTab | undefined): TableStatus {
+  if (!tab) return 'free';
+  return tab.bill_requested_at ? 'bill_requested' : 'occupied';
+}
+
+/**
+ * Time since a table was seated, e.g. "45m" or "1h 05m"
+ * @param openedAt - When the tab was opened
+ * @param now - Current time in milliseconds
+ */
+export function formatTableElapsed(openedAt: string, now: number): string {
+  const minutes = Math.max(0, Math.floor((now - new Date(openedAt).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
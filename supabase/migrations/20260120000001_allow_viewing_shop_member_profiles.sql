@@ -0,0 +1,18 @@
+-- =====================================================
+-- Allow Viewing Profiles of Shop Members
+-- Migration: 20260120000001_allow_viewing_shop_member_profiles.sql
+-- Purpose: Let users see display names of people they share a shop with
+--          (needed for "served by" in sales history and transaction details)
+-- =====================================================
+
+DROP POLICY IF EXISTS "Users can view profiles of shop members" ON user_profiles;
+CREATE POLICY "Users can view profiles of shop members"
+  ON user_profiles FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users mine
+      JOIN shop_users theirs ON theirs.shop_id = mine.shop_id
+      WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = user_profiles.id
+    )
+  );
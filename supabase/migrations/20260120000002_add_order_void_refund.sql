@@ -0,0 +1,42 @@
+-- =====================================================
+-- Add Void/Refund Tracking to Orders
+-- Migration: 20260120000002_add_order_void_refund.sql
+-- Purpose: Keep voided/refunded orders instead of deleting them, and allow
+--          compensating inventory transactions (returns and waste)
+-- =====================================================
+
+-- Reversal fields on orders
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS reversal_type TEXT,
+  ADD COLUMN IF NOT EXISTS reversal_reason TEXT,
+  ADD COLUMN IF NOT EXISTS reversed_by_id UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMPTZ;
+
+ALTER TABLE orders
+  ADD CONSTRAINT check_reversal_type
+  CHECK (reversal_type IS NULL OR reversal_type IN ('voided', 'refunded'));
+
+-- A reversed order must record when, by whom and why
+ALTER TABLE orders
+  ADD CONSTRAINT check_reversal_complete
+  CHECK (
+    reversal_type IS NULL OR
+    (reversal_reason IS NOT NULL AND reversed_by_id IS NOT NULL AND reversed_at IS NOT NULL)
+  );
+
+COMMENT ON COLUMN orders.reversal_type IS 'voided or refunded (NULL for active orders)';
+COMMENT ON COLUMN orders.reversal_reason IS 'Reason given when the order was voided or refunded';
+COMMENT ON COLUMN orders.reversed_by_id IS 'User who voided or refunded the order';
+COMMENT ON COLUMN orders.reversed_at IS 'When the order was voided or refunded';
+
+-- Allow compensating inventory transactions for reversed sales
+ALTER TABLE inventory_transactions
+  DROP CONSTRAINT IF EXISTS inventory_transactions_transaction_type_check;
+
+ALTER TABLE inventory_transactions
+  ADD CONSTRAINT inventory_transactions_transaction_type_check
+  CHECK (transaction_type IN ('receipt', 'issue', 'sale', 'adjustment', 'countAdjustment', 'return', 'waste'));
+
+-- Speed up lookups of inventory transactions by order reference
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_reference
+  ON inventory_transactions(reference);
@@ -0,0 +1,85 @@
+-- =====================================================
+-- Create Order Refunds
+-- Migration: 20260120000003_create_order_refunds.sql
+-- Purpose: Per-line partial refunds with their own amount, payment type and
+--          inventory handling; link sale transactions to the order line they
+--          consumed stock for
+-- =====================================================
+
+-- =============================================
+-- ORDER REFUNDS
+-- =============================================
+CREATE TABLE IF NOT EXISTS order_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  payment_type_id UUID REFERENCES payment_types(id),
+  reason TEXT NOT NULL,
+  inventory_handling TEXT NOT NULL DEFAULT 'restock'
+    CHECK (inventory_handling IN ('restock', 'waste')),
+  refunded_by_id UUID REFERENCES auth.users(id) NOT NULL,
+  refunded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id)
+);
+
+ALTER TABLE order_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage order refunds for their shops"
+  ON order_refunds FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = order_refunds.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+-- =============================================
+-- ORDER REFUND ITEMS
+-- =============================================
+CREATE TABLE IF NOT EXISTS order_refund_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id UUID REFERENCES order_refunds(id) ON DELETE CASCADE NOT NULL,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE NOT NULL,
+  quantity INT NOT NULL CHECK (quantity > 0),
+  amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE order_refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage order refund items"
+  ON order_refund_items FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM order_refunds r
+      JOIN shop_users su ON su.shop_id = r.shop_id
+      WHERE r.id = order_refund_items.refund_id
+      AND su.user_id = auth.uid()
+    )
+  );
+
+-- Running total of partial refunds, so net = total_sale - refunded_total
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS refunded_total DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN orders.refunded_total IS 'Sum of partial refunds (order_refunds.amount) against this order';
+
+-- Link sale/return/waste transactions to the order line they belong to
+ALTER TABLE inventory_transactions
+  ADD COLUMN IF NOT EXISTS order_item_id UUID REFERENCES order_items(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN inventory_transactions.order_item_id IS 'Order line this transaction consumed or returned stock for (NULL for non-order transactions)';
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order_id ON order_refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_shop_refunded_at ON order_refunds(shop_id, refunded_at);
+CREATE INDEX IF NOT EXISTS idx_order_refund_items_refund_id ON order_refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_order_refund_items_order_item_id ON order_refund_items(order_item_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_order_item_id ON inventory_transactions(order_item_id);
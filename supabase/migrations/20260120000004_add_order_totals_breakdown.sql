@@ -0,0 +1,26 @@
+-- =====================================================
+-- Add Totals Breakdown to Orders
+-- Migration: 20260120000004_add_order_totals_breakdown.sql
+-- Purpose: Persist subtotal, discount, tax (and the rate used) and tip so
+--          reports and receipt reprints match what the customer was charged
+-- =====================================================
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(6,3) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tip DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN orders.subtotal IS 'Sum of line totals before discount, tax and tip';
+COMMENT ON COLUMN orders.discount IS 'Discount amount applied to the subtotal';
+COMMENT ON COLUMN orders.tax IS 'Tax amount charged';
+COMMENT ON COLUMN orders.tax_rate IS 'Tax rate (percent) used when the order was placed';
+COMMENT ON COLUMN orders.tip IS 'Tip amount';
+
+-- Existing orders only stored the total, which was the subtotal (no tax/discount/tip applied)
+UPDATE orders SET subtotal = COALESCE(total_sale, 0) WHERE subtotal = 0;
+
+ALTER TABLE orders
+  ADD CONSTRAINT check_order_breakdown_non_negative
+  CHECK (subtotal >= 0 AND discount >= 0 AND tax >= 0 AND tax_rate >= 0 AND tip >= 0);
@@ -0,0 +1,25 @@
+-- =====================================================
+-- Add Tax Settings to Shops
+-- Migration: 20260120000005_add_shop_tax_settings.sql
+-- Purpose: Per-shop tax rate, label (e.g. VAT/GST) and inclusive vs exclusive
+--          pricing, picked up automatically by the cart
+-- =====================================================
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(6,3) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_label TEXT NOT NULL DEFAULT 'Tax',
+  ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE shops
+  ADD CONSTRAINT check_shop_tax_rate_range
+  CHECK (tax_rate >= 0 AND tax_rate <= 100);
+
+COMMENT ON COLUMN shops.tax_rate IS 'Default tax rate (percent) applied by the cart';
+COMMENT ON COLUMN shops.tax_label IS 'Name shown for tax on carts and receipts (e.g. VAT, GST)';
+COMMENT ON COLUMN shops.tax_inclusive IS 'TRUE when shelf prices already include tax';
+
+-- Orders record whether their tax was included in prices, so receipts can be reprinted correctly
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN orders.tax_inclusive IS 'TRUE when tax was included in prices rather than added on top';
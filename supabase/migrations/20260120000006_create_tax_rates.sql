@@ -0,0 +1,80 @@
+-- =====================================================
+-- Create Tax Rates
+-- Migration: 20260120000006_create_tax_rates.sql
+-- Purpose: Named tax rates per shop (e.g. Standard 12%, Zero-rated 0%) that
+--          product categories or individual products can be assigned to,
+--          and a per-rate tax breakdown stored with each order
+-- =====================================================
+
+-- =============================================
+-- TAX RATES
+-- =============================================
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  rate DECIMAL(6,3) NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate <= 100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  UNIQUE(shop_id, name)
+);
+
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage tax rates for their shops"
+  ON tax_rates FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = tax_rates.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+-- Product overrides category; neither set means the shop's default tax_rate applies
+ALTER TABLE product_categories
+  ADD COLUMN IF NOT EXISTS tax_rate_id UUID REFERENCES tax_rates(id) ON DELETE SET NULL;
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS tax_rate_id UUID REFERENCES tax_rates(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN product_categories.tax_rate_id IS 'Tax rate for products in this category (NULL = shop default)';
+COMMENT ON COLUMN products.tax_rate_id IS 'Tax rate for this product, overriding its category (NULL = use category)';
+
+-- =============================================
+-- ORDER TAX LINES
+-- =============================================
+-- Snapshot of name and rate so later edits to tax_rates don't change past orders
+CREATE TABLE IF NOT EXISTS order_tax_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  tax_rate_id UUID REFERENCES tax_rates(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  rate DECIMAL(6,3) NOT NULL DEFAULT 0,
+  taxable_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  tax DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE order_tax_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage order tax lines"
+  ON order_tax_lines FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      JOIN shop_users su ON su.shop_id = o.shop_id
+      WHERE o.id = order_tax_lines.order_id
+      AND su.user_id = auth.uid()
+    )
+  );
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_tax_rates_shop_id ON tax_rates(shop_id);
+CREATE INDEX IF NOT EXISTS idx_product_categories_tax_rate_id ON product_categories(tax_rate_id);
+CREATE INDEX IF NOT EXISTS idx_products_tax_rate_id ON products(tax_rate_id);
+CREATE INDEX IF NOT EXISTS idx_order_tax_lines_order_id ON order_tax_lines(order_id);
@@ -0,0 +1,122 @@
+-- =====================================================
+-- Create Discounts
+-- Migration: 20260120000007_create_discounts.sql
+-- Purpose: Shop-defined discounts (percentage or fixed, whole order or a
+--          product/category, optional promo code, validity window and usage
+--          limit) and the discounts applied to each order
+-- =====================================================
+
+-- =============================================
+-- DISCOUNTS
+-- =============================================
+CREATE TABLE IF NOT EXISTS discounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  code TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  value DECIMAL(10,2) NOT NULL CHECK (value >= 0),
+  scope TEXT NOT NULL DEFAULT 'order' CHECK (scope IN ('order', 'product', 'category')),
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES product_categories(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  usage_limit INT CHECK (usage_limit IS NULL OR usage_limit > 0),
+  usage_count INT NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  CONSTRAINT check_discount_percentage CHECK (discount_type <> 'percentage' OR value <= 100),
+  CONSTRAINT check_discount_target CHECK (
+    (scope = 'order' AND product_id IS NULL AND category_id IS NULL)
+    OR (scope = 'product' AND product_id IS NOT NULL)
+    OR (scope = 'category' AND category_id IS NOT NULL)
+  ),
+  CONSTRAINT check_discount_window CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+-- Promo codes are matched case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discounts_shop_code
+  ON discounts(shop_id, UPPER(code))
+  WHERE code IS NOT NULL;
+
+ALTER TABLE discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage discounts for their shops"
+  ON discounts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = discounts.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+-- =============================================
+-- ORDER DISCOUNTS
+-- =============================================
+-- Snapshot of the discount as applied; order_item_id is set for product/category discounts
+CREATE TABLE IF NOT EXISTS order_discounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  discount_id UUID REFERENCES discounts(id) ON DELETE SET NULL,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  code TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  value DECIMAL(10,2) NOT NULL DEFAULT 0,
+  amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE order_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage order discounts"
+  ON order_discounts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      JOIN shop_users su ON su.shop_id = o.shop_id
+      WHERE o.id = order_discounts.order_id
+      AND su.user_id = auth.uid()
+    )
+  );
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+-- Count one use per order for each discount; returns the ids that were at their limit.
+-- The limit check and the increment are one statement, so concurrent checkouts
+-- can never take a discount past its limit.
+CREATE OR REPLACE FUNCTION increment_discount_usage(discount_ids UUID[])
+RETURNS UUID[] AS $$
+DECLARE
+  counted UUID[];
+BEGIN
+  WITH updated AS (
+    UPDATE discounts
+    SET usage_count = usage_count + 1, updated_at = NOW()
+    WHERE id = ANY(discount_ids)
+    AND (usage_limit IS NULL OR usage_count < usage_limit)
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO counted FROM updated;
+
+  -- Existing discounts that weren't counted had reached their limit
+  RETURN ARRAY(
+    SELECT d.id
+    FROM discounts d
+    WHERE d.id = ANY(discount_ids)
+    AND NOT (d.id = ANY(counted))
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_discounts_shop_id ON discounts(shop_id);
+CREATE INDEX IF NOT EXISTS idx_order_discounts_order_id ON order_discounts(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_discounts_discount_id ON order_discounts(discount_id);
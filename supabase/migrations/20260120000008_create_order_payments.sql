@@ -0,0 +1,73 @@
+-- =====================================================
+-- Create Order Payments
+-- Migration: 20260120000008_create_order_payments.sql
+-- Purpose: Let an order be settled with several tenders (e.g. part cash,
+--          part card). Each tender is recorded in order_payments; the
+--          payment fields on orders keep a summary for listing and filtering.
+-- =====================================================
+
+-- =============================================
+-- ORDER PAYMENTS
+-- =============================================
+-- amount is what the tender paid towards the order. Only cash may be
+-- over-tendered: amount_tendered is what the customer handed over and
+-- change is what was given back.
+CREATE TABLE IF NOT EXISTS order_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  payment_type_id UUID REFERENCES payment_types(id) ON DELETE SET NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  amount_tendered DECIMAL(10,2),
+  change DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (change >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  CONSTRAINT check_order_payment_tendered CHECK (
+    amount_tendered IS NULL OR amount_tendered = amount + change
+  )
+);
+
+ALTER TABLE order_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage order payments"
+  ON order_payments FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      JOIN shop_users su ON su.shop_id = o.shop_id
+      WHERE o.id = order_payments.order_id
+      AND su.user_id = auth.uid()
+    )
+  );
+
+-- =============================================
+-- ORDERS
+-- =============================================
+-- With split payments the cash received can be less than the order total
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS check_cash_sufficient;
+
+COMMENT ON COLUMN orders.payment_type_id IS 'Largest tender on the order; see order_payments for the full split';
+COMMENT ON COLUMN orders.payment_amount_received IS 'Total tendered across all payments (NULL when not recorded)';
+COMMENT ON COLUMN orders.payment_change IS 'Change given back on the cash tender';
+
+-- Existing orders were paid with a single tender
+INSERT INTO order_payments (order_id, payment_type_id, amount, amount_tendered, change, created_at, created_by)
+SELECT
+  o.id,
+  o.payment_type_id,
+  o.total_sale,
+  CASE WHEN o.payment_amount_received IS NOT NULL
+    THEN o.total_sale + COALESCE(o.payment_change, 0)
+  END,
+  COALESCE(o.payment_change, 0),
+  o.created_at,
+  o.created_by
+FROM orders o
+WHERE o.payment_received = true
+  AND o.total_sale > 0
+  AND NOT EXISTS (SELECT 1 FROM order_payments op WHERE op.order_id = o.id);
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_order_payments_order_id ON order_payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_payments_payment_type_id ON order_payments(payment_type_id);
@@ -0,0 +1,148 @@
+-- =====================================================
+-- Create Order Bills
+-- Migration: 20260120000009_create_order_bills.sql
+-- Purpose: Split one order into several bills (e.g. one per guest), each
+--          paid and receipted separately. Bills either own specific order
+--          lines or share the order evenly. The order is saved with its
+--          bills unpaid, and each bill is paid on its own as the guest pays.
+-- =====================================================
+
+-- =============================================
+-- ORDER BILLS
+-- =============================================
+CREATE TABLE IF NOT EXISTS order_bills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  bill_number INTEGER NOT NULL CHECK (bill_number > 0),
+  label TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  customer_name TEXT,
+  customer_email TEXT,
+  customer_phone TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  UNIQUE(order_id, bill_number)
+);
+
+ALTER TABLE order_bills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage order bills"
+  ON order_bills FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      JOIN shop_users su ON su.shop_id = o.shop_id
+      WHERE o.id = order_bills.order_id
+      AND su.user_id = auth.uid()
+    )
+  );
+
+-- Lines assigned to a guest's bill; NULL when the order is not split by line
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS bill_id UUID REFERENCES order_bills(id) ON DELETE SET NULL;
+
+-- Tenders paying a specific bill; NULL when the order is not split
+ALTER TABLE order_payments
+  ADD COLUMN IF NOT EXISTS bill_id UUID REFERENCES order_bills(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN order_items.bill_id IS 'Bill this line was assigned to when the order was split by line';
+COMMENT ON COLUMN order_payments.bill_id IS 'Bill this tender paid when the order was split';
+
+-- =============================================
+-- PAYING A BILL
+-- =============================================
+-- Record the tenders for one bill of a split order as its guest pays, so
+-- guests who have paid are kept even if checkout is left part-way. The order is locked, so bills
+-- paid on two registers at once are counted one after the other and a bill
+-- is only paid once, and it is marked paid with its last bill.
+-- bill_data: { customer_name, customer_email, customer_phone, payments }, with
+-- payments as order_payments columns adding up to the bill's amount
+CREATE OR REPLACE FUNCTION public.pay_order_bill(target_bill_id UUID, bill_data JSONB)
+RETURNS orders AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  paid_at TIMESTAMPTZ := NOW();
+  target_bill order_bills%ROWTYPE;
+  paid_order orders%ROWTYPE;
+  tendered NUMERIC;
+BEGIN
+  SELECT * INTO target_bill FROM order_bills WHERE id = target_bill_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  SELECT * INTO paid_order FROM orders WHERE id = target_bill.order_id FOR UPDATE;
+
+  IF paid_order.reversal_type IS NOT NULL THEN
+    RAISE EXCEPTION 'Order has been %', paid_order.reversal_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_payments WHERE bill_id = target_bill_id) THEN
+    RAISE EXCEPTION '% has already been paid', target_bill.label
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(p.amount), 0) INTO tendered
+  FROM jsonb_populate_recordset(NULL::order_payments, COALESCE(bill_data->'payments', '[]')) p;
+
+  IF ABS(tendered - target_bill.amount) > 0.005 THEN
+    RAISE EXCEPTION 'Payments do not add up to %', target_bill.label
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE order_bills
+  SET
+    customer_name = NULLIF(bill_data->>'customer_name', ''),
+    customer_email = NULLIF(bill_data->>'customer_email', ''),
+    customer_phone = NULLIF(bill_data->>'customer_phone', '')
+  WHERE id = target_bill_id;
+
+  INSERT INTO order_payments (
+    order_id, bill_id, payment_type_id, amount, amount_tendered, change, reference,
+    created_at, created_by
+  )
+  SELECT
+    paid_order.id, target_bill_id, p.payment_type_id, p.amount, p.amount_tendered, p.change,
+    p.reference, paid_at, acting_user_id
+  FROM jsonb_populate_recordset(NULL::order_payments, bill_data->'payments') p;
+
+  -- Keep the order's summary of its tenders as create_order records it: the
+  -- largest one, what was handed over and the change
+  UPDATE orders o
+  SET
+    payment_received = NOT EXISTS (
+      SELECT 1 FROM order_bills b
+      WHERE b.order_id = o.id
+      AND NOT EXISTS (SELECT 1 FROM order_payments p WHERE p.bill_id = b.id)
+    ),
+    payment_type_id = tenders.payment_type_id,
+    payment_amount_received = tenders.amount_received,
+    payment_change = tenders.change,
+    updated_at = paid_at,
+    updated_by = acting_user_id
+  FROM (
+    SELECT
+      (array_agg(p.payment_type_id ORDER BY p.amount DESC))[1] AS payment_type_id,
+      CASE WHEN bool_or(p.amount_tendered IS NOT NULL)
+        THEN SUM(COALESCE(p.amount_tendered, p.amount))
+      END AS amount_received,
+      CASE WHEN bool_or(p.amount_tendered IS NOT NULL) THEN SUM(p.change) END AS change
+    FROM order_payments p
+    WHERE p.order_id = paid_order.id
+  ) tenders
+  WHERE o.id = paid_order.id
+  RETURNING o.* INTO paid_order;
+
+  RETURN paid_order;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.pay_order_bill(UUID, JSONB) IS 'Record the tenders for one bill of a split order, marking the order paid with its last bill';
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_order_bills_order_id ON order_bills(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_bill_id ON order_items(bill_id);
+CREATE INDEX IF NOT EXISTS idx_order_payments_bill_id ON order_payments(bill_id);
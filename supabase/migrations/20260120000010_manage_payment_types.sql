@@ -0,0 +1,100 @@
+-- =====================================================
+-- Manage Payment Types
+-- Migration: 20260120000010_manage_payment_types.sql
+-- Purpose: Make payment types (tenders) configurable per shop: display
+--          order and behaviour flags, a Cash tender seeded for every shop,
+--          and a reference number on each order payment. Cash payments
+--          recorded without a payment type are linked to the shop's Cash tender.
+-- =====================================================
+
+-- =============================================
+-- PAYMENT TYPES
+-- =============================================
+ALTER TABLE payment_types
+  ADD COLUMN IF NOT EXISTS sequence INT DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS opens_cash_drawer BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS allows_change BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS requires_reference BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN payment_types.sequence IS 'Display order at checkout';
+COMMENT ON COLUMN payment_types.opens_cash_drawer IS 'Kick the cash drawer open when this tender is used';
+COMMENT ON COLUMN payment_types.allows_change IS 'Tender may exceed the balance, with the excess given back as change';
+COMMENT ON COLUMN payment_types.requires_reference IS 'Cashier must record a reference number (e.g. card approval code)';
+
+-- Existing cash tenders keep behaving as cash
+UPDATE payment_types
+SET opens_cash_drawer = TRUE, allows_change = TRUE
+WHERE LOWER(code) = 'cash';
+
+-- Every shop gets a Cash tender
+INSERT INTO payment_types (shop_id, code, description, is_active, sequence, opens_cash_drawer, allows_change)
+SELECT s.id, 'Cash', 'Cash payment', TRUE, 0, TRUE, TRUE
+FROM shops s
+WHERE NOT EXISTS (
+  SELECT 1 FROM payment_types pt
+  WHERE pt.shop_id = s.id AND LOWER(pt.code) = 'cash'
+);
+
+-- =============================================
+-- TRIGGER: Seed Cash for new shops
+-- =============================================
+CREATE OR REPLACE FUNCTION public.seed_shop_payment_types()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.payment_types (shop_id, code, description, is_active, sequence, opens_cash_drawer, allows_change, created_by, updated_by)
+  VALUES (NEW.id, 'Cash', 'Cash payment', TRUE, 0, TRUE, TRUE, NEW.created_by, NEW.created_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_shop_created_seed_payment_types ON shops;
+
+CREATE TRIGGER on_shop_created_seed_payment_types
+  AFTER INSERT ON shops
+  FOR EACH ROW EXECUTE FUNCTION public.seed_shop_payment_types();
+
+-- =============================================
+-- BACKFILL CASH PAYMENTS
+-- =============================================
+-- Checkout used to save cash as a NULL payment type
+UPDATE orders o
+SET payment_type_id = (
+  SELECT pt.id FROM payment_types pt
+  WHERE pt.shop_id = o.shop_id AND LOWER(pt.code) = 'cash'
+  ORDER BY pt.created_at
+  LIMIT 1
+)
+WHERE o.payment_type_id IS NULL
+  AND o.payment_received = TRUE;
+
+UPDATE order_payments op
+SET payment_type_id = (
+  SELECT pt.id FROM payment_types pt
+  JOIN orders o ON o.shop_id = pt.shop_id
+  WHERE o.id = op.order_id AND LOWER(pt.code) = 'cash'
+  ORDER BY pt.created_at
+  LIMIT 1
+)
+WHERE op.payment_type_id IS NULL;
+
+UPDATE order_refunds r
+SET payment_type_id = (
+  SELECT pt.id FROM payment_types pt
+  WHERE pt.shop_id = r.shop_id AND LOWER(pt.code) = 'cash'
+  ORDER BY pt.created_at
+  LIMIT 1
+)
+WHERE r.payment_type_id IS NULL;
+
+-- =============================================
+-- ORDER PAYMENTS
+-- =============================================
+ALTER TABLE order_payments
+  ADD COLUMN IF NOT EXISTS reference TEXT;
+
+COMMENT ON COLUMN order_payments.reference IS 'Reference number for tenders that require one (e.g. card approval code)';
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_payment_types_shop_id ON payment_types(shop_id);
@@ -0,0 +1,13 @@
+-- =====================================================
+-- Add Receipt Settings to Shops
+-- Migration: 20260120000011_add_shop_receipt_settings.sql
+-- Purpose: Per-shop header and footer text printed on customer receipts
+--          (HTML, plain text and ESC/POS thermal printers)
+-- =====================================================
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS receipt_header TEXT,
+  ADD COLUMN IF NOT EXISTS receipt_footer TEXT;
+
+COMMENT ON COLUMN shops.receipt_header IS 'Printed under the shop name on receipts (e.g. address, phone, tax number)';
+COMMENT ON COLUMN shops.receipt_footer IS 'Printed at the bottom of receipts (e.g. return policy, thank-you message)';
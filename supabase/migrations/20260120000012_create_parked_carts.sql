@@ -0,0 +1,48 @@
+-- =====================================================
+-- Create Parked Carts
+-- Migration: 20260120000012_create_parked_carts.sql
+-- Purpose: Carts set aside at the till under a label or customer name and
+--          resumed later, from any register in the shop. Resuming a cart
+--          deletes it, so only one register can pick it up.
+-- =====================================================
+
+-- =============================================
+-- PARKED CARTS
+-- =============================================
+CREATE TABLE IF NOT EXISTS parked_carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  label TEXT NOT NULL,
+  customer_name TEXT,
+  notes TEXT,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  discounts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  item_count INT NOT NULL DEFAULT 0 CHECK (item_count >= 0),
+  subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id)
+);
+
+COMMENT ON COLUMN parked_carts.items IS 'Cart lines as held at the till (product snapshot, quantity, modifiers, addons)';
+COMMENT ON COLUMN parked_carts.discounts IS 'Discounts applied to the cart; re-checked at checkout';
+COMMENT ON COLUMN parked_carts.item_count IS 'Total quantity across lines, for listing';
+COMMENT ON COLUMN parked_carts.subtotal IS 'Sum of line amounts before discounts and tax, for listing';
+
+ALTER TABLE parked_carts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage parked carts for their shops"
+  ON parked_carts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = parked_carts.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_parked_carts_shop_id ON parked_carts(shop_id, created_at);
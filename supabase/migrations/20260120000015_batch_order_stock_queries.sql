@@ -0,0 +1,242 @@
+-- =====================================================
+-- Batch Order Stock Queries
+-- Migration: 20260120000015_batch_order_stock_queries.sql
+-- Purpose: Keep checkout time flat as carts grow. create_order works out the
+--          stock an order needs once, checks and locks it in two queries, and
+--          writes lines, modifiers, addons and sale transactions with one
+--          statement each instead of one round per cart line.
+-- =====================================================
+
+-- =============================================
+-- CHECK ORDER STOCK
+-- =============================================
+-- Now takes the requirements create_order has already worked out, as rows of
+-- order_stock_requirements, rather than recomputing them from the cart
+DROP FUNCTION IF EXISTS public.check_order_stock(JSONB);
+
+-- Lock the inventory items an order draws on, then compare what the whole order
+-- needs of each with what is on hand. Raises check_violation naming every short
+-- item, e.g. "Insufficient inventory for Milk (required 0.6, available 0.4)".
+CREATE OR REPLACE FUNCTION public.check_order_stock(requirements JSONB)
+RETURNS VOID AS $$
+DECLARE
+  shortages TEXT;
+BEGIN
+  -- Lock in a fixed order so concurrent checkouts can't both take the last unit or deadlock
+  PERFORM 1
+  FROM inventory_items inv
+  WHERE inv.id IN (
+    SELECT req.inventory_item_id
+    FROM jsonb_to_recordset(requirements) AS req(inventory_item_id UUID)
+  )
+  ORDER BY inv.id
+  FOR UPDATE;
+
+  SELECT string_agg(
+    format(
+      '%s (required %s, available %s)',
+      inv.name, trim_scale(needed.quantity), trim_scale(COALESCE(inv.current_count, 0))
+    ),
+    ', ' ORDER BY inv.name
+  )
+  INTO shortages
+  FROM (
+    SELECT req.inventory_item_id, SUM(req.quantity) AS quantity
+    FROM jsonb_to_recordset(requirements) AS req(inventory_item_id UUID, quantity NUMERIC)
+    GROUP BY req.inventory_item_id
+  ) needed
+  JOIN inventory_items inv ON inv.id = needed.inventory_item_id
+  WHERE COALESCE(inv.current_count, 0) < needed.quantity;
+
+  IF shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'Insufficient inventory for %', shortages
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- CREATE ORDER
+-- =============================================
+-- order_data carries the order's columns plus:
+--   items     - order_items columns, with modifiers and addons arrays and an optional bill_number
+--   tax_lines - order_tax_lines columns
+--   discounts - order_discounts columns, with the 1-based line_number of item-level discounts
+--   bills     - order_bills columns, numbered from 1
+--   payments  - order_payments columns, with the bill_number they settle (NULL when not split)
+-- Returns the order row, the stock taken per inventory item and the ids of
+-- discounts that were already at their usage limit.
+CREATE OR REPLACE FUNCTION public.create_order(order_data JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  new_order orders%ROWTYPE;
+  requirements JSONB;
+  bill_ids UUID[] := '{}';
+  line_ids UUID[];
+  adjustments JSONB;
+  exhausted UUID[];
+  taken_at TIMESTAMPTZ := NOW();
+BEGIN
+  -- Work out the stock the whole order draws on once, then lock and check it
+  SELECT COALESCE(jsonb_agg(to_jsonb(req)), '[]')
+  INTO requirements
+  FROM order_stock_requirements(order_data->'items') req;
+
+  PERFORM check_order_stock(requirements);
+
+  -- Order
+  INSERT INTO orders (
+    shop_id, order_date, total_sale, served_by_id,
+    customer_name, customer_email, customer_phone,
+    payment_type_id, payment_received, payment_amount_received, payment_change,
+    subtotal, discount, tax, tax_rate, tax_inclusive, tip,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    o.shop_id, o.order_date, o.total_sale, o.served_by_id,
+    o.customer_name, o.customer_email, o.customer_phone,
+    o.payment_type_id, o.payment_received, o.payment_amount_received, o.payment_change,
+    o.subtotal, o.discount, o.tax, o.tax_rate, o.tax_inclusive, o.tip,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_populate_record(NULL::orders, order_data) o
+  RETURNING * INTO new_order;
+
+  -- Bills, kept in bill_number order
+  WITH inserted AS (
+    INSERT INTO order_bills (
+      order_id, bill_number, label, amount,
+      customer_name, customer_email, customer_phone, created_at, created_by
+    )
+    SELECT
+      new_order.id, b.bill_number, b.label, b.amount,
+      b.customer_name, b.customer_email, b.customer_phone, taken_at, acting_user_id
+    FROM jsonb_populate_recordset(NULL::order_bills, COALESCE(order_data->'bills', '[]')) b
+    RETURNING id, bill_number
+  )
+  SELECT COALESCE(array_agg(id ORDER BY bill_number), '{}') INTO bill_ids FROM inserted;
+
+  -- Line ids are assigned up front so modifiers, addons, discounts and sale
+  -- transactions can refer to a line by its position in the cart
+  line_ids := ARRAY(
+    SELECT gen_random_uuid() FROM jsonb_array_elements(order_data->'items')
+  );
+
+  INSERT INTO order_items (
+    id, order_id, bill_id, product_id, product_name, product_description,
+    product_unit_price, product_category, quantity, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], new_order.id, bill_ids[(line.item->>'bill_number')::INTEGER],
+    i.product_id, i.product_name, i.product_description, i.product_unit_price,
+    i.product_category, i.quantity, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_items, line.item) i;
+
+  INSERT INTO order_item_modifiers (
+    order_item_id, modifier_group_id, modifier_group_name, modifier_id, modifier_name,
+    price_adjustment, inventory_item_id, quantity,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], m.modifier_group_id, m.modifier_group_name, m.modifier_id,
+    m.modifier_name, m.price_adjustment, m.inventory_item_id, m.quantity,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_recordset(
+    NULL::order_item_modifiers, COALESCE(line.item->'modifiers', '[]')
+  ) m;
+
+  INSERT INTO order_item_addons (
+    order_item_id, name, quantity, price, item_id,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], a.name, a.quantity, a.price, a.item_id,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_recordset(
+    NULL::order_item_addons, COALESCE(line.item->'addons', '[]')
+  ) a;
+
+  -- Per-rate tax breakdown
+  INSERT INTO order_tax_lines (order_id, tax_rate_id, name, rate, taxable_amount, tax)
+  SELECT new_order.id, t.tax_rate_id, t.name, t.rate, t.taxable_amount, t.tax
+  FROM jsonb_populate_recordset(NULL::order_tax_lines, COALESCE(order_data->'tax_lines', '[]')) t;
+
+  -- Applied discounts, linking item-level ones to their line
+  INSERT INTO order_discounts (
+    order_id, discount_id, order_item_id, name, code, discount_type, value, amount
+  )
+  SELECT
+    new_order.id, d.discount_id, line_ids[(raw.value->>'line_number')::INTEGER],
+    d.name, d.code, d.discount_type, d.value, d.amount
+  FROM jsonb_array_elements(COALESCE(order_data->'discounts', '[]')) raw
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_discounts, raw.value) d;
+
+  -- Tenders, attached to the bill they settle
+  INSERT INTO order_payments (
+    order_id, bill_id, payment_type_id, amount, amount_tendered, change, reference,
+    created_at, created_by
+  )
+  SELECT
+    new_order.id, bill_ids[(raw.value->>'bill_number')::INTEGER], p.payment_type_id, p.amount,
+    p.amount_tendered, p.change, p.reference, taken_at, acting_user_id
+  FROM jsonb_array_elements(COALESCE(order_data->'payments', '[]')) raw
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_payments, raw.value) p;
+
+  -- Sale transactions, one per line and inventory item drawn on
+  INSERT INTO inventory_transactions (
+    shop_id, transaction_type, item_id, item_name, user_id, transaction_on,
+    quantity_in, quantity_out, unit_cost, reference, order_item_id, notes,
+    created_by, updated_by
+  )
+  SELECT
+    new_order.shop_id, 'sale', inv.id, inv.name, acting_user_id, taken_at,
+    0, req.quantity, COALESCE(inv.unit_cost, 0), new_order.id::TEXT,
+    line_ids[req.line_number], req.notes, acting_user_id, acting_user_id
+  FROM jsonb_to_recordset(requirements)
+    AS req(line_number INTEGER, inventory_item_id UUID, quantity NUMERIC, notes TEXT)
+  JOIN inventory_items inv ON inv.id = req.inventory_item_id
+  ORDER BY req.line_number;
+
+  -- Take the stock, one update for every inventory item drawn on
+  WITH taken AS (
+    SELECT req.inventory_item_id, SUM(req.quantity) AS quantity
+    FROM jsonb_to_recordset(requirements) AS req(inventory_item_id UUID, quantity NUMERIC)
+    GROUP BY req.inventory_item_id
+  ),
+  updated AS (
+    UPDATE inventory_items inv
+    SET
+      current_count = COALESCE(inv.current_count, 0) - taken.quantity,
+      updated_at = taken_at,
+      updated_by = acting_user_id
+    FROM taken
+    WHERE inv.id = taken.inventory_item_id
+    RETURNING inv.id, taken.quantity
+  )
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('item_id', updated.id, 'quantity_adjusted', updated.quantity)),
+    '[]'
+  )
+  INTO adjustments
+  FROM updated;
+
+  -- Count one use of each discount. A limit reached by a concurrent checkout
+  -- doesn't fail the sale; the ids are returned so the caller can log them.
+  exhausted := increment_discount_usage(ARRAY(
+    SELECT DISTINCT od.discount_id
+    FROM order_discounts od
+    WHERE od.order_id = new_order.id AND od.discount_id IS NOT NULL
+  ));
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(new_order),
+    'inventory_adjustments', adjustments,
+    'exhausted_discount_ids', to_jsonb(exhausted)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.create_order(JSONB) IS 'Create an order, its lines and payments, and post sale transactions in one transaction';
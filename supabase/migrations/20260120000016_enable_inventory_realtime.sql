@@ -0,0 +1,22 @@
+-- =====================================================
+-- Enable Inventory Realtime
+-- Migration: 20260120000016_enable_inventory_realtime.sql
+-- Purpose: Broadcast changes to inventory counts so every register's
+--          product grid shows what can still be made as other registers sell.
+-- =====================================================
+
+-- =============================================
+-- REALTIME PUBLICATION
+-- =============================================
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'inventory_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE inventory_items;
+  END IF;
+END;
+$$;
@@ -0,0 +1,305 @@
+-- =====================================================
+-- Add Order Numbers
+-- Migration: 20260120000017_add_order_numbers.sql
+-- Purpose: Give every order a short, per-shop sequential number (e.g. "A-0042")
+--          for calling out pickups and looking up receipts. Shops can prefix
+--          the number and restart the count each day. create_order takes the
+--          next number in the same transaction that writes the order.
+-- =====================================================
+
+-- =============================================
+-- SHOP SETTINGS
+-- =============================================
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS order_number_prefix TEXT,
+  ADD COLUMN IF NOT EXISTS order_number_daily_reset BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN shops.order_number_prefix IS 'Printed before the order number, e.g. "A-" for A-0042';
+COMMENT ON COLUMN shops.order_number_daily_reset IS 'Restart order numbers at 1 each business day';
+
+-- =============================================
+-- ORDER NUMBER SEQUENCES
+-- =============================================
+-- Last number handed out per shop and period. period is 'all' for shops that
+-- never reset, or the business day (YYYY-MM-DD) for shops that reset daily, so
+-- switching between the two carries on from where each count left off.
+CREATE TABLE IF NOT EXISTS order_number_sequences (
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  period TEXT NOT NULL,
+  last_number INT NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+  PRIMARY KEY (shop_id, period)
+);
+
+ALTER TABLE order_number_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view order number sequences for their shops"
+  ON order_number_sequences FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = order_number_sequences.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+-- =============================================
+-- ORDERS
+-- =============================================
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS order_number TEXT;
+
+COMMENT ON COLUMN orders.order_number IS 'Per-shop sequential number with the shop prefix, e.g. A-0042; repeats across days when the shop resets daily';
+
+-- Number existing orders in the order they were taken, and carry the count on from there
+WITH numbered AS (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY shop_id ORDER BY order_date, created_at, id) AS n
+  FROM orders
+  WHERE order_number IS NULL
+)
+UPDATE orders
+SET order_number = lpad(numbered.n::TEXT, GREATEST(4, length(numbered.n::TEXT)), '0')
+FROM numbered
+WHERE orders.id = numbered.id;
+
+INSERT INTO order_number_sequences (shop_id, period, last_number)
+SELECT shop_id, 'all', COUNT(*)
+FROM orders
+GROUP BY shop_id
+ON CONFLICT (shop_id, period) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_orders_order_number ON orders(shop_id, order_number);
+
+-- =============================================
+-- NEXT ORDER NUMBER
+-- =============================================
+-- Take the shop's next order number. The sequence row stays locked until the
+-- calling transaction ends, so concurrent checkouts never share a number.
+-- business_date is the day the order was taken at the till, in its local time.
+-- Runs as the owner because members may only read order_number_sequences, so
+-- it checks the caller belongs to the shop itself.
+CREATE OR REPLACE FUNCTION public.next_order_number(target_shop_id UUID, business_date DATE)
+RETURNS TEXT AS $$
+DECLARE
+  prefix TEXT;
+  daily_reset BOOLEAN;
+  next_number INT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM shop_users
+    WHERE shop_users.shop_id = target_shop_id
+    AND shop_users.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this shop' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT s.order_number_prefix, s.order_number_daily_reset
+  INTO prefix, daily_reset
+  FROM shops s
+  WHERE s.id = target_shop_id;
+
+  INSERT INTO order_number_sequences AS seq (shop_id, period, last_number)
+  VALUES (
+    target_shop_id,
+    CASE WHEN daily_reset THEN to_char(business_date, 'YYYY-MM-DD') ELSE 'all' END,
+    1
+  )
+  ON CONFLICT (shop_id, period) DO UPDATE SET last_number = seq.last_number + 1
+  RETURNING seq.last_number INTO next_number;
+
+  -- Pad to four digits, without cutting longer numbers short
+  RETURN COALESCE(prefix, '')
+    || lpad(next_number::TEXT, GREATEST(4, length(next_number::TEXT)), '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- CREATE ORDER
+-- =============================================
+-- Recreated to number the order as it is written
+-- order_data carries the order's columns plus:
+--   items         - order_items columns, with modifiers and addons arrays and an optional bill_number
+--   tax_lines     - order_tax_lines columns
+--   discounts     - order_discounts columns, with the 1-based line_number of item-level discounts
+--   bills         - order_bills columns, numbered from 1
+--   payments      - order_payments columns, with the bill_number they settle (NULL when not split)
+--   business_date - day the order was taken at the till, which daily order numbers count within
+-- Returns the order row, the stock taken per inventory item and the ids of
+-- discounts that were already at their usage limit.
+CREATE OR REPLACE FUNCTION public.create_order(order_data JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  new_order orders%ROWTYPE;
+  requirements JSONB;
+  bill_ids UUID[] := '{}';
+  line_ids UUID[];
+  adjustments JSONB;
+  exhausted UUID[];
+  taken_at TIMESTAMPTZ := NOW();
+BEGIN
+  -- Work out the stock the whole order draws on once, then lock and check it
+  SELECT COALESCE(jsonb_agg(to_jsonb(req)), '[]')
+  INTO requirements
+  FROM order_stock_requirements(order_data->'items') req;
+
+  PERFORM check_order_stock(requirements);
+
+  -- Order
+  INSERT INTO orders (
+    shop_id, order_date, total_sale, served_by_id,
+    customer_name, customer_email, customer_phone,
+    payment_type_id, payment_received, payment_amount_received, payment_change,
+    subtotal, discount, tax, tax_rate, tax_inclusive, tip, order_number,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    o.shop_id, o.order_date, o.total_sale, o.served_by_id,
+    o.customer_name, o.customer_email, o.customer_phone,
+    o.payment_type_id, o.payment_received, o.payment_amount_received, o.payment_change,
+    o.subtotal, o.discount, o.tax, o.tax_rate, o.tax_inclusive, o.tip,
+    next_order_number(
+      o.shop_id,
+      COALESCE((order_data->>'business_date')::DATE, o.order_date::DATE, taken_at::DATE)
+    ),
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_populate_record(NULL::orders, order_data) o
+  RETURNING * INTO new_order;
+
+  -- Bills, kept in bill_number order
+  WITH inserted AS (
+    INSERT INTO order_bills (
+      order_id, bill_number, label, amount,
+      customer_name, customer_email, customer_phone, created_at, created_by
+    )
+    SELECT
+      new_order.id, b.bill_number, b.label, b.amount,
+      b.customer_name, b.customer_email, b.customer_phone, taken_at, acting_user_id
+    FROM jsonb_populate_recordset(NULL::order_bills, COALESCE(order_data->'bills', '[]')) b
+    RETURNING id, bill_number
+  )
+  SELECT COALESCE(array_agg(id ORDER BY bill_number), '{}') INTO bill_ids FROM inserted;
+
+  -- Line ids are assigned up front so modifiers, addons, discounts and sale
+  -- transactions can refer to a line by its position in the cart
+  line_ids := ARRAY(
+    SELECT gen_random_uuid() FROM jsonb_array_elements(order_data->'items')
+  );
+
+  INSERT INTO order_items (
+    id, order_id, bill_id, product_id, product_name, product_description,
+    product_unit_price, product_category, quantity, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], new_order.id, bill_ids[(line.item->>'bill_number')::INTEGER],
+    i.product_id, i.product_name, i.product_description, i.product_unit_price,
+    i.product_category, i.quantity, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_items, line.item) i;
+
+  INSERT INTO order_item_modifiers (
+    order_item_id, modifier_group_id, modifier_group_name, modifier_id, modifier_name,
+    price_adjustment, inventory_item_id, quantity,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], m.modifier_group_id, m.modifier_group_name, m.modifier_id,
+    m.modifier_name, m.price_adjustment, m.inventory_item_id, m.quantity,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_recordset(
+    NULL::order_item_modifiers, COALESCE(line.item->'modifiers', '[]')
+  ) m;
+
+  INSERT INTO order_item_addons (
+    order_item_id, name, quantity, price, item_id,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], a.name, a.quantity, a.price, a.item_id,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_recordset(
+    NULL::order_item_addons, COALESCE(line.item->'addons', '[]')
+  ) a;
+
+  -- Per-rate tax breakdown
+  INSERT INTO order_tax_lines (order_id, tax_rate_id, name, rate, taxable_amount, tax)
+  SELECT new_order.id, t.tax_rate_id, t.name, t.rate, t.taxable_amount, t.tax
+  FROM jsonb_populate_recordset(NULL::order_tax_lines, COALESCE(order_data->'tax_lines', '[]')) t;
+
+  -- Applied discounts, linking item-level ones to their line
+  INSERT INTO order_discounts (
+    order_id, discount_id, order_item_id, name, code, discount_type, value, amount
+  )
+  SELECT
+    new_order.id, d.discount_id, line_ids[(raw.value->>'line_number')::INTEGER],
+    d.name, d.code, d.discount_type, d.value, d.amount
+  FROM jsonb_array_elements(COALESCE(order_data->'discounts', '[]')) raw
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_discounts, raw.value) d;
+
+  -- Tenders, attached to the bill they settle
+  INSERT INTO order_payments (
+    order_id, bill_id, payment_type_id, amount, amount_tendered, change, reference,
+    created_at, created_by
+  )
+  SELECT
+    new_order.id, bill_ids[(raw.value->>'bill_number')::INTEGER], p.payment_type_id, p.amount,
+    p.amount_tendered, p.change, p.reference, taken_at, acting_user_id
+  FROM jsonb_array_elements(COALESCE(order_data->'payments', '[]')) raw
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_payments, raw.value) p;
+
+  -- Sale transactions, one per line and inventory item drawn on
+  INSERT INTO inventory_transactions (
+    shop_id, transaction_type, item_id, item_name, user_id, transaction_on,
+    quantity_in, quantity_out, unit_cost, reference, order_item_id, notes,
+    created_by, updated_by
+  )
+  SELECT
+    new_order.shop_id, 'sale', inv.id, inv.name, acting_user_id, taken_at,
+    0, req.quantity, COALESCE(inv.unit_cost, 0), new_order.id::TEXT,
+    line_ids[req.line_number], req.notes, acting_user_id, acting_user_id
+  FROM jsonb_to_recordset(requirements)
+    AS req(line_number INTEGER, inventory_item_id UUID, quantity NUMERIC, notes TEXT)
+  JOIN inventory_items inv ON inv.id = req.inventory_item_id
+  ORDER BY req.line_number;
+
+  -- Take the stock, one update for every inventory item drawn on
+  WITH taken AS (
+    SELECT req.inventory_item_id, SUM(req.quantity) AS quantity
+    FROM jsonb_to_recordset(requirements) AS req(inventory_item_id UUID, quantity NUMERIC)
+    GROUP BY req.inventory_item_id
+  ),
+  updated AS (
+    UPDATE inventory_items inv
+    SET
+      current_count = COALESCE(inv.current_count, 0) - taken.quantity,
+      updated_at = taken_at,
+      updated_by = acting_user_id
+    FROM taken
+    WHERE inv.id = taken.inventory_item_id
+    RETURNING inv.id, taken.quantity
+  )
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('item_id', updated.id, 'quantity_adjusted', updated.quantity)),
+    '[]'
+  )
+  INTO adjustments
+  FROM updated;
+
+  -- Count one use of each discount. A limit reached by a concurrent checkout
+  -- doesn't fail the sale; the ids are returned so the caller can log them.
+  exhausted := increment_discount_usage(ARRAY(
+    SELECT DISTINCT od.discount_id
+    FROM order_discounts od
+    WHERE od.order_id = new_order.id AND od.discount_id IS NOT NULL
+  ));
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(new_order),
+    'inventory_adjustments', adjustments,
+    'exhausted_discount_ids', to_jsonb(exhausted)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.create_order(JSONB) IS 'Create an order, its lines and payments, and post sale transactions in one transaction';
@@ -0,0 +1,149 @@
+-- =====================================================
+-- Add Order Statuses
+-- Migration: 20260120000018_add_order_statuses.sql
+-- Purpose: Track orders from the till to the customer. Orders open when taken,
+--          move through preparation to ready, and end completed (handed over)
+--          or cancelled. Every move is logged with when and by whom, and
+--          completing an order records who handed it over in dispatched_by_id.
+-- =====================================================
+
+-- =============================================
+-- ORDERS
+-- =============================================
+-- Orders taken before statuses existed were already handed over
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('open', 'in_preparation', 'ready', 'completed', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+UPDATE orders SET status_changed_at = COALESCE(created_at, order_date) WHERE status_changed_at IS NULL;
+
+-- New orders open when taken
+ALTER TABLE orders
+  ALTER COLUMN status SET DEFAULT 'open',
+  ALTER COLUMN status_changed_at SET DEFAULT NOW();
+
+COMMENT ON COLUMN orders.status IS 'open, in_preparation, ready, completed (handed over) or cancelled';
+COMMENT ON COLUMN orders.status_changed_at IS 'When the order last changed status';
+COMMENT ON COLUMN orders.dispatched_by_id IS 'User who completed the order, handing it to the customer';
+
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(shop_id, status);
+
+-- =============================================
+-- ORDER STATUS CHANGES
+-- =============================================
+CREATE TABLE IF NOT EXISTS order_status_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  changed_by UUID REFERENCES auth.users(id)
+);
+
+COMMENT ON COLUMN order_status_changes.from_status IS 'NULL for the status the order was taken with';
+
+ALTER TABLE order_status_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view order status changes for their shops"
+  ON order_status_changes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = order_status_changes.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+-- No insert policy: rows are only written by the logging trigger below
+
+CREATE INDEX IF NOT EXISTS idx_order_status_changes_order_id ON order_status_changes(order_id, changed_at);
+
+-- =============================================
+-- STATUS TRANSITIONS
+-- =============================================
+-- Orders only move forward (a step may be skipped, e.g. straight to completed)
+-- and can be cancelled until they are handed over, by voiding or refunding them
+-- (see reverse_order) so their sale and stock are reversed too. The acting
+-- user is the signed-in user, never a value sent by the client.
+CREATE OR REPLACE FUNCTION check_order_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  steps TEXT[] := ARRAY['open', 'in_preparation', 'ready', 'completed'];
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already %', OLD.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND NEW.reversal_type IS NULL THEN
+    RAISE EXCEPTION 'Void the order to cancel it'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status <> 'cancelled'
+    AND array_position(steps, NEW.status) < array_position(steps, OLD.status) THEN
+    RAISE EXCEPTION 'Order cannot move back from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.status_changed_at := NOW();
+  NEW.updated_by := auth.uid();
+  IF NEW.status = 'completed' THEN
+    NEW.dispatched_by_id := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_orders_status_change ON orders;
+CREATE TRIGGER check_orders_status_change
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION check_order_status_change();
+
+-- Log the status an order was taken with and every change after. Runs with
+-- the owner's rights, since members can't write the history themselves.
+CREATE OR REPLACE FUNCTION log_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_status_changes (order_id, shop_id, from_status, to_status, changed_at, changed_by)
+    VALUES (NEW.id, NEW.shop_id, NULL, NEW.status, NEW.status_changed_at, auth.uid());
+  ELSIF NEW.status <> OLD.status THEN
+    INSERT INTO order_status_changes (order_id, shop_id, from_status, to_status, changed_at, changed_by)
+    VALUES (NEW.id, NEW.shop_id, OLD.status, NEW.status, NEW.status_changed_at, auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_orders_status_change ON orders;
+CREATE TRIGGER log_orders_status_change
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION log_order_status_change();
+
+-- =============================================
+-- REALTIME PUBLICATION
+-- =============================================
+-- Keep every register's order board current
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+  END IF;
+END;
+$$;
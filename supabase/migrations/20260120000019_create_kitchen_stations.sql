@@ -0,0 +1,119 @@
+-- =====================================================
+-- Create Kitchen Stations
+-- Migration: 20260120000019_create_kitchen_stations.sql
+-- Purpose: Kitchen and bar displays. Product categories are routed to a
+--          station (e.g. Grill, Bar), and each station bumps the lines it has
+--          prepared. Bumping moves the order on: to in preparation with the
+--          first line, and to ready once every line is done.
+-- =====================================================
+
+-- =============================================
+-- KITCHEN STATIONS
+-- =============================================
+CREATE TABLE IF NOT EXISTS kitchen_stations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  sequence INT NOT NULL DEFAULT 0,
+  target_minutes INT NOT NULL DEFAULT 10 CHECK (target_minutes > 0),
+  late_minutes INT NOT NULL DEFAULT 15,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  UNIQUE(shop_id, name),
+  CHECK (late_minutes >= target_minutes)
+);
+
+COMMENT ON COLUMN kitchen_stations.target_minutes IS 'Tickets waiting longer than this are flagged as running behind';
+COMMENT ON COLUMN kitchen_stations.late_minutes IS 'Tickets waiting longer than this are flagged as late';
+
+ALTER TABLE kitchen_stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage kitchen stations for their shops"
+  ON kitchen_stations FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = kitchen_stations.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER set_kitchen_stations_updated_at
+  BEFORE UPDATE ON kitchen_stations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Lines are routed by their product's category; categories without a station
+-- only show on the all-stations view
+ALTER TABLE product_categories
+  ADD COLUMN IF NOT EXISTS station_id UUID REFERENCES kitchen_stations(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN product_categories.station_id IS 'Kitchen station that prepares products in this category (NULL = not routed)';
+
+-- =============================================
+-- PREPARED LINES
+-- =============================================
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS prepared_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS prepared_by UUID REFERENCES auth.users(id);
+
+COMMENT ON COLUMN order_items.prepared_at IS 'When the line was bumped on the kitchen display (NULL = still to make)';
+
+-- Lines are bumped by the signed-in user, never a user sent by the client
+CREATE OR REPLACE FUNCTION set_order_item_prepared_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.prepared_at IS NOT NULL AND OLD.prepared_at IS NULL THEN
+    NEW.prepared_by := auth.uid();
+    NEW.updated_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_order_items_prepared_by ON order_items;
+CREATE TRIGGER set_order_items_prepared_by
+  BEFORE UPDATE OF prepared_at ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_item_prepared_by();
+
+-- Move the order on as its lines are bumped. Runs after the whole statement,
+-- so bumping a ticket's lines together counts them all.
+CREATE OR REPLACE FUNCTION advance_order_on_item_prepared()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.prepared_at IS NULL OR OLD.prepared_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE orders o
+  SET
+    status = CASE
+      WHEN EXISTS (
+        SELECT 1 FROM order_items oi
+        WHERE oi.order_id = o.id AND oi.prepared_at IS NULL
+      ) THEN 'in_preparation'
+      ELSE 'ready'
+    END,
+    updated_by = auth.uid()
+  WHERE o.id = NEW.order_id
+  AND o.status IN ('open', 'in_preparation');
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS advance_order_items_prepared ON order_items;
+CREATE TRIGGER advance_order_items_prepared
+  AFTER UPDATE OF prepared_at ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION advance_order_on_item_prepared();
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_kitchen_stations_shop_id ON kitchen_stations(shop_id);
+CREATE INDEX IF NOT EXISTS idx_product_categories_station_id ON product_categories(station_id);
@@ -0,0 +1,243 @@
+-- =====================================================
+-- Add Order Types
+-- Migration: 20260120000020_add_order_types.sql
+-- Purpose: Orders are taken as dine-in (at a table), takeaway or delivery (to
+--          an address, with a delivery fee). Products can cost more for some
+--          order types, e.g. a packaging charge on takeaway, which is part of
+--          the line's unit price when the order is taken.
+-- =====================================================
+
+-- =============================================
+-- ORDERS
+-- =============================================
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS order_type TEXT NOT NULL DEFAULT 'takeaway'
+    CHECK (order_type IN ('dine_in', 'takeaway', 'delivery')),
+  ADD COLUMN IF NOT EXISTS table_label TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_address TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0);
+
+COMMENT ON COLUMN orders.order_type IS 'How the order is served: dine_in, takeaway or delivery';
+COMMENT ON COLUMN orders.table_label IS 'Table a dine-in order is served at';
+COMMENT ON COLUMN orders.delivery_address IS 'Address a delivery order is taken to';
+COMMENT ON COLUMN orders.delivery_fee IS 'Charged on delivery orders; part of total_sale, untaxed';
+
+CREATE INDEX IF NOT EXISTS idx_orders_order_type ON orders(shop_id, order_type);
+
+-- =============================================
+-- PARKED CARTS
+-- =============================================
+ALTER TABLE parked_carts
+  ADD COLUMN IF NOT EXISTS order_type TEXT NOT NULL DEFAULT 'takeaway'
+    CHECK (order_type IN ('dine_in', 'takeaway', 'delivery')),
+  ADD COLUMN IF NOT EXISTS table_label TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_address TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0);
+
+-- =============================================
+-- PRODUCT PRICE ADJUSTMENTS
+-- =============================================
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS dine_in_price_adjustment DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS takeaway_price_adjustment DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS delivery_price_adjustment DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN products.dine_in_price_adjustment IS 'Added to the price on dine-in orders';
+COMMENT ON COLUMN products.takeaway_price_adjustment IS 'Added to the price on takeaway orders, e.g. a packaging charge';
+COMMENT ON COLUMN products.delivery_price_adjustment IS 'Added to the price on delivery orders';
+
+-- =============================================
+-- CREATE ORDER
+-- =============================================
+-- Recreated to store the order type
+-- order_data carries the order's columns (order_type defaults to takeaway, for
+-- orders queued offline before order types existed) plus:
+--   items         - order_items columns, with modifiers and addons arrays and an optional bill_number
+--   tax_lines     - order_tax_lines columns
+--   discounts     - order_discounts columns, with the 1-based line_number of item-level discounts
+--   bills         - order_bills columns, numbered from 1
+--   payments      - order_payments columns, with the bill_number they settle (NULL when not split)
+--   business_date - day the order was taken at the till, which daily order numbers count within
+-- Returns the order row, the stock taken per inventory item and the ids of
+-- discounts that were already at their usage limit.
+CREATE OR REPLACE FUNCTION public.create_order(order_data JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  new_order orders%ROWTYPE;
+  requirements JSONB;
+  bill_ids UUID[] := '{}';
+  line_ids UUID[];
+  adjustments JSONB;
+  exhausted UUID[];
+  taken_at TIMESTAMPTZ := NOW();
+BEGIN
+  -- Work out the stock the whole order draws on once, then lock and check it
+  SELECT COALESCE(jsonb_agg(to_jsonb(req)), '[]')
+  INTO requirements
+  FROM order_stock_requirements(order_data->'items') req;
+
+  PERFORM check_order_stock(requirements);
+
+  -- Order
+  INSERT INTO orders (
+    shop_id, order_date, total_sale, served_by_id,
+    customer_name, customer_email, customer_phone,
+    payment_type_id, payment_received, payment_amount_received, payment_change,
+    subtotal, discount, tax, tax_rate, tax_inclusive, tip, order_number,
+    order_type, table_label, delivery_address, delivery_fee,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    o.shop_id, o.order_date, o.total_sale, o.served_by_id,
+    o.customer_name, o.customer_email, o.customer_phone,
+    o.payment_type_id, o.payment_received, o.payment_amount_received, o.payment_change,
+    o.subtotal, o.discount, o.tax, o.tax_rate, o.tax_inclusive, o.tip,
+    next_order_number(
+      o.shop_id,
+      COALESCE((order_data->>'business_date')::DATE, o.order_date::DATE, taken_at::DATE)
+    ),
+    COALESCE(o.order_type, 'takeaway'), o.table_label, o.delivery_address,
+    COALESCE(o.delivery_fee, 0),
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_populate_record(NULL::orders, order_data) o
+  RETURNING * INTO new_order;
+
+  -- Bills, kept in bill_number order
+  WITH inserted AS (
+    INSERT INTO order_bills (
+      order_id, bill_number, label, amount,
+      customer_name, customer_email, customer_phone, created_at, created_by
+    )
+    SELECT
+      new_order.id, b.bill_number, b.label, b.amount,
+      b.customer_name, b.customer_email, b.customer_phone, taken_at, acting_user_id
+    FROM jsonb_populate_recordset(NULL::order_bills, COALESCE(order_data->'bills', '[]')) b
+    RETURNING id, bill_number
+  )
+  SELECT COALESCE(array_agg(id ORDER BY bill_number), '{}') INTO bill_ids FROM inserted;
+
+  -- Line ids are assigned up front so modifiers, addons, discounts and sale
+  -- transactions can refer to a line by its position in the cart
+  line_ids := ARRAY(
+    SELECT gen_random_uuid() FROM jsonb_array_elements(order_data->'items')
+  );
+
+  INSERT INTO order_items (
+    id, order_id, bill_id, product_id, product_name, product_description,
+    product_unit_price, product_category, quantity, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], new_order.id, bill_ids[(line.item->>'bill_number')::INTEGER],
+    i.product_id, i.product_name, i.product_description, i.product_unit_price,
+    i.product_category, i.quantity, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_items, line.item) i;
+
+  INSERT INTO order_item_modifiers (
+    order_item_id, modifier_group_id, modifier_group_name, modifier_id, modifier_name,
+    price_adjustment, inventory_item_id, quantity,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], m.modifier_group_id, m.modifier_group_name, m.modifier_id,
+    m.modifier_name, m.price_adjustment, m.inventory_item_id, m.quantity,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_recordset(
+    NULL::order_item_modifiers, COALESCE(line.item->'modifiers', '[]')
+  ) m;
+
+  INSERT INTO order_item_addons (
+    order_item_id, name, quantity, price, item_id,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], a.name, a.quantity, a.price, a.item_id,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_recordset(
+    NULL::order_item_addons, COALESCE(line.item->'addons', '[]')
+  ) a;
+
+  -- Per-rate tax breakdown
+  INSERT INTO order_tax_lines (order_id, tax_rate_id, name, rate, taxable_amount, tax)
+  SELECT new_order.id, t.tax_rate_id, t.name, t.rate, t.taxable_amount, t.tax
+  FROM jsonb_populate_recordset(NULL::order_tax_lines, COALESCE(order_data->'tax_lines', '[]')) t;
+
+  -- Applied discounts, linking item-level ones to their line
+  INSERT INTO order_discounts (
+    order_id, discount_id, order_item_id, name, code, discount_type, value, amount
+  )
+  SELECT
+    new_order.id, d.discount_id, line_ids[(raw.value->>'line_number')::INTEGER],
+    d.name, d.code, d.discount_type, d.value, d.amount
+  FROM jsonb_array_elements(COALESCE(order_data->'discounts', '[]')) raw
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_discounts, raw.value) d;
+
+  -- Tenders, attached to the bill they settle
+  INSERT INTO order_payments (
+    order_id, bill_id, payment_type_id, amount, amount_tendered, change, reference,
+    created_at, created_by
+  )
+  SELECT
+    new_order.id, bill_ids[(raw.value->>'bill_number')::INTEGER], p.payment_type_id, p.amount,
+    p.amount_tendered, p.change, p.reference, taken_at, acting_user_id
+  FROM jsonb_array_elements(COALESCE(order_data->'payments', '[]')) raw
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_payments, raw.value) p;
+
+  -- Sale transactions, one per line and inventory item drawn on
+  INSERT INTO inventory_transactions (
+    shop_id, transaction_type, item_id, item_name, user_id, transaction_on,
+    quantity_in, quantity_out, unit_cost, reference, order_item_id, notes,
+    created_by, updated_by
+  )
+  SELECT
+    new_order.shop_id, 'sale', inv.id, inv.name, acting_user_id, taken_at,
+    0, req.quantity, COALESCE(inv.unit_cost, 0), new_order.id::TEXT,
+    line_ids[req.line_number], req.notes, acting_user_id, acting_user_id
+  FROM jsonb_to_recordset(requirements)
+    AS req(line_number INTEGER, inventory_item_id UUID, quantity NUMERIC, notes TEXT)
+  JOIN inventory_items inv ON inv.id = req.inventory_item_id
+  ORDER BY req.line_number;
+
+  -- Take the stock, one update for every inventory item drawn on
+  WITH taken AS (
+    SELECT req.inventory_item_id, SUM(req.quantity) AS quantity
+    FROM jsonb_to_recordset(requirements) AS req(inventory_item_id UUID, quantity NUMERIC)
+    GROUP BY req.inventory_item_id
+  ),
+  updated AS (
+    UPDATE inventory_items inv
+    SET
+      current_count = COALESCE(inv.current_count, 0) - taken.quantity,
+      updated_at = taken_at,
+      updated_by = acting_user_id
+    FROM taken
+    WHERE inv.id = taken.inventory_item_id
+    RETURNING inv.id, taken.quantity
+  )
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('item_id', updated.id, 'quantity_adjusted', updated.quantity)),
+    '[]'
+  )
+  INTO adjustments
+  FROM updated;
+
+  -- Count one use of each discount. A limit reached by a concurrent checkout
+  -- doesn't fail the sale; the ids are returned so the caller can log them.
+  exhausted := increment_discount_usage(ARRAY(
+    SELECT DISTINCT od.discount_id
+    FROM order_discounts od
+    WHERE od.order_id = new_order.id AND od.discount_id IS NOT NULL
+  ));
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(new_order),
+    'inventory_adjustments', adjustments,
+    'exhausted_discount_ids', to_jsonb(exhausted)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.create_order(JSONB) IS 'Create an order, its lines and payments, and post sale transactions in one transaction';
@@ -0,0 +1,490 @@
+-- =====================================================
+-- Create Dining Tables
+-- Migration: 20260120000021_create_dining_tables.sql
+-- Purpose: Seating areas and tables laid out on a floor plan. Seating a table
+--          opens a tab and its order, which stays open while guests keep
+--          ordering rounds and is paid when the tab is closed out at checkout.
+--          A table is free without a tab, and occupied or waiting for the bill
+--          with one. Tabs can move to a free table or be merged into another
+--          table's tab.
+-- =====================================================
+
+-- =============================================
+-- TABLE AREAS
+-- =============================================
+CREATE TABLE IF NOT EXISTS table_areas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  sequence INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  UNIQUE(shop_id, name)
+);
+
+ALTER TABLE table_areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage table areas for their shops"
+  ON table_areas FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = table_areas.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER set_table_areas_updated_at
+  BEFORE UPDATE ON table_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- DINING TABLES
+-- =============================================
+CREATE TABLE IF NOT EXISTS dining_tables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  area_id UUID REFERENCES table_areas(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  seats INT CHECK (seats > 0),
+  position_x DECIMAL(5,2) NOT NULL DEFAULT 10 CHECK (position_x BETWEEN 0 AND 100),
+  position_y DECIMAL(5,2) NOT NULL DEFAULT 10 CHECK (position_y BETWEEN 0 AND 100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  UNIQUE(shop_id, name)
+);
+
+COMMENT ON COLUMN dining_tables.name IS 'Shown on the floor plan and printed as the order''s table, e.g. "4" or "Patio 2"';
+COMMENT ON COLUMN dining_tables.position_x IS 'Left edge on the area''s floor plan, as a percentage of its width';
+COMMENT ON COLUMN dining_tables.position_y IS 'Top edge on the area''s floor plan, as a percentage of its height';
+
+ALTER TABLE dining_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage dining tables for their shops"
+  ON dining_tables FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = dining_tables.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER set_dining_tables_updated_at
+  BEFORE UPDATE ON dining_tables
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- TABLE TABS
+-- =============================================
+-- One open tab per table, holding the table's order from seating to close-out.
+-- Each round adds its lines to the order, so the kitchen sees them and their
+-- stock is taken as they are sent; closing out pays the order and deletes the
+-- tab. A table with a tab can't be deleted until the tab is closed out or moved.
+CREATE TABLE IF NOT EXISTS table_tabs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  table_id UUID REFERENCES dining_tables(id) ON DELETE RESTRICT NOT NULL UNIQUE,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  customer_name TEXT,
+  item_count INT NOT NULL DEFAULT 0 CHECK (item_count >= 0),
+  subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+  round_count INT NOT NULL DEFAULT 0 CHECK (round_count >= 0),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_round_at TIMESTAMPTZ,
+  bill_requested_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id)
+);
+
+COMMENT ON COLUMN table_tabs.order_id IS 'The table''s open order, which every round adds its lines to';
+COMMENT ON COLUMN table_tabs.item_count IS 'Total quantity across lines, for the floor plan';
+COMMENT ON COLUMN table_tabs.subtotal IS 'Sum of line amounts before discounts and tax, for the floor plan';
+COMMENT ON COLUMN table_tabs.round_count IS 'Rounds sent so far; closing out checks it so a round sent meanwhile isn''t left unpaid';
+COMMENT ON COLUMN table_tabs.opened_at IS 'When the table was seated, for the time shown on the floor plan';
+COMMENT ON COLUMN table_tabs.bill_requested_at IS 'Set when the guests ask for the bill (NULL = still ordering)';
+
+ALTER TABLE table_tabs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage table tabs for their shops"
+  ON table_tabs FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_users
+      WHERE shop_users.shop_id = table_tabs.shop_id
+      AND shop_users.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER set_table_tabs_updated_at
+  BEFORE UPDATE ON table_tabs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- A tab moved to another table takes its order along, so the kitchen and the
+-- receipt show where the guests now sit
+CREATE OR REPLACE FUNCTION sync_table_tab_order_label()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE orders
+  SET table_label = (SELECT name FROM dining_tables WHERE id = NEW.table_id)
+  WHERE id = NEW.order_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_table_tabs_order_label
+  AFTER UPDATE OF table_id ON table_tabs
+  FOR EACH ROW
+  WHEN (NEW.table_id IS DISTINCT FROM OLD.table_id)
+  EXECUTE FUNCTION sync_table_tab_order_label();
+
+-- =============================================
+-- ORDER STATUSES
+-- =============================================
+-- Recreated so a seated table's order goes back to preparation when another
+-- round is sent after the earlier ones were served. Other orders still only
+-- move forward and end when handed over or cancelled.
+CREATE OR REPLACE FUNCTION check_order_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  steps TEXT[] := ARRAY['open', 'in_preparation', 'ready', 'completed'];
+  is_next_round BOOLEAN;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  is_next_round := NEW.status = 'in_preparation'
+    AND OLD.status IN ('ready', 'completed')
+    AND EXISTS (SELECT 1 FROM table_tabs WHERE order_id = NEW.id);
+
+  IF OLD.status IN ('completed', 'cancelled') AND NOT is_next_round THEN
+    RAISE EXCEPTION 'Order is already %', OLD.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND NEW.reversal_type IS NULL THEN
+    RAISE EXCEPTION 'Void the order to cancel it'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status <> 'cancelled' AND NOT is_next_round
+    AND array_position(steps, NEW.status) < array_position(steps, OLD.status) THEN
+    RAISE EXCEPTION 'Order cannot move back from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.status_changed_at := NOW();
+  NEW.updated_by := auth.uid();
+  IF NEW.status = 'completed' THEN
+    NEW.dispatched_by_id := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- ORDER LINES
+-- =============================================
+-- Add lines to an order: check the stock they draw on, write them with their
+-- modifiers and addons, post their sale transactions and take the stock.
+-- Shared by create_order and add_table_round.
+-- items: order_items columns, with modifiers and addons arrays and an optional bill_number
+-- bill_ids: the order's bills in bill_number order; empty when not split
+-- Returns the new line ids in the order of items and the stock taken per inventory item.
+CREATE OR REPLACE FUNCTION public.add_order_lines(
+  target_order orders,
+  items JSONB,
+  bill_ids UUID[],
+  taken_at TIMESTAMPTZ,
+  OUT line_ids UUID[],
+  OUT adjustments JSONB
+) AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  requirements JSONB;
+BEGIN
+  -- Work out the stock the lines draw on once, then lock and check it
+  SELECT COALESCE(jsonb_agg(to_jsonb(req)), '[]')
+  INTO requirements
+  FROM order_stock_requirements(items) req;
+
+  PERFORM check_order_stock(requirements);
+
+  -- Line ids are assigned up front so modifiers, addons, discounts and sale
+  -- transactions can refer to a line by its position
+  line_ids := ARRAY(
+    SELECT gen_random_uuid() FROM jsonb_array_elements(items)
+  );
+
+  INSERT INTO order_items (
+    id, order_id, bill_id, product_id, product_name, product_description,
+    product_unit_price, product_category, quantity, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], target_order.id, bill_ids[(line.item->>'bill_number')::INTEGER],
+    i.product_id, i.product_name, i.product_description, i.product_unit_price,
+    i.product_category, i.quantity, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(items) WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_items, line.item) i;
+
+  INSERT INTO order_item_modifiers (
+    order_item_id, modifier_group_id, modifier_group_name, modifier_id, modifier_name,
+    price_adjustment, inventory_item_id, quantity,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], m.modifier_group_id, m.modifier_group_name, m.modifier_id,
+    m.modifier_name, m.price_adjustment, m.inventory_item_id, m.quantity,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(items) WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_recordset(
+    NULL::order_item_modifiers, COALESCE(line.item->'modifiers', '[]')
+  ) m;
+
+  INSERT INTO order_item_addons (
+    order_item_id, name, quantity, price, item_id,
+    created_at, updated_at, created_by, updated_by
+  )
+  SELECT
+    line_ids[line.idx], a.name, a.quantity, a.price, a.item_id,
+    taken_at, taken_at, acting_user_id, acting_user_id
+  FROM jsonb_array_elements(items) WITH ORDINALITY AS line(item, idx)
+  CROSS JOIN LATERAL jsonb_populate_recordset(
+    NULL::order_item_addons, COALESCE(line.item->'addons', '[]')
+  ) a;
+
+  -- Sale transactions, one per line and inventory item drawn on
+  INSERT INTO inventory_transactions (
+    shop_id, transaction_type, item_id, item_name, user_id, transaction_on,
+    quantity_in, quantity_out, unit_cost, reference, order_item_id, notes,
+    created_by, updated_by
+  )
+  SELECT
+    target_order.shop_id, 'sale', inv.id, inv.name, acting_user_id, taken_at,
+    0, req.quantity, COALESCE(inv.unit_cost, 0), target_order.id::TEXT,
+    line_ids[req.line_number], req.notes, acting_user_id, acting_user_id
+  FROM jsonb_to_recordset(requirements)
+    AS req(line_number INTEGER, inventory_item_id UUID, quantity NUMERIC, notes TEXT)
+  JOIN inventory_items inv ON inv.id = req.inventory_item_id
+  ORDER BY req.line_number;
+
+  -- Take the stock, one update for every inventory item drawn on
+  WITH taken AS (
+    SELECT req.inventory_item_id, SUM(req.quantity) AS quantity
+    FROM jsonb_to_recordset(requirements) AS req(inventory_item_id UUID, quantity NUMERIC)
+    GROUP BY req.inventory_item_id
+  ),
+  updated AS (
+    UPDATE inventory_items inv
+    SET
+      current_count = COALESCE(inv.current_count, 0) - taken.quantity,
+      updated_at = taken_at,
+      updated_by = acting_user_id
+    FROM taken
+    WHERE inv.id = taken.inventory_item_id
+    RETURNING inv.id, taken.quantity
+  )
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('item_id', updated.id, 'quantity_adjusted', updated.quantity)),
+    '[]'
+  )
+  INTO adjustments
+  FROM updated;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.add_order_lines(orders, JSONB, UUID[], TIMESTAMPTZ) IS 'Write lines onto an order and take their stock; called by create_order and add_table_round';
+
+-- =============================================
+-- ROUNDS
+-- =============================================
+-- Add a round to a table's order, seating the table if it is free. Seating
+-- opens the order, unpaid, and each round's lines go onto it straight away so
+-- the kitchen can start on them. Rounds sent to one table from two registers
+-- at once wait on each other, so the table is seated once and both land. A
+-- new round means the guests are still ordering, so any bill request is
+-- withdrawn.
+-- round_data: { customer_name, items, item_count, subtotal, business_date },
+-- with items shaped as for create_order
+CREATE OR REPLACE FUNCTION add_table_round(target_table_id UUID, round_data JSONB)
+RETURNS table_tabs AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  taken_at TIMESTAMPTZ := NOW();
+  round_subtotal DECIMAL := COALESCE((round_data->>'subtotal')::DECIMAL, 0);
+  target_table dining_tables%ROWTYPE;
+  tab table_tabs%ROWTYPE;
+  tab_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO target_table FROM dining_tables WHERE id = target_table_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table not found';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(target_table_id::TEXT));
+
+  SELECT * INTO tab FROM table_tabs WHERE table_id = target_table_id FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT * INTO tab_order FROM orders WHERE id = tab.order_id FOR UPDATE;
+  ELSE
+    INSERT INTO orders (
+      shop_id, order_date, total_sale, served_by_id, customer_name, payment_received,
+      order_number, order_type, table_label,
+      created_at, updated_at, created_by, updated_by
+    )
+    VALUES (
+      target_table.shop_id, taken_at, 0, acting_user_id,
+      NULLIF(round_data->>'customer_name', ''), FALSE,
+      next_order_number(
+        target_table.shop_id,
+        COALESCE((round_data->>'business_date')::DATE, taken_at::DATE)
+      ),
+      'dine_in', target_table.name,
+      taken_at, taken_at, acting_user_id, acting_user_id
+    )
+    RETURNING * INTO tab_order;
+
+    INSERT INTO table_tabs (
+      shop_id, table_id, order_id, customer_name, opened_at, created_by, updated_by
+    )
+    VALUES (
+      target_table.shop_id, target_table_id, tab_order.id,
+      NULLIF(round_data->>'customer_name', ''), taken_at, acting_user_id, acting_user_id
+    )
+    RETURNING * INTO tab;
+  END IF;
+
+  PERFORM add_order_lines(tab_order, COALESCE(round_data->'items', '[]'), '{}', taken_at);
+
+  -- More for the kitchen: a table whose earlier rounds were served goes back to preparation
+  UPDATE orders
+  SET
+    customer_name = COALESCE(customer_name, NULLIF(round_data->>'customer_name', '')),
+    subtotal = subtotal + round_subtotal,
+    total_sale = total_sale + round_subtotal,
+    status = CASE WHEN status IN ('ready', 'completed') THEN 'in_preparation' ELSE status END,
+    updated_at = taken_at,
+    updated_by = acting_user_id
+  WHERE id = tab_order.id;
+
+  UPDATE table_tabs SET
+    customer_name = COALESCE(customer_name, NULLIF(round_data->>'customer_name', '')),
+    item_count = item_count + COALESCE((round_data->>'item_count')::INT, 0),
+    subtotal = subtotal + round_subtotal,
+    round_count = round_count + 1,
+    last_round_at = taken_at,
+    bill_requested_at = NULL,
+    updated_by = acting_user_id
+  WHERE id = tab.id
+  RETURNING * INTO tab;
+
+  RETURN tab;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- MERGING
+-- =============================================
+-- Merge one table's tab into another's, e.g. when two parties join up. The
+-- source order's lines, with the sale transactions behind them, move to the
+-- target order and the emptied source order is removed. The merged tab keeps
+-- the earlier seating time and the source table is freed.
+CREATE OR REPLACE FUNCTION merge_table_tabs(source_table_id UUID, target_table_id UUID)
+RETURNS table_tabs AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  source_tab table_tabs;
+  source_order orders;
+  result table_tabs;
+BEGIN
+  IF source_table_id = target_table_id THEN
+    RAISE EXCEPTION 'Choose a different table to merge into'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM table_tabs WHERE table_id = source_table_id RETURNING * INTO source_tab;
+  IF source_tab.id IS NULL THEN
+    RAISE EXCEPTION 'This table has no open tab'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE table_tabs SET
+    customer_name = COALESCE(customer_name, source_tab.customer_name),
+    item_count = item_count + source_tab.item_count,
+    subtotal = subtotal + source_tab.subtotal,
+    round_count = round_count + source_tab.round_count,
+    opened_at = LEAST(opened_at, source_tab.opened_at),
+    last_round_at = GREATEST(last_round_at, source_tab.last_round_at),
+    updated_by = acting_user_id
+  WHERE table_id = target_table_id
+  RETURNING * INTO result;
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'The other table has no open tab to merge into'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lines move before the source order goes, or they would be deleted with it
+  UPDATE order_items SET order_id = result.order_id WHERE order_id = source_tab.order_id;
+  UPDATE inventory_transactions
+  SET reference = result.order_id::TEXT
+  WHERE reference = source_tab.order_id::TEXT;
+
+  DELETE FROM orders WHERE id = source_tab.order_id RETURNING * INTO source_order;
+
+  UPDATE orders
+  SET
+    subtotal = subtotal + source_order.subtotal,
+    total_sale = total_sale + source_order.total_sale,
+    status = CASE
+      WHEN status IN ('ready', 'completed')
+        AND EXISTS (
+          SELECT 1 FROM order_items oi WHERE oi.order_id = orders.id AND oi.prepared_at IS NULL
+        )
+        THEN 'in_preparation'
+      ELSE status
+    END,
+    updated_at = NOW(),
+    updated_by = acting_user_id
+  WHERE id = result.order_id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- REALTIME PUBLICATION
+-- =============================================
+-- Keep every register's floor plan current
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'table_tabs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE table_tabs;
+  END IF;
+END;
+$$;
+
+-- =============================================
+-- INDEXES
+-- =============================================
+CREATE INDEX IF NOT EXISTS idx_table_areas_shop_id ON table_areas(shop_id);
+CREATE INDEX IF NOT EXISTS idx_dining_tables_area_id ON dining_tables(area_id);
+CREATE INDEX IF NOT EXISTS idx_table_tabs_shop_id ON table_tabs(shop_id);
@@ -0,0 +1,212 @@
+-- =====================================================
+-- Add Client Order Ids
+-- Migration: 20260120000022_add_client_order_ids.sql
+-- Purpose: Make taking an order safe to repeat. The till gives every order an
+--          id before sending it and keeps that id when the order is queued
+--          offline, so replaying an order the server already recorded (e.g.
+--          the connection dropped before the response arrived) returns the
+--          recorded order instead of writing it and taking its stock again.
+-- =====================================================
+
+-- =============================================
+-- ORDERS
+-- =============================================
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS client_order_id UUID UNIQUE;
+
+COMMENT ON COLUMN orders.client_order_id IS 'Id the till gave the order before sending it; repeated attempts return the order already recorded';
+
+-- =============================================
+-- CREATE ORDER
+-- =============================================
+-- Recreated to record each order once per client_order_id, and to close out a
+-- table by paying the order its rounds were added to. An order whose first
+-- attempt was written but whose response never arrived is returned as it was
+-- recorded, with nothing taken again.
+-- order_data carries the order's columns (order_type defaults to takeaway, for
+-- orders queued offline before order types existed) plus:
+--   items         - order_items columns, with modifiers and addons arrays and an optional bill_number
+--   tax_lines     - order_tax_lines columns
+--   discounts     - order_discounts columns, with the 1-based line_number of item-level discounts
+--   bills         - order_bills columns, numbered from 1
+--   payments      - order_payments columns, with the bill_number they settle (NULL when not split).
+--                   A split order is taken with its bills unpaid and no payments;
+--                   pay_order_bill records each bill's tenders as it is paid.
+--   business_date - day the order was taken at the till, which daily order numbers count within
+--   order_id      - a table's open order to close out instead of taking a new one. Every
+--                   item then carries the order_item_id of its line, already made and
+--                   taken from stock when its round was sent.
+--   round_count   - rounds on the table's tab when it was opened for checkout. The tab is
+--                   claimed only if it still has that many, so a round sent meanwhile is
+--                   never closed out unpaid, and a tab is never closed out twice.
+-- Returns the order row, the stock taken per inventory item and the ids of
+-- discounts that were already at their usage limit.
+CREATE OR REPLACE FUNCTION public.create_order(order_data JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  new_order orders%ROWTYPE;
+  bill_ids UUID[] := '{}';
+  line_ids UUID[];
+  adjustments JSONB := '[]';
+  exhausted UUID[];
+  taken_at TIMESTAMPTZ := NOW();
+  client_id UUID := (order_data->>'client_order_id')::UUID;
+  tab_order_id UUID := (order_data->>'order_id')::UUID;
+BEGIN
+  -- Attempts with the same id wait on each other, so only the first writes
+  IF client_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(client_id::TEXT));
+
+    SELECT * INTO new_order FROM orders WHERE client_order_id = client_id;
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'order', to_jsonb(new_order),
+        'inventory_adjustments', '[]'::JSONB,
+        'exhausted_discount_ids', '[]'::JSONB
+      );
+    END IF;
+  END IF;
+
+  IF tab_order_id IS NOT NULL THEN
+    -- Deleting the tab is the claim: it waits on a round being sent, and fails
+    -- if one was sent or the tab was closed out since it was opened for checkout
+    DELETE FROM table_tabs
+    WHERE order_id = tab_order_id
+    AND round_count = (order_data->>'round_count')::INT;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The table''s tab has changed. Open it again to close it out.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE orders SET
+      order_date = COALESCE(o.order_date, orders.order_date),
+      total_sale = o.total_sale,
+      customer_name = COALESCE(o.customer_name, orders.customer_name),
+      customer_email = o.customer_email,
+      customer_phone = o.customer_phone,
+      payment_type_id = o.payment_type_id,
+      payment_received = o.payment_received,
+      payment_amount_received = o.payment_amount_received,
+      payment_change = o.payment_change,
+      subtotal = o.subtotal,
+      discount = o.discount,
+      tax = o.tax,
+      tax_rate = o.tax_rate,
+      tax_inclusive = o.tax_inclusive,
+      tip = o.tip,
+      client_order_id = client_id,
+      updated_at = taken_at,
+      updated_by = acting_user_id
+    FROM jsonb_populate_record(NULL::orders, order_data) o
+    WHERE orders.id = tab_order_id
+    RETURNING orders.* INTO new_order;
+  ELSE
+    INSERT INTO orders (
+      shop_id, order_date, total_sale, served_by_id,
+      customer_name, customer_email, customer_phone,
+      payment_type_id, payment_received, payment_amount_received, payment_change,
+      subtotal, discount, tax, tax_rate, tax_inclusive, tip, order_number,
+      order_type, table_label, delivery_address, delivery_fee, client_order_id,
+      created_at, updated_at, created_by, updated_by
+    )
+    SELECT
+      o.shop_id, o.order_date, o.total_sale, o.served_by_id,
+      o.customer_name, o.customer_email, o.customer_phone,
+      o.payment_type_id, o.payment_received, o.payment_amount_received, o.payment_change,
+      o.subtotal, o.discount, o.tax, o.tax_rate, o.tax_inclusive, o.tip,
+      next_order_number(
+        o.shop_id,
+        COALESCE((order_data->>'business_date')::DATE, o.order_date::DATE, taken_at::DATE)
+      ),
+      COALESCE(o.order_type, 'takeaway'), o.table_label, o.delivery_address,
+      COALESCE(o.delivery_fee, 0), client_id,
+      taken_at, taken_at, acting_user_id, acting_user_id
+    FROM jsonb_populate_record(NULL::orders, order_data) o
+    RETURNING * INTO new_order;
+  END IF;
+
+  -- Bills, kept in bill_number order
+  WITH inserted AS (
+    INSERT INTO order_bills (
+      order_id, bill_number, label, amount,
+      customer_name, customer_email, customer_phone, created_at, created_by
+    )
+    SELECT
+      new_order.id, b.bill_number, b.label, b.amount,
+      b.customer_name, b.customer_email, b.customer_phone, taken_at, acting_user_id
+    FROM jsonb_populate_recordset(NULL::order_bills, COALESCE(order_data->'bills', '[]')) b
+    RETURNING id, bill_number
+  )
+  SELECT COALESCE(array_agg(id ORDER BY bill_number), '{}') INTO bill_ids FROM inserted;
+
+  IF tab_order_id IS NOT NULL THEN
+    -- The lines are already on the order; the checkout must cover every one of them
+    line_ids := ARRAY(
+      SELECT oi.id
+      FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+      LEFT JOIN order_items oi
+        ON oi.id = (line.item->>'order_item_id')::UUID AND oi.order_id = new_order.id
+      ORDER BY line.idx
+    );
+
+    IF array_position(line_ids, NULL) IS NOT NULL
+      OR cardinality(line_ids) <> (SELECT COUNT(*) FROM order_items WHERE order_id = new_order.id)
+    THEN
+      RAISE EXCEPTION 'The table''s tab has changed. Open it again to close it out.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE order_items oi
+    SET bill_id = bill_ids[(line.item->>'bill_number')::INTEGER]
+    FROM jsonb_array_elements(order_data->'items') WITH ORDINALITY AS line(item, idx)
+    WHERE oi.id = line_ids[line.idx];
+  ELSE
+    SELECT * INTO line_ids, adjustments
+    FROM add_order_lines(new_order, order_data->'items', bill_ids, taken_at);
+  END IF;
+
+  -- Per-rate tax breakdown
+  INSERT INTO order_tax_lines (order_id, tax_rate_id, name, rate, taxable_amount, tax)
+  SELECT new_order.id, t.tax_rate_id, t.name, t.rate, t.taxable_amount, t.tax
+  FROM jsonb_populate_recordset(NULL::order_tax_lines, COALESCE(order_data->'tax_lines', '[]')) t;
+
+  -- Applied discounts, linking item-level ones to their line
+  INSERT INTO order_discounts (
+    order_id, discount_id, order_item_id, name, code, discount_type, value, amount
+  )
+  SELECT
+    new_order.id, d.discount_id, line_ids[(raw.value->>'line_number')::INTEGER],
+    d.name, d.code, d.discount_type, d.value, d.amount
+  FROM jsonb_array_elements(COALESCE(order_data->'discounts', '[]')) raw
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_discounts, raw.value) d;
+
+  -- Tenders, attached to the bill they settle
+  INSERT INTO order_payments (
+    order_id, bill_id, payment_type_id, amount, amount_tendered, change, reference,
+    created_at, created_by
+  )
+  SELECT
+    new_order.id, bill_ids[(raw.value->>'bill_number')::INTEGER], p.payment_type_id, p.amount,
+    p.amount_tendered, p.change, p.reference, taken_at, acting_user_id
+  FROM jsonb_array_elements(COALESCE(order_data->'payments', '[]')) raw
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::order_payments, raw.value) p;
+
+  -- Count one use of each discount. A limit reached by a concurrent checkout
+  -- doesn't fail the sale; the ids are returned so the caller can log them.
+  exhausted := increment_discount_usage(ARRAY(
+    SELECT DISTINCT od.discount_id
+    FROM order_discounts od
+    WHERE od.order_id = new_order.id AND od.discount_id IS NOT NULL
+  ));
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(new_order),
+    'inventory_adjustments', adjustments,
+    'exhausted_discount_ids', to_jsonb(exhausted)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.create_order(JSONB) IS 'Create an order, or close out a table''s order, with its lines and payments, and post sale transactions in one transaction';
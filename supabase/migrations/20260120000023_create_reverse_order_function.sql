@@ -0,0 +1,173 @@
+-- =====================================================
+-- Create Reverse Order Function
+-- Migration: 20260120000023_create_reverse_order_function.sql
+-- Purpose: Void or refund an order in a single database transaction. The
+--          order is locked and marked, and the stock it consumed is returned
+--          (or returned and written off), or nothing is written at all. Stock
+--          counts are updated in place under the same row locks create_order
+--          takes, so a reversal and a checkout never lose each other's update.
+-- =====================================================
+
+-- =============================================
+-- REVERSE ORDER STOCK
+-- =============================================
+-- Post a return (and, for waste, a write-off) for the stock an order consumed
+-- and put returned stock back on hand. Returns already posted are netted out,
+-- so stock is never returned twice. refund_lines limits the reversal to the
+-- refunded quantities of some lines, as [{ order_item_id, quantity }]; sale
+-- transactions from before they carried order_item_id get no line-level
+-- reversal. Callers lock the order first, so reversals of one order never overlap.
+CREATE OR REPLACE FUNCTION public.reverse_order_stock(
+  target_order_id UUID,
+  handling TEXT,
+  reversal_notes TEXT,
+  refund_lines JSONB DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  posted_at TIMESTAMPTZ := NOW();
+  order_shop_id UUID;
+  reversals JSONB;
+BEGIN
+  SELECT shop_id INTO order_shop_id FROM orders WHERE id = target_order_id;
+
+  -- Sold vs already returned, per inventory item and order line
+  WITH stock AS (
+    SELECT
+      t.item_id,
+      t.order_item_id,
+      MAX(t.item_name) AS item_name,
+      MAX(COALESCE(t.unit_cost, 0)) AS unit_cost,
+      SUM(CASE WHEN t.transaction_type = 'sale' THEN COALESCE(t.quantity_out, 0) ELSE 0 END) AS sold,
+      SUM(CASE WHEN t.transaction_type = 'return' THEN COALESCE(t.quantity_in, 0) ELSE 0 END) AS returned
+    FROM inventory_transactions t
+    WHERE t.reference = target_order_id::TEXT
+      AND t.transaction_type IN ('sale', 'return')
+      AND t.item_id IS NOT NULL
+    GROUP BY t.item_id, t.order_item_id
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(r)), '[]')
+  INTO reversals
+  FROM (
+    SELECT
+      stock.item_id, stock.item_name, stock.order_item_id, stock.unit_cost,
+      CASE
+        WHEN refund_lines IS NULL THEN stock.sold - stock.returned
+        -- Refunded share of what the line consumed, never more than is still out
+        ELSE LEAST(ROUND(stock.sold * line.quantity / oi.quantity, 3), stock.sold - stock.returned)
+      END AS quantity
+    FROM stock
+    LEFT JOIN jsonb_to_recordset(refund_lines) AS line(order_item_id UUID, quantity NUMERIC)
+      ON line.order_item_id = stock.order_item_id
+    LEFT JOIN order_items oi ON oi.id = line.order_item_id
+    WHERE refund_lines IS NULL OR oi.quantity > 0
+  ) r
+  WHERE r.quantity > 0;
+
+  -- Lock in the same order as create_order, so a reversal and a checkout can't deadlock
+  PERFORM 1
+  FROM inventory_items inv
+  WHERE inv.id IN (
+    SELECT r.item_id FROM jsonb_to_recordset(reversals) AS r(item_id UUID)
+  )
+  ORDER BY inv.id
+  FOR UPDATE;
+
+  INSERT INTO inventory_transactions (
+    shop_id, transaction_type, item_id, item_name, user_id, transaction_on,
+    quantity_in, quantity_out, unit_cost, reference, order_item_id, notes,
+    created_by, updated_by
+  )
+  SELECT
+    order_shop_id, kind.transaction_type, r.item_id, r.item_name, acting_user_id, posted_at,
+    CASE WHEN kind.transaction_type = 'return' THEN r.quantity ELSE 0 END,
+    CASE WHEN kind.transaction_type = 'waste' THEN r.quantity ELSE 0 END,
+    r.unit_cost, target_order_id::TEXT, r.order_item_id, reversal_notes,
+    acting_user_id, acting_user_id
+  FROM jsonb_to_recordset(reversals)
+    AS r(item_id UUID, item_name TEXT, order_item_id UUID, unit_cost NUMERIC, quantity NUMERIC)
+  CROSS JOIN unnest(
+    CASE WHEN handling = 'waste' THEN ARRAY['return', 'waste'] ELSE ARRAY['return'] END
+  ) AS kind(transaction_type)
+  ORDER BY r.item_id, kind.transaction_type;
+
+  -- Written-off stock is returned and taken out again, so only restocks change the count
+  IF handling <> 'waste' THEN
+    UPDATE inventory_items inv
+    SET
+      current_count = COALESCE(inv.current_count, 0) + returned.quantity,
+      updated_at = posted_at,
+      updated_by = acting_user_id
+    FROM (
+      SELECT r.item_id, SUM(r.quantity) AS quantity
+      FROM jsonb_to_recordset(reversals) AS r(item_id UUID, quantity NUMERIC)
+      GROUP BY r.item_id
+    ) returned
+    WHERE inv.id = returned.item_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.reverse_order_stock(UUID, TEXT, TEXT, JSONB) IS 'Return (or write off) the stock an order consumed; called by reverse_order and create_refund';
+
+-- =============================================
+-- REVERSE ORDER
+-- =============================================
+-- reversal_data: { reversal_type, reason, inventory_handling }
+-- Raises check_violation when the order was already voided or refunded, or
+-- when voiding an order that has partial refunds. Returns the marked order.
+CREATE OR REPLACE FUNCTION public.reverse_order(target_order_id UUID, reversal_data JSONB)
+RETURNS orders AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  kind TEXT := reversal_data->>'reversal_type';
+  target orders%ROWTYPE;
+BEGIN
+  IF kind IS NULL OR kind NOT IN ('voided', 'refunded') THEN
+    RAISE EXCEPTION 'Unknown reversal type %', kind USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lock the order so a concurrent void or refund waits, then finds it reversed
+  SELECT * INTO target FROM orders WHERE id = target_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.reversal_type IS NOT NULL THEN
+    RAISE EXCEPTION 'Order has already been %', target.reversal_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Voiding means the sale never happened, which no longer holds once money was refunded
+  IF kind = 'voided' AND target.refunded_total > 0 THEN
+    RAISE EXCEPTION 'Orders with refunds cannot be voided. Refund the order instead.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- An order reversed before it was handed over won't be made: take it off the board
+  UPDATE orders
+  SET
+    reversal_type = kind,
+    status = CASE WHEN status IN ('completed', 'cancelled') THEN status ELSE 'cancelled' END,
+    reversal_reason = reversal_data->>'reason',
+    reversed_by_id = acting_user_id,
+    reversed_at = NOW(),
+    updated_by = acting_user_id
+  WHERE id = target_order_id
+  RETURNING * INTO target;
+
+  -- A table whose order is voided before close-out is free again
+  DELETE FROM table_tabs WHERE order_id = target_order_id;
+
+  PERFORM reverse_order_stock(
+    target_order_id,
+    COALESCE(reversal_data->>'inventory_handling', 'restock'),
+    CASE WHEN kind = 'voided' THEN 'Void: ' ELSE 'Refund: ' END || (reversal_data->>'reason')
+  );
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.reverse_order(UUID, JSONB) IS 'Void or refund an order and return its stock in one transaction';
@@ -0,0 +1,179 @@
+-- =====================================================
+-- Create Refund Function
+-- Migration: 20260120000024_create_refund_function.sql
+-- Purpose: Record a partial refund in a single database transaction. The
+--          order is locked while the refund is checked against what is left
+--          to refund, then the refund, its lines, the order's refunded total
+--          and the stock reversal are written together, or not at all.
+-- =====================================================
+
+-- =============================================
+-- ORDERS
+-- =============================================
+-- Refunds can never add up to more than was taken
+ALTER TABLE orders
+  ADD CONSTRAINT check_refunded_total
+  CHECK (refunded_total >= 0 AND refunded_total <= total_sale);
+
+-- =============================================
+-- ORDER ITEM VALUES
+-- =============================================
+-- What the customer paid for each line: its total after its own discounts,
+-- with order-level discounts and tax added on top spread across lines in
+-- proportion. Tip and delivery fee belong to no line. Mirrors getOrderItemValues.
+CREATE OR REPLACE FUNCTION public.order_item_values(target_order_id UUID)
+RETURNS TABLE (order_item_id UUID, amount NUMERIC) AS $$
+  WITH lines AS (
+    -- Modifier adjustments are per unit, addon quantities are already scaled
+    SELECT
+      oi.id,
+      oi.product_unit_price * oi.quantity
+      + COALESCE((
+        SELECT SUM(COALESCE(a.price, 0) * COALESCE(a.quantity, 0))
+        FROM order_item_addons a
+        WHERE a.order_item_id = oi.id
+      ), 0)
+      + COALESCE((
+        SELECT SUM(COALESCE(m.price_adjustment, 0))
+        FROM order_item_modifiers m
+        WHERE m.order_item_id = oi.id
+      ), 0) * oi.quantity
+      - COALESCE((
+        SELECT SUM(d.amount)
+        FROM order_discounts d
+        WHERE d.order_item_id = oi.id
+      ), 0) AS net
+    FROM order_items oi
+    WHERE oi.order_id = target_order_id
+  ),
+  charged AS (
+    SELECT
+      o.subtotal - o.discount
+      + CASE
+        WHEN o.tax_inclusive THEN 0
+        ELSE COALESCE((SELECT SUM(t.tax) FROM order_tax_lines t WHERE t.order_id = o.id), o.tax)
+      END AS amount
+    FROM orders o
+    WHERE o.id = target_order_id
+  ),
+  totals AS (
+    SELECT SUM(lines.net) AS net FROM lines
+  )
+  SELECT
+    lines.id,
+    CASE WHEN totals.net > 0 THEN lines.net * charged.amount / totals.net ELSE 0 END
+  FROM lines, charged, totals;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.order_item_values(UUID) IS 'Amount paid for each line of an order, after discounts and with tax';
+
+-- =============================================
+-- CREATE REFUND
+-- =============================================
+-- refund_data: { amount, payment_type_id, reason, inventory_handling, items }
+--   items - [{ order_item_id, quantity, amount }], each line listed once
+-- Raises check_violation when the order was voided or refunded in full, or a
+-- quantity or amount is more than is left to refund. Returns the refund row.
+CREATE OR REPLACE FUNCTION public.create_refund(target_order_id UUID, refund_data JSONB)
+RETURNS order_refunds AS $$
+DECLARE
+  acting_user_id UUID := auth.uid();
+  refund_amount DECIMAL(10,2) := (refund_data->>'amount')::DECIMAL;
+  refund_lines JSONB := COALESCE(refund_data->'items', '[]');
+  target orders%ROWTYPE;
+  new_refund order_refunds%ROWTYPE;
+  line_problem TEXT;
+BEGIN
+  -- Lock the order so concurrent refunds are checked one after the other
+  SELECT * INTO target FROM orders WHERE id = target_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.reversal_type IS NOT NULL THEN
+    RAISE EXCEPTION 'Order has already been %', target.reversal_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF jsonb_array_length(refund_lines) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to refund' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF refund_amount IS NULL OR refund_amount <= 0
+    OR refund_amount > target.total_sale - target.refunded_total THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero and within the net total'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Check every line against what earlier refunds left of its quantity and of
+  -- what was paid for it
+  SELECT checked.problem
+  INTO line_problem
+  FROM (
+    SELECT
+      CASE
+        WHEN oi.id IS NULL THEN 'Refund item does not belong to this order'
+        WHEN COUNT(*) OVER (PARTITION BY line.order_item_id) > 1 THEN
+          format('%s is listed more than once', oi.product_name)
+        WHEN line.quantity IS NULL OR line.quantity <= 0
+          OR line.quantity > oi.quantity - refunded.quantity THEN
+          format('Only %s of %s can still be refunded', oi.quantity - refunded.quantity, oi.product_name)
+        WHEN line.amount IS NULL OR line.amount < 0
+          OR line.amount > ROUND(paid.amount - refunded.amount, 2) THEN
+          format(
+            'Only %s of the amount for %s can still be refunded',
+            trim_scale(GREATEST(ROUND(paid.amount - refunded.amount, 2), 0)), oi.product_name
+          )
+      END AS problem
+    FROM jsonb_to_recordset(refund_lines)
+      AS line(order_item_id UUID, quantity INT, amount NUMERIC)
+    LEFT JOIN order_items oi ON oi.id = line.order_item_id AND oi.order_id = target_order_id
+    LEFT JOIN order_item_values(target_order_id) paid ON paid.order_item_id = oi.id
+    LEFT JOIN LATERAL (
+      SELECT COALESCE(SUM(ri.quantity), 0) AS quantity, COALESCE(SUM(ri.amount), 0) AS amount
+      FROM order_refund_items ri
+      WHERE ri.order_item_id = oi.id
+    ) refunded ON TRUE
+  ) checked
+  WHERE checked.problem IS NOT NULL
+  LIMIT 1;
+
+  IF line_problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', line_problem USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO order_refunds (
+    shop_id, order_id, amount, payment_type_id, reason, inventory_handling,
+    refunded_by_id, refunded_at, created_by, updated_by
+  )
+  VALUES (
+    target.shop_id, target.id, refund_amount,
+    NULLIF(refund_data->>'payment_type_id', '')::UUID,
+    refund_data->>'reason',
+    COALESCE(refund_data->>'inventory_handling', 'restock'),
+    acting_user_id, NOW(), acting_user_id, acting_user_id
+  )
+  RETURNING * INTO new_refund;
+
+  INSERT INTO order_refund_items (refund_id, order_item_id, quantity, amount)
+  SELECT new_refund.id, line.order_item_id, line.quantity, line.amount
+  FROM jsonb_to_recordset(refund_lines) AS line(order_item_id UUID, quantity INT, amount NUMERIC);
+
+  UPDATE orders
+  SET
+    refunded_total = refunded_total + refund_amount,
+    updated_by = acting_user_id
+  WHERE id = target_order_id;
+
+  PERFORM reverse_order_stock(
+    target_order_id,
+    new_refund.inventory_handling,
+    'Refund: ' || new_refund.reason,
+    refund_lines
+  );
+
+  RETURN new_refund;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.create_refund(UUID, JSONB) IS 'Refund lines of an order, update its refunded total and return their stock in one transaction';